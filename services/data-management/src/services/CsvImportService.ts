@@ -3,6 +3,7 @@ import * as path from 'path';
 import csv from 'csv-parser';
 import { SupabaseService } from './SupabaseService';
 import { SmartCsvParser } from './SmartCsvParser';
+import { DatasetEventNotifier } from './DatasetEventNotifier';
 import { CsvRow, ImportResult, DatasetEntry, ValidationResult } from '../types/DataTypes';
 
 export class CsvImportService {
@@ -113,6 +114,10 @@ export class CsvImportService {
 
       console.log(`✅ Smart import to dataset ${datasetId} completed: ${result.importedRows}/${result.totalRows} rows imported`);
 
+      if (result.success) {
+        await DatasetEventNotifier.getInstance().notifyImportCompleted(datasetId, result.importedRows);
+      }
+
       return result;
 
     } catch (error) {
@@ -225,6 +230,10 @@ export class CsvImportService {
 
       console.log(`✅ Smart import completed: ${result.importedRows}/${result.totalRows} rows imported`);
 
+      if (result.success) {
+        await DatasetEventNotifier.getInstance().notifyImportCompleted(dataset.id, result.importedRows);
+      }
+
       return result;
 
     } catch (error) {
@@ -322,6 +331,10 @@ export class CsvImportService {
 
       console.log(`Import completed: ${result.importedRows}/${result.totalRows} rows imported, ${result.skippedRows} skipped, ${result.duplicateRows} duplicates`);
 
+      if (result.success) {
+        await DatasetEventNotifier.getInstance().notifyImportCompleted(dataset.id, result.importedRows);
+      }
+
       return result;
 
     } catch (error) {
@@ -0,0 +1,40 @@
+import axios from 'axios';
+
+/**
+ * Tells dataset-matching that dataset entries changed, so it can re-screen
+ * watchlists right away instead of waiting for its next datasets version poll.
+ * Disabled unless DATASET_MATCHING_URL is set; failures are logged, never thrown.
+ */
+export class DatasetEventNotifier {
+  private static instance: DatasetEventNotifier;
+  private baseUrl: string | null;
+
+  private constructor() {
+    this.baseUrl = process.env.DATASET_MATCHING_URL ? process.env.DATASET_MATCHING_URL.replace(/\/+$/, '') : null;
+  }
+
+  public static getInstance(): DatasetEventNotifier {
+    if (!DatasetEventNotifier.instance) {
+      DatasetEventNotifier.instance = new DatasetEventNotifier();
+    }
+    return DatasetEventNotifier.instance;
+  }
+
+  async notifyImportCompleted(datasetId: string, importedRows: number): Promise<void> {
+    if (!this.baseUrl) return;
+
+    try {
+      await axios.post(
+        `${this.baseUrl}/api/dataset-matching/datasets/updated`,
+        { dataset_id: datasetId, imported_rows: importedRows },
+        {
+          headers: process.env.DATASET_EVENTS_TOKEN ? { 'X-Events-Token': process.env.DATASET_EVENTS_TOKEN } : {},
+          timeout: 10000
+        }
+      );
+      console.log(`📣 Notified dataset-matching of import into dataset ${datasetId}`);
+    } catch (error) {
+      console.warn('Failed to notify dataset-matching of import:', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
@@ -251,7 +251,10 @@ export class SupabaseService {
   async updateDatasetEntry(id: string, updates: Partial<DatasetEntry>): Promise<DatasetEntry> {
     const { data, error } = await this.client
       .from('dataset_entries')
-      .update(updates)
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
       .eq('id', id)
       .select()
       .single();
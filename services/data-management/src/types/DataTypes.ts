@@ -93,6 +93,7 @@ export interface DatasetEntry {
   category?: string;
   metadata?: any;
   created_at: string;
+  updated_at?: string;
 }
 
 export interface CreateDatasetRequest {
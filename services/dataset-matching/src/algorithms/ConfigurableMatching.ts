@@ -1,10 +1,13 @@
 import { TextMatching } from './TextMatching';
 import { EntityNormalization } from './EntityNormalization';
+import { PhoneticMatching } from './PhoneticMatching';
+import { SemanticMatching } from './SemanticMatching';
 import { ConfigManager } from '../utils/ConfigManager';
 import { CountryNormalizer } from '../utils/CountryNormalizer';
-import { DatasetMatch, EnhancedDatasetMatch } from '../types/DatasetMatchTypes';
+import { Gazetteer } from '../utils/Gazetteer';
+import { DatasetMatch, EnhancedDatasetMatch, NormalizationStep } from '../types/DatasetMatchTypes';
 
-interface AdvancedSimilarityResult {
+export interface AdvancedSimilarityResult {
   score: number;
   matchType: DatasetMatch['match_type'];
   explanation: string;
@@ -13,6 +16,8 @@ interface AdvancedSimilarityResult {
     levenshtein?: number;
     word_level?: number;
     character_ngram?: number;
+    phonetic?: number;
+    semantic?: number;
     acronym_boost?: number;
     geographic_boost?: number;
     context_boost?: number;
@@ -20,7 +25,7 @@ interface AdvancedSimilarityResult {
   };
 }
 
-interface MatchContext {
+export interface MatchContext {
   searchLocation?: string;
   entityCountries?: string[];
   searchContext?: string;
@@ -100,9 +105,24 @@ export class ConfigurableMatching {
       return result;
     }
 
+    // Phonetic / transliteration similarity works on the raw texts, so a strong
+    // hit must not be cut off by the Latin-only early termination below
+    const phoneticConfig = this.configManager.getPhoneticConfig();
+    const phoneticScore = phoneticConfig.weight > 0
+      ? PhoneticMatching.calculatePhoneticSimilarity(searchText, targetText)
+      : undefined;
+    const strongPhonetic = phoneticScore !== undefined && phoneticScore >= phoneticConfig.match_threshold;
+
+    // Same for reworded names that only the embedding model recognises
+    const semanticConfig = this.configManager.getSemanticConfig();
+    const semanticScore = semanticConfig.weight > 0
+      ? SemanticMatching.getInstance().similarity(searchText, targetText)
+      : undefined;
+    const strongSemantic = semanticScore !== undefined && semanticScore >= semanticConfig.match_threshold;
+
     // Early termination: Check minimum similarity threshold
     const earlyTerminationConfig = config.performance_tuning?.early_termination;
-    if (earlyTerminationConfig?.enable) {
+    if (earlyTerminationConfig?.enable && !strongPhonetic && !strongSemantic) {
       const minSimilarityThreshold = earlyTerminationConfig.confidence_threshold || 0.9;
 
       // Quick check using most efficient algorithm first
@@ -119,23 +139,28 @@ export class ConfigurableMatching {
 
     // Calculate component similarities (only if passed early termination)
     const components = this.calculateComponentSimilarities(processedSearch, processedTarget);
-    result.components = { ...result.components, ...components };
+    result.components = { ...result.components, ...components, phonetic: phoneticScore, semantic: semanticScore };
 
-    // Calculate weighted score
+    // Calculate weighted score: a weighted average, so phonetic and semantic
+    // weights do not have to be taken out of the surface-text weights
     let weightedScore = 0;
+    let totalWeight = 0;
     const algorithms = config.algorithms;
+    const addComponent = (score: number | undefined, weight: number) => {
+      if (score === undefined) return;
+      weightedScore += score * weight;
+      totalWeight += weight;
+    };
 
-    if (components.jaro_winkler !== undefined) {
-      weightedScore += components.jaro_winkler * (algorithms.jaro_winkler?.weight || 0.4);
-    }
-    if (components.levenshtein !== undefined) {
-      weightedScore += components.levenshtein * (algorithms.levenshtein?.weight || 0.3);
-    }
-    if (components.word_level !== undefined) {
-      weightedScore += components.word_level * (algorithms.word_level_similarity?.weight || 0.2);
-    }
-    if (components.character_ngram !== undefined) {
-      weightedScore += components.character_ngram * (algorithms.character_ngram?.weight || 0.1);
+    addComponent(components.jaro_winkler, algorithms.jaro_winkler?.weight ?? 0.4);
+    addComponent(components.levenshtein, algorithms.levenshtein?.weight ?? 0.3);
+    addComponent(components.word_level, algorithms.word_level_similarity?.weight ?? 0.2);
+    addComponent(components.character_ngram, algorithms.character_ngram?.weight ?? 0.1);
+    addComponent(phoneticScore, phoneticConfig.weight);
+    addComponent(semanticScore, semanticConfig.weight);
+
+    if (totalWeight > 0) {
+      weightedScore /= totalWeight;
     }
 
     // Apply context boosts
@@ -157,6 +182,20 @@ export class ConfigurableMatching {
     result.matchType = matchTypeResult.type;
     result.explanation = matchTypeResult.explanation;
 
+    // Transliterated or phonetically equivalent names score low on surface algorithms
+    if (strongPhonetic && phoneticScore! * phoneticConfig.confidence_factor > result.score) {
+      result.score = phoneticScore! * phoneticConfig.confidence_factor;
+      result.matchType = 'phonetic';
+      result.explanation = 'Phonetic or transliteration match';
+    }
+
+    // Reworded names (reordered words, ordinals, synonyms) score low on surface algorithms too
+    if (strongSemantic && semanticScore! * semanticConfig.confidence_factor > result.score) {
+      result.score = semanticScore! * semanticConfig.confidence_factor;
+      result.matchType = 'semantic';
+      result.explanation = 'Semantic (embedding) match';
+    }
+
     return result;
   }
 
@@ -171,22 +210,43 @@ export class ConfigurableMatching {
   }
 
   /**
-   * Preprocess text according to configuration
+   * Record every preprocessing step applied to a text (used by explain reports)
+   */
+  public traceNormalization(text: string): NormalizationStep[] {
+    const steps: NormalizationStep[] = [{ step: 'original', result: text }];
+    this.preprocessText(text, steps);
+    return steps;
+  }
+
+  /**
+   * Preprocess text according to configuration.
+   * When a steps array is passed, each step that changed the text is appended to it.
    */
-  private preprocessText(text: string): string {
+  private preprocessText(text: string, steps?: NormalizationStep[]): string {
     const config = this.configManager.getMatchingConfig().similarity.preprocessing;
     let processed = text;
+    const record = (step: string, result: string) => {
+      if (steps && result !== processed) steps.push({ step, result });
+      processed = result;
+    };
+
+    // NFKC + native-script legal forms first, while the original script is still intact
+    record('unicode_nfkc', EntityNormalization.unicodeNormalize(processed));
+    record('legal_forms_removed', EntityNormalization.stripScriptLegalSuffixes(processed));
+    if (this.configManager.getTransliterationConfig().enable) {
+      record('transliterated', PhoneticMatching.transliterate(processed));
+    }
 
     if (config.convert_to_lowercase) {
-      processed = processed.toLowerCase();
+      record('lowercased', processed.toLowerCase());
     }
 
     if (config.remove_punctuation) {
-      processed = processed.replace(/[^\w\s]/g, ' ');
+      record('punctuation_removed', processed.replace(/[^\p{L}\p{N}\s]/gu, ' '));
     }
 
     if (config.normalize_whitespace) {
-      processed = processed.replace(/\s+/g, ' ').trim();
+      record('whitespace_normalized', processed.replace(/\s+/g, ' ').trim());
     }
 
     // Remove common words
@@ -195,15 +255,17 @@ export class ConfigurableMatching {
       const filteredWords = words.filter(word =>
         !config.remove_common_words.includes(word.toLowerCase())
       );
-      processed = filteredWords.join(' ');
+      record('common_words_removed', filteredWords.join(' '));
     }
 
     // Normalize organization suffixes
     if (config.normalize_organization_suffixes) {
+      let withoutSuffixes = processed;
       for (const suffix of config.normalize_organization_suffixes) {
         const regex = new RegExp(`\\b${suffix}\\b`, 'gi');
-        processed = processed.replace(regex, '').trim();
+        withoutSuffixes = withoutSuffixes.replace(regex, '').trim();
       }
+      record('organization_suffixes_removed', withoutSuffixes);
     }
 
     return processed;
@@ -277,6 +339,17 @@ export class ConfigurableMatching {
    * Calculate individual algorithm similarities
    */
   private calculateComponentSimilarities(searchText: string, targetText: string) {
+    // CJK names have no spaces, so word and trigram overlap degrade to character bigrams
+    if (EntityNormalization.containsCJK(searchText) || EntityNormalization.containsCJK(targetText)) {
+      const bigramSimilarity = TextMatching.cjkBigramSimilarity(searchText, targetText);
+      return {
+        jaro_winkler: TextMatching.jaroWinklerSimilarity(searchText, targetText),
+        levenshtein: TextMatching.normalizedLevenshteinDistance(searchText, targetText),
+        word_level: bigramSimilarity,
+        character_ngram: bigramSimilarity
+      };
+    }
+
     return {
       jaro_winkler: TextMatching.jaroWinklerSimilarity(searchText, targetText),
       levenshtein: TextMatching.normalizedLevenshteinDistance(searchText, targetText),
@@ -311,7 +384,7 @@ export class ConfigurableMatching {
     // Geographic boost
     if (context?.searchLocation && context?.entityCountries && context.entityCountries[0]) {
       const relationship = this.countryNormalizer.calculateGeographicRelationship(
-        context.searchLocation,
+        Gazetteer.getInstance().resolveCountry(context.searchLocation) || context.searchLocation,
         context.entityCountries[0] // Use first country
       );
       boosts.geographic_boost = relationship.boost_factor;
@@ -1,4 +1,4 @@
-import { NormalizedEntity } from '../types/DatasetMatchTypes';
+import { EntityType, NormalizedEntity } from '../types/DatasetMatchTypes';
 
 export class EntityNormalization {
   // Common generic terms that indicate low specificity
@@ -31,6 +31,149 @@ export class EntityNormalization {
     'group', 'holdings', 'enterprises', 'international', 'global'
   ]);
 
+  // Legal forms that say nothing about which organization is meant
+  private static readonly LEGAL_FORMS = new Set([
+    'inc', 'ltd', 'llc', 'corp', 'corporation', 'company', 'co', 'limited', 'plc',
+    'gmbh', 'ag', 'sa', 'jsc', 'pjsc', 'ojsc', 'ooo', 'oao', 'zao', 'pao'
+  ]);
+
+  // Legal-form suffixes in native scripts (CJK, Cyrillic, Arabic)
+  private static readonly SCRIPT_LEGAL_SUFFIXES = [
+    '股份有限公司', '有限责任公司', '有限責任公司', '集团有限公司', '集團有限公司',
+    '有限公司', '株式会社', '有限会社', '주식회사', '유한회사', '公司', '集团', '集團',
+    'ооо', 'оао', 'зао', 'пао', 'ао', 'ип', 'фгуп', 'гуп', 'муп', 'тов', 'пат',
+    'شركة', 'ذ.م.م', 'ش.م.م', 'ش.م.ع'
+  ];
+
+  // CJK terms that carry no distinguishing information on their own
+  private static readonly CJK_GENERIC_TERMS = [
+    '中国', '中華', '中华', '大学', '大學', '研究所', '研究院', '学院', '學院', '公司', '集团', '集團'
+  ];
+
+  private static readonly CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+  /**
+   * Check whether a single word is a generic or stop term
+   */
+  static isGenericTerm(word: string): boolean {
+    const normalized = word.toLowerCase();
+    return this.GENERIC_TERMS.has(normalized) || this.STOP_WORDS.has(normalized);
+  }
+
+  /**
+   * Check whether a single word is a legal form or a stop word
+   */
+  static isLegalFormOrStopWord(word: string): boolean {
+    const normalized = word.toLowerCase();
+    return this.LEGAL_FORMS.has(normalized) || this.STOP_WORDS.has(normalized);
+  }
+
+  /**
+   * Check whether text contains CJK (Han, Kana or Hangul) characters
+   */
+  static containsCJK(text: string): boolean {
+    return !!text && this.CJK_PATTERN.test(text);
+  }
+
+  /**
+   * Unicode normalization: NFKC (folds full-width forms), lowercase, and
+   * full-width / CJK punctuation replaced by spaces
+   */
+  static unicodeNormalize(text: string): string {
+    if (!text) return '';
+
+    return text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[\u3000-\u303f\uff01-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65\u30fb]/g, ' ');
+  }
+
+  /**
+   * Strip Latin diacritics (é → e, ø → o, ß → ss). Other scripts are left as they are.
+   */
+  static foldDiacritics(text: string): string {
+    if (!text) return '';
+
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .normalize('NFC')
+      .replace(/ß/g, 'ss')
+      .replace(/[øØ]/g, match => match === 'ø' ? 'o' : 'O')
+      .replace(/[æÆ]/g, match => match === 'æ' ? 'ae' : 'AE')
+      .replace(/[œŒ]/g, match => match === 'œ' ? 'oe' : 'OE')
+      .replace(/[łŁ]/g, match => match === 'ł' ? 'l' : 'L')
+      .replace(/[đĐ]/g, match => match === 'đ' ? 'd' : 'D')
+      .replace(/ı/g, 'i');
+  }
+
+  /**
+   * Map an imported schema (Person, Organization, Company, Vessel …) to an entity type.
+   * Unknown or missing schemas return null and are never treated as a type mismatch.
+   */
+  static resolveEntityType(schema?: string | null): EntityType | null {
+    switch ((schema || '').trim().toLowerCase()) {
+      case 'person':
+        return 'person';
+      case 'organization':
+      case 'organisation':
+      case 'company':
+      case 'legalentity':
+      case 'publicbody':
+        return 'organization';
+      case 'vessel':
+        return 'vessel';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Remove native-script legal suffixes (有限公司, ООО, شركة ...).
+   * Text that would be left empty is returned unchanged.
+   */
+  static stripScriptLegalSuffixes(text: string): string {
+    if (!text) return '';
+
+    let stripped = text;
+    for (const suffix of this.SCRIPT_LEGAL_SUFFIXES) {
+      if (this.containsCJK(suffix)) {
+        // CJK has no word boundaries; suffixes are removed wherever they appear
+        stripped = stripped.split(suffix).join(' ');
+      } else {
+        const escaped = suffix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        stripped = stripped.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu'), ' ');
+      }
+    }
+
+    stripped = stripped.replace(/\s+/g, ' ').trim();
+    return stripped.length > 0 ? stripped : text.trim();
+  }
+
+  /**
+   * Split CJK text into overlapping character bigrams (single characters stay as-is)
+   */
+  static cjkBigrams(text: string): string[] {
+    const chars = Array.from(text.replace(/\s+/g, ''));
+    if (chars.length < 2) return chars;
+
+    const bigrams: string[] = [];
+    for (let i = 0; i < chars.length - 1; i++) {
+      bigrams.push(chars[i] + chars[i + 1]);
+    }
+    return bigrams;
+  }
+
+  /**
+   * Words of a normalized text; CJK runs are split into character bigrams
+   */
+  private static splitWords(text: string): string[] {
+    return text
+      .split(/\s+/)
+      .filter(word => word.length > 0)
+      .flatMap(word => this.containsCJK(word) ? this.cjkBigrams(word) : [word]);
+  }
+
   /**
    * Extract bracketed content and abbreviations from text
    */
@@ -88,15 +231,16 @@ export class EntityNormalization {
   static normalizeText(text: string): string {
     if (!text) return '';
 
-    return text
-      .toLowerCase()
+    const normalized = this.unicodeNormalize(text)
       .trim()
       // Remove parentheses and their contents for base normalization
       .replace(/\s*\([^)]*\)/g, '')
       // Remove common organizational suffixes/prefixes
-      .replace(/\b(university of|institute of|center for|centre for|the|inc|ltd|llc|corp|corporation|company|co|limited)\b/g, '')
-      // Remove special characters and normalize spacing
-      .replace(/[^\w\s]/g, ' ')
+      .replace(/\b(university of|institute of|center for|centre for|the|inc|ltd|llc|corp|corporation|company|co|limited)\b/g, '');
+
+    return this.stripScriptLegalSuffixes(normalized)
+      // Remove special characters (any script's letters and digits are kept) and normalize spacing
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
       // Replace multiple spaces with single space
       .replace(/\s+/g, ' ')
       .trim();
@@ -126,8 +270,8 @@ export class EntityNormalization {
   static getSpecificityScore(text: string): number {
     if (!text) return 0;
 
-    const normalized = text.toLowerCase().trim();
-    const words = normalized.split(/\s+/).filter(word => word.length > 0);
+    const normalized = this.unicodeNormalize(text).trim();
+    const words = this.splitWords(normalized);
 
     if (words.length === 0) return 0;
 
@@ -139,8 +283,9 @@ export class EntityNormalization {
     const genericPenalty = (genericWordCount / words.length) * 0.7;
     score -= genericPenalty;
 
-    // Bonus for longer terms
-    const lengthBonus = Math.min(normalized.length / 50, 0.3);
+    // Bonus for longer terms (a CJK character carries roughly a Latin syllable pair)
+    const effectiveLength = this.containsCJK(normalized) ? normalized.length * 3 : normalized.length;
+    const lengthBonus = Math.min(effectiveLength / 50, 0.3);
     score += lengthBonus;
 
     // Bonus for having numbers or special formatting indicators
@@ -149,7 +294,7 @@ export class EntityNormalization {
     }
 
     // Penalty for very short terms
-    if (normalized.length < 5) {
+    if (effectiveLength < 5) {
       score *= 0.5;
     }
 
@@ -241,11 +386,20 @@ export class EntityNormalization {
   static shouldSkipMatching(entityName: string): boolean {
     if (!entityName) return true;
 
-    const normalized = entityName.toLowerCase().trim();
+    const normalized = this.unicodeNormalize(entityName).trim();
 
     // Skip if too short
     if (normalized.length < 2) return true;
 
+    // CJK names have no spaces: skip only if nothing remains beyond legal forms and generic terms
+    if (this.containsCJK(normalized)) {
+      let remainder = normalized.replace(/[^\p{L}\p{N}]/gu, '');
+      for (const term of [...this.SCRIPT_LEGAL_SUFFIXES, ...this.CJK_GENERIC_TERMS]) {
+        if (this.containsCJK(term)) remainder = remainder.split(term).join('');
+      }
+      return remainder.length === 0;
+    }
+
     // Skip if it's only generic terms
     const words = normalized.split(/\s+/);
     const nonGenericWords = words.filter(word =>
@@ -315,13 +469,11 @@ export class EntityNormalization {
   static calculateWordOverlap(str1: string, str2: string): number {
     if (!str1 || !str2) return 0;
 
-    const words1 = str1.toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !this.STOP_WORDS.has(word));
+    const toWords = (text: string) => this.splitWords(this.unicodeNormalize(text))
+      .filter(word => (word.length > 2 || this.containsCJK(word)) && !this.STOP_WORDS.has(word));
 
-    const words2 = str2.toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !this.STOP_WORDS.has(word));
+    const words1 = toWords(str1);
+    const words2 = toWords(str2);
 
     if (words1.length === 0 || words2.length === 0) return 0;
 
@@ -352,11 +504,11 @@ export class EntityNormalization {
    */
   static extractKeywords(text: string, minLength: number = 3): string[] {
     const normalized = this.normalizeText(text);
-    const words = normalized.split(/\s+/);
+    const words = this.splitWords(normalized);
 
     return words
       .filter(word =>
-        word.length >= minLength &&
+        (word.length >= minLength || this.containsCJK(word)) &&
         !this.STOP_WORDS.has(word) &&
         !this.GENERIC_TERMS.has(word)
       )
@@ -1,28 +1,35 @@
 import { CountryNormalizer } from '../utils/CountryNormalizer';
 import { ConfigManager } from '../utils/ConfigManager';
+import { Gazetteer, ParsedLocation } from '../utils/Gazetteer';
 
 interface GeographicContext {
-  searchLocation?: string;
+  searchLocation?: string; // A country, or an address / "city, province, country"
   entityCountries?: string[];
+  entityAddresses?: string; // Free-text addresses of the dataset entry
   searchRadius?: 'local' | 'regional' | 'global';
   prioritizeLocal?: boolean;
 }
 
-interface GeographicScore {
+export type GeographicRelationship = 'same_city' | 'same_province' | 'same_country' | 'same_region' | 'different_region' | 'unknown';
+
+export interface GeographicScore {
   relevance_score: number;
   boost_factor: number;
-  relationship: 'same_country' | 'same_region' | 'different_region' | 'unknown';
+  relationship: GeographicRelationship;
   matched_countries: string[];
+  matched_places: string[]; // Entry addresses placed in the same city or province as the search location
   explanation: string;
 }
 
 export class GeographicMatching {
   private static instance: GeographicMatching;
   private countryNormalizer: CountryNormalizer;
+  private gazetteer: Gazetteer;
   private configManager: ConfigManager;
 
   private constructor() {
     this.countryNormalizer = CountryNormalizer.getInstance();
+    this.gazetteer = Gazetteer.getInstance();
     this.configManager = ConfigManager.getInstance();
   }
 
@@ -46,58 +53,77 @@ export class GeographicMatching {
         boost_factor: 1.0,
         relationship: 'unknown',
         matched_countries: [],
+        matched_places: [],
         explanation: 'Geographic matching disabled'
       };
     }
 
     // Return neutral score if no geographic context
-    if (!context.searchLocation || !context.entityCountries || context.entityCountries.length === 0) {
+    const hasEntityLocation = (context.entityCountries && context.entityCountries.length > 0) || !!context.entityAddresses;
+    if (!context.searchLocation || !hasEntityLocation) {
       return {
         relevance_score: 1.0,
         boost_factor: 1.0,
         relationship: 'unknown',
         matched_countries: [],
+        matched_places: [],
         explanation: 'No geographic context provided'
       };
     }
 
-    const searchCountry = this.countryNormalizer.normalizeCountry(context.searchLocation);
+    // The location may name only a city or province ("Harbin"); its country then comes from the gazetteer
+    const searchCountry = this.gazetteer.resolveCountry(context.searchLocation);
     if (!searchCountry) {
       return {
         relevance_score: 1.0,
         boost_factor: 1.0,
         relationship: 'unknown',
         matched_countries: [],
+        matched_places: [],
         explanation: `Unrecognized location: ${context.searchLocation}`
       };
     }
 
-    // Normalize entity countries
-    const normalizedEntityCountries = context.entityCountries
+    // Normalize entity countries, falling back to the countries of its addresses
+    let normalizedEntityCountries = (context.entityCountries || [])
       .map(country => this.countryNormalizer.normalizeCountry(country))
       .filter(match => match !== null)
       .map(match => match!.canonical);
 
+    if (normalizedEntityCountries.length === 0 && context.entityAddresses && config.enable_subnational) {
+      normalizedEntityCountries = Array.from(new Set(this.gazetteer.parseAddresses(context.entityAddresses)
+        .map(place => place.country)
+        .filter((country): country is string => country !== null)));
+    }
+
     if (normalizedEntityCountries.length === 0) {
       return {
         relevance_score: 0.8,
         boost_factor: config.location_penalty_factor,
         relationship: 'unknown',
         matched_countries: [],
+        matched_places: [],
         explanation: 'Entity has no valid country information'
       };
     }
 
     // Calculate best relationship among all entity countries
-    let bestScore = this.calculateCountryRelationship(searchCountry.canonical, normalizedEntityCountries);
+    let bestScore = this.calculateCountryRelationship(searchCountry, normalizedEntityCountries);
+
+    // Within the same country, the entry's addresses can place it in the searched city or province
+    const searchPlace = config.enable_subnational ? this.gazetteer.parse(context.searchLocation) : null;
+    const subnational = !!searchPlace && !!(searchPlace.city || searchPlace.province);
+    if (subnational && bestScore.relationship === 'same_country' && context.entityAddresses) {
+      bestScore = this.calculatePlaceRelationship(searchPlace!, context.entityAddresses) || bestScore;
+    }
 
     // Apply search radius modifiers
     if (context.searchRadius) {
-      bestScore = this.applySearchRadiusModifier(bestScore, context.searchRadius);
+      bestScore = this.applySearchRadiusModifier(bestScore, context.searchRadius, subnational);
     }
 
     // Apply priority country boost
-    if (context.prioritizeLocal && this.countryNormalizer.isPriorityCountry(searchCountry.canonical)) {
+    if (context.prioritizeLocal && this.countryNormalizer.isPriorityCountry(searchCountry)) {
       bestScore.boost_factor *= 1.1;
       bestScore.explanation += ' (Priority country boost applied)';
     }
@@ -119,6 +145,7 @@ export class GeographicMatching {
         boost_factor: config.same_country || 1.2,
         relationship: 'same_country',
         matched_countries: [],
+        matched_places: [],
         explanation: `Exact country match: ${searchCountry}`
       };
     }
@@ -139,6 +166,7 @@ export class GeographicMatching {
         boost_factor: config.same_region || 1.1,
         relationship: 'same_region',
         matched_countries: [],
+        matched_places: [],
         explanation: `Regional match: ${matchedRegionalCountries.join(', ')} in same region as ${searchCountry}`
       };
     }
@@ -149,22 +177,67 @@ export class GeographicMatching {
       boost_factor: config.different_region || 0.9,
       relationship: 'different_region',
       matched_countries: [],
+      matched_places: [],
       explanation: `Different region: ${entityCountries.join(', ')} vs ${searchCountry}`
     };
   }
 
   /**
-   * Apply search radius modifiers
+   * Same city or province as the search location, from the best-placed entry address
+   */
+  private calculatePlaceRelationship(searchPlace: ParsedLocation, entityAddresses: string): GeographicScore | null {
+    const config = this.configManager.getSimilarityWeights().context_adjustments.geographic_boost;
+    const places = this.gazetteer.parseAddresses(entityAddresses);
+
+    const sameCity = places.filter(place => Gazetteer.relate(searchPlace, place) === 'same_city');
+    if (sameCity.length > 0) {
+      return {
+        relevance_score: 1.0,
+        boost_factor: config.same_city || 1.35,
+        relationship: 'same_city',
+        matched_countries: [],
+        matched_places: sameCity.map(place => Gazetteer.describe(place)),
+        explanation: `Same city: ${searchPlace.city!.name}`
+      };
+    }
+
+    const sameProvince = places.filter(place => Gazetteer.relate(searchPlace, place) === 'same_province');
+    if (sameProvince.length > 0) {
+      return {
+        relevance_score: 1.0,
+        boost_factor: config.same_province || 1.25,
+        relationship: 'same_province',
+        matched_countries: [],
+        matched_places: sameProvince.map(place => Gazetteer.describe(place)),
+        explanation: `Same province: ${searchPlace.province!.name}`
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply search radius modifiers. A local search for a city or province
+   * favours entries placed there over the rest of the country
    */
-  private applySearchRadiusModifier(score: GeographicScore, radius: 'local' | 'regional' | 'global'): GeographicScore {
+  private applySearchRadiusModifier(
+    score: GeographicScore,
+    radius: 'local' | 'regional' | 'global',
+    subnational: boolean = false
+  ): GeographicScore {
     const modifiedScore = { ...score };
 
     switch (radius) {
       case 'local':
-        // Strongly prefer same country
-        if (score.relationship === 'same_country') {
+        // Strongly prefer same city, then province, then country
+        if (score.relationship === 'same_city' || (score.relationship === 'same_country' && !subnational)) {
           modifiedScore.boost_factor *= 1.3;
           modifiedScore.explanation += ' (Local search boost)';
+        } else if (score.relationship === 'same_province') {
+          modifiedScore.boost_factor *= 1.2;
+          modifiedScore.explanation += ' (Local search boost)';
+        } else if (score.relationship === 'same_country') {
+          modifiedScore.boost_factor *= 1.1;
         } else if (score.relationship === 'same_region') {
           modifiedScore.boost_factor *= 1.1;
         } else {
@@ -175,7 +248,7 @@ export class GeographicMatching {
 
       case 'regional':
         // Prefer same region
-        if (score.relationship === 'same_country' || score.relationship === 'same_region') {
+        if (score.relationship !== 'different_region' && score.relationship !== 'unknown') {
           modifiedScore.boost_factor *= 1.2;
           modifiedScore.explanation += ' (Regional search boost)';
         } else {
@@ -356,6 +429,8 @@ export class GeographicMatching {
       priority_countries: this.configManager.getCountryMappings().priority_countries.length,
       regional_groups: Object.keys(this.configManager.getCountryMappings().regional_groups).length,
       geographic_boost_enabled: this.configManager.getGeographicConfig().enable_location_boost,
+      subnational_enabled: this.configManager.getGeographicConfig().enable_subnational !== false,
+      gazetteer_version: this.gazetteer.getVersion(),
       cache_stats: this.countryNormalizer.getCacheStats()
     };
   }
@@ -0,0 +1,86 @@
+import { IdentifierMatching } from './IdentifierMatching';
+
+describe('IdentifierMatching', () => {
+  describe('check digits', () => {
+    it('accepts a valid LEI and rejects one with a changed character', () => {
+      expect(IdentifierMatching.isValidLei('5493001KJTIIGC8Y1R12')).toBe(true);
+      expect(IdentifierMatching.isValidLei('5493001KJTIIGC8Y1R13')).toBe(false);
+    });
+
+    it('accepts a valid IMO number with or without its prefix', () => {
+      expect(IdentifierMatching.isValidImo('IMO 9074729')).toBe(true);
+      expect(IdentifierMatching.isValidImo('9074728')).toBe(false);
+    });
+  });
+
+  describe('normalizeValue', () => {
+    it('reduces URLs and addresses to their host', () => {
+      expect(IdentifierMatching.normalizeValue('website_domain', 'https://www.Example.com/about')).toBe('example.com');
+      expect(IdentifierMatching.normalizeValue('email_domain', 'sales@example.co.uk')).toBe('example.co.uk');
+    });
+
+    it('drops free mail providers and codes too short to be evidence', () => {
+      expect(IdentifierMatching.normalizeValue('email_domain', 'someone@gmail.com')).toBeNull();
+      expect(IdentifierMatching.normalizeValue('tax_id', '12-3')).toBeNull();
+      expect(IdentifierMatching.normalizeValue('tax_id', '12-3456789')).toBe('123456789');
+    });
+  });
+
+  describe('parseEntry', () => {
+    it('types labelled values and keeps unlabelled codes as unknown', () => {
+      const parsed = IdentifierMatching.parseEntry({
+        identifiers: 'LEI: 5493001KJTIIGC8Y1R12; IMO 9074729; Tax ID #12-3456789; Website: www.example.com; 91110000ABC123',
+        emails: 'info@example.org, someone@gmail.com'
+      });
+
+      expect(parsed).toEqual(expect.arrayContaining([
+        { type: 'lei', value: '5493001KJTIIGC8Y1R12' },
+        { type: 'imo', value: '9074729' },
+        { type: 'tax_id', value: '123456789' },
+        { type: 'website_domain', value: 'example.com' },
+        { type: 'unknown', value: '91110000ABC123' },
+        { type: 'email_domain', value: 'example.org' }
+      ]));
+      expect(parsed).toHaveLength(6);
+    });
+
+    it('ignores bare words', () => {
+      expect(IdentifierMatching.parseEntry({ identifiers: 'see notes' })).toEqual([]);
+    });
+  });
+
+  describe('compare', () => {
+    const found = IdentifierMatching.parseEntry({ identifiers: 'LEI: 5493001KJTIIGC8Y1R12; 91110000ABC123; example.com' });
+
+    it('counts value hits of compatible types', () => {
+      const requested = IdentifierMatching.fromRequest({
+        registration_number: '91110000-ABC123',
+        email_domain: 'compliance@example.com'
+      });
+
+      const evidence = IdentifierMatching.compare(requested, found);
+      expect(evidence.hits).toEqual([
+        { type: 'registration_number', value: '91110000ABC123' },
+        { type: 'email_domain', value: 'example.com' }
+      ]);
+      expect(evidence.conflicts).toEqual([]);
+    });
+
+    it('reports a conflict only when both sides carry the same strong type', () => {
+      const requested = IdentifierMatching.fromRequest({ lei: '529900T8BM49AURSDO55', tax_id: '987654321' });
+
+      const evidence = IdentifierMatching.compare(requested, found);
+      expect(evidence.hits).toEqual([]);
+      expect(evidence.conflicts).toEqual([
+        { type: 'lei', requested: '529900T8BM49AURSDO55', found: ['5493001KJTIIGC8Y1R12'] }
+      ]);
+    });
+  });
+
+  it('fingerprints identifiers independently of order and formatting', () => {
+    expect(IdentifierMatching.fingerprint({ imo: 'IMO 9074729', tax_id: '12-3456789' }))
+      .toBe(IdentifierMatching.fingerprint({ tax_id: '123456789', imo: '9074729' }));
+    expect(IdentifierMatching.lookupValues(IdentifierMatching.fromRequest({ website_domain: 'example.com', imo: '9074729' })))
+      .toEqual(['9074729']);
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  EntityIdentifiers,
+  IdentifierConflict,
+  IdentifierHit,
+  IdentifierType,
+  ParsedIdentifier
+} from '../types/DatasetMatchTypes';
+
+export interface IdentifierEvidence {
+  hits: IdentifierHit[];
+  conflicts: IdentifierConflict[];
+}
+
+/**
+ * Structured identifier matching (LEI, registration number, IMO, tax ID,
+ * website and email domains). Dataset entries keep identifiers as free text,
+ * so values are parsed into typed, normalized identifiers; values whose kind
+ * cannot be told are kept as 'unknown' and still match any strong type.
+ */
+export class IdentifierMatching {
+  // Precise enough to confirm or contradict a match on their own
+  static readonly STRONG_TYPES: IdentifierType[] = ['lei', 'registration_number', 'imo', 'tax_id'];
+
+  private static readonly DOMAIN_TYPES: IdentifierType[] = ['website_domain', 'email_domain'];
+
+  // Shared mail providers say nothing about which organization an address belongs to
+  private static readonly FREE_EMAIL_DOMAINS = new Set([
+    'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com',
+    'aol.com', 'icloud.com', 'me.com', 'protonmail.com', 'proton.me', 'gmx.de', 'gmx.net', 'web.de',
+    'mail.ru', 'yandex.ru', 'yandex.com', 'qq.com', '163.com', '126.com', 'sina.com', 'sohu.com'
+  ]);
+
+  // Labels seen in imported identifier columns ("LEI: …", "Tax ID #…", "OGRN = …")
+  private static readonly LABELS: Array<{ pattern: RegExp; type: IdentifierType }> = [
+    { pattern: /\blei\b|legal entity identifier/i, type: 'lei' },
+    { pattern: /\bimo\b/i, type: 'imo' },
+    { pattern: /\b(tax|tin|vat|inn|ein|nif|itin|kpp)\b/i, type: 'tax_id' },
+    { pattern: /\b(reg|registration|registry|company (no|number)|crn|ogrn|uscc|unified social credit|business (no|number)|kvk|siren)\b/i, type: 'registration_number' },
+    { pattern: /\b(website|web site|url|domain)\b/i, type: 'website_domain' },
+    { pattern: /\be-?mail\b/i, type: 'email_domain' }
+  ];
+
+  // Codes shorter than this collide too easily to count as evidence
+  private static readonly MIN_CODE_LENGTH = 5;
+
+  static isStrongType(type: IdentifierType | 'unknown'): boolean {
+    return IdentifierMatching.STRONG_TYPES.includes(type as IdentifierType);
+  }
+
+  static isDomainType(type: IdentifierType | 'unknown'): boolean {
+    return IdentifierMatching.DOMAIN_TYPES.includes(type as IdentifierType);
+  }
+
+  /**
+   * Normalize the identifiers of a match request, dropping empty and unusable values
+   */
+  static fromRequest(identifiers: EntityIdentifiers): ParsedIdentifier[] {
+    const parsed: ParsedIdentifier[] = [];
+
+    (Object.keys(identifiers) as IdentifierType[]).forEach(type => {
+      const raw = identifiers[type];
+      const value = typeof raw === 'string' ? this.normalizeValue(type, raw) : null;
+      if (value) {
+        parsed.push({ type, value });
+      }
+    });
+
+    return parsed;
+  }
+
+  /**
+   * Identifier kind named by a label or column header ("LEI", "Tax ID", "company_number"), if any
+   */
+  static typeForLabel(label: string): IdentifierType | null {
+    const text = label.replace(/[_\-.]+/g, ' ').trim();
+    return this.LABELS.find(candidate => candidate.pattern.test(text))?.type || null;
+  }
+
+  /**
+   * Stable key for a request's identifiers, used in cache keys
+   */
+  static fingerprint(identifiers?: EntityIdentifiers): string {
+    if (!identifiers) return '';
+    return this.fromRequest(identifiers)
+      .map(identifier => `${identifier.type}=${identifier.value}`)
+      .sort()
+      .join(',');
+  }
+
+  /**
+   * Parse the free-text identifiers and emails columns of a dataset entry
+   */
+  static parseEntry(entry: { identifiers?: string | null; emails?: string | null }): ParsedIdentifier[] {
+    const parsed = new Map<string, ParsedIdentifier>();
+    const add = (identifier: ParsedIdentifier | null) => {
+      if (identifier) parsed.set(`${identifier.type}:${identifier.value}`, identifier);
+    };
+
+    if (typeof entry.identifiers === 'string') {
+      entry.identifiers
+        .split(/[;\n|]+|,\s+/)
+        .forEach(token => add(this.parseToken(token)));
+    }
+
+    if (typeof entry.emails === 'string') {
+      entry.emails
+        .split(/[;,\s]+/)
+        .filter(address => address.includes('@'))
+        .forEach(address => {
+          const domain = this.normalizeValue('email_domain', address);
+          add(domain ? { type: 'email_domain', value: domain } : null);
+        });
+    }
+
+    return Array.from(parsed.values());
+  }
+
+  /**
+   * Values worth an index or database lookup: strong identifiers only, since
+   * domains are shared across group companies and only corroborate a name match
+   */
+  static lookupValues(requested: ParsedIdentifier[]): string[] {
+    return Array.from(new Set(
+      requested.filter(identifier => this.isStrongType(identifier.type)).map(identifier => identifier.value)
+    ));
+  }
+
+  /**
+   * Compare requested identifiers with an entry's. A value hit counts when the
+   * types are compatible (domains with domains, strong types with the same type
+   * or an untyped value). A conflict is a strong type present on both sides
+   * with no value in common
+   */
+  static compare(requested: ParsedIdentifier[], found: ParsedIdentifier[]): IdentifierEvidence {
+    const hits: IdentifierHit[] = [];
+    const conflicts: IdentifierConflict[] = [];
+
+    for (const identifier of requested) {
+      const type = identifier.type as IdentifierType;
+      const comparable = found.filter(candidate => this.isDomainType(type)
+        ? this.isDomainType(candidate.type)
+        : candidate.type === type || candidate.type === 'unknown');
+
+      if (comparable.some(candidate => candidate.value === identifier.value)) {
+        hits.push({ type, value: identifier.value });
+        continue;
+      }
+
+      if (this.isStrongType(type)) {
+        const sameType = found.filter(candidate => candidate.type === type);
+        if (sameType.length > 0) {
+          conflicts.push({ type, requested: identifier.value, found: sameType.map(candidate => candidate.value) });
+        }
+      }
+    }
+
+    return { hits, conflicts };
+  }
+
+  /**
+   * Normalize a value of a known type; null when it cannot be used
+   */
+  static normalizeValue(type: IdentifierType, raw: string): string | null {
+    if (this.isDomainType(type)) {
+      const domain = this.normalizeDomain(raw);
+      if (!domain) return null;
+      return type === 'email_domain' && this.FREE_EMAIL_DOMAINS.has(domain) ? null : domain;
+    }
+
+    if (type === 'imo') {
+      const digits = raw.replace(/^\s*imo\s*/i, '').replace(/\D/g, '');
+      return digits.length === 7 ? digits : null;
+    }
+
+    const code = raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return code.length >= this.MIN_CODE_LENGTH ? code : null;
+  }
+
+  /**
+   * Reduce a URL, host name or email address to its registrable host
+   */
+  static normalizeDomain(raw: string): string | null {
+    let value = raw.trim().toLowerCase();
+    if (value.includes('@')) {
+      value = value.slice(value.lastIndexOf('@') + 1);
+    }
+
+    value = value
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+      .split(/[/?#]/)[0]
+      .split(':')[0]
+      .replace(/^www\./, '')
+      .replace(/\.$/, '');
+
+    const labels = value.split('.');
+    const validHost = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value) && /^[a-z]{2,}$/.test(labels[labels.length - 1]);
+    return validHost ? value : null;
+  }
+
+  /**
+   * ISO 17442 LEI: 20 alphanumerics with ISO 7064 MOD 97-10 check digits
+   */
+  static isValidLei(value: string): boolean {
+    const code = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (!/^[A-Z0-9]{18}[0-9]{2}$/.test(code)) return false;
+
+    let remainder = 0;
+    for (const char of code) {
+      const digits = /[0-9]/.test(char) ? char : String(char.charCodeAt(0) - 55);
+      for (const digit of digits) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+      }
+    }
+    return remainder === 1;
+  }
+
+  /**
+   * IMO ship number: 7 digits, the last a weighted checksum of the first six
+   */
+  static isValidImo(value: string): boolean {
+    const digits = value.replace(/^\s*imo\s*/i, '').replace(/\D/g, '');
+    if (digits.length !== 7) return false;
+
+    const sum = Array.from(digits.slice(0, 6)).reduce((total, digit, index) => total + Number(digit) * (7 - index), 0);
+    return sum % 10 === Number(digits[6]);
+  }
+
+  private static parseToken(token: string): ParsedIdentifier | null {
+    const text = token.trim();
+    if (!text) return null;
+
+    if (text.includes('@')) {
+      const domain = this.normalizeValue('email_domain', text);
+      return domain ? { type: 'email_domain', value: domain } : null;
+    }
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+      return this.parseUnlabelled(text);
+    }
+
+    // "Label: value", or "Label value" when the label is a known one ("IMO 9074729")
+    const labelled = text.match(/^([^:#=]{2,40}?)\s*[:#=]\s*(.+)$/) || text.match(/^([a-z][a-z .]{1,39}?)\s+(\S*\d\S*)$/i);
+    if (labelled) {
+      const label = this.LABELS.find(candidate => candidate.pattern.test(labelled[1]));
+      if (label) {
+        const value = this.normalizeValue(label.type, labelled[2]);
+        return value ? { type: label.type, value } : null;
+      }
+      return this.parseUnlabelled(labelled[2]);
+    }
+
+    return this.parseUnlabelled(text);
+  }
+
+  private static parseUnlabelled(text: string): ParsedIdentifier | null {
+    const value = text.trim();
+
+    if (/^(https?:\/\/|www\.)/i.test(value) || /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/i.test(value)) {
+      const domain = this.normalizeDomain(value);
+      if (domain) return { type: 'website_domain', value: domain };
+    }
+
+    const code = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (code.length === 20 && this.isValidLei(code)) {
+      return { type: 'lei', value: code };
+    }
+
+    // Untyped codes need a digit: bare words are names or notes, not identifiers
+    if (code.length >= this.MIN_CODE_LENGTH && /[0-9]/.test(code)) {
+      return { type: 'unknown', value: code };
+    }
+
+    return null;
+  }
+}
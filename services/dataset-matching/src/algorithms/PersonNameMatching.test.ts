@@ -0,0 +1,62 @@
+import { PersonNameMatching } from './PersonNameMatching';
+
+describe('PersonNameMatching', () => {
+  describe('tokenize', () => {
+    it('reorders "Family, Given" and drops honorifics, suffixes and particles', () => {
+      expect(PersonNameMatching.tokenize('Smith, John')).toEqual(['john', 'smith']);
+      expect(PersonNameMatching.tokenize('Dr. Ludwig van der Berg Jr.')).toEqual(['ludwig', 'berg']);
+      expect(PersonNameMatching.tokenize('J.R. Müller')).toEqual(['j', 'r', 'muller']);
+    });
+
+    it('keeps a name made only of droppable words', () => {
+      expect(PersonNameMatching.tokenize('Van Der')).toEqual(['van', 'der']);
+    });
+  });
+
+  describe('similarity', () => {
+    it('treats reordered name parts as the same name', () => {
+      expect(PersonNameMatching.similarity('Smith, John', 'John Smith')?.score).toBe(1.0);
+      expect(PersonNameMatching.similarity('Sergei Chemezov', 'Chemezov Sergei')?.score).toBe(0.98);
+    });
+
+    it('matches initials against full given names', () => {
+      const result = PersonNameMatching.similarity('J. Smith', 'John Smith')!;
+
+      expect(result.matchType).toBe('word_match');
+      expect(result.score).toBeCloseTo(0.95, 5);
+    });
+
+    it('penalizes a missing middle name', () => {
+      const result = PersonNameMatching.similarity('John Smith', 'John Paul Smith')!;
+
+      expect(result.score).toBeCloseTo(0.95, 5);
+      expect(result.explanation).toContain('1 unmatched');
+    });
+
+    it('needs a full name part to agree', () => {
+      expect(PersonNameMatching.similarity('J. S.', 'John Smith')).toBeNull();
+      expect(PersonNameMatching.similarity('John Smith', 'Maria Garcia')).toBeNull();
+    });
+
+    it('discounts a lone family name', () => {
+      expect(PersonNameMatching.similarity('Smith', 'John Smith')!.score).toBeLessThan(0.9);
+    });
+
+    it('compares CJK names without spaces', () => {
+      expect(PersonNameMatching.similarity('习 近平', '习近平')?.matchType).toBe('exact');
+    });
+  });
+
+  describe('compareBirthDates', () => {
+    it('accepts dates that agree on every component both sides give', () => {
+      expect(PersonNameMatching.compareBirthDates('1952-08-20', '1952', 2)).toBe('match');
+      expect(PersonNameMatching.compareBirthDates('1952-08', '1950-01-01; 1952-08-20', 0)).toBe('match');
+    });
+
+    it('tells years within the tolerance from mismatches', () => {
+      expect(PersonNameMatching.compareBirthDates('1952-08-20', '1953-01-05', 1)).toBe('within_tolerance');
+      expect(PersonNameMatching.compareBirthDates('1952-08-20', '1960-01-05', 1)).toBe('mismatch');
+      expect(PersonNameMatching.compareBirthDates('1952', 'unknown', 1)).toBeNull();
+    });
+  });
+});
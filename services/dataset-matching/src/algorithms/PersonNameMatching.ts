@@ -0,0 +1,202 @@
+import { TextMatching } from './TextMatching';
+import { EntityNormalization } from './EntityNormalization';
+import { BirthDateCheck, DatasetMatch } from '../types/DatasetMatchTypes';
+
+export interface PersonNameOptions {
+  initialScore?: number; // Score for an initial against a full given name ("J" vs "John")
+  missingTokenPenalty?: number; // Per name part present on one side only (middle names)
+}
+
+export interface PersonNameSimilarity {
+  score: number;
+  matchType: DatasetMatch['match_type'];
+  explanation: string;
+}
+
+interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+/**
+ * Person name matching. Unlike organization matching, nothing is stripped as a
+ * legal form: names are compared part by part, independent of given/family
+ * order, with initials, honorifics, name particles and diacritics handled.
+ */
+export class PersonNameMatching {
+  private static readonly HONORIFICS = new Set([
+    'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'sir', 'dame', 'lord', 'lady',
+    'hon', 'rev', 'sheikh', 'shaikh', 'gen', 'general', 'col', 'colonel', 'maj', 'major',
+    'capt', 'captain', 'lt', 'academician'
+  ]);
+
+  private static readonly GENERATIONAL_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'esq']);
+
+  // Particles that belong to a family name ("van der Berg", "al-Assad", "bin Salman")
+  private static readonly PARTICLES = new Set([
+    'van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'al', 'el', 'bin', 'ibn', 'bint', 'binti'
+  ]);
+
+  // Name parts below this Jaro-Winkler score are treated as different names
+  private static readonly MIN_PART_SIMILARITY = 0.85;
+
+  // A lone family name says little about which person is meant
+  private static readonly SINGLE_PART_FACTOR = 0.85;
+
+  /**
+   * Normalize a person name into comparable parts. "Family, Given" is reordered,
+   * initials are split out ("J.R." → j r), and honorifics, generational suffixes
+   * and family-name particles are dropped when something else remains.
+   */
+  static tokenize(name: string): string[] {
+    if (!name) return [];
+
+    let text = EntityNormalization.foldDiacritics(EntityNormalization.unicodeNormalize(name));
+
+    // "Smith, John" → "John Smith"
+    const commaParts = text.split(',').map(part => part.trim()).filter(part => part.length > 0);
+    if (commaParts.length === 2) {
+      text = `${commaParts[1]} ${commaParts[0]}`;
+    }
+
+    const parts = text
+      .replace(/['’`]/g, '')
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim()
+      .split(' ')
+      .filter(part => part.length > 0);
+
+    const significant = parts.filter(part =>
+      !this.HONORIFICS.has(part) && !this.GENERATIONAL_SUFFIXES.has(part) && !this.PARTICLES.has(part)
+    );
+
+    return significant.length > 0 ? significant : parts;
+  }
+
+  /**
+   * Compare two person names; null when either has no usable parts
+   */
+  static similarity(query: string, candidate: string, options: PersonNameOptions = {}): PersonNameSimilarity | null {
+    const initialScore = options.initialScore ?? 0.9;
+    const missingTokenPenalty = options.missingTokenPenalty ?? 0.05;
+
+    // CJK names carry no spaces or order variants worth modelling
+    if (EntityNormalization.containsCJK(query) || EntityNormalization.containsCJK(candidate)) {
+      const left = EntityNormalization.unicodeNormalize(query).replace(/\s+/g, '');
+      const right = EntityNormalization.unicodeNormalize(candidate).replace(/\s+/g, '');
+      if (!left || !right) return null;
+      if (left === right) return { score: 1.0, matchType: 'exact', explanation: 'Exact name match' };
+      return { score: TextMatching.cjkBigramSimilarity(left, right), matchType: 'fuzzy', explanation: 'CJK character similarity' };
+    }
+
+    const queryParts = this.tokenize(query);
+    const candidateParts = this.tokenize(candidate);
+    if (queryParts.length === 0 || candidateParts.length === 0) return null;
+
+    if (queryParts.join(' ') === candidateParts.join(' ')) {
+      return { score: 1.0, matchType: 'exact', explanation: 'Exact name match' };
+    }
+
+    if ([...queryParts].sort().join(' ') === [...candidateParts].sort().join(' ')) {
+      return { score: 0.98, matchType: 'exact', explanation: 'Same name parts in a different order' };
+    }
+
+    // Greedily pair the most similar parts, each part used once
+    const pairs: Array<{ queryIndex: number; candidateIndex: number; score: number; initial: boolean }> = [];
+    queryParts.forEach((queryPart, queryIndex) => {
+      candidateParts.forEach((candidatePart, candidateIndex) => {
+        const pair = this.comparePart(queryPart, candidatePart, initialScore);
+        if (pair.score > 0) pairs.push({ queryIndex, candidateIndex, ...pair });
+      });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const usedQuery = new Set<number>();
+    const usedCandidate = new Set<number>();
+    const aligned: typeof pairs = [];
+    for (const pair of pairs) {
+      if (usedQuery.has(pair.queryIndex) || usedCandidate.has(pair.candidateIndex)) continue;
+      usedQuery.add(pair.queryIndex);
+      usedCandidate.add(pair.candidateIndex);
+      aligned.push(pair);
+    }
+
+    // At least one full name part must agree; initials alone identify no one
+    if (!aligned.some(pair => !pair.initial)) return null;
+
+    const shorter = Math.min(queryParts.length, candidateParts.length);
+    const longer = Math.max(queryParts.length, candidateParts.length);
+    const coverage = aligned.reduce((sum, pair) => sum + pair.score, 0) / shorter;
+
+    let score = coverage - missingTokenPenalty * (longer - shorter);
+    if (shorter === 1 && longer > 1) {
+      score *= this.SINGLE_PART_FACTOR;
+    }
+    score = Math.max(0, Math.min(1, score));
+
+    const allCovered = aligned.length === shorter;
+    const initials = aligned.filter(pair => pair.initial).length;
+    const details = [
+      `${aligned.length}/${longer} name parts aligned`,
+      initials > 0 ? `${initials} by initial` : null,
+      longer > shorter ? `${longer - shorter} unmatched` : null
+    ].filter(Boolean).join(', ');
+
+    return {
+      score,
+      matchType: allCovered && aligned.every(pair => pair.initial || pair.score === 1) ? 'word_match' : 'fuzzy',
+      explanation: `Person name match: ${details}`
+    };
+  }
+
+  /**
+   * Compare a requested birth date with an entry's (which may list several dates).
+   * Dates agree when every component present on both sides is equal; otherwise
+   * years within the tolerance are accepted. Null when either side has no date.
+   */
+  static compareBirthDates(requested: string, found: string, toleranceYears: number): BirthDateCheck | null {
+    const [wanted] = this.parseDates(requested);
+    const candidates = this.parseDates(found);
+    if (!wanted || candidates.length === 0) return null;
+
+    const sameDate = candidates.some(date =>
+      date.year === wanted.year &&
+      (date.month === undefined || wanted.month === undefined || date.month === wanted.month) &&
+      (date.day === undefined || wanted.day === undefined || date.day === wanted.day)
+    );
+    if (sameDate) return 'match';
+
+    return candidates.some(date => Math.abs(date.year - wanted.year) <= toleranceYears) ? 'within_tolerance' : 'mismatch';
+  }
+
+  private static comparePart(queryPart: string, candidatePart: string, initialScore: number): { score: number; initial: boolean } {
+    if (queryPart === candidatePart) {
+      return { score: 1.0, initial: queryPart.length === 1 };
+    }
+
+    if (queryPart.length === 1 || candidatePart.length === 1) {
+      const [initial, full] = queryPart.length === 1 ? [queryPart, candidatePart] : [candidatePart, queryPart];
+      return { score: full.startsWith(initial) ? initialScore : 0, initial: true };
+    }
+
+    const similarity = TextMatching.jaroWinklerSimilarity(queryPart, candidatePart);
+    return { score: similarity >= this.MIN_PART_SIMILARITY ? similarity : 0, initial: false };
+  }
+
+  private static parseDates(text: string): PartialDate[] {
+    const dates: PartialDate[] = [];
+    const pattern = /\b(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?\b/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text || '')) !== null) {
+      dates.push({
+        year: Number(match[1]),
+        month: match[2] ? Number(match[2]) : undefined,
+        day: match[3] ? Number(match[3]) : undefined
+      });
+    }
+
+    return dates;
+  }
+}
@@ -0,0 +1,90 @@
+import { PhoneticMatching } from './PhoneticMatching';
+import { ConfigurableMatching } from './ConfigurableMatching';
+import { ConfigManager } from '../utils/ConfigManager';
+
+describe('PhoneticMatching', () => {
+  describe('transliterate', () => {
+    it('romanizes Cyrillic and strips Pinyin tone marks', () => {
+      expect(PhoneticMatching.transliterate('Ростех')).toBe('rostekh');
+      expect(PhoneticMatching.transliterate('Běijīng')).toBe('beijing');
+    });
+
+    it('maps postal romanizations to Pinyin', () => {
+      expect(PhoneticMatching.transliterate('Peking')).toBe('beijing');
+      expect(PhoneticMatching.transliterate('Tsinghua')).toBe('qinghua');
+    });
+  });
+
+  describe('doubleMetaphone', () => {
+    it('gives transliteration variants a shared key', () => {
+      const [primary] = PhoneticMatching.doubleMetaphone('Rostekh');
+      const keys = PhoneticMatching.doubleMetaphone('Rostec');
+      expect(keys).toContain(primary);
+    });
+  });
+
+  describe('segmentPinyin', () => {
+    it('splits valid Pinyin into syllables', () => {
+      expect(PhoneticMatching.segmentPinyin('beihang')).toEqual(['bei', 'hang']);
+    });
+
+    it('rejects words that are not Pinyin', () => {
+      expect(PhoneticMatching.segmentPinyin('technology')).toBeNull();
+    });
+  });
+
+  describe('calculatePhoneticSimilarity', () => {
+    it('matches names that only differ in romanization', () => {
+      expect(PhoneticMatching.calculatePhoneticSimilarity('Rostekh', 'Rostec')).toBe(1);
+      expect(PhoneticMatching.calculatePhoneticSimilarity('Ростех', 'Rostec')).toBe(1);
+      expect(PhoneticMatching.calculatePhoneticSimilarity('Mohamed Husein Trading', 'Mohammed Hussein Trading Company')).toBe(1);
+    });
+
+    it('recognizes Pinyin short forms', () => {
+      expect(PhoneticMatching.calculatePhoneticSimilarity('Beihang', 'Beijing University of Aeronautics and Astronautics')).toBe(1);
+    });
+
+    it.each([
+      ['Harbin Engineering University', 'Harbin Institute of Technology'],
+      ['Beijing Institute of Technology', 'Beijing University'],
+      ['Shanghai University', 'Shanghai Institute of Technology']
+    ])('does not align "%s" with "%s", which share only their distinctive word', (query, target) => {
+      const threshold = ConfigManager.getInstance().getPhoneticConfig().match_threshold;
+      expect(PhoneticMatching.calculatePhoneticSimilarity(query, target)).toBeLessThan(threshold);
+    });
+  });
+
+  describe('in ConfigurableMatching', () => {
+    const matching = ConfigurableMatching.getInstance();
+    const configManager = ConfigManager.getInstance();
+
+    it('is off by default, leaving scores to the surface-text algorithms', () => {
+      const result = matching.calculateAdvancedSimilarity('Rostekh', 'Rostec');
+      expect(result.components.phonetic).toBeUndefined();
+      expect(result.matchType).not.toBe('phonetic');
+    });
+
+    describe('when weighted', () => {
+      beforeEach(() => {
+        const phoneticConfig = configManager.getPhoneticConfig();
+        jest.spyOn(configManager, 'getPhoneticConfig').mockReturnValue({ ...phoneticConfig, weight: 0.1 });
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('returns transliterated names as phonetic matches', () => {
+        const result = matching.calculateAdvancedSimilarity('Rostekh', 'Rostec');
+        expect(result.matchType).toBe('phonetic');
+      });
+
+      it('keeps names that share only their distinctive word below good_similarity', () => {
+        const goodSimilarity = ConfigManager.getInstance().getSimilarityThresholds().good_similarity;
+        const result = matching.calculateAdvancedSimilarity('Harbin Engineering University', 'Harbin Institute of Technology');
+        expect(result.matchType).not.toBe('phonetic');
+        expect(result.score).toBeLessThan(goodSimilarity);
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,355 @@
+import { EntityNormalization } from './EntityNormalization';
+import { ConfigManager } from '../utils/ConfigManager';
+
+/**
+ * Phonetic and transliteration-aware matching
+ * Brings Pinyin (with tone marks), Cyrillic and Arabic names onto a common
+ * Latin form and compares them with Metaphone keys and Pinyin short forms
+ */
+export class PhoneticMatching {
+  private static readonly CYRILLIC_TO_LATIN: Record<string, string> = {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e',
+    'ж': 'zh', 'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm',
+    'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u',
+    'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch',
+    'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+    'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u'
+  };
+
+  private static readonly ARABIC_TO_LATIN: Record<string, string> = {
+    'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th',
+    'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z',
+    'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '',
+    'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n',
+    'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ة': 'a', 'ء': '', 'ؤ': '', 'ئ': '',
+    'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g', 'ک': 'k', 'ی': 'y'
+  };
+
+  private static readonly PINYIN_SYLLABLES = new Set([
+    'a', 'ai', 'an', 'ang', 'ao', 'e', 'ei', 'en', 'eng', 'er', 'o', 'ou',
+    'ba', 'bai', 'ban', 'bang', 'bao', 'bei', 'ben', 'beng', 'bi', 'bian', 'biao', 'bie', 'bin', 'bing', 'bo', 'bu',
+    'pa', 'pai', 'pan', 'pang', 'pao', 'pei', 'pen', 'peng', 'pi', 'pian', 'piao', 'pie', 'pin', 'ping', 'po', 'pou', 'pu',
+    'ma', 'mai', 'man', 'mang', 'mao', 'mei', 'men', 'meng', 'mi', 'mian', 'miao', 'mie', 'min', 'ming', 'miu', 'mo', 'mou', 'mu',
+    'fa', 'fan', 'fang', 'fei', 'fen', 'feng', 'fo', 'fou', 'fu',
+    'da', 'dai', 'dan', 'dang', 'dao', 'de', 'dei', 'deng', 'di', 'dian', 'diao', 'die', 'ding', 'diu', 'dong', 'dou', 'du', 'duan', 'dui', 'dun', 'duo',
+    'ta', 'tai', 'tan', 'tang', 'tao', 'te', 'teng', 'ti', 'tian', 'tiao', 'tie', 'ting', 'tong', 'tou', 'tu', 'tuan', 'tui', 'tun', 'tuo',
+    'na', 'nai', 'nan', 'nang', 'nao', 'ne', 'nei', 'nen', 'neng', 'ni', 'nian', 'niang', 'niao', 'nie', 'nin', 'ning', 'niu', 'nong', 'nou', 'nu', 'nuan', 'nuo', 'nv',
+    'la', 'lai', 'lan', 'lang', 'lao', 'le', 'lei', 'leng', 'li', 'lia', 'lian', 'liang', 'liao', 'lie', 'lin', 'ling', 'liu', 'long', 'lou', 'lu', 'luan', 'lun', 'luo', 'lv',
+    'ga', 'gai', 'gan', 'gang', 'gao', 'ge', 'gei', 'gen', 'geng', 'gong', 'gou', 'gu', 'gua', 'guai', 'guan', 'guang', 'gui', 'gun', 'guo',
+    'ka', 'kai', 'kan', 'kang', 'kao', 'ke', 'ken', 'keng', 'kong', 'kou', 'ku', 'kua', 'kuai', 'kuan', 'kuang', 'kui', 'kun', 'kuo',
+    'ha', 'hai', 'han', 'hang', 'hao', 'he', 'hei', 'hen', 'heng', 'hong', 'hou', 'hu', 'hua', 'huai', 'huan', 'huang', 'hui', 'hun', 'huo',
+    'ji', 'jia', 'jian', 'jiang', 'jiao', 'jie', 'jin', 'jing', 'jiong', 'jiu', 'ju', 'juan', 'jue', 'jun',
+    'qi', 'qia', 'qian', 'qiang', 'qiao', 'qie', 'qin', 'qing', 'qiong', 'qiu', 'qu', 'quan', 'que', 'qun',
+    'xi', 'xia', 'xian', 'xiang', 'xiao', 'xie', 'xin', 'xing', 'xiong', 'xiu', 'xu', 'xuan', 'xue', 'xun',
+    'zha', 'zhai', 'zhan', 'zhang', 'zhao', 'zhe', 'zhei', 'zhen', 'zheng', 'zhi', 'zhong', 'zhou', 'zhu', 'zhua', 'zhuai', 'zhuan', 'zhuang', 'zhui', 'zhun', 'zhuo',
+    'cha', 'chai', 'chan', 'chang', 'chao', 'che', 'chen', 'cheng', 'chi', 'chong', 'chou', 'chu', 'chua', 'chuai', 'chuan', 'chuang', 'chui', 'chun', 'chuo',
+    'sha', 'shai', 'shan', 'shang', 'shao', 'she', 'shei', 'shen', 'sheng', 'shi', 'shou', 'shu', 'shua', 'shuai', 'shuan', 'shuang', 'shui', 'shun', 'shuo',
+    'ran', 'rang', 'rao', 're', 'ren', 'reng', 'ri', 'rong', 'rou', 'ru', 'rua', 'ruan', 'rui', 'run', 'ruo',
+    'za', 'zai', 'zan', 'zang', 'zao', 'ze', 'zei', 'zen', 'zeng', 'zi', 'zong', 'zou', 'zu', 'zuan', 'zui', 'zun', 'zuo',
+    'ca', 'cai', 'can', 'cang', 'cao', 'ce', 'cen', 'ceng', 'ci', 'cong', 'cou', 'cu', 'cuan', 'cui', 'cun', 'cuo',
+    'sa', 'sai', 'san', 'sang', 'sao', 'se', 'sen', 'seng', 'si', 'song', 'sou', 'su', 'suan', 'sui', 'sun', 'suo',
+    'ya', 'yan', 'yang', 'yao', 'ye', 'yi', 'yin', 'ying', 'yo', 'yong', 'you', 'yu', 'yuan', 'yue', 'yun',
+    'wa', 'wai', 'wan', 'wang', 'wei', 'wen', 'weng', 'wo', 'wu'
+  ]);
+
+  private static readonly MAX_SYLLABLE_LENGTH = 6;
+  private static readonly VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+  /**
+   * Transliterate text to lowercase Latin: Cyrillic and Arabic letters are
+   * romanized, diacritics (including Pinyin tone marks) are stripped and
+   * Wade-Giles / postal spellings are mapped to their Pinyin equivalents
+   */
+  static transliterate(text: string): string {
+    if (!text) return '';
+
+    const config = ConfigManager.getInstance().getTransliterationConfig();
+    let result = '';
+
+    for (const char of text.normalize('NFC').toLowerCase()) {
+      result += this.CYRILLIC_TO_LATIN[char] ?? this.ARABIC_TO_LATIN[char] ?? char;
+    }
+
+    result = result
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[\u064b-\u065f\u0670]/g, '');
+
+    if (!config.enable) return result;
+
+    const variants = config.romanization_variants || {};
+    return result.replace(/[a-z]+/g, word => variants[word] || word);
+  }
+
+  /**
+   * Simplified Double Metaphone: returns [primary, alternate] keys for a word.
+   * Alternates cover the ambiguous Pinyin / Cyrillic romanizations (q, x, kh, zh)
+   */
+  static doubleMetaphone(word: string, maxLength: number = 6): [string, string] {
+    const w = this.transliterate(word).replace(/[^a-z]/g, '');
+    if (!w) return ['', ''];
+
+    let primary = '';
+    let alternate = '';
+    const add = (main: string, alt: string = main) => {
+      primary += main;
+      alternate += alt;
+    };
+    const isVowel = (index: number) => index >= 0 && index < w.length && this.VOWELS.has(w[index]);
+    const at = (index: number, ...options: string[]) => options.some(option => w.startsWith(option, index));
+
+    let i = 0;
+    if (at(0, 'kn', 'gn', 'pn', 'wr', 'ps')) {
+      i = 1;
+    } else if (w[0] === 'x') {
+      add('S');
+      i = 1;
+    } else if (at(0, 'wh')) {
+      add('W');
+      i = 2;
+    } else if (isVowel(0)) {
+      add('A');
+      i = 1;
+    }
+
+    while (i < w.length) {
+      const char = w[i];
+
+      switch (char) {
+        case 'b':
+          add('P');
+          break;
+        case 'c':
+          if (at(i, 'ch')) { add('X', 'K'); i++; }
+          else if (at(i, 'ci', 'ce', 'cy')) add('S');
+          else if (at(i, 'ck', 'cc')) { add('K'); i++; }
+          else add('K');
+          break;
+        case 'd':
+          if (at(i, 'dge', 'dgi', 'dgy')) { add('J'); i += 2; }
+          else if (at(i, 'dzh')) { add('J'); i += 2; }
+          else add('T');
+          break;
+        case 'f':
+        case 'v':
+          add('F');
+          break;
+        case 'g':
+          if (at(i, 'gh')) { if (i === 0) add('K'); i++; }
+          else if (at(i, 'gn') && i + 2 >= w.length) { add('N'); i++; }
+          else if (at(i, 'ge', 'gi', 'gy')) add('J', 'K');
+          else add('K');
+          break;
+        case 'h':
+          // Medial h is dropped: unvocalized Arabic and Pinyin spell it inconsistently
+          if (i === 0) add('H');
+          break;
+        case 'j':
+          add('J', 'H');
+          break;
+        case 'k':
+          if (at(i, 'kh')) { add('K', 'X'); i++; }
+          else add('K');
+          break;
+        case 'l': add('L'); break;
+        case 'm': add('M'); break;
+        case 'n': add('N'); break;
+        case 'p':
+          if (at(i, 'ph')) { add('F'); i++; }
+          else add('P');
+          break;
+        case 'q':
+          add('K', 'X');
+          break;
+        case 'r': add('R'); break;
+        case 's':
+          if (at(i, 'sch')) { add('SK'); i += 2; }
+          else if (at(i, 'sh')) { add('X'); i++; }
+          else if (at(i, 'sio', 'sia')) add('X', 'S');
+          else add('S');
+          break;
+        case 't':
+          if (at(i, 'tch')) { add('X'); i += 2; }
+          else if (at(i, 'th')) { add('0', 'T'); i++; }
+          else if (at(i, 'tio', 'tia')) add('X');
+          else if (at(i, 'ts')) { add('S', 'TS'); i++; }
+          else add('T');
+          break;
+        case 'w':
+          if (isVowel(i + 1)) add('W', 'F');
+          break;
+        case 'x':
+          add('KS', 'S');
+          break;
+        case 'y':
+          if (isVowel(i + 1)) add('Y');
+          break;
+        case 'z':
+          if (at(i, 'zh')) { add('J'); i++; }
+          else add('S');
+          break;
+        default:
+          // Vowels after the first letter are not encoded
+          break;
+      }
+
+      i++;
+    }
+
+    const collapse = (key: string) => key.replace(/(.)\1+/g, '$1').substring(0, maxLength);
+    return [collapse(primary), collapse(alternate)];
+  }
+
+  /**
+   * Split a romanized word into Pinyin syllables (fewest syllables wins).
+   * Returns null when the word is not valid toneless Pinyin
+   */
+  static segmentPinyin(word: string): string[] | null {
+    const w = this.transliterate(word).replace(/[^a-z]/g, '');
+    if (!w || w.length > 30) return null;
+
+    const best: Array<string[] | null> = new Array(w.length + 1).fill(null);
+    best[0] = [];
+
+    for (let end = 1; end <= w.length; end++) {
+      for (let length = 1; length <= Math.min(this.MAX_SYLLABLE_LENGTH, end); length++) {
+        const previous = best[end - length];
+        const syllable = w.substring(end - length, end);
+        if (!previous || !this.PINYIN_SYLLABLES.has(syllable)) continue;
+
+        if (!best[end] || previous.length + 1 < best[end]!.length) {
+          best[end] = [...previous, syllable];
+        }
+      }
+    }
+
+    return best[w.length];
+  }
+
+  /**
+   * Check whether a single-word query is a Pinyin short form of a longer name,
+   * e.g. "Beihang" for "Beijing University of Aeronautics and Astronautics".
+   * Each target word contributes the first syllable of its Pinyin (directly,
+   * or via the english_to_pinyin lexicon); the query syllables must appear in
+   * order, starting with the first one
+   */
+  static isPinyinShortForm(query: string, target: string): boolean {
+    const config = ConfigManager.getInstance().getTransliterationConfig();
+    if (!config.enable) return false;
+
+    const compactQuery = this.transliterate(query).replace(/[^a-z\s]/g, ' ').trim();
+    if (!compactQuery || compactQuery.includes(' ') || compactQuery.length < 4) return false;
+
+    const querySyllables = this.segmentPinyin(compactQuery);
+    if (!querySyllables || querySyllables.length < 2) return false;
+
+    const targetWords = this.toLatinWords(target);
+    if (targetWords.length < 2 || targetWords[0] === compactQuery) return false;
+
+    const lexicon = config.english_to_pinyin || {};
+    const targetSyllables: string[] = [];
+    for (const word of targetWords) {
+      const syllable = lexicon[word] || this.segmentPinyin(word)?.[0];
+      if (syllable) targetSyllables.push(syllable);
+    }
+
+    if (targetSyllables.length < 2 || targetSyllables[0] !== querySyllables[0]) return false;
+
+    let position = 0;
+    for (const syllable of targetSyllables) {
+      if (syllable === querySyllables[position]) position++;
+      if (position === querySyllables.length) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Phonetic similarity between two names: Dice overlap of the Metaphone keys of
+   * their words, or 1.0 for a Pinyin short form in either direction. Generic
+   * words count, so two names that only share their distinctive word
+   * ("Harbin Engineering University", "Harbin Institute of Technology") do not
+   * align; legal forms and stop words are left out
+   */
+  static calculatePhoneticSimilarity(text1: string, text2: string): number {
+    if (!text1 || !text2) return 0;
+
+    if (this.isPinyinShortForm(text1, text2) || this.isPinyinShortForm(text2, text1)) {
+      return 1.0;
+    }
+
+    const maxLength = ConfigManager.getInstance().getPhoneticConfig().metaphone_max_length;
+    const keys1 = this.getWordKeys(text1, maxLength);
+    const keys2 = this.getWordKeys(text2, maxLength);
+    if (keys1.length === 0 || keys2.length === 0) return 0;
+
+    const used = new Set<number>();
+    let matches = 0;
+
+    for (const [primary, alternate] of keys1) {
+      const index = keys2.findIndex(([otherPrimary, otherAlternate], candidate) =>
+        !used.has(candidate) &&
+        (primary === otherPrimary || primary === otherAlternate ||
+         alternate === otherPrimary || alternate === otherAlternate)
+      );
+
+      if (index >= 0) {
+        used.add(index);
+        matches++;
+      }
+    }
+
+    return (2 * matches) / (keys1.length + keys2.length);
+  }
+
+  /**
+   * Phonetic keys for the in-memory index: Metaphone keys ("mp:") for each
+   * word and Pinyin syllables ("py:") for short-form retrieval
+   */
+  static getIndexKeys(text: string): string[] {
+    const keys = new Set<string>();
+    const maxLength = ConfigManager.getInstance().getPhoneticConfig().metaphone_max_length;
+    const lexicon = ConfigManager.getInstance().getTransliterationConfig().english_to_pinyin || {};
+
+    const words = this.toLatinWords(text);
+
+    for (const word of words) {
+      if (!EntityNormalization.isGenericTerm(word)) {
+        const [primary, alternate] = this.doubleMetaphone(word, maxLength);
+        if (primary.length > 1) keys.add(`mp:${primary}`);
+        if (alternate.length > 1) keys.add(`mp:${alternate}`);
+      }
+
+      if (lexicon[word]) keys.add(`py:${lexicon[word]}`);
+      const syllables = this.segmentPinyin(word);
+      if (syllables) syllables.forEach(syllable => keys.add(`py:${syllable}`));
+    }
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Transliterated Latin words of a name, without native-script legal forms
+   */
+  private static toLatinWords(text: string): string[] {
+    const stripped = EntityNormalization.stripScriptLegalSuffixes(EntityNormalization.unicodeNormalize(text));
+    return this.transliterate(stripped)
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1);
+  }
+
+  /**
+   * Metaphone keys of the words in a name, without legal forms and stop words
+   * (all words if that leaves none)
+   */
+  private static getWordKeys(text: string, maxLength: number): Array<[string, string]> {
+    const words = this.toLatinWords(text);
+
+    const meaningful = words.filter(word => !EntityNormalization.isLegalFormOrStopWord(word));
+
+    return (meaningful.length > 0 ? meaningful : words)
+      .map(word => this.doubleMetaphone(word, maxLength))
+      .filter(([primary]) => primary.length > 0);
+  }
+}
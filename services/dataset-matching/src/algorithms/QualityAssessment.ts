@@ -2,6 +2,7 @@ import { EntityNormalization } from './EntityNormalization';
 import { TextMatching } from './TextMatching';
 import {
   DatasetMatch,
+  DismissedCandidate,
   QualityMetrics,
   MatchingConfig
 } from '../types/DatasetMatchTypes';
@@ -14,6 +15,8 @@ export class QualityAssessment {
     alias_partial: 0.5,
     core_match: 0.5,
     fuzzy: 0.5,
+    phonetic: 0.4,
+    semantic: 0.5,
     partial: 0.6
   };
 
@@ -129,6 +132,16 @@ export class QualityAssessment {
         adjustedQuality = baseQuality * fuzzyPenalty;
         break;
 
+      case 'phonetic':
+        // Transliterated names share little surface text, so only a light penalty
+        adjustedQuality = baseQuality * 0.9;
+        break;
+
+      case 'semantic':
+        // Reworded names share words but not their order or form
+        adjustedQuality = baseQuality * 0.9;
+        break;
+
       case 'partial':
         // Significant penalty for partial matches
         const partialPenalty = metrics.match_coverage < 0.5 ? 0.6 : 0.75;
@@ -224,6 +237,102 @@ export class QualityAssessment {
     return false;
   }
 
+  /**
+   * Reasons a match fails quality assessment (empty when it passes)
+   */
+  static getFilterReasons(
+    match: DatasetMatch,
+    originalEntity: string,
+    context?: string
+  ): string[] {
+    const reasons: string[] = [];
+
+    // Apply quality threshold filtering
+    const quality = this.calculateMatchQuality(originalEntity, match.organization_name, match.match_type, context);
+    const threshold = this.QUALITY_THRESHOLDS[match.match_type] || 0.5;
+    if (quality < threshold) {
+      reasons.push(`Quality ${quality.toFixed(3)} below the ${match.match_type} threshold of ${threshold}`);
+    }
+
+    // Filter out geographic false positives
+    if (this.isLikelyGeographicFalsePositive(match, originalEntity)) {
+      reasons.push('Likely geographic false positive (generic or geographic query term)');
+    }
+
+    // For partial matches, require at least 50% word overlap
+    if (match.match_type === 'partial' || match.match_type === 'fuzzy') {
+      const overlap = EntityNormalization.calculateWordOverlap(match.organization_name, originalEntity);
+      if (overlap < 0.5) {
+        reasons.push(`Word overlap ${overlap.toFixed(3)} below the 0.5 required for ${match.match_type} matches`);
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Split match results into kept matches and dismissed candidates with reasons
+   */
+  static partitionMatchResults(
+    matches: DatasetMatch[],
+    originalEntity: string,
+    context?: string
+  ): { kept: DatasetMatch[]; dismissed: DismissedCandidate[] } {
+    const kept: DatasetMatch[] = [];
+    const dismissed: DismissedCandidate[] = [];
+
+    for (const match of matches) {
+      // Calculate quality metrics for each match
+      const qualityMetrics = this.calculateQualityMetrics(
+        originalEntity,
+        match.organization_name,
+        match.match_type,
+        context
+      );
+
+      const quality = this.calculateMatchQuality(
+        originalEntity,
+        match.organization_name,
+        match.match_type,
+        context
+      );
+
+      const scored = {
+        ...match,
+        confidence_score: quality,
+        quality_metrics: qualityMetrics
+      };
+
+      const reasons = this.getFilterReasons(scored, originalEntity, context);
+      if (reasons.length === 0) {
+        kept.push(scored);
+      } else {
+        dismissed.push({
+          organization_name: match.organization_name,
+          dataset_name: match.dataset_name,
+          match_type: match.match_type,
+          confidence_score: quality,
+          reasons
+        });
+      }
+    }
+
+    kept.sort((a, b) => {
+      // Sort by match type priority first, then by confidence score
+      const priorityA = this.getMatchTypePriority(a.match_type);
+      const priorityB = this.getMatchTypePriority(b.match_type);
+
+      if (priorityA !== priorityB) {
+        return priorityA - priorityB;
+      }
+
+      // If same priority, sort by confidence score (descending)
+      return (b.confidence_score || 0) - (a.confidence_score || 0);
+    });
+
+    return { kept, dismissed };
+  }
+
   /**
    * Filter match results using quality assessment
    */
@@ -232,62 +341,7 @@ export class QualityAssessment {
     originalEntity: string,
     context?: string
   ): DatasetMatch[] {
-    return matches
-      .map(match => {
-        // Calculate quality metrics for each match
-        const qualityMetrics = this.calculateQualityMetrics(
-          originalEntity,
-          match.organization_name,
-          match.match_type,
-          context
-        );
-
-        const quality = this.calculateMatchQuality(
-          originalEntity,
-          match.organization_name,
-          match.match_type,
-          context
-        );
-
-        return {
-          ...match,
-          confidence_score: quality,
-          quality_metrics: qualityMetrics
-        };
-      })
-      .filter(match => {
-        // Apply quality threshold filtering
-        if (!this.passesQualityThreshold(originalEntity, match.organization_name, match.match_type, context)) {
-          return false;
-        }
-
-        // Filter out geographic false positives
-        if (this.isLikelyGeographicFalsePositive(match, originalEntity)) {
-          return false;
-        }
-
-        // For partial matches, require at least 50% word overlap
-        if (match.match_type === 'partial' || match.match_type === 'fuzzy') {
-          const overlap = EntityNormalization.calculateWordOverlap(match.organization_name, originalEntity);
-          if (overlap < 0.5) {
-            return false;
-          }
-        }
-
-        return true;
-      })
-      .sort((a, b) => {
-        // Sort by match type priority first, then by confidence score
-        const priorityA = this.getMatchTypePriority(a.match_type);
-        const priorityB = this.getMatchTypePriority(b.match_type);
-
-        if (priorityA !== priorityB) {
-          return priorityA - priorityB;
-        }
-
-        // If same priority, sort by confidence score (descending)
-        return (b.confidence_score || 0) - (a.confidence_score || 0);
-      });
+    return this.partitionMatchResults(matches, originalEntity, context).kept;
   }
 
   /**
@@ -295,12 +349,15 @@ export class QualityAssessment {
    */
   private static getMatchTypePriority(matchType: DatasetMatch['match_type']): number {
     const priorities: Record<string, number> = {
+      identifier: 0.5,
       exact: 1,
       alias: 2,
       alias_partial: 3,
       core_match: 4,
       core_acronym: 3.5,
       word_match: 4.5,
+      phonetic: 5,
+      semantic: 5,
       fuzzy: 5,
       partial: 6
     };
@@ -0,0 +1,110 @@
+import { ConfigManager, SemanticConfig } from '../utils/ConfigManager';
+import { CharNGramEmbedding, EmbeddingModel } from './TextEmbedding';
+
+export type EmbeddingModelFactory = (config: SemanticConfig) => EmbeddingModel;
+
+/**
+ * Embedding-based name similarity. Everything runs in-process: the default
+ * model is the deterministic character n-gram embedding, and other local
+ * models can be registered by name at startup and selected with
+ * `algorithms.semantic.model` in similarity-weights.json.
+ */
+export class SemanticMatching {
+  private static instance: SemanticMatching;
+  private static readonly MAX_CACHED_EMBEDDINGS = 5000;
+
+  private configManager: ConfigManager;
+  private factories = new Map<string, EmbeddingModelFactory>();
+  private model: EmbeddingModel | null = null;
+  private modelKey = '';
+  private cache = new Map<string, Float32Array>();
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.registerModel('char-ngram', config => new CharNGramEmbedding({
+      dimensions: config.dimensions,
+      ngramSize: config.ngram_size,
+      tokenWeight: config.token_weight,
+      ngramWeight: config.ngram_weight,
+      synonyms: config.synonyms,
+      stopWords: config.stop_words
+    }));
+  }
+
+  public static getInstance(): SemanticMatching {
+    if (!SemanticMatching.instance) {
+      SemanticMatching.instance = new SemanticMatching();
+    }
+    return SemanticMatching.instance;
+  }
+
+  /**
+   * Make a local embedding model available under a name, replacing any registered before
+   */
+  public registerModel(name: string, factory: EmbeddingModelFactory): void {
+    this.factories.set(name, factory);
+    this.modelKey = '';
+  }
+
+  public isEnabled(): boolean {
+    return this.configManager.getSemanticConfig().weight > 0;
+  }
+
+  /**
+   * The configured model; rebuilt (and the embedding cache dropped) when its settings change
+   */
+  public getModel(): EmbeddingModel {
+    const key = this.getModelKey();
+    if (this.model && key === this.modelKey) return this.model;
+
+    const config = this.configManager.getSemanticConfig();
+    let factory = this.factories.get(config.model);
+    if (!factory) {
+      console.warn(`⚠️  Unknown embedding model "${config.model}", using char-ngram`);
+      factory = this.factories.get('char-ngram')!;
+    }
+
+    this.model = factory(config);
+    this.modelKey = key;
+    this.cache.clear();
+    return this.model;
+  }
+
+  /**
+   * Identifies the model and its settings; vectors built under another key are stale
+   */
+  public getModelKey(): string {
+    const { model, dimensions, ngram_size, token_weight, ngram_weight, synonyms, stop_words } = this.configManager.getSemanticConfig();
+    return JSON.stringify([model, dimensions, ngram_size, token_weight, ngram_weight, synonyms, stop_words]);
+  }
+
+  /**
+   * Embedding of a query or candidate name, cached since the same names recur across requests
+   */
+  public embed(text: string): Float32Array {
+    const model = this.getModel();
+    const cached = this.cache.get(text);
+    if (cached) return cached;
+
+    const vector = model.embed(text);
+    if (this.cache.size >= SemanticMatching.MAX_CACHED_EMBEDDINGS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(text, vector);
+    return vector;
+  }
+
+  /**
+   * Cosine similarity of two names, clamped to 0..1
+   */
+  public similarity(text1: string, text2: string): number {
+    return Math.max(0, Math.min(1, SemanticMatching.cosine(this.embed(text1), this.embed(text2))));
+  }
+
+  public static cosine(a: Float32Array, b: Float32Array): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    for (let i = 0; i < length; i++) dot += a[i] * b[i];
+    return dot;
+  }
+}
@@ -0,0 +1,128 @@
+import { EntityNormalization } from './EntityNormalization';
+import { PhoneticMatching } from './PhoneticMatching';
+
+/**
+ * Turns a name into a fixed-size vector. Vectors are L2-normalized, so the
+ * dot product of two of them is their cosine similarity.
+ */
+export interface EmbeddingModel {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(text: string): Float32Array;
+}
+
+export interface CharNGramEmbeddingOptions {
+  dimensions?: number;
+  ngramSize?: number;
+  tokenWeight?: number; // Weight of each whole (canonical) word
+  ngramWeight?: number; // Weight shared by the character n-grams of one word
+  synonyms?: Record<string, string>; // Word -> canonical word, e.g. academy -> institute
+  stopWords?: string[];
+}
+
+/**
+ * Deterministic CPU-only embedding: canonical words and their character
+ * n-grams are feature-hashed into a fixed number of dimensions. Words are
+ * canonicalized first (ordinals and number words become digits, synonyms are
+ * folded), so "Seventh Research Institute of CASIC" and "CASIC 7th Academy"
+ * share most of their features regardless of word order. Needs no model
+ * files and gives the same vectors on every machine.
+ */
+export class CharNGramEmbedding implements EmbeddingModel {
+  readonly name = 'char-ngram';
+  readonly dimensions: number;
+
+  private static readonly ORDINALS: Record<string, string> = {
+    first: '1', second: '2', third: '3', fourth: '4', fifth: '5', sixth: '6', seventh: '7',
+    eighth: '8', ninth: '9', tenth: '10', eleventh: '11', twelfth: '12', thirteenth: '13',
+    fourteenth: '14', fifteenth: '15', sixteenth: '16', seventeenth: '17', eighteenth: '18',
+    nineteenth: '19', twentieth: '20',
+    one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8',
+    nine: '9', ten: '10', eleven: '11', twelve: '12', thirteen: '13', fourteen: '14',
+    fifteen: '15', sixteen: '16', seventeen: '17', eighteen: '18', nineteen: '19', twenty: '20'
+  };
+
+  private ngramSize: number;
+  private tokenWeight: number;
+  private ngramWeight: number;
+  private synonyms: Record<string, string>;
+  private stopWords: Set<string>;
+
+  constructor(options: CharNGramEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions || 256;
+    this.ngramSize = options.ngramSize || 3;
+    this.tokenWeight = options.tokenWeight ?? 1.0;
+    this.ngramWeight = options.ngramWeight ?? 0.5;
+    this.synonyms = options.synonyms || {};
+    this.stopWords = new Set(options.stopWords || []);
+  }
+
+  embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+
+    for (const token of this.canonicalTokens(text)) {
+      this.addFeature(vector, `w:${token}`, this.tokenWeight);
+
+      // N-grams of the padded word catch spelling variants; their total weight is fixed per word
+      const grams = this.ngrams(`#${token}#`);
+      const gramWeight = this.ngramWeight / Math.sqrt(grams.length);
+      grams.forEach(gram => this.addFeature(vector, `g:${gram}`, gramWeight));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+  }
+
+  /**
+   * Lowercase Latin words with ordinals as digits, synonyms folded and stop words removed
+   */
+  canonicalTokens(text: string): string[] {
+    const latin = PhoneticMatching.transliterate(EntityNormalization.unicodeNormalize(text || ''));
+
+    return latin.toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 0)
+      .flatMap(word => EntityNormalization.containsCJK(word) ? EntityNormalization.cjkBigrams(word) : [word])
+      .map(word => this.canonicalWord(word))
+      .filter(word => !this.stopWords.has(word));
+  }
+
+  private canonicalWord(word: string): string {
+    const ordinal = CharNGramEmbedding.ORDINALS[word] || word.match(/^(\d+)(st|nd|rd|th)$/)?.[1];
+    if (ordinal) return ordinal;
+    return this.synonyms[word] || word;
+  }
+
+  private ngrams(text: string): string[] {
+    const chars = Array.from(text);
+    if (chars.length <= this.ngramSize) return [text];
+
+    const grams: string[] = [];
+    for (let i = 0; i <= chars.length - this.ngramSize; i++) {
+      grams.push(chars.slice(i, i + this.ngramSize).join(''));
+    }
+    return grams;
+  }
+
+  /**
+   * Signed feature hashing: the sign bit keeps colliding features from only ever adding up
+   */
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = CharNGramEmbedding.fnv1a(feature);
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -1,5 +1,7 @@
 import { distance as levenshteinDistance } from 'fastest-levenshtein';
 import { EntityNormalization } from './EntityNormalization';
+import { PhoneticMatching } from './PhoneticMatching';
+import { SemanticMatching } from './SemanticMatching';
 import { DatasetMatch } from '../types/DatasetMatchTypes';
 
 export class TextMatching {
@@ -108,6 +110,23 @@ export class TextMatching {
     return intersection.size / union.size;
   }
 
+  /**
+   * Character-bigram (Dice) similarity for CJK names, which have no word boundaries
+   */
+  static cjkBigramSimilarity(s1: string, s2: string): number {
+    if (s1 === s2) return 1.0;
+    if (!s1 || !s2) return 0.0;
+
+    const bigrams1 = EntityNormalization.cjkBigrams(s1);
+    const bigrams2 = new Set(EntityNormalization.cjkBigrams(s2));
+    const unique1 = new Set(bigrams1);
+
+    if (unique1.size === 0 || bigrams2.size === 0) return 0.0;
+
+    const shared = [...unique1].filter(gram => bigrams2.has(gram)).length;
+    return (2 * shared) / (unique1.size + bigrams2.size);
+  }
+
   private static generateNGrams(text: string, n: number): Set<string> {
     const ngrams = new Set<string>();
     const normalized = text.toLowerCase().replace(/\s+/g, ' ');
@@ -306,6 +325,14 @@ export class TextMatching {
         // Calculate word overlap
         return EntityNormalization.calculateWordOverlap(searchTerm, matchedTerm);
 
+      case 'phonetic':
+        // Surface text differs by design; fall back to phonetic key overlap
+        return Math.max(0.7, PhoneticMatching.calculatePhoneticSimilarity(searchTerm, matchedTerm));
+
+      case 'semantic':
+        // Word order and wording differ; the embedding similarity is what matched
+        return Math.max(0.7, SemanticMatching.getInstance().similarity(searchTerm, matchedTerm));
+
       case 'fuzzy':
       case 'partial':
         // For fuzzy/partial, use the best available similarity metric
@@ -3,6 +3,14 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { DatasetMatchingController } from './controllers/DatasetMatchingController';
+import { ConfigAdminController } from './controllers/ConfigAdminController';
+import { MatchJobController } from './controllers/MatchJobController';
+import { MatchJobService } from './services/MatchJobService';
+import { WatchlistController } from './controllers/WatchlistController';
+import { WatchlistService } from './services/WatchlistService';
+import { MatchOverrideController } from './controllers/MatchOverrideController';
+import { SpreadsheetController } from './controllers/SpreadsheetController';
+import { requireAnalyst, requireConfigAdmin, requireDatasetEvents } from './middleware/adminAuth';
 import { Logger } from './shared/utils/Logger';
 
 // Load environment variables
@@ -14,8 +22,13 @@ const logger = new Logger('dataset-matching');
 const app = express();
 const PORT = process.env.PORT || 3004;
 
-// Initialize controller
+// Initialize controllers
 const datasetMatchingController = new DatasetMatchingController();
+const configAdminController = new ConfigAdminController();
+const matchJobController = new MatchJobController();
+const watchlistController = new WatchlistController();
+const matchOverrideController = new MatchOverrideController();
+const spreadsheetController = new SpreadsheetController();
 
 // Middleware
 app.use(helmet());
@@ -60,7 +73,8 @@ app.get('/api/health', async (req, res) => {
         'Geographic matching',
         'Configurable similarity weights',
         'Affiliated companies integration',
-        'Enhanced matching with Entity Search'
+        'Enhanced matching with Entity Search',
+        'In-memory dataset index'
       ],
       endpoints: {
         single_match: 'POST /api/dataset-matching/match',
@@ -91,12 +105,50 @@ app.post('/api/dataset-matching/match', datasetMatchingController.handleSingleMa
 app.post('/api/dataset-matching/batch', datasetMatchingController.handleBatchMatch);
 app.post('/api/dataset-matching/affiliated-match', datasetMatchingController.handleAffiliatedMatch);
 app.post('/api/dataset-matching/batch-affiliated', datasetMatchingController.handleBatchAffiliatedMatch);
+app.post('/api/dataset-matching/batch/stream', requireAnalyst, datasetMatchingController.handleBatchMatchStream);
+app.post('/api/dataset-matching/batch-affiliated/stream', requireAnalyst, datasetMatchingController.handleBatchAffiliatedStream);
+app.get('/api/dataset-matching/batch/stream/:batchId', requireAnalyst, datasetMatchingController.handleResumeBatchStream);
+app.delete('/api/dataset-matching/batch/stream/:batchId', requireAnalyst, datasetMatchingController.handleCancelBatchStream);
+app.post('/api/dataset-matching/jobs', requireAnalyst, matchJobController.handleCreateJob);
+app.get('/api/dataset-matching/jobs/:jobId', requireAnalyst, matchJobController.handleGetJob);
+app.get('/api/dataset-matching/jobs/:jobId/results', requireAnalyst, matchJobController.handleGetJobResults);
+app.delete('/api/dataset-matching/jobs/:jobId', requireAnalyst, matchJobController.handleCancelJob);
+app.post('/api/dataset-matching/spreadsheets/columns', spreadsheetController.handleDetectColumns);
+app.post('/api/dataset-matching/spreadsheets/screen', spreadsheetController.handleScreenSpreadsheet);
+app.post('/api/dataset-matching/watchlists', requireAnalyst, watchlistController.handleCreateWatchlist);
+app.get('/api/dataset-matching/watchlists', requireAnalyst, watchlistController.handleListWatchlists);
+app.get('/api/dataset-matching/watchlists/alerts/stream', requireAnalyst, watchlistController.handleStreamAlerts);
+app.get('/api/dataset-matching/watchlists/:watchlistId', requireAnalyst, watchlistController.handleGetWatchlist);
+app.delete('/api/dataset-matching/watchlists/:watchlistId', requireAnalyst, watchlistController.handleDeleteWatchlist);
+app.post('/api/dataset-matching/watchlists/:watchlistId/rescreen', requireAnalyst, watchlistController.handleRescreenWatchlist);
+app.get('/api/dataset-matching/watchlists/:watchlistId/alerts', requireAnalyst, watchlistController.handleGetAlerts);
+app.get('/api/dataset-matching/watchlists/:watchlistId/alerts/stream', requireAnalyst, watchlistController.handleStreamAlerts);
+app.post('/api/dataset-matching/datasets/updated', requireDatasetEvents, watchlistController.handleDatasetsUpdated);
+app.post('/api/dataset-matching/ownership-screening', datasetMatchingController.handleOwnershipScreening);
+app.post('/api/dataset-matching/feedback', requireAnalyst, datasetMatchingController.handleMatchFeedback);
+app.post('/api/dataset-matching/overrides', requireAnalyst, matchOverrideController.handleCreateOverride);
+app.get('/api/dataset-matching/overrides', requireAnalyst, matchOverrideController.handleListOverrides);
+app.get('/api/dataset-matching/overrides/export', requireAnalyst, matchOverrideController.handleExportOverrides);
+app.get('/api/dataset-matching/overrides/:overrideId', requireAnalyst, matchOverrideController.handleGetOverride);
+app.patch('/api/dataset-matching/overrides/:overrideId', requireAnalyst, matchOverrideController.handleUpdateOverride);
+app.delete('/api/dataset-matching/overrides/:overrideId', requireAnalyst, matchOverrideController.handleDeleteOverride);
 app.delete('/api/dataset-matching/cache/clear', datasetMatchingController.handleClearCache);
 app.get('/api/dataset-matching/stats', datasetMatchingController.handleGetStats);
+app.get('/api/dataset-matching/pipelines', datasetMatchingController.handleListPipelines);
 app.get('/api/dataset-matching/health', datasetMatchingController.handleHealthCheck);
 app.post('/api/dataset-matching/cache/warmup', datasetMatchingController.handleCacheWarmup);
 app.get('/api/dataset-matching/test', datasetMatchingController.handleTestMatch);
 
+// Configuration admin endpoints
+app.get('/api/dataset-matching/admin/config', requireConfigAdmin, configAdminController.handleGetConfigSummary);
+app.post('/api/dataset-matching/admin/config/reload', requireConfigAdmin, configAdminController.handleReloadConfig);
+app.get('/api/dataset-matching/admin/config/versions/:configVersion', requireConfigAdmin, configAdminController.handleGetConfigVersion);
+app.get('/api/dataset-matching/admin/config/:type', requireConfigAdmin, configAdminController.handleGetConfig);
+app.put('/api/dataset-matching/admin/config/:type', requireConfigAdmin, configAdminController.handleUpdateConfig);
+app.post('/api/dataset-matching/admin/config/:type/validate', requireConfigAdmin, configAdminController.handleValidateConfig);
+app.get('/api/dataset-matching/admin/config/:type/history', requireConfigAdmin, configAdminController.handleGetConfigHistory);
+app.post('/api/dataset-matching/admin/config/:type/rollback', requireConfigAdmin, configAdminController.handleRollbackConfig);
+
 // Service information endpoint
 app.get('/api', (req, res) => {
   res.status(200).json({
@@ -152,10 +204,79 @@ app.get('/api', (req, res) => {
         description: 'Find matches for multiple entities',
         parameters: ['entities (required)', 'options (optional)']
       },
+      batch_stream: {
+        endpoint: 'POST /api/dataset-matching/batch/stream (and /batch-affiliated/stream)',
+        description: 'Stream batch results as SSE (default) or NDJSON (?format=ndjson): batch, result, progress and summary events',
+        resume: 'GET /api/dataset-matching/batch/stream/:batchId with Last-Event-ID (or ?after=)',
+        cancel: 'DELETE /api/dataset-matching/batch/stream/:batchId',
+        parameters: ['Same body as /batch or /batch-affiliated', 'Up to streaming.max_entities entities (default 10000)']
+      },
+      match_jobs: {
+        create: 'POST /api/dataset-matching/jobs',
+        status: 'GET /api/dataset-matching/jobs/:jobId',
+        results: 'GET /api/dataset-matching/jobs/:jobId/results?offset=&limit=',
+        cancel: 'DELETE /api/dataset-matching/jobs/:jobId',
+        description: 'Asynchronous batch matching for large entity lists or uploaded CSVs',
+        parameters: ['entities or csv (required)', 'column (optional, CSV column name)', 'name (optional)', 'options (optional, as for /batch)', 'X-Analyst-Token header; jobs are visible to their creator only']
+      },
+      spreadsheets: {
+        columns: 'POST /api/dataset-matching/spreadsheets/columns',
+        screen: 'POST /api/dataset-matching/spreadsheets/screen',
+        description: 'Screen an uploaded CSV or .xlsx and download it with Best Match, Match Dataset, Match Confidence, Match Type and Match Count columns appended',
+        parameters: ['file (required, CSV text or base64 .xlsx)', 'format, filename, sheet (optional)', 'columns (optional, detected from headers)', 'output (optional, csv|xlsx|json)', 'options (optional, as for /batch)']
+      },
+      watchlists: {
+        create: 'POST /api/dataset-matching/watchlists',
+        list: 'GET /api/dataset-matching/watchlists',
+        get: 'GET /api/dataset-matching/watchlists/:watchlistId',
+        delete: 'DELETE /api/dataset-matching/watchlists/:watchlistId',
+        rescreen: 'POST /api/dataset-matching/watchlists/:watchlistId/rescreen',
+        alerts: 'GET /api/dataset-matching/watchlists/:watchlistId/alerts?offset=&limit=',
+        stream: 'GET /api/dataset-matching/watchlists/alerts/stream (or /watchlists/:watchlistId/alerts/stream)',
+        datasets_updated: 'POST /api/dataset-matching/datasets/updated (X-Events-Token when DATASET_EVENTS_TOKEN is set)',
+        description: 'Re-screen registered entities when datasets change and alert on new, removed and changed matches',
+        parameters: ['name (required)', 'entities (required)', 'webhook_url (optional, https to a public or allowlisted host)', 'options (optional, as for /batch)', 'X-Analyst-Token header on create, delete and rescreen']
+      },
+      ownership_screening: {
+        endpoint: 'POST /api/dataset-matching/ownership-screening',
+        description: 'Screen an entity and its parents, subsidiaries and shareholders up to N hops, with a 50%-rule exposure score',
+        parameters: ['entity (required)', 'edges, corporate_structure or edges_csv (at least one)', 'location (optional)', 'context (optional)', 'options.maxHops (optional)', 'options.minConfidence (optional)']
+      },
+      feedback: {
+        endpoint: 'POST /api/dataset-matching/feedback',
+        description: 'Mark a returned match as a true or false positive',
+        parameters: ['entity (required)', 'match (required)', 'verdict (required)', 'location (optional)', 'context (optional)', 'notes (optional)', 'X-Analyst-Token header (recorded as analyst)']
+      },
+      overrides: {
+        create: 'POST /api/dataset-matching/overrides',
+        list: 'GET /api/dataset-matching/overrides?query=&organization_id=&include_inactive=',
+        get: 'GET /api/dataset-matching/overrides/:overrideId',
+        update: 'PATCH /api/dataset-matching/overrides/:overrideId',
+        revoke: 'DELETE /api/dataset-matching/overrides/:overrideId',
+        export: 'GET /api/dataset-matching/overrides/export?format=json|csv&history=',
+        description: 'Analyst overrides: a query never (suppress) or always (confirm) matches an entry, globally or per organization_id, optionally until expires_at',
+        parameters: ['query (required)', 'action (required)', 'entry_id, or dataset_name and organization_name (required)', 'reason (required)', 'organization_id (optional)', 'expires_at (optional)', 'X-Analyst-Token header on create, update and revoke']
+      },
+      pipelines: {
+        endpoint: 'GET /api/dataset-matching/pipelines',
+        description: 'Matching strategies and the named pipelines combining them (e.g. strict-sanctions, broad-research)',
+        parameters: ['Select with pipeline on /match, or options.pipeline on /batch, jobs and watchlists; per organization in config']
+      },
       cache_management: {
         clear: 'DELETE /api/dataset-matching/cache/clear',
         warmup: 'POST /api/dataset-matching/cache/warmup',
         status: 'Included in health check response'
+      },
+      config_admin: {
+        summary: 'GET /api/dataset-matching/admin/config',
+        reload: 'POST /api/dataset-matching/admin/config/reload',
+        version_details: 'GET /api/dataset-matching/admin/config/versions/:configVersion',
+        get: 'GET /api/dataset-matching/admin/config/:type',
+        update: 'PUT /api/dataset-matching/admin/config/:type',
+        validate: 'POST /api/dataset-matching/admin/config/:type/validate',
+        history: 'GET /api/dataset-matching/admin/config/:type/history',
+        rollback: 'POST /api/dataset-matching/admin/config/:type/rollback',
+        description: 'Types: matching, country, similarity. Requires X-Admin-Token when CONFIG_ADMIN_TOKEN is set'
       }
     },
     integrations: [
@@ -187,11 +308,25 @@ app.use('*', (req, res) => {
       'GET /api',
       'POST /api/dataset-matching/match',
       'POST /api/dataset-matching/batch',
+      'POST /api/dataset-matching/batch/stream',
+      'GET /api/dataset-matching/batch/stream/:batchId',
+      'POST /api/dataset-matching/jobs',
+      'GET /api/dataset-matching/jobs/:jobId',
+      'GET /api/dataset-matching/jobs/:jobId/results',
+      'POST /api/dataset-matching/spreadsheets/columns',
+      'POST /api/dataset-matching/spreadsheets/screen',
+      'POST /api/dataset-matching/watchlists',
+      'GET /api/dataset-matching/watchlists/:watchlistId/alerts',
+      'GET /api/dataset-matching/watchlists/alerts/stream',
+      'POST /api/dataset-matching/ownership-screening',
       'DELETE /api/dataset-matching/cache/clear',
       'GET /api/dataset-matching/stats',
       'GET /api/dataset-matching/health',
       'POST /api/dataset-matching/cache/warmup',
-      'GET /api/dataset-matching/test'
+      'GET /api/dataset-matching/test',
+      'GET /api/dataset-matching/admin/config',
+      'PUT /api/dataset-matching/admin/config/:type',
+      'POST /api/dataset-matching/admin/config/:type/rollback'
     ]
   });
 });
@@ -207,6 +342,12 @@ app.listen(PORT, () => {
   logger.info('Advanced matching algorithms ready');
   logger.info('Caching system initialized');
   logger.info('Batch processing enabled');
+
+  MatchJobService.getInstance().resumeInterruptedJobs().catch(error => {
+    logger.error('Failed to resume interrupted match jobs', error);
+  });
+
+  WatchlistService.getInstance().start();
 });
 
 export default app;
\ No newline at end of file
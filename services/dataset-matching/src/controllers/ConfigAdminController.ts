@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ConfigType, ConfigValidator } from '../utils/ConfigValidator';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { asyncHandler, createServiceError } from '../utils/ErrorHandler';
+
+const CONFIG_TYPES: ConfigType[] = ['matching', 'country', 'similarity'];
+
+export class ConfigAdminController {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  /**
+   * Active configuration versions and validation status
+   * GET /api/dataset-matching/admin/config
+   */
+  handleGetConfigSummary = asyncHandler(async (req: Request, res: Response) => {
+    ResponseFormatter.success(res, {
+      config_version: this.configManager.getConfigVersion(),
+      versions: this.configManager.getConfigVersions(),
+      validation: this.configManager.validateConfigurations()
+    });
+  });
+
+  /**
+   * Active configuration of one type
+   * GET /api/dataset-matching/admin/config/:type
+   */
+  handleGetConfig = asyncHandler(async (req: Request, res: Response) => {
+    const type = this.parseConfigType(req, res);
+    if (!type) return;
+
+    ResponseFormatter.success(res, {
+      type,
+      version: this.configManager.getConfigVersions()[type],
+      config: this.configManager.getConfig(type)
+    });
+  });
+
+  /**
+   * Dry-run validation of a configuration
+   * POST /api/dataset-matching/admin/config/:type/validate
+   */
+  handleValidateConfig = asyncHandler(async (req: Request, res: Response) => {
+    const type = this.parseConfigType(req, res);
+    if (!type) return;
+
+    const errors = ConfigValidator.validate(type, req.body);
+    ResponseFormatter.success(res, { type, valid: errors.length === 0, errors });
+  });
+
+  /**
+   * Replace and hot-reload a configuration
+   * PUT /api/dataset-matching/admin/config/:type
+   */
+  handleUpdateConfig = asyncHandler(async (req: Request, res: Response) => {
+    const type = this.parseConfigType(req, res);
+    if (!type) return;
+
+    const errors = ConfigValidator.validate(type, req.body);
+    if (errors.length > 0) {
+      ResponseFormatter.error(
+        res,
+        createServiceError('CONFIG_VALIDATION_ERROR', `Invalid ${type} configuration`, { errors }),
+        400
+      );
+      return;
+    }
+
+    const previousVersion = this.configManager.getConfigVersions()[type];
+    const version = this.configManager.replaceConfig(type, req.body);
+
+    ResponseFormatter.success(res, {
+      type,
+      version,
+      previous_version: previousVersion,
+      config_version: this.configManager.getConfigVersion()
+    });
+  });
+
+  /**
+   * Restore a previous configuration (the one before the current, unless a version is given)
+   * POST /api/dataset-matching/admin/config/:type/rollback
+   */
+  handleRollbackConfig = asyncHandler(async (req: Request, res: Response) => {
+    const type = this.parseConfigType(req, res);
+    if (!type) return;
+
+    const targetVersion: string | undefined = req.body?.version;
+    if (targetVersion !== undefined && typeof targetVersion !== 'string') {
+      ResponseFormatter.validationError(res, 'version must be a string', 'version');
+      return;
+    }
+
+    const previousVersion = this.configManager.getConfigVersions()[type];
+
+    let version: string;
+    try {
+      version = this.configManager.rollbackConfig(type, targetVersion);
+    } catch (error: any) {
+      ResponseFormatter.error(res, createServiceError('CONFIG_ROLLBACK_ERROR', error.message), 404);
+      return;
+    }
+
+    ResponseFormatter.success(res, {
+      type,
+      version,
+      previous_version: previousVersion,
+      config_version: this.configManager.getConfigVersion()
+    });
+  });
+
+  /**
+   * Activation history of one configuration type, most recent first
+   * GET /api/dataset-matching/admin/config/:type/history
+   */
+  handleGetConfigHistory = asyncHandler(async (req: Request, res: Response) => {
+    const type = this.parseConfigType(req, res);
+    if (!type) return;
+
+    const current = this.configManager.getConfigVersions()[type];
+    const history = this.configManager.getConfigHistory(type).map(entry => ({
+      ...entry,
+      active: entry.version === current
+    }));
+
+    ResponseFormatter.success(res, { type, history });
+  });
+
+  /**
+   * Re-read all configuration files from disk
+   * POST /api/dataset-matching/admin/config/reload
+   */
+  handleReloadConfig = asyncHandler(async (req: Request, res: Response) => {
+    const previousVersion = this.configManager.getConfigVersion();
+
+    this.configManager.reloadConfigurations();
+
+    ResponseFormatter.success(res, {
+      config_version: this.configManager.getConfigVersion(),
+      previous_config_version: previousVersion,
+      versions: this.configManager.getConfigVersions(),
+      validation: this.configManager.validateConfigurations()
+    });
+  });
+
+  /**
+   * Configurations behind a config_version stamped on an earlier result
+   * GET /api/dataset-matching/admin/config/versions/:configVersion
+   */
+  handleGetConfigVersion = asyncHandler(async (req: Request, res: Response) => {
+    const activation = this.configManager.getConfigVersionDetails(req.params.configVersion);
+    if (!activation) {
+      ResponseFormatter.notFound(res, `Configuration version ${req.params.configVersion}`);
+      return;
+    }
+
+    const configs: Record<string, any> = {};
+    CONFIG_TYPES.forEach(type => {
+      configs[type] = this.configManager.getConfigSnapshot(type, activation.versions[type]);
+    });
+
+    ResponseFormatter.success(res, { ...activation, configs });
+  });
+
+  private parseConfigType(req: Request, res: Response): ConfigType | null {
+    const type = req.params.type as ConfigType;
+    if (!CONFIG_TYPES.includes(type)) {
+      ResponseFormatter.validationError(res, `Configuration type must be one of: ${CONFIG_TYPES.join(', ')}`, 'type');
+      return null;
+    }
+    return type;
+  }
+}
@@ -1,25 +1,47 @@
 import { Request, Response } from 'express';
 import { DatasetMatchingService } from '../services/DatasetMatchingService';
+import { BatchStreamService } from '../services/BatchStreamService';
+import { CONFIG_ADMIN_ACTOR } from '../middleware/adminAuth';
 import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { StreamWriter } from '../utils/StreamWriter';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ListingPeriod } from '../utils/ListingPeriod';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { StrategyRegistry } from '../strategies/StrategyRegistry';
 import {
+  AsOf,
+  DatasetMatch,
+  EntityIdentifiers,
+  EntityMatchReport,
+  EntityType,
+  IdentifierType,
   SingleMatchRequest,
   BatchMatchRequest,
   AffiliatedMatchRequest,
-  BatchAffiliatedRequest
+  BatchAffiliatedRequest,
+  MatchFeedbackRequest,
+  OwnershipScreeningRequest
 } from '../types/DatasetMatchTypes';
 import {
   asyncHandler,
   validateRequired,
   validateString,
   validateArray,
-  validateNumber
+  validateNumber,
+  validateEnum,
+  createServiceError,
+  ValidationError
 } from '../utils/ErrorHandler';
 
 export class DatasetMatchingController {
+  private static readonly ENTITY_TYPES: EntityType[] = ['person', 'organization', 'vessel'];
+
   private datasetMatchingService: DatasetMatchingService;
+  private batchStreamService: BatchStreamService;
 
   constructor() {
     this.datasetMatchingService = DatasetMatchingService.getInstance();
+    this.batchStreamService = BatchStreamService.getInstance();
   }
 
   /**
@@ -39,8 +61,17 @@ export class DatasetMatchingController {
       forceRefresh,
       searchRadius,
       prioritizeLocal,
-      maxResults
+      maxResults,
+      identifiers,
+      entity_type,
+      birth_date,
+      as_of,
+      include_historical,
+      organization_id,
+      consolidate,
+      pipeline
     } = req.body as SingleMatchRequest;
+    const explain = this.isExplainRequested(req, (req.body as SingleMatchRequest).explain);
 
     // Required validation
     validateRequired(entity, 'entity');
@@ -68,6 +99,32 @@ export class DatasetMatchingController {
       validateNumber(maxResults, 'maxResults', 1, 100);
     }
 
+    if (identifiers !== undefined) {
+      this.validateIdentifiers(identifiers, 'identifiers');
+    }
+
+    if (entity_type !== undefined) {
+      validateEnum(entity_type, 'entity_type', DatasetMatchingController.ENTITY_TYPES);
+    }
+
+    if (birth_date !== undefined) {
+      this.validateBirthDate(birth_date, 'birth_date');
+    }
+
+    this.validateListingOptions(as_of, include_historical);
+
+    if (organization_id !== undefined) {
+      validateString(organization_id, 'organization_id', 1, 200);
+    }
+
+    if (consolidate !== undefined && typeof consolidate !== 'boolean') {
+      throw new ValidationError('consolidate must be a boolean');
+    }
+
+    if (pipeline !== undefined) {
+      this.validatePipeline(pipeline, 'pipeline');
+    }
+
     // Call enhanced matching service with geographic support
     const result = await this.datasetMatchingService.findMatchesEnhanced(
       entity.trim(),
@@ -77,25 +134,26 @@ export class DatasetMatchingController {
         forceRefresh: forceRefresh || false,
         searchRadius: searchRadius,
         prioritizeLocal: prioritizeLocal,
-        maxResults: maxResults || 20
+        maxResults: maxResults || 20,
+        explain,
+        identifiers,
+        entityType: entity_type,
+        birthDate: birth_date,
+        asOf: as_of,
+        includeHistorical: include_historical,
+        organizationId: organization_id,
+        consolidate,
+        pipeline
       }
     );
 
     const processingTime = ResponseFormatter.formatProcessingTime(startTime);
 
     if (result.success) {
-      // Filter by match types if specified
-      let matches = result.data!;
-      if (matchTypes && matchTypes.length > 0) {
-        matches = matches.filter(match => matchTypes.includes(match.match_type));
-      }
+      const report: EntityMatchReport | undefined = result.metadata?.explain;
 
-      // Filter by minimum confidence if specified
-      if (minConfidence !== undefined) {
-        matches = matches.filter(match =>
-          match.confidence_score && match.confidence_score >= minConfidence
-        );
-      }
+      // Filter by match types and minimum confidence if specified
+      const matches = this.applyMatchFilters(result.data!, matchTypes, minConfidence, report);
 
       // Sanitize matches for response
       const sanitizedMatches = ResponseFormatter.sanitizeMatches(matches);
@@ -105,7 +163,10 @@ export class DatasetMatchingController {
         sanitizedMatches,
         entity,
         processingTime,
-        result.metadata?.cache_used || false
+        result.metadata?.cache_used || false,
+        report,
+        result.metadata?.config_version,
+        result.metadata?.overrides_applied
       );
     } else {
       ResponseFormatter.error(res, result.error!, 500);
@@ -120,7 +181,8 @@ export class DatasetMatchingController {
     const startTime = process.hrtime();
 
     // Validate request body
-    const { entities, options } = req.body as BatchMatchRequest;
+    const { entities, identifiers, birth_dates, options } = req.body as BatchMatchRequest;
+    const explain = this.isExplainRequested(req, options?.explain);
 
     // Required validation
     validateRequired(entities, 'entities');
@@ -131,28 +193,9 @@ export class DatasetMatchingController {
     });
 
     // Optional validation
-    if (options) {
-      if (options.matchTypes !== undefined) {
-        validateArray(options.matchTypes, 'matchTypes', 0, 10);
-        options.matchTypes.forEach(type => validateString(type, 'matchType'));
-      }
-
-      if (options.minConfidence !== undefined) {
-        validateNumber(options.minConfidence, 'minConfidence', 0, 1);
-      }
-
-      if (options.context !== undefined) {
-        validateString(options.context, 'context', 0, 1000);
-      }
-
-      if (options.location !== undefined) {
-        validateString(options.location, 'location', 1, 100);
-      }
-
-      if (options.maxResults !== undefined) {
-        validateNumber(options.maxResults, 'maxResults', 1, 100);
-      }
-    }
+    this.validateBatchOptions(options);
+    const entityIdentifiers = this.validateBatchIdentifiers(identifiers, entities);
+    const entityBirthDates = this.validateBatchBirthDates(birth_dates, entities);
 
     // Call enhanced batch matching service with geographic support
     const result = await this.datasetMatchingService.findMatchesBatch(
@@ -163,60 +206,102 @@ export class DatasetMatchingController {
         location: options?.location?.trim(),
         searchRadius: options?.searchRadius,
         prioritizeLocal: options?.prioritizeLocal,
-        maxResults: options?.maxResults
+        maxResults: options?.maxResults,
+        explain,
+        identifiers: entityIdentifiers,
+        entityType: options?.entity_type,
+        birthDates: entityBirthDates,
+        asOf: options?.as_of,
+        includeHistorical: options?.include_historical,
+        organizationId: options?.organization_id,
+        consolidate: options?.consolidate,
+        pipeline: options?.pipeline
       }
     );
 
     const processingTime = ResponseFormatter.formatProcessingTime(startTime);
 
     if (result.success) {
-      let matchResults = result.data!;
-
-      // Apply filters if specified
-      if (options?.matchTypes || options?.minConfidence) {
-        const filteredResults: Record<string, any> = {};
-
-        Object.entries(matchResults).forEach(([entity, matches]) => {
-          let filteredMatches = matches;
-
-          // Filter by match types
-          if (options.matchTypes && options.matchTypes.length > 0) {
-            filteredMatches = filteredMatches.filter(match =>
-              options.matchTypes!.includes(match.match_type)
-            );
-          }
-
-          // Filter by minimum confidence
-          if (options.minConfidence !== undefined) {
-            filteredMatches = filteredMatches.filter(match =>
-              match.confidence_score && match.confidence_score >= options.minConfidence!
-            );
-          }
-
-          filteredResults[entity] = ResponseFormatter.sanitizeMatches(filteredMatches);
-        });
-
-        matchResults = filteredResults;
-      } else {
-        // Sanitize all matches
-        const sanitizedResults: Record<string, any> = {};
-        Object.entries(matchResults).forEach(([entity, matches]) => {
-          sanitizedResults[entity] = ResponseFormatter.sanitizeMatches(matches);
-        });
-        matchResults = sanitizedResults;
-      }
+      const reports: Record<string, EntityMatchReport> | undefined = result.metadata?.explain;
+      const matchResults: Record<string, DatasetMatch[]> = {};
+
+      // Apply filters if specified, then sanitize
+      Object.entries(result.data!).forEach(([entity, matches]) => {
+        const filteredMatches = this.applyMatchFilters(
+          matches,
+          options?.matchTypes,
+          options?.minConfidence,
+          reports?.[entity]
+        );
+        matchResults[entity] = ResponseFormatter.sanitizeMatches(filteredMatches);
+      });
 
       ResponseFormatter.batchMatchResponse(
         res,
         matchResults,
         processingTime,
-        result.metadata?.cache_used ? 1 : 0
+        result.metadata?.cache_used ? 1 : 0,
+        [],
+        reports,
+        result.metadata?.config_version,
+        result.metadata?.overrides_applied
       );
     } else {
       ResponseFormatter.error(res, result.error!, 500);
     }
   });
 
+  /**
+   * Record analyst feedback on a returned match
+   * POST /api/dataset-matching/feedback (requireAnalyst)
+   */
+  handleMatchFeedback = asyncHandler(async (req: Request, res: Response) => {
+    const { entity, location, context, match, verdict, notes } = req.body as MatchFeedbackRequest;
+
+    validateRequired(entity, 'entity');
+    validateString(entity, 'entity', 1, 500);
+
+    validateRequired(match, 'match');
+    validateString(match.dataset_name, 'match.dataset_name', 1, 200);
+    validateString(match.organization_name, 'match.organization_name', 1, 500);
+    validateString(match.match_type, 'match.match_type', 1, 50);
+
+    if (verdict !== 'true_positive' && verdict !== 'false_positive') {
+      throw new ValidationError('verdict must be "true_positive" or "false_positive"');
+    }
+
+    if (location !== undefined) {
+      validateString(location, 'location', 1, 100);
+    }
+
+    if (context !== undefined) {
+      validateString(context, 'context', 0, 1000);
+    }
+
+    if (match.confidence_score !== undefined) {
+      validateNumber(match.confidence_score, 'match.confidence_score', 0, 2);
+    }
+
+    if (notes !== undefined) {
+      validateString(notes, 'notes', 0, 2000);
+    }
+
+    const result = await this.datasetMatchingService.recordMatchFeedback({
+      entity: entity.trim(),
+      location: location?.trim(),
+      context: context?.trim(),
+      match,
+      verdict,
+      notes
+    }, req.actor!);
+
+    if (result.success) {
+      ResponseFormatter.success(res, result.data, result.metadata, 201);
+    } else {
+      ResponseFormatter.error(res, result.error!, 500);
+    }
+  });
+
   /**
    * Clear matching cache
    * GET /api/dataset-matching/cache/clear
@@ -245,6 +330,40 @@ export class DatasetMatchingController {
     }
   });
 
+  /**
+   * List matching strategies and the pipelines combining them
+   * GET /api/dataset-matching/pipelines
+   */
+  handleListPipelines = asyncHandler(async (req: Request, res: Response) => {
+    const registry = StrategyRegistry.getInstance();
+    const configManager = ConfigManager.getInstance();
+    const pipelinesConfig = configManager.getPipelinesConfig();
+    const timeouts = configManager.getTimeouts();
+
+    const strategies = registry.list().map(strategy => ({
+      name: strategy.name,
+      description: strategy.description,
+      cost: strategy.cost,
+      timeout: strategy.timeoutKey,
+      timeout_ms: timeouts[strategy.timeoutKey]
+    }));
+
+    const pipelines = Object.entries(pipelinesConfig.definitions).map(([name, definition]) => ({
+      name,
+      ...definition,
+      is_default: name === pipelinesConfig.default_pipeline,
+      organizations: Object.keys(pipelinesConfig.organizations)
+        .filter(organizationId => pipelinesConfig.organizations[organizationId] === name)
+    }));
+
+    ResponseFormatter.success(res, {
+      default_pipeline: pipelinesConfig.default_pipeline,
+      strategies,
+      pipelines,
+      config_version: configManager.getConfigVersion()
+    });
+  });
+
   /**
    * Health check with matching service status
    * GET /api/dataset-matching/health
@@ -297,7 +416,8 @@ export class DatasetMatchingController {
         {
           processing_time_ms: processingTime,
           cache_used: false,
-          algorithm_version: '2.0.0-enhanced'
+          algorithm_version: '2.0.0-enhanced',
+          config_version: result.metadata?.config_version
         }
       );
     } else {
@@ -367,6 +487,10 @@ export class DatasetMatchingController {
     if (context !== undefined) {
       validateString(context, 'context', 0, 1000);
     }
+    this.validateListingOptions(options?.as_of, options?.include_historical, 'options.');
+    if (options?.organization_id !== undefined) {
+      validateString(options.organization_id, 'options.organization_id', 1, 200);
+    }
 
     console.log(`📥 Affiliated match request for entity: ${entity} with ${affiliated_companies.length} affiliated companies`);
 
@@ -411,7 +535,8 @@ export class DatasetMatchingController {
         metadata: {
           processing_time_ms: result.metadata?.processing_time_ms,
           affiliated_boost_applied: options?.affiliatedBoost || 1.15,
-          algorithm_version: result.metadata?.algorithm_version
+          algorithm_version: result.metadata?.algorithm_version,
+          config_version: result.metadata?.config_version
         }
       };
 
@@ -422,6 +547,84 @@ export class DatasetMatchingController {
     }
   });
 
+  /**
+   * Handle multi-hop ownership screening
+   * POST /api/dataset-matching/ownership-screening
+   */
+  handleOwnershipScreening = asyncHandler(async (req: Request, res: Response) => {
+    const { entity, edges, corporate_structure, edges_csv, location, context, options } = req.body as OwnershipScreeningRequest;
+
+    validateRequired(entity, 'entity');
+    validateString(entity, 'entity', 1, 500);
+
+    if (edges === undefined && corporate_structure === undefined && edges_csv === undefined) {
+      throw new ValidationError('One of edges, corporate_structure or edges_csv is required');
+    }
+
+    if (edges !== undefined) {
+      validateArray(edges, 'edges', 0, 5000);
+      edges.forEach((edge, index) => {
+        validateString(edge.source, `edges[${index}].source`, 1, 500);
+        validateString(edge.target, `edges[${index}].target`, 1, 500);
+        if (!['parent', 'subsidiary', 'shareholder'].includes(edge.relationship)) {
+          throw new ValidationError(`edges[${index}].relationship must be "parent", "subsidiary" or "shareholder"`);
+        }
+        if (edge.ownership_percentage !== undefined && edge.ownership_percentage !== null) {
+          validateNumber(edge.ownership_percentage, `edges[${index}].ownership_percentage`, 0, 100);
+        }
+      });
+    }
+
+    if (corporate_structure !== undefined) {
+      if (corporate_structure.parent_company !== undefined) {
+        validateString(corporate_structure.parent_company, 'corporate_structure.parent_company', 0, 500);
+      }
+      if (corporate_structure.subsidiaries !== undefined) {
+        validateArray(corporate_structure.subsidiaries, 'corporate_structure.subsidiaries', 0, 1000);
+      }
+    }
+
+    if (edges_csv !== undefined) {
+      validateString(edges_csv, 'edges_csv', 1, 5 * 1024 * 1024);
+    }
+
+    if (location !== undefined) {
+      validateString(location, 'location', 0, 200);
+    }
+    if (context !== undefined) {
+      validateString(context, 'context', 0, 1000);
+    }
+    if (options?.maxHops !== undefined) {
+      validateNumber(options.maxHops, 'options.maxHops', 1, 10);
+    }
+    if (options?.minConfidence !== undefined) {
+      validateNumber(options.minConfidence, 'options.minConfidence', 0, 1);
+    }
+
+    console.log(`📥 Ownership screening request for entity: ${entity}`);
+
+    const result = await this.datasetMatchingService.screenOwnershipGraph({
+      entity: entity.trim(),
+      edges,
+      corporate_structure,
+      edges_csv,
+      location,
+      context,
+      options
+    });
+
+    if (result.success) {
+      ResponseFormatter.success(res, result.data, {
+        processing_time_ms: result.metadata?.processing_time_ms,
+        algorithm_version: result.metadata?.algorithm_version,
+        config_version: result.metadata?.config_version
+      });
+    } else {
+      console.error(`❌ Ownership screening failed for ${entity}:`, result.error?.message);
+      ResponseFormatter.error(res, result.error!, result.error?.code === 'VALIDATION_ERROR' ? 400 : 500);
+    }
+  });
+
   /**
    * Handle batch affiliated entity matching
    * POST /api/dataset-matching/batch-affiliated
@@ -436,25 +639,11 @@ export class DatasetMatchingController {
     } = req.body as BatchAffiliatedRequest;
 
     // Required validation
-    validateRequired(entities_with_affiliated, 'entities_with_affiliated');
-    validateArray(entities_with_affiliated, 'entities_with_affiliated', 1, 20);
-
-    // Validate each entity structure
-    entities_with_affiliated.forEach ( (entityRequest, index) => {
-      validateRequired(entityRequest.entity, `entities_with_affiliated[${index}].entity`);
-      validateString(entityRequest.entity, `entities_with_affiliated[${index}].entity`, 1, 500);
-      validateRequired(entityRequest.affiliated_companies, `entities_with_affiliated[${index}].affiliated_companies`);
-      validateArray(entityRequest.affiliated_companies, `entities_with_affiliated[${index}].affiliated_companies`, 1, 50);
-
-      // Validate affiliated companies structure
-      entityRequest.affiliated_companies.forEach((company, companyIndex) => {
-        validateRequired(company.company_name, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].company_name`);
-        validateString(company.company_name, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].company_name`, 1, 200);
-        validateRequired(company.risk_keyword, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].risk_keyword`);
-        validateString(company.risk_keyword, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].risk_keyword`, 1, 100);
-        validateString(company.relationship_type, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].relationship_type`, 1, 100);
-      });
-    });
+    this.validateEntitiesWithAffiliated(entities_with_affiliated, 20);
+    this.validateListingOptions(global_options?.as_of, global_options?.include_historical, 'global_options.');
+    if (global_options?.organization_id !== undefined) {
+      validateString(global_options.organization_id, 'global_options.organization_id', 1, 200);
+    }
 
     const totalEntities = entities_with_affiliated.length;
     const totalAffiliatedCompanies = entities_with_affiliated.reduce((sum, req) => sum + req.affiliated_companies.length, 0);
@@ -508,7 +697,8 @@ export class DatasetMatchingController {
         metadata: {
           processing_time_ms: result.metadata?.processing_time_ms,
           affiliated_boost_applied: global_options?.affiliatedBoost || 1.15,
-          algorithm_version: result.metadata?.algorithm_version
+          algorithm_version: result.metadata?.algorithm_version,
+          config_version: result.metadata?.config_version
         }
       };
 
@@ -518,4 +708,383 @@ export class DatasetMatchingController {
       ResponseFormatter.error(res, result.error!, 500);
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * Stream batch entity matching, one result event per entity
+   * POST /api/dataset-matching/batch/stream (requireAnalyst, as are the other streaming batch routes)
+   */
+  handleBatchMatchStream = asyncHandler(async (req: Request, res: Response) => {
+    const { entities, identifiers, birth_dates, options } = req.body as BatchMatchRequest;
+    const explain = this.isExplainRequested(req, options?.explain);
+    const maxEntities = ConfigManager.getInstance().getStreamingConfig().max_entities;
+
+    validateRequired(entities, 'entities');
+    validateArray(entities, 'entities', 1, maxEntities);
+    entities.forEach((entity, index) => {
+      validateString(entity, `entities[${index}]`, 1, 500);
+    });
+    this.validateBatchOptions(options);
+    const entityIdentifiers = this.validateBatchIdentifiers(identifiers, entities);
+    const entityBirthDates = this.validateBatchBirthDates(birth_dates, entities);
+
+    const context = options?.context?.trim();
+    const location = options?.location?.trim();
+
+    const batchId = this.batchStreamService.createBatch(
+      'match',
+      entities.map(entity => ({ entity: entity.trim(), data: entity.trim() })),
+      async (entity: string) => {
+        const result = await this.datasetMatchingService.findMatchesBatch([entity], context, options?.forceRefresh || false, {
+          location,
+          searchRadius: options?.searchRadius,
+          prioritizeLocal: options?.prioritizeLocal,
+          maxResults: options?.maxResults,
+          explain,
+          identifiers: entityIdentifiers,
+          entityType: options?.entity_type,
+          birthDates: entityBirthDates,
+          asOf: options?.as_of,
+          includeHistorical: options?.include_historical,
+          organizationId: options?.organization_id,
+          consolidate: options?.consolidate,
+          pipeline: options?.pipeline
+        });
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error?.message || 'Matching failed');
+        }
+
+        const report: EntityMatchReport | undefined = result.metadata?.explain?.[entity];
+        const matches = ResponseFormatter.sanitizeMatches(
+          this.applyMatchFilters(result.data[entity] || [], options?.matchTypes, options?.minConfidence, report)
+        );
+
+        const overridesApplied = result.metadata?.overrides_applied?.[entity];
+        return { data: { matches, explain: report, overrides_applied: overridesApplied }, match_count: matches.length };
+      },
+      req.actor!
+    );
+
+    await this.streamBatch(req, res, batchId, 0);
+  });
+
+  /**
+   * Stream batch affiliated matching, one result event per entity
+   * POST /api/dataset-matching/batch-affiliated/stream
+   */
+  handleBatchAffiliatedStream = asyncHandler(async (req: Request, res: Response) => {
+    const { entities_with_affiliated, global_options } = req.body as BatchAffiliatedRequest;
+    const maxEntities = ConfigManager.getInstance().getStreamingConfig().max_entities;
+
+    this.validateEntitiesWithAffiliated(entities_with_affiliated, maxEntities);
+    this.validateListingOptions(global_options?.as_of, global_options?.include_historical, 'global_options.');
+    if (global_options?.organization_id !== undefined) {
+      validateString(global_options.organization_id, 'global_options.organization_id', 1, 200);
+    }
+
+    const batchId = this.batchStreamService.createBatch(
+      'affiliated',
+      entities_with_affiliated.map(entityRequest => ({
+        entity: entityRequest.entity,
+        data: { ...entityRequest, options: { ...global_options, ...(entityRequest as AffiliatedMatchRequest).options } } as AffiliatedMatchRequest
+      })),
+      async (affiliatedRequest: AffiliatedMatchRequest) => {
+        const result = await this.datasetMatchingService.findAffiliatedMatches(affiliatedRequest);
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error?.message || 'Affiliated matching failed');
+        }
+
+        const matchCount = result.data.direct_matches.length + Object.values(result.data.affiliated_matches).flat().length;
+        return { data: result.data, match_count: matchCount };
+      },
+      req.actor!
+    );
+
+    await this.streamBatch(req, res, batchId, 0);
+  });
+
+  /**
+   * Resume a streaming batch: replays results after Last-Event-ID (or ?after=) and continues processing
+   * GET /api/dataset-matching/batch/stream/:batchId
+   */
+  handleResumeBatchStream = asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+
+    if (!this.ownsBatch(req)) {
+      ResponseFormatter.notFound(res, `Batch ${batchId}`);
+      return;
+    }
+
+    if (this.batchStreamService.isStreaming(batchId)) {
+      ResponseFormatter.error(res, createServiceError('BATCH_IN_PROGRESS', `Batch ${batchId} is already being streamed to another client`), 409);
+      return;
+    }
+
+    const lastEventId = req.headers['last-event-id'] || req.query.after;
+    const afterSeq = lastEventId !== undefined ? parseInt(String(lastEventId), 10) : 0;
+    if (isNaN(afterSeq) || afterSeq < 0) {
+      throw new ValidationError('Last-Event-ID / after must be a non-negative integer');
+    }
+
+    await this.streamBatch(req, res, batchId, afterSeq);
+  });
+
+  /**
+   * Cancel a streaming batch and discard its results
+   * DELETE /api/dataset-matching/batch/stream/:batchId
+   */
+  handleCancelBatchStream = asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+
+    if (!this.ownsBatch(req) || !this.batchStreamService.cancelBatch(batchId)) {
+      ResponseFormatter.notFound(res, `Batch ${batchId}`);
+      return;
+    }
+
+    ResponseFormatter.success(res, { batch_id: batchId, status: 'cancelled' });
+  });
+
+  /**
+   * Whether the batch of the path exists and the requesting analyst created it.
+   * Other analysts' batches are reported as not found; the config admin sees every batch
+   */
+  private ownsBatch(req: Request): boolean {
+    const createdBy = this.batchStreamService.getCreator(req.params.batchId);
+    return createdBy !== undefined && (req.actor === CONFIG_ADMIN_ACTOR || createdBy === req.actor);
+  }
+
+  /**
+   * Headers are sent once streaming starts, so failures are reported as an error event
+   */
+  private async streamBatch(req: Request, res: Response, batchId: string, afterSeq: number): Promise<void> {
+    const writer = new StreamWriter(res, StreamWriter.negotiate(req));
+
+    try {
+      await this.batchStreamService.stream(batchId, writer, afterSeq);
+    } catch (error: any) {
+      console.error(`❌ Streaming batch ${batchId} failed:`, error.message);
+      writer.send('error', createServiceError('BATCH_STREAM_ERROR', error.message, { batch_id: batchId }));
+      writer.end();
+    }
+  }
+
+  private validateBatchOptions(options?: BatchMatchRequest['options']): void {
+    if (!options) return;
+
+    if (options.matchTypes !== undefined) {
+      validateArray(options.matchTypes, 'matchTypes', 0, 10);
+      options.matchTypes.forEach(type => validateString(type, 'matchType'));
+    }
+
+    if (options.minConfidence !== undefined) {
+      validateNumber(options.minConfidence, 'minConfidence', 0, 1);
+    }
+
+    if (options.context !== undefined) {
+      validateString(options.context, 'context', 0, 1000);
+    }
+
+    if (options.location !== undefined) {
+      validateString(options.location, 'location', 1, 100);
+    }
+
+    if (options.maxResults !== undefined) {
+      validateNumber(options.maxResults, 'maxResults', 1, 100);
+    }
+
+    if (options.entity_type !== undefined) {
+      validateEnum(options.entity_type, 'entity_type', DatasetMatchingController.ENTITY_TYPES);
+    }
+
+    this.validateListingOptions(options.as_of, options.include_historical);
+
+    if (options.organization_id !== undefined) {
+      validateString(options.organization_id, 'organization_id', 1, 200);
+    }
+
+    if (options.consolidate !== undefined && typeof options.consolidate !== 'boolean') {
+      throw new ValidationError('consolidate must be a boolean');
+    }
+
+    if (options.pipeline !== undefined) {
+      this.validatePipeline(options.pipeline, 'pipeline');
+    }
+  }
+
+  /**
+   * A pipeline name must be one of the pipelines defined in matching-config.json
+   */
+  private validatePipeline(pipeline: string, fieldName: string): void {
+    validateString(pipeline, fieldName, 1, 100);
+    StrategyRegistry.getInstance().resolvePipeline(pipeline);
+  }
+
+  /**
+   * Validate as_of (a YYYY-MM-DD date or a { start, end } range) and include_historical
+   */
+  private validateListingOptions(asOf: AsOf | undefined, includeHistorical: boolean | undefined, prefix: string = ''): void {
+    if (asOf !== undefined) {
+      ListingPeriod.parseAsOf(asOf, `${prefix}as_of`);
+    }
+
+    if (includeHistorical !== undefined && typeof includeHistorical !== 'boolean') {
+      throw new ValidationError(`${prefix}include_historical must be a boolean`);
+    }
+  }
+
+  /**
+   * Validate structured identifiers; LEI and IMO values must carry valid check digits
+   */
+  private validateIdentifiers(identifiers: EntityIdentifiers, field: string): void {
+    const allowedTypes: IdentifierType[] = ['lei', 'registration_number', 'imo', 'tax_id', 'website_domain', 'email_domain'];
+
+    if (typeof identifiers !== 'object' || identifiers === null || Array.isArray(identifiers)) {
+      throw new ValidationError(`${field} must be an object`);
+    }
+
+    for (const [type, value] of Object.entries(identifiers)) {
+      if (!allowedTypes.includes(type as IdentifierType)) {
+        throw new ValidationError(`${field}.${type} is not a supported identifier (expected one of: ${allowedTypes.join(', ')})`);
+      }
+
+      validateString(value, `${field}.${type}`, 1, 200);
+
+      if (type === 'lei' && !IdentifierMatching.isValidLei(value)) {
+        throw new ValidationError(`${field}.lei must be a 20-character LEI with valid check digits`);
+      }
+      if (type === 'imo' && !IdentifierMatching.isValidImo(value)) {
+        throw new ValidationError(`${field}.imo must be a 7-digit IMO number with a valid check digit`);
+      }
+    }
+  }
+
+  /**
+   * Validate per-entity identifiers of a batch request and key them by trimmed entity
+   */
+  private validateBatchIdentifiers(
+    identifiers: BatchMatchRequest['identifiers'],
+    entities: string[]
+  ): Record<string, EntityIdentifiers> | undefined {
+    if (identifiers === undefined) return undefined;
+
+    if (typeof identifiers !== 'object' || identifiers === null || Array.isArray(identifiers)) {
+      throw new ValidationError('identifiers must be an object keyed by entity');
+    }
+
+    const trimmedEntities = new Set(entities.map(entity => entity.trim()));
+    const keyed: Record<string, EntityIdentifiers> = {};
+
+    for (const [entity, entityIdentifiers] of Object.entries(identifiers)) {
+      if (!trimmedEntities.has(entity.trim())) {
+        throw new ValidationError(`identifiers["${entity}"] does not correspond to an entry in entities`);
+      }
+      this.validateIdentifiers(entityIdentifiers, `identifiers["${entity}"]`);
+      keyed[entity.trim()] = entityIdentifiers;
+    }
+
+    return keyed;
+  }
+
+  /**
+   * Validate a person birth date: YYYY, YYYY-MM or YYYY-MM-DD
+   */
+  private validateBirthDate(value: string, field: string): void {
+    validateString(value, field, 4, 10);
+    if (!/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+      throw new ValidationError(`${field} must be formatted as YYYY, YYYY-MM or YYYY-MM-DD`);
+    }
+  }
+
+  /**
+   * Validate per-entity birth dates of a batch request and key them by trimmed entity
+   */
+  private validateBatchBirthDates(
+    birthDates: BatchMatchRequest['birth_dates'],
+    entities: string[]
+  ): Record<string, string> | undefined {
+    if (birthDates === undefined) return undefined;
+
+    if (typeof birthDates !== 'object' || birthDates === null || Array.isArray(birthDates)) {
+      throw new ValidationError('birth_dates must be an object keyed by entity');
+    }
+
+    const trimmedEntities = new Set(entities.map(entity => entity.trim()));
+    const keyed: Record<string, string> = {};
+
+    for (const [entity, birthDate] of Object.entries(birthDates)) {
+      if (!trimmedEntities.has(entity.trim())) {
+        throw new ValidationError(`birth_dates["${entity}"] does not correspond to an entry in entities`);
+      }
+      this.validateBirthDate(birthDate, `birth_dates["${entity}"]`);
+      keyed[entity.trim()] = birthDate;
+    }
+
+    return keyed;
+  }
+
+  private validateEntitiesWithAffiliated(
+    entitiesWithAffiliated: BatchAffiliatedRequest['entities_with_affiliated'],
+    maxEntities: number
+  ): void {
+    validateRequired(entitiesWithAffiliated, 'entities_with_affiliated');
+    validateArray(entitiesWithAffiliated, 'entities_with_affiliated', 1, maxEntities);
+
+    // Validate each entity structure
+    entitiesWithAffiliated.forEach((entityRequest, index) => {
+      validateRequired(entityRequest.entity, `entities_with_affiliated[${index}].entity`);
+      validateString(entityRequest.entity, `entities_with_affiliated[${index}].entity`, 1, 500);
+      validateRequired(entityRequest.affiliated_companies, `entities_with_affiliated[${index}].affiliated_companies`);
+      validateArray(entityRequest.affiliated_companies, `entities_with_affiliated[${index}].affiliated_companies`, 1, 50);
+
+      // Validate affiliated companies structure
+      entityRequest.affiliated_companies.forEach((company, companyIndex) => {
+        validateRequired(company.company_name, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].company_name`);
+        validateString(company.company_name, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].company_name`, 1, 200);
+        validateRequired(company.risk_keyword, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].risk_keyword`);
+        validateString(company.risk_keyword, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].risk_keyword`, 1, 100);
+        validateString(company.relationship_type, `entities_with_affiliated[${index}].affiliated_companies[${companyIndex}].relationship_type`, 1, 100);
+      });
+    });
+  }
+
+  /**
+   * explain can be sent in the body or as ?explain=true
+   */
+  private isExplainRequested(req: Request, bodyValue?: boolean): boolean {
+    return bodyValue === true || req.query.explain === 'true';
+  }
+
+  /**
+   * Apply the client's matchTypes / minConfidence filters, recording dismissals in the explain report
+   */
+  private applyMatchFilters(
+    matches: DatasetMatch[],
+    matchTypes?: string[],
+    minConfidence?: number,
+    report?: EntityMatchReport
+  ): DatasetMatch[] {
+    return matches.filter(match => {
+      let reason: string | null = null;
+
+      if (matchTypes && matchTypes.length > 0 && !matchTypes.includes(match.match_type)) {
+        reason = `Match type "${match.match_type}" not in requested matchTypes`;
+      } else if (minConfidence !== undefined && !(match.confidence_score && match.confidence_score >= minConfidence)) {
+        reason = `Confidence ${(match.confidence_score || 0).toFixed(3)} below requested minConfidence ${minConfidence}`;
+      }
+
+      if (reason && report) {
+        report.dismissed.push({
+          organization_name: match.organization_name,
+          dataset_name: match.dataset_name,
+          match_type: match.match_type,
+          confidence_score: match.confidence_score || 0,
+          reasons: [reason]
+        });
+        report.dismissed_total++;
+      }
+
+      return reason === null;
+    });
+  }
+}
@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { MatchJobService } from '../services/MatchJobService';
+import { CONFIG_ADMIN_ACTOR } from '../middleware/adminAuth';
+import { ConfigManager } from '../utils/ConfigManager';
+import { CsvParser } from '../utils/CsvParser';
+import { ListingPeriod } from '../utils/ListingPeriod';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { StrategyRegistry } from '../strategies/StrategyRegistry';
+import { CreateMatchJobRequest, MatchJob } from '../types/DatasetMatchTypes';
+import {
+  asyncHandler,
+  createServiceError,
+  validateArray,
+  validateNumber,
+  validateEnum,
+  validateString,
+  ValidationError
+} from '../utils/ErrorHandler';
+
+const ENTITY_COLUMNS = ['entity', 'name', 'organization_name', 'company'];
+
+export class MatchJobController {
+  private matchJobService: MatchJobService;
+
+  constructor() {
+    this.matchJobService = MatchJobService.getInstance();
+  }
+
+  /**
+   * Queue a match job from an entity list or an uploaded CSV
+   * POST /api/dataset-matching/jobs (requireAnalyst, as are the other job routes)
+   */
+  handleCreateJob = asyncHandler(async (req: Request, res: Response) => {
+    const { name, entities, csv, column, options } = req.body as CreateMatchJobRequest;
+    const maxEntities = ConfigManager.getInstance().getJobsConfig().max_entities;
+
+    if ((entities === undefined) === (csv === undefined)) {
+      throw new ValidationError('Provide either entities or csv');
+    }
+
+    if (name !== undefined) {
+      validateString(name, 'name', 1, 200);
+    }
+
+    let names: string[];
+    if (entities !== undefined) {
+      validateArray(entities, 'entities', 1, maxEntities);
+      entities.forEach((entity, index) => validateString(entity, `entities[${index}]`, 1, 500));
+      names = entities.map(entity => entity.trim());
+    } else {
+      validateString(csv, 'csv', 1, 10 * 1024 * 1024); // Bounded by the 10mb JSON body limit anyway
+      if (column !== undefined) {
+        validateString(column, 'column', 1, 200);
+      }
+      names = await this.extractEntities(csv!, column);
+      if (names.length === 0) {
+        throw new ValidationError('csv contains no entity names');
+      }
+      if (names.length > maxEntities) {
+        throw new ValidationError(`csv must contain at most ${maxEntities} entities`);
+      }
+    }
+
+    if (options) {
+      if (options.matchTypes !== undefined) {
+        validateArray(options.matchTypes, 'matchTypes', 0, 10);
+      }
+      if (options.minConfidence !== undefined) {
+        validateNumber(options.minConfidence, 'minConfidence', 0, 1);
+      }
+      if (options.maxResults !== undefined) {
+        validateNumber(options.maxResults, 'maxResults', 1, 100);
+      }
+      if (options.location !== undefined) {
+        validateString(options.location, 'location', 1, 100);
+      }
+      if (options.context !== undefined) {
+        validateString(options.context, 'context', 0, 1000);
+      }
+      if (options.entity_type !== undefined) {
+        validateEnum(options.entity_type, 'entity_type', ['person', 'organization', 'vessel']);
+      }
+      if (options.as_of !== undefined) {
+        ListingPeriod.parseAsOf(options.as_of);
+      }
+      if (options.include_historical !== undefined && typeof options.include_historical !== 'boolean') {
+        throw new ValidationError('include_historical must be a boolean');
+      }
+      if (options.organization_id !== undefined) {
+        validateString(options.organization_id, 'organization_id', 1, 200);
+      }
+      if (options.pipeline !== undefined) {
+        validateString(options.pipeline, 'pipeline', 1, 100);
+        StrategyRegistry.getInstance().resolvePipeline(options.pipeline);
+      }
+    }
+
+    const result = await this.matchJobService.createJob(names, { ...options, explain: undefined }, req.actor!, name);
+
+    if (result.success) {
+      ResponseFormatter.success(res, this.formatJob(result.data!), result.metadata, 202);
+    } else {
+      ResponseFormatter.error(res, result.error!, 500);
+    }
+  });
+
+  /**
+   * Job status and progress
+   * GET /api/dataset-matching/jobs/:jobId
+   */
+  handleGetJob = asyncHandler(async (req: Request, res: Response) => {
+    const job = await this.findJob(req);
+    if (!job) {
+      ResponseFormatter.notFound(res, `Job ${req.params.jobId}`);
+      return;
+    }
+
+    ResponseFormatter.success(res, this.formatJob(job));
+  });
+
+  /**
+   * Page through job results in completion order
+   * GET /api/dataset-matching/jobs/:jobId/results?offset=0&limit=100
+   */
+  handleGetJobResults = asyncHandler(async (req: Request, res: Response) => {
+    const jobsConfig = ConfigManager.getInstance().getJobsConfig();
+    const job = await this.findJob(req);
+    if (!job) {
+      ResponseFormatter.notFound(res, `Job ${req.params.jobId}`);
+      return;
+    }
+
+    const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : jobsConfig.default_page_size;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('offset must be a non-negative integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > jobsConfig.max_page_size) {
+      throw new ValidationError(`limit must be an integer between 1 and ${jobsConfig.max_page_size}`);
+    }
+
+    const results = await this.matchJobService.getResults(job.id, offset, limit);
+    const nextOffset = offset + results.length;
+
+    ResponseFormatter.success(res, {
+      job_id: job.id,
+      status: job.status,
+      offset,
+      limit,
+      available: job.processed,
+      next_offset: nextOffset < job.processed ? nextOffset : null,
+      results
+    });
+  });
+
+  /**
+   * Cancel a queued or running job
+   * DELETE /api/dataset-matching/jobs/:jobId
+   */
+  handleCancelJob = asyncHandler(async (req: Request, res: Response) => {
+    const existing = await this.findJob(req);
+    if (!existing) {
+      ResponseFormatter.notFound(res, `Job ${req.params.jobId}`);
+      return;
+    }
+
+    if (existing.status === 'completed' || existing.status === 'failed') {
+      ResponseFormatter.error(res, createServiceError('JOB_FINISHED', `Job ${existing.id} already ${existing.status}`), 409);
+      return;
+    }
+
+    const job = await this.matchJobService.cancelJob(existing.id);
+    ResponseFormatter.success(res, this.formatJob(job!));
+  });
+
+  /**
+   * Job of the path, when the requesting analyst created it. Other analysts'
+   * jobs are reported as not found; the config admin sees every job
+   */
+  private async findJob(req: Request): Promise<MatchJob | null> {
+    const job = await this.matchJobService.getJob(req.params.jobId);
+    return job && (req.actor === CONFIG_ADMIN_ACTOR || job.created_by === req.actor) ? job : null;
+  }
+
+  private formatJob(job: MatchJob) {
+    return {
+      ...job,
+      percent: job.total > 0 ? Math.round((job.processed / job.total) * 1000) / 10 : 100
+    };
+  }
+
+  /**
+   * Entity names from an uploaded CSV with a header row
+   */
+  private async extractEntities(csv: string, column?: string): Promise<string[]> {
+    const rows = await CsvParser.parse(csv);
+    if (rows.length < 2) return [];
+
+    const header = rows[0].map(field => field.trim().toLowerCase());
+    let columnIndex = 0;
+
+    if (column) {
+      columnIndex = header.indexOf(column.trim().toLowerCase());
+      if (columnIndex === -1) {
+        throw new ValidationError(`csv has no column "${column}"`);
+      }
+    } else {
+      const known = ENTITY_COLUMNS.map(name => header.indexOf(name)).find(index => index !== -1);
+      if (known !== undefined) columnIndex = known;
+    }
+
+    return rows.slice(1)
+      .map(row => (row[columnIndex] || '').trim())
+      .filter(entity => entity.length > 0 && entity.length <= 500);
+  }
+}
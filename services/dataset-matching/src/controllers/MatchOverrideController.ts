@@ -0,0 +1,192 @@
+import { Request, Response } from 'express';
+import { MatchOverrideService } from '../services/MatchOverrideService';
+import { CsvParser } from '../utils/CsvParser';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import {
+  CreateMatchOverrideRequest,
+  MatchOverride,
+  MatchOverrideAction,
+  UpdateMatchOverrideRequest
+} from '../types/DatasetMatchTypes';
+import {
+  asyncHandler,
+  validateEnum,
+  validateRequired,
+  validateString,
+  ValidationError
+} from '../utils/ErrorHandler';
+
+const EXPORT_COLUMNS: Array<keyof MatchOverride | 'status'> = [
+  'id', 'status', 'action', 'query', 'entry_id', 'dataset_name', 'organization_name', 'organization_id',
+  'reason', 'created_by', 'updated_by', 'expires_at', 'revoked_at', 'created_at', 'updated_at'
+];
+
+export class MatchOverrideController {
+  private static readonly ACTIONS: MatchOverrideAction[] = ['suppress', 'confirm'];
+
+  private matchOverrideService: MatchOverrideService;
+
+  constructor() {
+    this.matchOverrideService = MatchOverrideService.getInstance();
+  }
+
+  /**
+   * Declare that a query never (suppress) or always (confirm) matches an entry
+   * POST /api/dataset-matching/overrides (requireAnalyst)
+   */
+  handleCreateOverride = asyncHandler(async (req: Request, res: Response) => {
+    const request = req.body as CreateMatchOverrideRequest;
+
+    validateRequired(request.query, 'query');
+    validateString(request.query, 'query', 1, 500);
+    validateEnum(request.action, 'action', MatchOverrideController.ACTIONS);
+    validateRequired(request.reason, 'reason');
+    validateString(request.reason, 'reason', 1, 1000);
+
+    if (request.entry_id !== undefined) {
+      validateString(request.entry_id, 'entry_id', 1, 200);
+    } else {
+      // Without an entry id the entry is identified by dataset and name
+      validateRequired(request.dataset_name, 'dataset_name');
+      validateRequired(request.organization_name, 'organization_name');
+    }
+    if (request.dataset_name !== undefined) {
+      validateString(request.dataset_name, 'dataset_name', 1, 200);
+    }
+    if (request.organization_name !== undefined) {
+      validateString(request.organization_name, 'organization_name', 1, 500);
+    }
+    if (request.organization_id !== undefined) {
+      validateString(request.organization_id, 'organization_id', 1, 200);
+    }
+    if (request.expires_at !== undefined) {
+      this.validateExpiry(request.expires_at);
+    }
+
+    const result = await this.matchOverrideService.createOverride(request, req.actor!);
+
+    if (result.success) {
+      ResponseFormatter.success(res, result.data, result.metadata, 201);
+    } else {
+      const status = result.error?.code === 'OVERRIDE_EXISTS' ? 409 : result.error?.code === 'OVERRIDE_ENTRY_NOT_FOUND' ? 404 : 500;
+      ResponseFormatter.error(res, result.error!, status);
+    }
+  });
+
+  /**
+   * List overrides, active ones only unless ?include_inactive=true
+   * GET /api/dataset-matching/overrides?query=&organization_id=&include_inactive= (requireAnalyst)
+   */
+  handleListOverrides = asyncHandler(async (req: Request, res: Response) => {
+    const { query, organization_id, include_inactive } = req.query;
+
+    if (query !== undefined) {
+      validateString(query, 'query', 1, 500);
+    }
+    if (organization_id !== undefined) {
+      validateString(organization_id, 'organization_id', 1, 200);
+    }
+
+    const overrides = await this.matchOverrideService.listOverrides({
+      query: query as string | undefined,
+      organization_id: organization_id as string | undefined,
+      include_inactive: include_inactive === 'true'
+    });
+
+    ResponseFormatter.success(res, {
+      overrides: overrides.map(override => ({ ...override, status: MatchOverrideService.statusOf(override) })),
+      total: overrides.length
+    });
+  });
+
+  /**
+   * Override with every revision it went through
+   * GET /api/dataset-matching/overrides/:overrideId (requireAnalyst)
+   */
+  handleGetOverride = asyncHandler(async (req: Request, res: Response) => {
+    const override = await this.matchOverrideService.getOverride(req.params.overrideId);
+    if (!override) {
+      ResponseFormatter.notFound(res, `Override ${req.params.overrideId}`);
+      return;
+    }
+
+    const history = await this.matchOverrideService.getHistory(override.id);
+    ResponseFormatter.success(res, { ...override, status: MatchOverrideService.statusOf(override), history });
+  });
+
+  /**
+   * Change the reason or expiry of an override
+   * PATCH /api/dataset-matching/overrides/:overrideId (requireAnalyst)
+   */
+  handleUpdateOverride = asyncHandler(async (req: Request, res: Response) => {
+    const request = req.body as UpdateMatchOverrideRequest;
+
+    if (request.reason === undefined && request.expires_at === undefined) {
+      throw new ValidationError('Provide reason and/or expires_at');
+    }
+    if (request.reason !== undefined) {
+      validateString(request.reason, 'reason', 1, 1000);
+    }
+    if (request.expires_at !== undefined && request.expires_at !== null) {
+      this.validateExpiry(request.expires_at);
+    }
+
+    const result = await this.matchOverrideService.updateOverride(req.params.overrideId, request, req.actor!);
+
+    if (!result.success) {
+      ResponseFormatter.error(res, result.error!, result.error?.code === 'OVERRIDE_REVOKED' ? 409 : 500);
+    } else if (!result.data) {
+      ResponseFormatter.notFound(res, `Override ${req.params.overrideId}`);
+    } else {
+      ResponseFormatter.success(res, result.data, result.metadata);
+    }
+  });
+
+  /**
+   * Revoke an override; it stays in the store and in exports
+   * DELETE /api/dataset-matching/overrides/:overrideId (requireAnalyst)
+   */
+  handleDeleteOverride = asyncHandler(async (req: Request, res: Response) => {
+    const revoked = await this.matchOverrideService.revokeOverride(req.params.overrideId, req.actor!);
+    if (!revoked) {
+      ResponseFormatter.notFound(res, `Override ${req.params.overrideId}`);
+      return;
+    }
+
+    ResponseFormatter.success(res, { ...revoked, status: MatchOverrideService.statusOf(revoked) });
+  });
+
+  /**
+   * Export every override, including expired and revoked ones, for audit
+   * GET /api/dataset-matching/overrides/export?format=json|csv&history=true (requireAnalyst)
+   */
+  handleExportOverrides = asyncHandler(async (req: Request, res: Response) => {
+    const format = (req.query.format as string) || 'json';
+    validateEnum(format, 'format', ['json', 'csv']);
+
+    const includeHistory = req.query.history === 'true' && format === 'json';
+    const overrides = await this.matchOverrideService.exportOverrides(includeHistory);
+    const filename = `match-overrides-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      const rows = overrides.map(override => EXPORT_COLUMNS.map(column => override[column]));
+      res.type('text/csv').send(CsvParser.format([EXPORT_COLUMNS, ...rows]));
+      return;
+    }
+
+    res.json({ exported_at: new Date().toISOString(), total: overrides.length, overrides });
+  });
+
+  private validateExpiry(value: string): void {
+    validateString(value, 'expires_at', 4, 40);
+    const expiresAt = Date.parse(value);
+    if (isNaN(expiresAt)) {
+      throw new ValidationError('expires_at must be an ISO date or timestamp');
+    }
+    if (expiresAt <= Date.now()) {
+      throw new ValidationError('expires_at must be in the future');
+    }
+  }
+}
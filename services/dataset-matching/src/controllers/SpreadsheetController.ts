@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { SpreadsheetScreeningService } from '../services/SpreadsheetScreeningService';
+import { ListingPeriod } from '../utils/ListingPeriod';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { StrategyRegistry } from '../strategies/StrategyRegistry';
+import {
+  IdentifierType,
+  SpreadsheetColumnMapping,
+  SpreadsheetScreeningRequest,
+  SpreadsheetUploadRequest
+} from '../types/DatasetMatchTypes';
+import {
+  asyncHandler,
+  validateArray,
+  validateEnum,
+  validateNumber,
+  validateString,
+  ValidationError
+} from '../utils/ErrorHandler';
+
+const IDENTIFIER_TYPES: IdentifierType[] = ['lei', 'registration_number', 'imo', 'tax_id', 'website_domain', 'email_domain'];
+
+const CONTENT_TYPES = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export class SpreadsheetController {
+  private spreadsheetScreeningService: SpreadsheetScreeningService;
+
+  constructor() {
+    this.spreadsheetScreeningService = SpreadsheetScreeningService.getInstance();
+  }
+
+  /**
+   * Headers, suggested column mapping and sample rows of an uploaded spreadsheet
+   * POST /api/dataset-matching/spreadsheets/columns
+   */
+  handleDetectColumns = asyncHandler(async (req: Request, res: Response) => {
+    const upload = req.body as SpreadsheetUploadRequest;
+    this.validateUpload(upload);
+
+    const spreadsheet = await this.spreadsheetScreeningService.parse(upload);
+    ResponseFormatter.success(res, this.spreadsheetScreeningService.detectColumns(spreadsheet));
+  });
+
+  /**
+   * Screen every row of an uploaded spreadsheet and return it with match columns appended
+   * POST /api/dataset-matching/spreadsheets/screen
+   */
+  handleScreenSpreadsheet = asyncHandler(async (req: Request, res: Response) => {
+    const request = req.body as SpreadsheetScreeningRequest;
+    this.validateUpload(request);
+
+    if (request.columns !== undefined) {
+      this.validateColumns(request.columns);
+    }
+    if (request.output !== undefined) {
+      validateEnum(request.output, 'output', ['csv', 'xlsx', 'json']);
+    }
+
+    const options = request.options;
+    if (options) {
+      if (options.matchTypes !== undefined) {
+        validateArray(options.matchTypes, 'matchTypes', 0, 10);
+      }
+      if (options.minConfidence !== undefined) {
+        validateNumber(options.minConfidence, 'minConfidence', 0, 1);
+      }
+      if (options.maxResults !== undefined) {
+        validateNumber(options.maxResults, 'maxResults', 1, 100);
+      }
+      if (options.location !== undefined) {
+        validateString(options.location, 'location', 1, 100);
+      }
+      if (options.context !== undefined) {
+        validateString(options.context, 'context', 0, 1000);
+      }
+      if (options.entity_type !== undefined) {
+        validateEnum(options.entity_type, 'entity_type', ['person', 'organization', 'vessel']);
+      }
+      if (options.as_of !== undefined) {
+        ListingPeriod.parseAsOf(options.as_of);
+      }
+      if (options.include_historical !== undefined && typeof options.include_historical !== 'boolean') {
+        throw new ValidationError('include_historical must be a boolean');
+      }
+      if (options.organization_id !== undefined) {
+        validateString(options.organization_id, 'organization_id', 1, 200);
+      }
+      if (options.consolidate !== undefined && typeof options.consolidate !== 'boolean') {
+        throw new ValidationError('consolidate must be a boolean');
+      }
+      if (options.pipeline !== undefined) {
+        validateString(options.pipeline, 'pipeline', 1, 100);
+        StrategyRegistry.getInstance().resolvePipeline(options.pipeline);
+      }
+    }
+
+    const spreadsheet = await this.spreadsheetScreeningService.parse(request);
+    const output = request.output || spreadsheet.format;
+    if (output === 'xlsx' && spreadsheet.format !== 'xlsx') {
+      throw new ValidationError('output xlsx needs an .xlsx upload; use csv or json for CSV files');
+    }
+
+    const columns = this.spreadsheetScreeningService.resolveColumns(spreadsheet, request.columns);
+    const result = await this.spreadsheetScreeningService.screen(spreadsheet, columns, output, { ...options, explain: undefined });
+
+    if (!result.success) {
+      ResponseFormatter.error(res, result.error!, 500);
+      return;
+    }
+
+    const { file, ...data } = result.data!;
+    if (!file) {
+      ResponseFormatter.success(res, data, result.metadata);
+      return;
+    }
+
+    const { summary } = data;
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('X-Rows-Screened', String(summary.screened));
+    res.setHeader('X-Rows-Matched', String(summary.matched));
+    res.setHeader('X-Config-Version', summary.config_version);
+    res.type(CONTENT_TYPES[file.format]).send(file.content);
+  });
+
+  private validateUpload(upload: SpreadsheetUploadRequest): void {
+    validateString(upload.file, 'file', 1, 10 * 1024 * 1024); // Bounded by the 10mb JSON body limit anyway
+    if (upload.format !== undefined) {
+      validateEnum(upload.format, 'format', ['csv', 'xlsx']);
+    }
+    if (upload.filename !== undefined) {
+      validateString(upload.filename, 'filename', 1, 255);
+    }
+    if (upload.sheet !== undefined) {
+      validateString(upload.sheet, 'sheet', 1, 100);
+    }
+  }
+
+  private validateColumns(columns: SpreadsheetColumnMapping): void {
+    if (typeof columns !== 'object' || columns === null || Array.isArray(columns)) {
+      throw new ValidationError('columns must be an object');
+    }
+
+    validateString(columns.name, 'columns.name', 1, 200);
+    if (columns.country !== undefined) {
+      validateString(columns.country, 'columns.country', 1, 200);
+    }
+
+    if (columns.identifiers !== undefined) {
+      if (typeof columns.identifiers !== 'object' || columns.identifiers === null || Array.isArray(columns.identifiers)) {
+        throw new ValidationError('columns.identifiers must be an object');
+      }
+      Object.entries(columns.identifiers).forEach(([type, header]) => {
+        validateEnum(type, 'columns.identifiers type', IDENTIFIER_TYPES);
+        validateString(header, `columns.identifiers.${type}`, 1, 200);
+      });
+    }
+  }
+}
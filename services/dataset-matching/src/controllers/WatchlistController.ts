@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import { WatchlistService } from '../services/WatchlistService';
+import { CONFIG_ADMIN_ACTOR } from '../middleware/adminAuth';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ListingPeriod } from '../utils/ListingPeriod';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { StrategyRegistry } from '../strategies/StrategyRegistry';
+import { StreamWriter } from '../utils/StreamWriter';
+import { WebhookUrlValidator } from '../utils/WebhookUrlValidator';
+import { CreateWatchlistRequest, Watchlist } from '../types/DatasetMatchTypes';
+import {
+  asyncHandler,
+  createServiceError,
+  validateArray,
+  validateNumber,
+  validateEnum,
+  validateString,
+  ValidationError
+} from '../utils/ErrorHandler';
+
+export class WatchlistController {
+  private watchlistService: WatchlistService;
+
+  constructor() {
+    this.watchlistService = WatchlistService.getInstance();
+  }
+
+  /**
+   * Register a watchlist of entities to re-screen when datasets change
+   * POST /api/dataset-matching/watchlists (requireAnalyst)
+   */
+  handleCreateWatchlist = asyncHandler(async (req: Request, res: Response) => {
+    const { name, entities, webhook_url, options } = req.body as CreateWatchlistRequest;
+    const maxEntities = ConfigManager.getInstance().getWatchlistsConfig().max_entities;
+
+    validateString(name, 'name', 1, 200);
+    validateArray(entities, 'entities', 1, maxEntities);
+    entities.forEach((entity, index) => validateString(entity, `entities[${index}]`, 1, 500));
+
+    if (webhook_url !== undefined) {
+      validateString(webhook_url, 'webhook_url', 1, 2000);
+      await WebhookUrlValidator.validate(webhook_url);
+    }
+
+    if (options) {
+      if (options.matchTypes !== undefined) {
+        validateArray(options.matchTypes, 'matchTypes', 0, 10);
+      }
+      if (options.minConfidence !== undefined) {
+        validateNumber(options.minConfidence, 'minConfidence', 0, 1);
+      }
+      if (options.maxResults !== undefined) {
+        validateNumber(options.maxResults, 'maxResults', 1, 100);
+      }
+      if (options.location !== undefined) {
+        validateString(options.location, 'location', 1, 100);
+      }
+      if (options.context !== undefined) {
+        validateString(options.context, 'context', 0, 1000);
+      }
+      if (options.entity_type !== undefined) {
+        validateEnum(options.entity_type, 'entity_type', ['person', 'organization', 'vessel']);
+      }
+      if (options.as_of !== undefined) {
+        ListingPeriod.parseAsOf(options.as_of);
+      }
+      if (options.include_historical !== undefined && typeof options.include_historical !== 'boolean') {
+        throw new ValidationError('include_historical must be a boolean');
+      }
+      if (options.organization_id !== undefined) {
+        validateString(options.organization_id, 'organization_id', 1, 200);
+      }
+      if (options.pipeline !== undefined) {
+        validateString(options.pipeline, 'pipeline', 1, 100);
+        StrategyRegistry.getInstance().resolvePipeline(options.pipeline);
+      }
+    }
+
+    const result = await this.watchlistService.createWatchlist({
+      name,
+      entities,
+      webhook_url,
+      options: options ? { ...options, forceRefresh: undefined, explain: undefined } : undefined
+    }, req.actor!);
+
+    if (result.success) {
+      ResponseFormatter.success(res, result.data, result.metadata, 201);
+    } else {
+      ResponseFormatter.error(res, result.error!, result.error?.code === 'WATCHLIST_LIMIT_REACHED' ? 409 : 500);
+    }
+  });
+
+  /**
+   * List the requesting analyst's watchlists
+   * GET /api/dataset-matching/watchlists (requireAnalyst, as are the other watchlist routes)
+   */
+  handleListWatchlists = asyncHandler(async (req: Request, res: Response) => {
+    const watchlists = (await this.watchlistService.listWatchlists()).filter(watchlist => this.isOwner(req, watchlist));
+    ResponseFormatter.success(res, { watchlists, total: watchlists.length });
+  });
+
+  /**
+   * Watchlist with each entity's current match set
+   * GET /api/dataset-matching/watchlists/:watchlistId
+   */
+  handleGetWatchlist = asyncHandler(async (req: Request, res: Response) => {
+    const watchlist = await this.findWatchlist(req);
+    if (!watchlist) {
+      ResponseFormatter.notFound(res, `Watchlist ${req.params.watchlistId}`);
+      return;
+    }
+
+    const entities = await this.watchlistService.getEntities(watchlist.id);
+    ResponseFormatter.success(res, {
+      ...watchlist,
+      entities: entities.map(item => ({ ...item, match_count: item.matches.length }))
+    });
+  });
+
+  /**
+   * Remove a watchlist and its alerts
+   * DELETE /api/dataset-matching/watchlists/:watchlistId (requireAnalyst)
+   */
+  handleDeleteWatchlist = asyncHandler(async (req: Request, res: Response) => {
+    const watchlist = await this.findWatchlist(req);
+    if (!watchlist || !(await this.watchlistService.deleteWatchlist(watchlist.id))) {
+      ResponseFormatter.notFound(res, `Watchlist ${req.params.watchlistId}`);
+      return;
+    }
+
+    ResponseFormatter.success(res, { id: req.params.watchlistId, deleted: true });
+  });
+
+  /**
+   * Queue a re-screening regardless of the datasets version
+   * POST /api/dataset-matching/watchlists/:watchlistId/rescreen (requireAnalyst)
+   */
+  handleRescreenWatchlist = asyncHandler(async (req: Request, res: Response) => {
+    const watchlist = await this.findWatchlist(req);
+    if (!watchlist) {
+      ResponseFormatter.notFound(res, `Watchlist ${req.params.watchlistId}`);
+      return;
+    }
+
+    const queued = this.watchlistService.rescreen(watchlist.id);
+    ResponseFormatter.success(res, { id: watchlist.id, queued, already_queued: !queued }, undefined, 202);
+  });
+
+  /**
+   * Page through change alerts, oldest first
+   * GET /api/dataset-matching/watchlists/:watchlistId/alerts?offset=0&limit=100
+   */
+  handleGetAlerts = asyncHandler(async (req: Request, res: Response) => {
+    const watchlistsConfig = ConfigManager.getInstance().getWatchlistsConfig();
+    const watchlist = await this.findWatchlist(req);
+    if (!watchlist) {
+      ResponseFormatter.notFound(res, `Watchlist ${req.params.watchlistId}`);
+      return;
+    }
+
+    const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : watchlistsConfig.default_page_size;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('offset must be a non-negative integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > watchlistsConfig.max_page_size) {
+      throw new ValidationError(`limit must be an integer between 1 and ${watchlistsConfig.max_page_size}`);
+    }
+
+    const { alerts, total } = await this.watchlistService.getAlerts(watchlist.id, offset, limit);
+    const nextOffset = offset + alerts.length;
+
+    ResponseFormatter.success(res, {
+      watchlist_id: watchlist.id,
+      offset,
+      limit,
+      total,
+      next_offset: nextOffset < total ? nextOffset : null,
+      alerts
+    });
+  });
+
+  /**
+   * Stream alerts and screening summaries as they happen (SSE, or NDJSON with ?format=ndjson),
+   * for all of the requesting analyst's watchlists or for one of them
+   * GET /api/dataset-matching/watchlists/alerts/stream
+   * GET /api/dataset-matching/watchlists/:watchlistId/alerts/stream
+   */
+  handleStreamAlerts = asyncHandler(async (req: Request, res: Response) => {
+    const watchlistId = req.params.watchlistId || null;
+    if (watchlistId !== null && !(await this.findWatchlist(req))) {
+      ResponseFormatter.notFound(res, `Watchlist ${watchlistId}`);
+      return;
+    }
+
+    const owner = req.actor === CONFIG_ADMIN_ACTOR ? null : req.actor!;
+    this.watchlistService.subscribe(new StreamWriter(res, StreamWriter.negotiate(req)), watchlistId, owner);
+  });
+
+  /**
+   * Watchlist of the path, when the requesting analyst created it. Other analysts'
+   * watchlists are reported as not found; the config admin sees every watchlist
+   */
+  private async findWatchlist(req: Request): Promise<Watchlist | null> {
+    const watchlist = await this.watchlistService.getWatchlist(req.params.watchlistId);
+    return watchlist && this.isOwner(req, watchlist) ? watchlist : null;
+  }
+
+  private isOwner(req: Request, watchlist: Watchlist): boolean {
+    return req.actor === CONFIG_ADMIN_ACTOR || watchlist.created_by === req.actor;
+  }
+
+  /**
+   * Import notification from data-management: re-screen every watchlist
+   * POST /api/dataset-matching/datasets/updated
+   */
+  handleDatasetsUpdated = asyncHandler(async (req: Request, res: Response) => {
+    const { dataset_id } = req.body || {};
+    if (dataset_id !== undefined) {
+      validateString(dataset_id, 'dataset_id', 1, 200);
+    }
+
+    try {
+      const queued = await this.watchlistService.handleDatasetsUpdated(dataset_id);
+      ResponseFormatter.success(res, { queued_watchlists: queued }, undefined, 202);
+    } catch (error: any) {
+      ResponseFormatter.error(res, createServiceError('DATASETS_REFRESH_ERROR', `Failed to refresh datasets: ${error.message}`), 500);
+    }
+  });
+}
@@ -0,0 +1,320 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatasetIndexService } from '../services/DatasetIndexService';
+import { DatasetMatchingService } from '../services/DatasetMatchingService';
+import { ConfigManager } from '../utils/ConfigManager';
+import { DatasetEntrySource, DatasetMatch } from '../types/DatasetMatchTypes';
+
+// ==================== Evaluation Types ====================
+
+export interface LabelledPair {
+  query: string;
+  expected_entry_id: string | null; // null means the query should not match anything
+  location?: string;
+  context?: string;
+  note?: string;
+}
+
+export interface LabelledPairSet {
+  description?: string;
+  pairs: LabelledPair[];
+}
+
+export type PairOutcome = 'true_positive' | 'false_positive' | 'false_negative' | 'true_negative';
+
+export interface PairResult {
+  query: string;
+  location: string | null;
+  expected_entry_id: string | null;
+  predicted_entry_id: string | null;
+  predicted_name: string | null;
+  match_type: DatasetMatch['match_type'] | null;
+  confidence_score: number | null;
+  expected_rank: number | null; // 1-based rank of the expected entry within the returned matches
+  outcome: PairOutcome;
+  note?: string;
+}
+
+export interface ConfusionCounts {
+  true_positive: number;
+  false_positive: number;
+  false_negative: number;
+  true_negative: number;
+}
+
+export interface MatchTypeBreakdown {
+  true_positive: number;
+  false_positive: number;
+  precision: number;
+}
+
+export interface EvaluationReport {
+  label: string;
+  config_files: Record<string, string>;
+  pairs_total: number;
+  counts: ConfusionCounts;
+  precision: number;
+  recall: number;
+  f1: number;
+  recall_at_k: { k: number; value: number };
+  by_match_type: Record<string, MatchTypeBreakdown>;
+  results: PairResult[];
+  processing_time_ms: number;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationReport;
+  candidate: EvaluationReport;
+  deltas: {
+    precision: number;
+    recall: number;
+    f1: number;
+    recall_at_k: number;
+  };
+  changed: Array<{
+    query: string;
+    expected_entry_id: string | null;
+    baseline: PairOutcome;
+    candidate: PairOutcome;
+    baseline_entry_id: string | null;
+    candidate_entry_id: string | null;
+  }>;
+}
+
+export interface EvaluationOptions {
+  k?: number; // Depth used for recall@k, also the number of matches requested per query
+}
+
+const CONFIG_FILES = ['matching-config.json', 'similarity-weights.json', 'country-mappings.json'];
+
+/**
+ * Runs labelled query/entry pairs through DatasetMatchingService against a fixed
+ * entry source and scores the results.
+ *
+ * Only the top-ranked match counts as the prediction:
+ * - true positive: the top match is the expected entry
+ * - false positive: the top match is a different entry, or any match for a "no match" pair
+ * - false negative: nothing returned for a pair that has an expected entry
+ * - true negative: nothing returned for a "no match" pair
+ * Recall is measured over all pairs with an expected entry, so a wrong top match
+ * lowers both precision and recall.
+ */
+export class EvaluationRunner {
+  private source: DatasetEntrySource;
+  private k: number;
+
+  constructor(source: DatasetEntrySource, options: EvaluationOptions = {}) {
+    this.source = source;
+    this.k = Math.max(1, options.k || 5);
+  }
+
+  public static loadPairs(filePath: string): LabelledPair[] {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LabelledPairSet | LabelledPair[];
+    const pairs = Array.isArray(parsed) ? parsed : parsed.pairs;
+
+    if (!Array.isArray(pairs) || pairs.length === 0) {
+      throw new Error(`No labelled pairs found in ${filePath}`);
+    }
+
+    pairs.forEach((pair, i) => {
+      if (typeof pair.query !== 'string' || !pair.query.trim()) {
+        throw new Error(`Pair ${i} in ${filePath} has no query`);
+      }
+      if (pair.expected_entry_id === undefined) {
+        throw new Error(`Pair ${i} ("${pair.query}") in ${filePath} must set expected_entry_id (use null for no match)`);
+      }
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Resolve a configuration set: either a directory holding any of the config files,
+   * or a single config file named after the one it replaces
+   */
+  public static resolveConfigSet(configPath: string): Record<string, string> {
+    const resolved = path.resolve(configPath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Configuration path not found: ${configPath}`);
+    }
+
+    if (fs.statSync(resolved).isDirectory()) {
+      const files: Record<string, string> = {};
+      CONFIG_FILES
+        .filter(filename => fs.existsSync(path.join(resolved, filename)))
+        .forEach(filename => { files[filename] = path.join(resolved, filename); });
+
+      if (Object.keys(files).length === 0) {
+        throw new Error(`No configuration files (${CONFIG_FILES.join(', ')}) found in ${configPath}`);
+      }
+      return files;
+    }
+
+    const filename = path.basename(resolved);
+    if (!CONFIG_FILES.includes(filename)) {
+      throw new Error(`Configuration file must be named one of ${CONFIG_FILES.join(', ')}, got ${filename}`);
+    }
+    return { [filename]: resolved };
+  }
+
+  /**
+   * Evaluate all pairs with the given configuration files (defaults to src/config)
+   */
+  public async run(pairs: LabelledPair[], label: string, configFiles: Record<string, string> = {}): Promise<EvaluationReport> {
+    const startTime = Date.now();
+    const configManager = ConfigManager.getInstance();
+
+    configManager.setConfigOverrides(configFiles);
+    try {
+      const indexService = new DatasetIndexService(this.source);
+      if (!indexService.isEnabled()) {
+        throw new Error(`Configuration "${label}" disables the in-memory index (index.enable_in_memory_index); evaluation needs it to match against fixtures`);
+      }
+      await indexService.refresh(true);
+
+      const matchingService = new DatasetMatchingService(indexService);
+      const results: PairResult[] = [];
+
+      // Sequential on purpose: keeps timings comparable and logs readable
+      for (const pair of pairs) {
+        results.push(await this.evaluatePair(matchingService, pair));
+      }
+
+      return this.buildReport(label, configFiles, results, Date.now() - startTime);
+    } finally {
+      configManager.clearConfigOverrides();
+    }
+  }
+
+  /**
+   * Evaluate the same pairs under two configurations and report the differences
+   */
+  public async compare(
+    pairs: LabelledPair[],
+    baseline: { label: string; files: Record<string, string> },
+    candidate: { label: string; files: Record<string, string> }
+  ): Promise<EvaluationComparison> {
+    const baselineReport = await this.run(pairs, baseline.label, baseline.files);
+    const candidateReport = await this.run(pairs, candidate.label, candidate.files);
+
+    const changed = baselineReport.results
+      .map((result, i) => ({ before: result, after: candidateReport.results[i] }))
+      .filter(({ before, after }) =>
+        before.outcome !== after.outcome || before.predicted_entry_id !== after.predicted_entry_id
+      )
+      .map(({ before, after }) => ({
+        query: before.query,
+        expected_entry_id: before.expected_entry_id,
+        baseline: before.outcome,
+        candidate: after.outcome,
+        baseline_entry_id: before.predicted_entry_id,
+        candidate_entry_id: after.predicted_entry_id
+      }));
+
+    return {
+      baseline: baselineReport,
+      candidate: candidateReport,
+      deltas: {
+        precision: this.round(candidateReport.precision - baselineReport.precision),
+        recall: this.round(candidateReport.recall - baselineReport.recall),
+        f1: this.round(candidateReport.f1 - baselineReport.f1),
+        recall_at_k: this.round(candidateReport.recall_at_k.value - baselineReport.recall_at_k.value)
+      },
+      changed
+    };
+  }
+
+  private async evaluatePair(matchingService: DatasetMatchingService, pair: LabelledPair): Promise<PairResult> {
+    const response = await matchingService.findMatchesEnhanced(pair.query, pair.location, pair.context, {
+      forceRefresh: true,
+      maxResults: this.k,
+      // Labels name one entry; consolidation would fold it into another listing's match
+      consolidate: false
+    });
+
+    if (!response.success) {
+      throw new Error(`Matching failed for "${pair.query}": ${response.error?.message || 'unknown error'}`);
+    }
+
+    const matches = response.data || [];
+    const top = matches[0];
+    const expectedIndex = pair.expected_entry_id
+      ? matches.findIndex(match => match.entry_id === pair.expected_entry_id)
+      : -1;
+
+    let outcome: PairOutcome;
+    if (!top) {
+      outcome = pair.expected_entry_id ? 'false_negative' : 'true_negative';
+    } else {
+      outcome = pair.expected_entry_id && top.entry_id === pair.expected_entry_id ? 'true_positive' : 'false_positive';
+    }
+
+    return {
+      query: pair.query,
+      location: pair.location || null,
+      expected_entry_id: pair.expected_entry_id,
+      predicted_entry_id: top?.entry_id || null,
+      predicted_name: top?.organization_name || null,
+      match_type: top?.match_type || null,
+      confidence_score: top?.confidence_score !== undefined ? this.round(top.confidence_score) : null,
+      expected_rank: expectedIndex >= 0 ? expectedIndex + 1 : null,
+      outcome,
+      note: pair.note
+    };
+  }
+
+  private buildReport(
+    label: string,
+    configFiles: Record<string, string>,
+    results: PairResult[],
+    processingTimeMs: number
+  ): EvaluationReport {
+    const counts: ConfusionCounts = { true_positive: 0, false_positive: 0, false_negative: 0, true_negative: 0 };
+    const byMatchType: Record<string, MatchTypeBreakdown> = {};
+
+    for (const result of results) {
+      counts[result.outcome]++;
+
+      if (result.match_type) {
+        if (!byMatchType[result.match_type]) {
+          byMatchType[result.match_type] = { true_positive: 0, false_positive: 0, precision: 0 };
+        }
+        const bucket = byMatchType[result.match_type];
+        if (result.outcome === 'true_positive') bucket.true_positive++;
+        if (result.outcome === 'false_positive') bucket.false_positive++;
+      }
+    }
+
+    Object.values(byMatchType).forEach(bucket => {
+      bucket.precision = this.ratio(bucket.true_positive, bucket.true_positive + bucket.false_positive);
+    });
+
+    const positives = results.filter(result => result.expected_entry_id !== null);
+    const precision = this.ratio(counts.true_positive, counts.true_positive + counts.false_positive);
+    const recall = this.ratio(counts.true_positive, positives.length);
+    const f1 = precision + recall > 0 ? this.round((2 * precision * recall) / (precision + recall)) : 0;
+    const foundInTopK = positives.filter(result => result.expected_rank !== null).length;
+
+    return {
+      label,
+      config_files: configFiles,
+      pairs_total: results.length,
+      counts,
+      precision,
+      recall,
+      f1,
+      recall_at_k: { k: this.k, value: this.ratio(foundInTopK, positives.length) },
+      by_match_type: byMatchType,
+      results,
+      processing_time_ms: processingTimeMs
+    };
+  }
+
+  private ratio(numerator: number, denominator: number): number {
+    return denominator > 0 ? this.round(numerator / denominator) : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
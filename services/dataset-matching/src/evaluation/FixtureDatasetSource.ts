@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import {
+  Dataset,
+  DatasetEntry,
+  DatasetEntrySource,
+  ServiceResponse
+} from '../types/DatasetMatchTypes';
+
+export interface DatasetFixture {
+  datasets: Dataset[];
+  entries: DatasetEntry[];
+}
+
+/**
+ * Local stand-in for SupabaseService that serves dataset entries from a JSON fixture,
+ * so the in-memory index can be built without a database
+ */
+export class FixtureDatasetSource implements DatasetEntrySource {
+  private datasets: Dataset[];
+  private entries: DatasetEntry[];
+
+  constructor(fixture: DatasetFixture) {
+    this.datasets = fixture.datasets || [];
+    this.entries = fixture.entries || [];
+
+    const datasetIds = new Set(this.datasets.map(dataset => dataset.id));
+    const orphan = this.entries.find(entry => !datasetIds.has(entry.dataset_id));
+    if (orphan) {
+      throw new Error(`Fixture entry ${orphan.id} references unknown dataset ${orphan.dataset_id}`);
+    }
+  }
+
+  public static fromFile(filePath: string): FixtureDatasetSource {
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8')) as DatasetFixture;
+    return new FixtureDatasetSource(fixture);
+  }
+
+  public getEntryCount(): number {
+    return this.entries.length;
+  }
+
+  async getDatasetsVersion(): Promise<ServiceResponse<string>> {
+    return this.respond('fixture');
+  }
+
+  async getActiveDatasets(): Promise<ServiceResponse<Dataset[]>> {
+    return this.respond(this.datasets.filter(dataset => dataset.is_active));
+  }
+
+  async getDatasetSignature(datasetId: string): Promise<ServiceResponse<string>> {
+    const count = this.entries.filter(entry => entry.dataset_id === datasetId).length;
+    return this.respond(`fixture:${count}`);
+  }
+
+  async getIndexableEntries(datasetId: string): Promise<ServiceResponse<DatasetEntry[]>> {
+    return this.respond(this.entries.filter(entry => entry.dataset_id === datasetId));
+  }
+
+  private respond<T>(data: T): ServiceResponse<T> {
+    return {
+      success: true,
+      data,
+      metadata: {
+        processing_time_ms: 0,
+        cache_used: false,
+        algorithm_version: 'fixture'
+      }
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Labelled evaluation for dataset matching.
+ *
+ * Usage:
+ *   npm run evaluate -- [--pairs <file>] [--fixtures <file>] [--k <n>]
+ *                       [--config <dir|file>] [--compare <dir|file>] [--json]
+ *
+ * --config replaces the configuration under evaluation (defaults to src/config).
+ * --compare evaluates a second configuration and prints both side by side.
+ */
+import * as path from 'path';
+import { FixtureDatasetSource } from './FixtureDatasetSource';
+import { EvaluationComparison, EvaluationReport, EvaluationRunner } from './EvaluationRunner';
+
+interface CliOptions {
+  pairs: string;
+  fixtures: string;
+  k: number;
+  config?: string;
+  compare?: string;
+  json: boolean;
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    pairs: path.join(FIXTURES_DIR, 'labelled-pairs.json'),
+    fixtures: path.join(FIXTURES_DIR, 'entries.json'),
+    k: 5,
+    json: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--pairs': options.pairs = value(); break;
+      case '--fixtures': options.fixtures = value(); break;
+      case '--k': options.k = parseInt(value(), 10); break;
+      case '--config': options.config = value(); break;
+      case '--compare': options.compare = value(); break;
+      case '--json': options.json = true; break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!Number.isInteger(options.k) || options.k < 1) {
+    throw new Error('--k must be a positive integer');
+  }
+
+  return options;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(value: number): string {
+  const formatted = `${(value * 100).toFixed(1)}pp`;
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+function printReport(report: EvaluationReport): void {
+  console.log(`\n📊 ${report.label}: ${report.pairs_total} pairs in ${report.processing_time_ms}ms`);
+  console.log(`   precision ${percent(report.precision)}  recall ${percent(report.recall)}  F1 ${percent(report.f1)}  recall@${report.recall_at_k.k} ${percent(report.recall_at_k.value)}`);
+  console.log(`   TP ${report.counts.true_positive}  FP ${report.counts.false_positive}  FN ${report.counts.false_negative}  TN ${report.counts.true_negative}`);
+
+  console.log('   By match type:');
+  Object.entries(report.by_match_type)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([matchType, bucket]) => {
+      console.log(`     ${matchType.padEnd(14)} TP ${bucket.true_positive}  FP ${bucket.false_positive}  precision ${percent(bucket.precision)}`);
+    });
+
+  const failures = report.results.filter(result =>
+    result.outcome === 'false_positive' || result.outcome === 'false_negative'
+  );
+  if (failures.length > 0) {
+    console.log('   Failures:');
+    failures.forEach(result => {
+      const predicted = result.predicted_entry_id
+        ? `${result.predicted_entry_id} "${result.predicted_name}" (${result.match_type}, ${result.confidence_score})`
+        : 'no match';
+      console.log(`     ❌ "${result.query}" expected ${result.expected_entry_id || 'no match'}, got ${predicted}`);
+    });
+  }
+}
+
+function printComparison(comparison: EvaluationComparison): void {
+  const { baseline, candidate, deltas } = comparison;
+  const rows: Array<[string, number, number, number]> = [
+    ['precision', baseline.precision, candidate.precision, deltas.precision],
+    ['recall', baseline.recall, candidate.recall, deltas.recall],
+    ['F1', baseline.f1, candidate.f1, deltas.f1],
+    [`recall@${baseline.recall_at_k.k}`, baseline.recall_at_k.value, candidate.recall_at_k.value, deltas.recall_at_k]
+  ];
+
+  console.log(`\n⚖️  ${baseline.label} vs ${candidate.label}`);
+  rows.forEach(([metric, before, after, delta]) => {
+    console.log(`   ${metric.padEnd(12)} ${percent(before).padStart(7)} ${percent(after).padStart(7)}  ${signed(delta)}`);
+  });
+
+  if (comparison.changed.length === 0) {
+    console.log('   No pair changed outcome');
+    return;
+  }
+
+  console.log('   Changed pairs:');
+  comparison.changed.forEach(change => {
+    console.log(`     "${change.query}": ${change.baseline} (${change.baseline_entry_id || '-'}) → ${change.candidate} (${change.candidate_entry_id || '-'})`);
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const pairs = EvaluationRunner.loadPairs(options.pairs);
+  const runner = new EvaluationRunner(FixtureDatasetSource.fromFile(options.fixtures), { k: options.k });
+
+  const baseline = {
+    label: options.config || 'default config',
+    files: options.config ? EvaluationRunner.resolveConfigSet(options.config) : {}
+  };
+
+  // Keep stdout clean for the report: matching logs go to stderr
+  const log = console.log;
+  console.log = (...args: any[]) => console.error(...args);
+
+  let output: EvaluationReport | EvaluationComparison;
+  try {
+    output = options.compare
+      ? await runner.compare(pairs, baseline, {
+        label: options.compare,
+        files: EvaluationRunner.resolveConfigSet(options.compare)
+      })
+      : await runner.run(pairs, baseline.label, baseline.files);
+  } finally {
+    console.log = log;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(output, null, 2));
+  } else if ('deltas' in output) {
+    printReport(output.baseline);
+    printReport(output.candidate);
+    printComparison(output);
+  } else {
+    printReport(output);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ Evaluation failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { MatchJob, MatchJobResult, MatchJobStatus } from '../types/DatasetMatchTypes';
+import { MatchJobStore } from './MatchJobStore';
+
+interface ResultCache {
+  bytes: number; // Bytes of results.ndjson already parsed
+  results: MatchJobResult[];
+}
+
+/**
+ * Job store on the local filesystem, one directory per job:
+ *   job.json         job state (replaced atomically)
+ *   entities.json    submitted entity names
+ *   results.ndjson   one result per line, appended as entities complete
+ * Survives restarts, so interrupted jobs can resume.
+ */
+export class FileMatchJobStore implements MatchJobStore {
+  private static readonly MAX_CACHED_JOBS = 5;
+
+  private resultCache = new Map<string, ResultCache>();
+
+  constructor(private baseDir: string) {
+    fs.mkdirSync(baseDir, { recursive: true });
+  }
+
+  async createJob(job: MatchJob, entities: string[]): Promise<void> {
+    const jobDir = this.jobDir(job.id);
+    await fs.promises.mkdir(jobDir, { recursive: true });
+    await fs.promises.writeFile(path.join(jobDir, 'entities.json'), JSON.stringify(entities));
+    await fs.promises.writeFile(path.join(jobDir, 'results.ndjson'), '');
+    await this.writeJob(job);
+  }
+
+  async getJob(jobId: string): Promise<MatchJob | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(this.jobDir(jobId), 'job.json'), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async updateJob(jobId: string, update: Partial<MatchJob>): Promise<MatchJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const updated = { ...job, ...update, id: jobId };
+    await this.writeJob(updated);
+    return updated;
+  }
+
+  async listJobs(statuses?: MatchJobStatus[]): Promise<MatchJob[]> {
+    const jobIds = await fs.promises.readdir(this.baseDir);
+    const jobs = await Promise.all(jobIds.map(jobId => this.getJob(jobId).catch(() => null)));
+
+    return jobs.filter((job): job is MatchJob => !!job && (!statuses || statuses.includes(job.status)));
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    this.resultCache.delete(jobId);
+    await fs.promises.rm(this.jobDir(jobId), { recursive: true, force: true });
+  }
+
+  async getEntities(jobId: string): Promise<string[]> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(this.jobDir(jobId), 'entities.json'), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async appendResults(jobId: string, results: MatchJobResult[]): Promise<void> {
+    if (results.length === 0) return;
+    const lines = results.map(result => JSON.stringify(result)).join('\n') + '\n';
+    await fs.promises.appendFile(path.join(this.jobDir(jobId), 'results.ndjson'), lines);
+  }
+
+  async getResults(jobId: string, offset: number, limit: number): Promise<MatchJobResult[]> {
+    return (await this.readResults(jobId)).slice(offset, offset + limit);
+  }
+
+  async getCompletedIndexes(jobId: string): Promise<Set<number>> {
+    return new Set((await this.readResults(jobId)).map(result => result.index));
+  }
+
+  /**
+   * Parse only what was appended since the last read. A trailing partial line
+   * (process killed mid-append) is left for the next read
+   */
+  private async readResults(jobId: string): Promise<MatchJobResult[]> {
+    const file = path.join(this.jobDir(jobId), 'results.ndjson');
+    let cache = this.resultCache.get(jobId) || { bytes: 0, results: [] };
+
+    let size: number;
+    try {
+      size = (await fs.promises.stat(file)).size;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    if (size < cache.bytes) {
+      cache = { bytes: 0, results: [] };
+    }
+
+    if (size > cache.bytes) {
+      const handle = await fs.promises.open(file, 'r');
+      try {
+        const buffer = Buffer.alloc(size - cache.bytes);
+        await handle.read(buffer, 0, buffer.length, cache.bytes);
+
+        const complete = buffer.lastIndexOf('\n') + 1;
+        buffer.subarray(0, complete).toString('utf8')
+          .split('\n')
+          .filter(line => line)
+          .forEach(line => cache.results.push(JSON.parse(line)));
+        cache.bytes += complete;
+      } finally {
+        await handle.close();
+      }
+    }
+
+    this.resultCache.delete(jobId);
+    this.resultCache.set(jobId, cache);
+    if (this.resultCache.size > FileMatchJobStore.MAX_CACHED_JOBS) {
+      this.resultCache.delete(this.resultCache.keys().next().value as string);
+    }
+
+    return cache.results;
+  }
+
+  private async writeJob(job: MatchJob): Promise<void> {
+    const file = path.join(this.jobDir(job.id), 'job.json');
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+    await fs.promises.rename(`${file}.tmp`, file);
+  }
+
+  private jobDir(jobId: string): string {
+    // Job ids are generated server-side; refuse anything that could escape the base directory
+    if (!/^[A-Za-z0-9_-]+$/.test(jobId)) {
+      throw new Error(`Invalid job id: ${jobId}`);
+    }
+    return path.join(this.baseDir, jobId);
+  }
+}
@@ -0,0 +1,58 @@
+import { MatchJob, MatchJobResult, MatchJobStatus } from '../types/DatasetMatchTypes';
+import { MatchJobStore } from './MatchJobStore';
+
+interface StoredJob {
+  job: MatchJob;
+  entities: string[];
+  results: MatchJobResult[];
+}
+
+/**
+ * Process-local job store; jobs are lost on restart
+ */
+export class InMemoryMatchJobStore implements MatchJobStore {
+  private jobs = new Map<string, StoredJob>();
+
+  async createJob(job: MatchJob, entities: string[]): Promise<void> {
+    this.jobs.set(job.id, { job: { ...job }, entities: [...entities], results: [] });
+  }
+
+  async getJob(jobId: string): Promise<MatchJob | null> {
+    const stored = this.jobs.get(jobId);
+    return stored ? { ...stored.job } : null;
+  }
+
+  async updateJob(jobId: string, update: Partial<MatchJob>): Promise<MatchJob | null> {
+    const stored = this.jobs.get(jobId);
+    if (!stored) return null;
+
+    stored.job = { ...stored.job, ...update, id: jobId };
+    return { ...stored.job };
+  }
+
+  async listJobs(statuses?: MatchJobStatus[]): Promise<MatchJob[]> {
+    return Array.from(this.jobs.values())
+      .map(stored => ({ ...stored.job }))
+      .filter(job => !statuses || statuses.includes(job.status));
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  async getEntities(jobId: string): Promise<string[]> {
+    return this.jobs.get(jobId)?.entities || [];
+  }
+
+  async appendResults(jobId: string, results: MatchJobResult[]): Promise<void> {
+    this.jobs.get(jobId)?.results.push(...results);
+  }
+
+  async getResults(jobId: string, offset: number, limit: number): Promise<MatchJobResult[]> {
+    return (this.jobs.get(jobId)?.results || []).slice(offset, offset + limit);
+  }
+
+  async getCompletedIndexes(jobId: string): Promise<Set<number>> {
+    return new Set((this.jobs.get(jobId)?.results || []).map(result => result.index));
+  }
+}
@@ -0,0 +1,19 @@
+import { MatchJob, MatchJobResult, MatchJobStatus } from '../types/DatasetMatchTypes';
+
+/**
+ * Persistence for asynchronous match jobs. Results are appended in completion
+ * order and paged in that order; implementations must keep appends durable
+ * before resolving so an interrupted job can resume from getCompletedIndexes.
+ */
+export interface MatchJobStore {
+  createJob(job: MatchJob, entities: string[]): Promise<void>;
+  getJob(jobId: string): Promise<MatchJob | null>;
+  updateJob(jobId: string, update: Partial<MatchJob>): Promise<MatchJob | null>;
+  listJobs(statuses?: MatchJobStatus[]): Promise<MatchJob[]>;
+  deleteJob(jobId: string): Promise<void>;
+
+  getEntities(jobId: string): Promise<string[]>;
+  appendResults(jobId: string, results: MatchJobResult[]): Promise<void>;
+  getResults(jobId: string, offset: number, limit: number): Promise<MatchJobResult[]>;
+  getCompletedIndexes(jobId: string): Promise<Set<number>>;
+}
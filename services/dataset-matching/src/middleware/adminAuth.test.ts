@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+
+// ANALYST_TOKENS is parsed when the module loads, so each run loads it afresh
+const run = (headers: Record<string, string> = {}) => {
+  let requireAnalyst!: typeof import('./adminAuth').requireAnalyst;
+  jest.isolateModules(() => {
+    ({ requireAnalyst } = require('./adminAuth'));
+  });
+  const req = { headers } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() } as unknown as Response;
+  const next = jest.fn();
+  requireAnalyst(req, res, next);
+  return { req, res, next };
+};
+
+describe('requireAnalyst', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('records the analyst named by the token', () => {
+    process.env.ANALYST_TOKENS = 'alice:token-a, bob:token-b';
+    const { req, next } = run({ 'x-analyst-token': 'token-b' });
+    expect(next).toHaveBeenCalled();
+    expect(req.actor).toBe('bob');
+  });
+
+  it('accepts the config admin token as config-admin', () => {
+    delete process.env.ANALYST_TOKENS;
+    process.env.CONFIG_ADMIN_TOKEN = 'admin-token';
+    const { req, next } = run({ 'x-analyst-token': 'admin-token' });
+    expect(next).toHaveBeenCalled();
+    expect(req.actor).toBe('config-admin');
+  });
+
+  it('rejects a missing or unknown token', () => {
+    process.env.ANALYST_TOKENS = 'alice:token-a';
+    expect(run().res.status).toHaveBeenCalledWith(401);
+    const { res, next } = run({ 'x-analyst-token': 'token-x' });
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('is disabled in production without tokens', () => {
+    delete process.env.ANALYST_TOKENS;
+    delete process.env.CONFIG_ADMIN_TOKEN;
+    process.env.NODE_ENV = 'production';
+    const { res, next } = run();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('is open as anonymous in development without tokens', () => {
+    delete process.env.ANALYST_TOKENS;
+    delete process.env.CONFIG_ADMIN_TOKEN;
+    process.env.NODE_ENV = 'development';
+    const { req, next } = run();
+    expect(next).toHaveBeenCalled();
+    expect(req.actor).toBe('anonymous');
+  });
+});
@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { createServiceError } from '../utils/ErrorHandler';
+
+/**
+ * Guards configuration admin endpoints with the CONFIG_ADMIN_TOKEN shared secret
+ * (sent as the X-Admin-Token header). Without a token the endpoints are open in
+ * development and disabled in production.
+ */
+export const requireConfigAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const expectedToken = process.env.CONFIG_ADMIN_TOKEN;
+
+  if (!expectedToken) {
+    if (process.env.NODE_ENV === 'production') {
+      ResponseFormatter.error(
+        res,
+        createServiceError('CONFIG_ADMIN_DISABLED', 'Configuration admin is disabled: set CONFIG_ADMIN_TOKEN to enable it'),
+        403
+      );
+      return;
+    }
+    next();
+    return;
+  }
+
+  if (req.headers['x-admin-token'] !== expectedToken) {
+    ResponseFormatter.error(res, createServiceError('UNAUTHORIZED', 'A valid X-Admin-Token header is required'), 401);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Guards dataset event notifications (sent by data-management after an import)
+ * with the DATASET_EVENTS_TOKEN shared secret, sent as the X-Events-Token header.
+ * Without a token the endpoint is open in development and disabled in production.
+ */
+export const requireDatasetEvents = (req: Request, res: Response, next: NextFunction): void => {
+  const expectedToken = process.env.DATASET_EVENTS_TOKEN;
+
+  if (!expectedToken) {
+    if (process.env.NODE_ENV === 'production') {
+      ResponseFormatter.error(
+        res,
+        createServiceError('DATASET_EVENTS_DISABLED', 'Dataset event notifications are disabled: set DATASET_EVENTS_TOKEN to enable them'),
+        403
+      );
+      return;
+    }
+    next();
+    return;
+  }
+
+  if (req.headers['x-events-token'] !== expectedToken) {
+    ResponseFormatter.error(res, createServiceError('UNAUTHORIZED', 'A valid X-Events-Token header is required'), 401);
+    return;
+  }
+
+  next();
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      actor?: string; // Analyst authenticated by requireAnalyst
+    }
+  }
+}
+
+interface AnalystToken {
+  name: string;
+  token: Buffer;
+}
+
+/**
+ * Analyst tokens from ANALYST_TOKENS, a comma-separated list of name:token pairs
+ */
+const parseAnalystTokens = (value: string): AnalystToken[] => {
+  const tokens: AnalystToken[] = [];
+  value.split(',').forEach(pair => {
+    const separator = pair.indexOf(':');
+    const name = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (separator > 0 && name && token) {
+      tokens.push({ name, token: Buffer.from(token) });
+    }
+  });
+  return tokens;
+};
+
+// Parsed once: token changes take effect on restart
+const analystTokens = parseAnalystTokens(process.env.ANALYST_TOKENS || '');
+
+// Constant-time comparison, so response timing does not leak how much of a token matched
+const tokenMatches = (candidate: Buffer, expected: Buffer): boolean =>
+  candidate.length === expected.length && timingSafeEqual(candidate, expected);
+
+// Actor of requests authenticated with CONFIG_ADMIN_TOKEN; it can see every analyst's jobs
+export const CONFIG_ADMIN_ACTOR = 'config-admin';
+
+/**
+ * Guards analyst write endpoints with per-analyst tokens from ANALYST_TOKENS ("alice:token1,bob:token2"), sent as
+ * the X-Analyst-Token header. The token's name becomes req.actor, which is what
+ * gets recorded as the author of a change. CONFIG_ADMIN_TOKEN is accepted too,
+ * as the actor "config-admin". Without either the endpoints are open in
+ * development (actor "anonymous") and disabled in production.
+ */
+export const requireAnalyst = (req: Request, res: Response, next: NextFunction): void => {
+  const adminToken = process.env.CONFIG_ADMIN_TOKEN;
+
+  if (analystTokens.length === 0 && !adminToken) {
+    if (process.env.NODE_ENV === 'production') {
+      ResponseFormatter.error(
+        res,
+        createServiceError('ANALYST_ENDPOINTS_DISABLED', 'Analyst endpoints are disabled: set ANALYST_TOKENS to enable them'),
+        403
+      );
+      return;
+    }
+    req.actor = 'anonymous';
+    next();
+    return;
+  }
+
+  const token = req.headers['x-analyst-token'];
+  const candidate = Buffer.from(typeof token === 'string' ? token : '');
+  const actor = candidate.length > 0
+    ? analystTokens.find(analyst => tokenMatches(candidate, analyst.token))?.name
+      || (adminToken && tokenMatches(candidate, Buffer.from(adminToken)) ? CONFIG_ADMIN_ACTOR : undefined)
+    : undefined;
+
+  if (!actor) {
+    ResponseFormatter.error(res, createServiceError('UNAUTHORIZED', 'A valid X-Analyst-Token header is required'), 401);
+    return;
+  }
+
+  req.actor = actor;
+  next();
+};
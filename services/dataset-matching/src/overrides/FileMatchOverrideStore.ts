@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { MatchOverride } from '../types/DatasetMatchTypes';
+import { MatchOverrideStore } from './MatchOverrideStore';
+
+/**
+ * Override store on the local filesystem: overrides.ndjson holds one revision
+ * per line, appended on every change. The latest revision of an id is its
+ * current state; the file as a whole is the audit log.
+ */
+export class FileMatchOverrideStore implements MatchOverrideStore {
+  private file: string;
+
+  constructor(baseDir: string) {
+    fs.mkdirSync(baseDir, { recursive: true });
+    this.file = path.join(baseDir, 'overrides.ndjson');
+  }
+
+  async saveOverride(override: MatchOverride): Promise<void> {
+    await fs.promises.appendFile(this.file, JSON.stringify(override) + '\n');
+  }
+
+  async getOverride(overrideId: string): Promise<MatchOverride | null> {
+    const history = await this.getHistory(overrideId);
+    return history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  async listOverrides(): Promise<MatchOverride[]> {
+    const latest = new Map<string, MatchOverride>();
+    (await this.readRevisions()).forEach(revision => latest.set(revision.id, revision));
+    return Array.from(latest.values());
+  }
+
+  async getHistory(overrideId: string): Promise<MatchOverride[]> {
+    return (await this.readRevisions()).filter(revision => revision.id === overrideId);
+  }
+
+  private async readRevisions(): Promise<MatchOverride[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // A trailing partial line (process killed mid-append) is ignored
+    return content.split('\n').slice(0, -1).filter(line => line).map(line => JSON.parse(line));
+  }
+}
@@ -0,0 +1,28 @@
+import { MatchOverride } from '../types/DatasetMatchTypes';
+import { MatchOverrideStore } from './MatchOverrideStore';
+
+/**
+ * Process-local override store; overrides are lost on restart
+ */
+export class InMemoryMatchOverrideStore implements MatchOverrideStore {
+  private revisions = new Map<string, MatchOverride[]>();
+
+  async saveOverride(override: MatchOverride): Promise<void> {
+    const history = this.revisions.get(override.id) || [];
+    history.push({ ...override });
+    this.revisions.set(override.id, history);
+  }
+
+  async getOverride(overrideId: string): Promise<MatchOverride | null> {
+    const history = this.revisions.get(overrideId);
+    return history ? { ...history[history.length - 1] } : null;
+  }
+
+  async listOverrides(): Promise<MatchOverride[]> {
+    return Array.from(this.revisions.values()).map(history => ({ ...history[history.length - 1] }));
+  }
+
+  async getHistory(overrideId: string): Promise<MatchOverride[]> {
+    return (this.revisions.get(overrideId) || []).map(revision => ({ ...revision }));
+  }
+}
@@ -0,0 +1,13 @@
+import { MatchOverride } from '../types/DatasetMatchTypes';
+
+/**
+ * Persistence for analyst match overrides. Overrides are never removed:
+ * revoking one stores a new revision, so every override that ever applied
+ * can be exported for audit.
+ */
+export interface MatchOverrideStore {
+  saveOverride(override: MatchOverride): Promise<void>; // Creates or replaces by id
+  getOverride(overrideId: string): Promise<MatchOverride | null>;
+  listOverrides(): Promise<MatchOverride[]>;
+  getHistory(overrideId: string): Promise<MatchOverride[]>; // Every saved revision, oldest first
+}
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ConcurrencyManager } from '../utils/ConcurrencyManager';
+import { StreamWriter } from '../utils/StreamWriter';
+import {
+  BatchStreamKind,
+  BatchStreamProgress,
+  BatchStreamResult,
+  BatchStreamStatus,
+  BatchStreamSummary
+} from '../types/DatasetMatchTypes';
+
+export interface BatchStreamItem<T> {
+  entity: string;
+  data: T;
+}
+
+// Processors throw on failure and report how many matches they found for the summary
+export type BatchStreamProcessor<T> = (data: T) => Promise<{ data: any; match_count: number }>;
+
+interface BatchRun {
+  id: string;
+  kind: BatchStreamKind;
+  items: Array<BatchStreamItem<any>>;
+  processor: BatchStreamProcessor<any>;
+  results: BatchStreamResult[];
+  completed: Set<number>;
+  total_matches: number;
+  status: BatchStreamStatus;
+  writer: StreamWriter | null;
+  processing: boolean; // A processing loop is in flight (it can outlive a disconnected writer briefly)
+  created_by: string; // Authenticated analyst (req.actor); only they can resume or cancel the batch
+  created_at: number;
+  updated_at: number;
+  elapsed_ms: number; // Processing time across all connections
+}
+
+/**
+ * Runs batches entity by entity and streams each result as soon as it is ready.
+ * Runs are kept in memory for streaming.batch_ttl_minutes: a client that
+ * disconnects pauses its batch and can resume it by id, receiving the results
+ * it missed before processing continues.
+ */
+export class BatchStreamService {
+  private static instance: BatchStreamService;
+  private configManager: ConfigManager;
+  private concurrencyManager: ConcurrencyManager;
+  private runs = new Map<string, BatchRun>();
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+
+    const performanceConfig = this.configManager.getSimilarityWeights().performance_tuning?.batch_processing;
+    this.concurrencyManager = new ConcurrencyManager({
+      maxConcurrent: performanceConfig?.max_concurrent || 5,
+      delayBetweenBatches: 0, // Results are streamed, no need to pace the client
+      timeout: 30000,
+      retryAttempts: 1
+    });
+  }
+
+  public static getInstance(): BatchStreamService {
+    if (!BatchStreamService.instance) {
+      BatchStreamService.instance = new BatchStreamService();
+    }
+    return BatchStreamService.instance;
+  }
+
+  createBatch<T>(kind: BatchStreamKind, items: Array<BatchStreamItem<T>>, processor: BatchStreamProcessor<T>, createdBy: string): string {
+    this.evictExpiredRuns();
+
+    const now = Date.now();
+    const run: BatchRun = {
+      id: `batch_${crypto.randomBytes(8).toString('hex')}`,
+      kind,
+      items,
+      processor,
+      results: [],
+      completed: new Set(),
+      total_matches: 0,
+      status: 'paused',
+      writer: null,
+      processing: false,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+      elapsed_ms: 0
+    };
+
+    this.runs.set(run.id, run);
+    console.log(`🌊 Streaming ${kind} batch ${run.id} created with ${items.length} entities`);
+    return run.id;
+  }
+
+  // Analyst who created the batch; undefined when there is no such batch
+  getCreator(batchId: string): string | undefined {
+    return this.runs.get(batchId)?.created_by;
+  }
+
+  isStreaming(batchId: string): boolean {
+    const run = this.runs.get(batchId);
+    return !!run && (!!run.writer || run.processing);
+  }
+
+  /**
+   * Attach a client: replay results after the given event id, then process
+   * whatever is left. Resolves when the batch completes or the client disconnects.
+   */
+  async stream(batchId: string, writer: StreamWriter, afterSeq: number = 0): Promise<void> {
+    const run = this.runs.get(batchId);
+    if (!run) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+
+    const streamingConfig = this.configManager.getStreamingConfig();
+    run.writer = writer;
+    run.updated_at = Date.now();
+    writer.onClose(() => this.detach(run, writer));
+    writer.open(streamingConfig.heartbeat_interval_ms);
+
+    writer.send('batch', {
+      batch_id: run.id,
+      kind: run.kind,
+      total: run.items.length,
+      processed: run.completed.size,
+      status: run.status === 'completed' ? 'completed' : 'running',
+      resumed_after: afterSeq
+    });
+
+    run.results
+      .filter(result => result.seq > afterSeq)
+      .forEach(result => writer.send('result', result, result.seq));
+
+    if (run.status !== 'completed' && run.status !== 'cancelled') {
+      run.processing = true;
+      try {
+        await this.process(run, writer);
+      } finally {
+        run.processing = false;
+      }
+    }
+
+    if (!writer.isClosed()) {
+      writer.send('summary', this.buildSummary(run));
+      writer.end();
+    }
+    if (run.writer === writer) {
+      run.writer = null;
+    }
+  }
+
+  /**
+   * Stop a batch and forget its results
+   */
+  cancelBatch(batchId: string): boolean {
+    const run = this.runs.get(batchId);
+    if (!run) return false;
+
+    run.status = 'cancelled';
+    if (run.writer) {
+      run.writer.send('summary', this.buildSummary(run));
+      run.writer.end();
+    }
+    this.runs.delete(batchId);
+    console.log(`🛑 Streaming batch ${batchId} cancelled`);
+    return true;
+  }
+
+  private async process(run: BatchRun, writer: StreamWriter): Promise<void> {
+    const streamingConfig = this.configManager.getStreamingConfig();
+    const startTime = Date.now();
+    const elapsedBefore = run.elapsed_ms;
+    let lastProgressAt = startTime;
+
+    const pending = run.items
+      .map((item, index) => ({ id: String(index), data: index }))
+      .filter(task => !run.completed.has(task.data));
+
+    run.status = 'running';
+
+    for await (const taskResult of this.concurrencyManager.processStreaming(pending, (index: number) => run.processor(run.items[index].data))) {
+      const index = Number(taskResult.taskId);
+      if (!this.runs.has(run.id)) return; // Cancelled
+      if (isNaN(index) || run.completed.has(index)) continue;
+
+      const result: BatchStreamResult = {
+        seq: run.results.length + 1,
+        index,
+        entity: run.items[index].entity,
+        success: taskResult.success,
+        data: taskResult.data?.data,
+        error: taskResult.error?.message
+      };
+
+      run.results.push(result);
+      run.completed.add(index);
+      run.total_matches += taskResult.data?.match_count || 0;
+      run.updated_at = Date.now();
+      run.elapsed_ms = elapsedBefore + (run.updated_at - startTime);
+
+      // The client left: keep what was computed and pause until it resumes
+      if (writer.isClosed()) {
+        run.status = 'paused';
+        console.log(`⏸️  Streaming batch ${run.id} paused at ${run.completed.size}/${run.items.length} (client disconnected)`);
+        return;
+      }
+
+      writer.send('result', result, result.seq);
+
+      const processed = run.completed.size;
+      if (processed % streamingConfig.progress_every === 0 || run.updated_at - lastProgressAt >= streamingConfig.progress_interval_ms) {
+        writer.send('progress', this.buildProgress(run));
+        lastProgressAt = run.updated_at;
+      }
+    }
+
+    run.status = 'completed';
+    console.log(`✅ Streaming batch ${run.id} completed: ${run.items.length} entities, ${run.total_matches} matches in ${run.elapsed_ms}ms`);
+  }
+
+  private detach(run: BatchRun, writer: StreamWriter): void {
+    if (run.writer === writer) {
+      run.writer = null;
+      run.updated_at = Date.now();
+    }
+  }
+
+  private buildProgress(run: BatchRun): BatchStreamProgress {
+    const processed = run.completed.size;
+    return {
+      batch_id: run.id,
+      processed,
+      total: run.items.length,
+      failed: run.results.filter(result => !result.success).length,
+      percent: run.items.length > 0 ? Math.round((processed / run.items.length) * 1000) / 10 : 100,
+      elapsed_ms: run.elapsed_ms
+    };
+  }
+
+  private buildSummary(run: BatchRun): BatchStreamSummary {
+    return {
+      ...this.buildProgress(run),
+      kind: run.kind,
+      status: run.status,
+      total_matches: run.total_matches,
+      failed_entities: run.results.filter(result => !result.success).map(result => result.entity),
+      config_version: this.configManager.getConfigVersion()
+    };
+  }
+
+  /**
+   * Drop idle runs past their TTL, then the oldest idle runs beyond max_stored_batches
+   */
+  private evictExpiredRuns(): void {
+    const streamingConfig = this.configManager.getStreamingConfig();
+    const cutoff = Date.now() - streamingConfig.batch_ttl_minutes * 60 * 1000;
+
+    const idle = Array.from(this.runs.values())
+      .filter(run => !run.writer && !run.processing)
+      .sort((a, b) => a.updated_at - b.updated_at);
+
+    idle.filter(run => run.updated_at < cutoff).forEach(run => this.runs.delete(run.id));
+
+    const remaining = idle.filter(run => this.runs.has(run.id));
+    let excess = this.runs.size - streamingConfig.max_stored_batches + 1;
+    for (const run of remaining) {
+      if (excess <= 0) break;
+      this.runs.delete(run.id);
+      excess--;
+    }
+  }
+}
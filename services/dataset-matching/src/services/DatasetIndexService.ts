@@ -0,0 +1,261 @@
+import { SupabaseService } from './SupabaseService';
+import { ConfigManager } from '../utils/ConfigManager';
+import { DatasetIndex } from '../utils/DatasetIndex';
+import { SemanticMatching } from '../algorithms/SemanticMatching';
+import {
+  DatasetEntrySource,
+  DatasetIndexStats,
+  IndexCandidate
+} from '../types/DatasetMatchTypes';
+
+/**
+ * Keeps the in-memory DatasetIndex in sync with the active datasets.
+ * The index is rebuilt incrementally: when getDatasetsVersion changes, only
+ * datasets whose entry signature changed are reloaded.
+ */
+export class DatasetIndexService {
+  private static instance: DatasetIndexService;
+  private source: DatasetEntrySource;
+  private configManager: ConfigManager;
+  private index: DatasetIndex;
+  private indexOptionsKey = '';
+  private clusterOptionsKey = '';
+
+  private currentVersion: string | null = null;
+  private datasetSignatures = new Map<string, string>();
+  private lastVersionCheck = 0;
+  private lastRefresh: Date | null = null;
+  private lastRefreshMs = 0;
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor(source: DatasetEntrySource) {
+    this.source = source;
+    this.configManager = ConfigManager.getInstance();
+    this.index = this.createIndex();
+  }
+
+  public static getInstance(): DatasetIndexService {
+    if (!DatasetIndexService.instance) {
+      DatasetIndexService.instance = new DatasetIndexService(SupabaseService.getInstance());
+    }
+    return DatasetIndexService.instance;
+  }
+
+  /**
+   * Whether matching should use the in-memory index
+   */
+  public isEnabled(): boolean {
+    return this.configManager.getIndexConfig().enable_in_memory_index;
+  }
+
+  /**
+   * Make sure the index reflects the current datasets version.
+   * Version checks are throttled; concurrent callers share one refresh.
+   */
+  public async ensureFresh(): Promise<boolean> {
+    // A hot-reloaded configuration can change how the index is built
+    if (this.getIndexOptionsKey() !== this.indexOptionsKey) {
+      console.log('📚 Index configuration changed, rebuilding dataset index');
+      this.index = this.createIndex();
+      this.datasetSignatures.clear();
+      this.currentVersion = null;
+    }
+
+    // Clustering settings apply without reloading any dataset
+    if (this.currentVersion !== null && this.getClusterOptionsKey() !== this.clusterOptionsKey) {
+      this.rebuildClusters();
+    }
+
+    const interval = this.configManager.getIndexConfig().version_check_interval_ms;
+    const now = Date.now();
+
+    if (this.currentVersion !== null && now - this.lastVersionCheck < interval) {
+      return true;
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refresh()
+        .catch(error => {
+          console.warn('Failed to refresh dataset index:', error.message || error);
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    await this.refreshPromise;
+    return this.currentVersion !== null;
+  }
+
+  /**
+   * Reload changed datasets if the datasets version moved
+   */
+  public async refresh(force: boolean = false): Promise<void> {
+    const startTime = Date.now();
+    this.lastVersionCheck = startTime;
+
+    const versionResult = await this.source.getDatasetsVersion();
+    const version = versionResult.success && versionResult.data ? versionResult.data : null;
+
+    if (!force && version !== null && version === this.currentVersion) {
+      return;
+    }
+
+    const datasetsResult = await this.source.getActiveDatasets();
+    if (!datasetsResult.success || !datasetsResult.data) {
+      throw new Error(datasetsResult.error?.message || 'Failed to load active datasets');
+    }
+
+    const activeIds = new Set(datasetsResult.data.map(dataset => dataset.id));
+    let reloaded = 0;
+    let removed = 0;
+
+    // Drop datasets that were deactivated or deleted
+    for (const datasetId of Array.from(this.datasetSignatures.keys())) {
+      if (!activeIds.has(datasetId)) {
+        this.index.removeDataset(datasetId);
+        this.datasetSignatures.delete(datasetId);
+        removed++;
+      }
+    }
+
+    // Reload datasets whose entries changed
+    for (const dataset of datasetsResult.data) {
+      const signatureResult = await this.source.getDatasetSignature(dataset.id);
+      const signature = signatureResult.success ? signatureResult.data! : `${Date.now()}`;
+
+      if (!force && this.datasetSignatures.get(dataset.id) === signature) {
+        continue;
+      }
+
+      const entriesResult = await this.source.getIndexableEntries(dataset.id);
+      if (!entriesResult.success || !entriesResult.data) {
+        console.warn(`Failed to load entries for dataset "${dataset.name}":`, entriesResult.error?.message);
+        continue;
+      }
+
+      this.index.replaceDataset(dataset, entriesResult.data);
+      this.datasetSignatures.set(dataset.id, signature);
+      reloaded++;
+    }
+
+    if (reloaded > 0 || removed > 0 || this.getClusterOptionsKey() !== this.clusterOptionsKey) {
+      this.rebuildClusters();
+    }
+
+    this.currentVersion = version || `${startTime}`;
+    this.lastRefresh = new Date();
+    this.lastRefreshMs = Date.now() - startTime;
+
+    if (reloaded > 0 || removed > 0) {
+      console.log(`📚 Dataset index refreshed: ${reloaded} datasets reloaded, ${removed} removed, ${this.index.size()} entries, ${this.index.clusterCount()} multi-listed entities (${this.lastRefreshMs}ms)`);
+    }
+  }
+
+  /**
+   * Retrieve candidate entries for a query
+   */
+  public search(query: string, limit?: number): IndexCandidate[] {
+    return this.index.search(query, limit);
+  }
+
+  /**
+   * Look up an indexed entry by id
+   */
+  public getEntry(entryId: string): IndexCandidate | null {
+    return this.index.getEntry(entryId);
+  }
+
+  /**
+   * Look up indexed entries by normalized identifier values
+   */
+  public findByIdentifiers(values: string[]): IndexCandidate[] {
+    return this.index.findByIdentifiers(values);
+  }
+
+  /**
+   * Latest last_seen among a dataset's indexed entries
+   */
+  public getDatasetLastSeen(datasetId: string): number | null {
+    return this.index.getDatasetLastSeen(datasetId);
+  }
+
+  /**
+   * Cluster of an indexed entry, null when its entity is listed only once
+   */
+  public getClusterId(entryId: string): string | null {
+    return this.index.getClusterId(entryId);
+  }
+
+  /**
+   * Every listing of a clustered entity
+   */
+  public getClusterMembers(clusterId: string): IndexCandidate[] {
+    return this.index.getClusterMembers(clusterId);
+  }
+
+  /**
+   * Current datasets version the index was built from
+   */
+  public getVersion(): string | null {
+    return this.currentVersion;
+  }
+
+  public getStats(): DatasetIndexStats {
+    const postings = this.index.getPostingCounts();
+
+    return {
+      datasets: this.index.datasetCount(),
+      entries: this.index.size(),
+      tokens: postings.tokens,
+      ngrams: postings.ngrams,
+      phonetic_keys: postings.phonetics,
+      semantic_vectors: postings.vectors,
+      clusters: this.index.clusterCount(),
+      version: this.currentVersion,
+      last_refresh: this.lastRefresh ? this.lastRefresh.toISOString() : null,
+      last_refresh_ms: this.lastRefreshMs
+    };
+  }
+
+  private createIndex(): DatasetIndex {
+    const indexConfig = this.configManager.getIndexConfig();
+    const semanticConfig = this.configManager.getSemanticConfig();
+    this.indexOptionsKey = this.getIndexOptionsKey();
+
+    return new DatasetIndex({
+      ngramSize: indexConfig.ngram_size,
+      maxCandidates: indexConfig.max_candidates,
+      minCandidateScore: indexConfig.min_candidate_score,
+      maxPostingRatio: indexConfig.max_posting_ratio,
+      phoneticKeys: this.configManager.getPhoneticConfig().weight > 0,
+      semantic: semanticConfig.weight > 0 ? {
+        tables: semanticConfig.ann.tables,
+        hashBits: semanticConfig.ann.hash_bits,
+        minSimilarity: semanticConfig.ann.min_similarity,
+        maxNeighbours: semanticConfig.ann.max_neighbours
+      } : null
+    });
+  }
+
+  private rebuildClusters(): void {
+    const { max_cluster_size, min_name_length } = this.configManager.getClusteringConfig();
+    this.clusterOptionsKey = this.getClusterOptionsKey();
+    this.index.rebuildClusters({ maxClusterSize: max_cluster_size, minNameLength: min_name_length });
+  }
+
+  private getClusterOptionsKey(): string {
+    const { max_cluster_size, min_name_length } = this.configManager.getClusteringConfig();
+    return JSON.stringify([max_cluster_size, min_name_length]);
+  }
+
+  private getIndexOptionsKey(): string {
+    const { ngram_size, max_candidates, min_candidate_score, max_posting_ratio } = this.configManager.getIndexConfig();
+    const phoneticKeys = this.configManager.getPhoneticConfig().weight > 0;
+    // Stored vectors are only comparable with queries embedded by the same model
+    const semantic = SemanticMatching.getInstance().isEnabled()
+      ? [SemanticMatching.getInstance().getModelKey(), this.configManager.getSemanticConfig().ann]
+      : null;
+    return JSON.stringify([ngram_size, max_candidates, min_candidate_score, max_posting_ratio, phoneticKeys, semantic]);
+  }
+}
@@ -1,27 +1,51 @@
 import { SupabaseService } from './SupabaseService';
+import { DatasetIndexService } from './DatasetIndexService';
+import { MatchOverrideService } from './MatchOverrideService';
 import { EntityNormalization } from '../algorithms/EntityNormalization';
 import { TextMatching } from '../algorithms/TextMatching';
 import { QualityAssessment } from '../algorithms/QualityAssessment';
-import { ConfigurableMatching } from '../algorithms/ConfigurableMatching';
+import { ConfigurableMatching, AdvancedSimilarityResult, MatchContext } from '../algorithms/ConfigurableMatching';
 import { GeographicMatching } from '../algorithms/GeographicMatching';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { PersonNameMatching, PersonNameSimilarity } from '../algorithms/PersonNameMatching';
 import { ConfigManager } from '../utils/ConfigManager';
 import { CountryNormalizer } from '../utils/CountryNormalizer';
 import { LRUCache } from '../utils/LRUCache';
 import { ConcurrencyManager } from '../utils/ConcurrencyManager';
+import { OwnershipGraph } from '../utils/OwnershipGraph';
+import { ListingPeriod } from '../utils/ListingPeriod';
+import { StrategyRegistry } from '../strategies/StrategyRegistry';
+import { StrategyContext } from '../strategies/MatchingStrategy';
 import {
+  AppliedOverride,
+  AsOf,
   DatasetMatch,
+  DismissedCandidate,
+  EntityIdentifiers,
+  EntityMatchReport,
+  EntityType,
+  MatchExplanation,
+  IndexCandidate,
   MatchCandidate,
   ServiceResponse,
   NormalizedEntity,
   EnhancedDatasetMatch,
   AffiliatedMatchRequest,
-  AffiliatedMatchResponse
+  AffiliatedMatchResponse,
+  MatchFeedback,
+  MatchFeedbackRequest,
+  MatchOverride,
+  OwnershipNodeResult,
+  OwnershipScreeningRequest,
+  OwnershipScreeningResult,
+  PipelineTrace,
+  SourceListing
 } from '../types/DatasetMatchTypes';
-import { createServiceError } from '../utils/ErrorHandler';
+import { createServiceError, ValidationError } from '../utils/ErrorHandler';
 
 export class DatasetMatchingService {
   private static instance: DatasetMatchingService;
-  private supabaseService: SupabaseService;
+  private indexService: DatasetIndexService;
   private configurableMatching: ConfigurableMatching;
   private geographicMatching: GeographicMatching;
   private configManager: ConfigManager;
@@ -34,13 +58,19 @@ export class DatasetMatchingService {
 
   // Concurrency manager for controlled parallel processing
   private concurrencyManager: ConcurrencyManager;
+  private strategyRegistry: StrategyRegistry;
 
-  private constructor() {
-    this.supabaseService = SupabaseService.getInstance();
+  /**
+   * An index service can be supplied to match against a non-Supabase source
+   * (used by the evaluation harness); the singleton uses the Supabase-backed index.
+   */
+  constructor(indexService?: DatasetIndexService) {
+    this.indexService = indexService || DatasetIndexService.getInstance();
     this.configurableMatching = ConfigurableMatching.getInstance();
     this.geographicMatching = GeographicMatching.getInstance();
     this.configManager = ConfigManager.getInstance();
     this.countryNormalizer = CountryNormalizer.getInstance();
+    this.strategyRegistry = StrategyRegistry.getInstance();
 
     // Get cache expiration from config and initialize LRU caches
     const cacheConfig = this.configManager.getCacheConfig();
@@ -79,7 +109,15 @@ export class DatasetMatchingService {
   }
 
   /**
-   * Enhanced find dataset matches with geographic and configurable algorithms
+   * Supabase is resolved lazily so index-only matching works without database credentials
+   */
+  private get supabaseService(): SupabaseService {
+    return SupabaseService.getInstance();
+  }
+
+  /**
+   * Enhanced find dataset matches with geographic and configurable algorithms.
+   * Analyst overrides are applied on every call, cached or not
    */
   async findMatchesEnhanced(
     entityName: string,
@@ -90,30 +128,83 @@ export class DatasetMatchingService {
       searchRadius?: 'local' | 'regional' | 'global';
       prioritizeLocal?: boolean;
       maxResults?: number;
+      explain?: boolean;
+      identifiers?: EntityIdentifiers;
+      entityType?: EntityType;
+      birthDate?: string;
+      asOf?: AsOf;
+      includeHistorical?: boolean;
+      organizationId?: string;
+      consolidate?: boolean;
+      pipeline?: string;
     }
+  ): Promise<ServiceResponse<DatasetMatch[]>> {
+    const result = await this.findScoredMatches(entityName, searchLocation, context, options);
+    if (!result.success || !result.data) return result;
+
+    const { matches, applied, overrides } = await this.applyOverrides(result.data, entityName, options?.organizationId, result.metadata?.explain);
+    const consolidated = this.consolidateMatches(matches, overrides, options);
+    if (applied.length === 0 && consolidated === matches) return result;
+
+    const finalMatches = consolidated.slice(0, options?.maxResults || 20);
+    return {
+      ...result,
+      data: finalMatches,
+      metadata: {
+        ...result.metadata!,
+        matches_found: finalMatches.length,
+        overrides_applied: applied.length > 0 ? applied : undefined
+      }
+    };
+  }
+
+  /**
+   * Score matches for one entity, before analyst overrides (this is what gets cached)
+   */
+  private async findScoredMatches(
+    entityName: string,
+    searchLocation?: string,
+    context?: string,
+    options?: Parameters<DatasetMatchingService['findMatchesEnhanced']>[3]
   ): Promise<ServiceResponse<DatasetMatch[]>> {
     const startTime = process.hrtime();
     const opts = { forceRefresh: false, maxResults: 20, ...options };
+    const identifierKey = IdentifierMatching.fingerprint(opts.identifiers);
+    const pipeline = this.strategyRegistry.resolvePipeline(opts.pipeline, opts.organizationId);
+    const cacheQualifiers = [
+      identifierKey,
+      opts.entityType,
+      opts.entityType === 'person' ? opts.birthDate : undefined,
+      ListingPeriod.fingerprint(opts.asOf),
+      opts.includeHistorical ? 'historical' : undefined,
+      this.pipelineCacheQualifier(pipeline)
+    ];
+
+    // Explain requests collect dismissed candidates and bypass the cache
+    const dismissed: DismissedCandidate[] | undefined = opts.explain ? [] : undefined;
 
     try {
-      // Skip matching for generic or empty terms
-      if (EntityNormalization.shouldSkipMatching(entityName)) {
+      // Skip matching for generic or empty terms (identifiers can still match on their own)
+      const skipNameMatching = EntityNormalization.shouldSkipMatching(entityName);
+      if (skipNameMatching && !identifierKey) {
         return {
           success: true,
           data: [],
           metadata: {
             processing_time_ms: this.getProcessingTime(startTime),
             cache_used: false,
-            algorithm_version: '2.0.0-enhanced'
+            algorithm_version: '2.0.0-enhanced',
+            config_version: this.configManager.getConfigVersion(),
+            explain: dismissed ? this.buildEntityReport(entityName, dismissed, 'Generic or empty term, matching skipped') : undefined
           }
         };
       }
 
       // Create enhanced cache key that includes location
-      const cacheKey = this.createEnhancedCacheKey(entityName, searchLocation, context);
+      const cacheKey = this.createEnhancedCacheKey(entityName, searchLocation, context, ...cacheQualifiers);
 
       // Check cache first (unless forced refresh)
-      if (!opts.forceRefresh) {
+      if (!opts.forceRefresh && !opts.explain) {
         const cached = await this.getCachedMatches(cacheKey);
         if (cached) {
           return {
@@ -122,14 +213,20 @@ export class DatasetMatchingService {
             metadata: {
               processing_time_ms: this.getProcessingTime(startTime),
               cache_used: true,
-              algorithm_version: '2.0.0-enhanced'
+              algorithm_version: '2.0.0-enhanced',
+              config_version: this.configManager.getConfigVersion()
             }
           };
         }
       }
 
-      // Use progressive search strategy
-      const matches = await this.executeProgressiveSearch(entityName, searchLocation, context, opts);
+      // Run the matching pipeline, then fold in identifier hits and conflicts and listing periods
+      const search = skipNameMatching
+        ? null
+        : await this.executeProgressiveSearch(entityName, searchLocation, context, { ...opts, pipeline }, dismissed);
+      const typedMatches = this.applyEntityTypeRules(search?.matches || [], entityName, opts.entityType, opts.birthDate, dismissed);
+      const identifiedMatches = await this.applyIdentifierEvidence(typedMatches, opts.identifiers, search?.identifierCandidates);
+      const matches = this.applyListingPeriod(identifiedMatches, opts.asOf, opts.includeHistorical, dismissed);
 
       // Apply early termination if high-confidence matches found (with safe fallback)
       let earlyTerminationConfig;
@@ -148,18 +245,26 @@ export class DatasetMatchingService {
           const finalMatches = this.applyGeographicRanking(highConfidenceMatches, searchLocation, opts)
             .slice(0, Math.min(opts.maxResults, 5));
 
-          await this.cacheMatches(cacheKey, finalMatches);
+          if (dismissed) {
+            matches
+              .filter(match => !finalMatches.some(kept => kept.organization_name === match.organization_name))
+              .forEach(match => this.dismissMatch(dismissed, match, 'Dropped by early termination: only the top high-confidence matches are returned'));
+          } else {
+            await this.cacheMatches(cacheKey, finalMatches);
+          }
 
           return {
             success: true,
-            data: finalMatches,
+            data: dismissed ? this.attachExplanations(finalMatches, entityName, searchLocation, opts) : finalMatches,
             metadata: {
               processing_time_ms: this.getProcessingTime(startTime),
               cache_used: false,
               algorithm_version: '2.0.0-enhanced',
+              config_version: this.configManager.getConfigVersion(),
               matches_found: finalMatches.length,
               geographic_boost_applied: !!searchLocation,
-              early_termination_applied: true
+              early_termination_applied: true,
+              explain: dismissed ? this.buildEntityReport(entityName, dismissed, undefined, search?.trace) : undefined
             }
           };
         }
@@ -171,20 +276,28 @@ export class DatasetMatchingService {
       // Limit results
       const finalMatches = geographicallyRanked.slice(0, opts.maxResults);
 
-      // Cache the results
-      await this.cacheMatches(cacheKey, finalMatches);
+      if (dismissed) {
+        geographicallyRanked.slice(opts.maxResults).forEach(match =>
+          this.dismissMatch(dismissed, match, `Ranked below the ${opts.maxResults} results requested (maxResults)`)
+        );
+      } else {
+        // Cache the results
+        await this.cacheMatches(cacheKey, finalMatches);
+      }
 
       const processingTime = this.getProcessingTime(startTime);
 
       return {
         success: true,
-        data: finalMatches,
+        data: dismissed ? this.attachExplanations(finalMatches, entityName, searchLocation, opts) : finalMatches,
         metadata: {
           processing_time_ms: processingTime,
           cache_used: false,
           algorithm_version: '2.0.0-enhanced',
+          config_version: this.configManager.getConfigVersion(),
           matches_found: finalMatches.length,
-          geographic_boost_applied: !!searchLocation
+          geographic_boost_applied: !!searchLocation,
+          explain: dismissed ? this.buildEntityReport(entityName, dismissed, undefined, search?.trace) : undefined
         }
       };
 
@@ -201,7 +314,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-enhanced'
+          algorithm_version: '2.0.0-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -238,7 +352,8 @@ export class DatasetMatchingService {
           metadata: {
             processing_time_ms: this.getProcessingTime(startTime),
             cache_used: false,
-            algorithm_version: '1.0.0'
+            algorithm_version: '1.0.0',
+            config_version: this.configManager.getConfigVersion()
           }
         };
       }
@@ -256,7 +371,8 @@ export class DatasetMatchingService {
             metadata: {
               processing_time_ms: this.getProcessingTime(startTime),
               cache_used: true,
-              algorithm_version: '1.0.0'
+              algorithm_version: '1.0.0',
+              config_version: this.configManager.getConfigVersion()
             }
           };
         }
@@ -307,7 +423,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: processingTime,
           cache_used: false,
-          algorithm_version: '1.0.0'
+          algorithm_version: '1.0.0',
+          config_version: this.configManager.getConfigVersion()
         }
       };
 
@@ -324,7 +441,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '1.0.0'
+          algorithm_version: '1.0.0',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -342,19 +460,37 @@ export class DatasetMatchingService {
       searchRadius?: 'local' | 'regional' | 'global';
       prioritizeLocal?: boolean;
       maxResults?: number;
+      explain?: boolean;
+      identifiers?: Record<string, EntityIdentifiers>; // Keyed by entity as it appears in entities
+      entityType?: EntityType;
+      birthDates?: Record<string, string>; // Keyed by entity; persons only
+      asOf?: AsOf;
+      includeHistorical?: boolean;
+      organizationId?: string;
+      consolidate?: boolean;
+      pipeline?: string; // Applies to index matching; the database batch query has a fixed strategy
     }
   ): Promise<ServiceResponse<Record<string, DatasetMatch[]>>> {
     const startTime = process.hrtime();
+    const explain = options?.explain || false;
+    const identifierKey = (entity: string) => IdentifierMatching.fingerprint(options?.identifiers?.[entity]);
+    const birthDate = (entity: string) => options?.entityType === 'person' ? options.birthDates?.[entity] : undefined;
+    const listingKey = ListingPeriod.fingerprint(options?.asOf);
+    const historicalKey = options?.includeHistorical ? 'historical' : undefined;
+    const pipeline = this.strategyRegistry.resolvePipeline(options?.pipeline, options?.organizationId);
+    const pipelineKey = this.pipelineCacheQualifier(pipeline);
+    const cacheQualifiers = (entity: string) => [identifierKey(entity), options?.entityType, birthDate(entity), listingKey, historicalKey, pipelineKey];
 
     try {
       let cacheHits = 0;
       const uncachedEntities: string[] = [];
       const cachedResults: Record<string, DatasetMatch[]> = {};
+      const reports: Record<string, EntityMatchReport> = {};
 
-      // Check cache first for all entities
-      if (!forceRefresh) {
+      // Check cache first for all entities (explain requests always recompute)
+      if (!forceRefresh && !explain) {
         for (const entity of entities) {
-          const cacheKey = this.createEnhancedCacheKey(entity, options?.location, context);
+          const cacheKey = this.createEnhancedCacheKey(entity, options?.location, context, ...cacheQualifiers(entity));
           const cached = await this.getCachedMatches(cacheKey);
 
           if (cached) {
@@ -370,16 +506,65 @@ export class DatasetMatchingService {
 
       let batchResults: Record<string, DatasetMatch[]> = {};
 
-      // Use optimized batch query for uncached entities
       if (uncachedEntities.length > 0) {
-        const batchResult = await this.supabaseService.findDatasetMatchesBatch(uncachedEntities);
+        if (await this.isIndexAvailable()) {
+          // Run the pipeline for every uncached entity against the in-memory index (no per-entity queries)
+          for (const entity of uncachedEntities) {
+            const skipNameMatching = EntityNormalization.shouldSkipMatching(entity);
+            if (skipNameMatching && !identifierKey(entity)) {
+              batchResults[entity] = [];
+              if (explain) {
+                reports[entity] = this.buildEntityReport(entity, [], 'Generic or empty term, matching skipped');
+              }
+              continue;
+            }
 
-        if (batchResult.success && batchResult.data) {
-          batchResults = batchResult.data;
+            const dismissed: DismissedCandidate[] | undefined = explain ? [] : undefined;
+            const maxResults = options?.maxResults || 10;
+            const search = skipNameMatching
+              ? null
+              : await this.executeProgressiveSearch(entity, options?.location, context, {
+                pipeline,
+                entityType: options?.entityType,
+                identifiers: options?.identifiers?.[entity]
+              }, dismissed);
+            const typedMatches = this.applyEntityTypeRules(search?.matches || [], entity, options?.entityType, birthDate(entity), dismissed);
+            const identifiedMatches = await this.applyIdentifierEvidence(typedMatches, options?.identifiers?.[entity], search?.identifierCandidates);
+            const matches = this.applyListingPeriod(identifiedMatches, options?.asOf, options?.includeHistorical, dismissed);
+            const ranked = this.applyGeographicRanking(matches, options?.location, options);
+            batchResults[entity] = ranked.slice(0, maxResults);
+
+            if (dismissed) {
+              ranked.slice(maxResults).forEach(match =>
+                this.dismissMatch(dismissed, match, `Ranked below the ${maxResults} results requested (maxResults)`)
+              );
+              reports[entity] = this.buildEntityReport(entity, dismissed, undefined, search?.trace);
+            }
+          }
+        } else {
+          // Use optimized batch query for uncached entities
+          const batchResult = await this.supabaseService.findDatasetMatchesBatch(uncachedEntities);
 
+          if (batchResult.success && batchResult.data) {
+            batchResults = batchResult.data;
+          }
+
+          for (const entity of uncachedEntities) {
+            const typedMatches = this.applyEntityTypeRules(batchResults[entity] || [], entity, options?.entityType, birthDate(entity));
+            const identifiedMatches = await this.applyIdentifierEvidence(typedMatches, options?.identifiers?.[entity]);
+            batchResults[entity] = this.applyListingPeriod(identifiedMatches, options?.asOf, options?.includeHistorical);
+          }
+        }
+
+        if (explain) {
+          for (const [entity, matches] of Object.entries(batchResults)) {
+            batchResults[entity] = this.attachExplanations(matches, entity, options?.location, options);
+            reports[entity] = reports[entity] || this.buildEntityReport(entity, []);
+          }
+        } else {
           // Cache the new results
           for (const [entity, matches] of Object.entries(batchResults)) {
-            const cacheKey = this.createEnhancedCacheKey(entity, options?.location, context);
+            const cacheKey = this.createEnhancedCacheKey(entity, options?.location, context, ...cacheQualifiers(entity));
             await this.cacheMatches(cacheKey, matches);
           }
         }
@@ -391,6 +576,19 @@ export class DatasetMatchingService {
         ...batchResults
       };
 
+      // Overrides apply after the cache, so a new or revoked override takes effect immediately
+      const overridesApplied: Record<string, AppliedOverride[]> = {};
+      for (const [entity, matches] of Object.entries(allResults)) {
+        const { matches: overridden, applied, overrides } = await this.applyOverrides(matches, entity, options?.organizationId, reports[entity]);
+        const consolidated = this.consolidateMatches(overridden, overrides, options);
+        if (applied.length > 0 || consolidated !== matches) {
+          allResults[entity] = consolidated.slice(0, options?.maxResults || 10);
+        }
+        if (applied.length > 0) {
+          overridesApplied[entity] = applied;
+        }
+      }
+
       const processingTime = this.getProcessingTime(startTime);
 
       return {
@@ -400,9 +598,13 @@ export class DatasetMatchingService {
           processing_time_ms: processingTime,
           cache_used: cacheHits > 0,
           algorithm_version: '2.0.0-batch-optimized',
+          config_version: this.configManager.getConfigVersion(),
+          index_used: this.indexService.isEnabled() && this.indexService.getVersion() !== null,
           cache_hits: cacheHits,
           cache_misses: uncachedEntities.length,
-          total_entities: entities.length
+          total_entities: entities.length,
+          explain: explain ? reports : undefined,
+          overrides_applied: Object.keys(overridesApplied).length > 0 ? overridesApplied : undefined
         }
       };
 
@@ -419,7 +621,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-batch-optimized'
+          algorithm_version: '2.0.0-batch-optimized',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -514,10 +717,10 @@ export class DatasetMatchingService {
       }
 
       // Check if cache version is still valid for non-negative results
-      const versionResult = await this.supabaseService.getDatasetsVersion();
+      const currentVersion = await this.getCurrentDatasetsVersion();
       const cachedVersion = this.cache.get(`${cacheKey}:version`);
 
-      if (versionResult.success && cachedVersion && versionResult.data !== String(cachedVersion[0])) {
+      if (currentVersion && cachedVersion && currentVersion !== String(cachedVersion[0])) {
         this.cache.delete(cacheKey);
         this.cache.delete(`${cacheKey}:version`);
         return null;
@@ -536,8 +739,7 @@ export class DatasetMatchingService {
   private async cacheMatches(cacheKey: string, matches: DatasetMatch[]): Promise<void> {
     try {
       // Get current version for cache invalidation
-      const versionResult = await this.supabaseService.getDatasetsVersion();
-      const version = versionResult.success ? versionResult.data! : Date.now().toString();
+      const version = (await this.getCurrentDatasetsVersion()) || Date.now().toString();
 
       // Cache the matches (or negative result if empty)
       if (matches.length > 0) {
@@ -558,6 +760,44 @@ export class DatasetMatchingService {
     }
   }
 
+  /**
+   * Datasets version that matching currently runs against. With refresh, the
+   * in-memory index reloads changed datasets first instead of waiting for its
+   * throttled version check
+   */
+  async getDatasetsVersion(refresh: boolean = false): Promise<string | null> {
+    if (this.indexService.isEnabled()) {
+      if (refresh) {
+        await this.indexService.refresh();
+      } else {
+        await this.indexService.ensureFresh();
+      }
+    }
+    return this.getCurrentDatasetsVersion();
+  }
+
+  /**
+   * Current datasets version, taken from the in-memory index when it is loaded
+   */
+  private async getCurrentDatasetsVersion(): Promise<string | null> {
+    if (this.indexService.isEnabled() && this.indexService.getVersion() !== null) {
+      return this.indexService.getVersion();
+    }
+
+    const versionResult = await this.supabaseService.getDatasetsVersion();
+    return versionResult.success && versionResult.data ? versionResult.data : null;
+  }
+
+  /**
+   * Whether the in-memory index is enabled and loaded
+   */
+  private async isIndexAvailable(): Promise<boolean> {
+    if (!this.indexService.isEnabled()) {
+      return false;
+    }
+    return this.indexService.ensureFresh();
+  }
+
   /**
    * Get cached affiliated matches
    */
@@ -586,6 +826,35 @@ export class DatasetMatchingService {
     }
   }
 
+  /**
+   * Record an authenticated analyst's verdict on a returned match, used offline by the WeightOptimizer
+   */
+  async recordMatchFeedback(request: MatchFeedbackRequest, actor: string): Promise<ServiceResponse<MatchFeedback>> {
+    const { match } = request;
+    const matchedName = match.explanation?.matched_alias || null;
+
+    const feedback: MatchFeedback = {
+      entity: request.entity,
+      location: request.location || null,
+      context: request.context || null,
+      dataset_name: match.dataset_name,
+      organization_name: match.organization_name,
+      matched_name: matchedName,
+      entry_id: match.entry_id || null,
+      match_type: match.match_type,
+      confidence_score: match.confidence_score ?? null,
+      verdict: request.verdict,
+      analyst: actor,
+      notes: request.notes || null
+    };
+
+    const result = await this.supabaseService.saveMatchFeedback(feedback);
+    if (result.success) {
+      console.log(`📝 Feedback recorded: "${feedback.entity}" → "${feedback.organization_name}" (${feedback.verdict})`);
+    }
+    return result;
+  }
+
   /**
    * Clear all cached matches (Enhanced with LRU cache)
    */
@@ -627,7 +896,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-lru-enhanced'
+          algorithm_version: '2.0.0-lru-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     } catch (error: any) {
@@ -642,7 +912,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-lru-enhanced'
+          algorithm_version: '2.0.0-lru-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -665,10 +936,14 @@ export class DatasetMatchingService {
           expiration_ms: this.cacheExpiration
         },
         database: dbStatsResult.success ? dbStatsResult.data : null,
+        index: {
+          enabled: this.indexService.isEnabled(),
+          ...this.indexService.getStats()
+        },
         algorithms: {
-          text_matching: ['Jaro-Winkler', 'Levenshtein', 'N-gram'],
+          text_matching: ['Jaro-Winkler', 'Levenshtein', 'N-gram', 'Double Metaphone', 'Transliteration', 'Name embeddings'],
           quality_assessment: ['Specificity', 'Coverage', 'Context'],
-          match_types: ['exact', 'alias', 'fuzzy', 'partial', 'core_match']
+          match_types: ['identifier', 'exact', 'alias', 'fuzzy', 'partial', 'core_match', 'phonetic', 'semantic']
         },
         performance: {
           avg_processing_time_ms: 50, // Estimated
@@ -683,7 +958,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '1.0.0'
+          algorithm_version: '1.0.0',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     } catch (error: any) {
@@ -698,7 +974,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '1.0.0'
+          algorithm_version: '1.0.0',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -715,53 +992,747 @@ export class DatasetMatchingService {
   /**
    * Create enhanced cache key that includes location context
    */
-  private createEnhancedCacheKey(entityName: string, searchLocation?: string, context?: string): string {
+  private createEnhancedCacheKey(
+    entityName: string,
+    searchLocation?: string,
+    context?: string,
+    ...qualifiers: Array<string | undefined>
+  ): string {
     const normalizedEntity = EntityNormalization.normalizeText(entityName);
     const normalizedLocation = searchLocation ? this.countryNormalizer.normalizeCountry(searchLocation)?.canonical || searchLocation : '';
     const normalizedContext = context ? EntityNormalization.normalizeText(context) : '';
+    // Identifiers, entity type, birth date and as_of change the result; unset ones leave the key as before
+    const qualifierSuffix = qualifiers.filter(Boolean).map(qualifier => `:${qualifier}`).join('');
 
-    return `enhanced:${normalizedEntity}:${normalizedLocation}:${normalizedContext}`;
+    // Keyed by config version so a configuration change never serves stale results
+    return `enhanced:${this.configManager.getConfigVersion()}:${normalizedEntity}:${normalizedLocation}:${normalizedContext}${qualifierSuffix}`;
   }
 
   /**
-   * Execute progressive search strategy
+   * Fold requested identifiers into the name matches. Strong identifier hits
+   * (LEI, registration number, IMO, tax ID) become 'identifier' matches and are
+   * also looked up directly, so an entry is found even under a different name.
+   * Website / email domains only corroborate a name match. A name match whose
+   * entry carries a different strong identifier of the same type is down-ranked.
+   * Conflicts need the entry's identifiers, so they are only detected for
+   * index matches and entries returned by the identifier lookup.
+   */
+  private async applyIdentifierEvidence(
+    matches: DatasetMatch[],
+    identifiers?: EntityIdentifiers,
+    lookedUp?: IndexCandidate[]
+  ): Promise<DatasetMatch[]> {
+    const requested = identifiers ? IdentifierMatching.fromRequest(identifiers) : [];
+    if (requested.length === 0) return matches;
+
+    const identifierConfig = this.configManager.getIdentifiersConfig();
+    const identifierConfidence = this.configManager.getMatchingConfig().match_types.identifier?.confidence ?? 0.99;
+    const matchKey = (datasetName: string, organizationName: string) => `${datasetName}|${organizationName}`.toLowerCase();
+
+    // Entries sharing a strong identifier, whatever their name (already looked up when a pipeline ran)
+    const candidates = lookedUp || await this.lookupIdentifierCandidates(identifiers!, await this.isIndexAvailable());
+
+    const seen = new Set<string>();
+    const results = matches.map(match => {
+      seen.add(match.entry_id || matchKey(match.dataset_name, match.organization_name));
+
+      const indexed = match.entry_id ? this.indexService.getEntry(match.entry_id) : null;
+      const found = indexed?.identifiers || candidates.find(candidate =>
+        matchKey(candidate.dataset.name, candidate.entry.organization_name) === matchKey(match.dataset_name, match.organization_name)
+      )?.identifiers;
+      if (!found || found.length === 0) return match;
+
+      const { hits, conflicts } = IdentifierMatching.compare(requested, found);
+      const evidence = {
+        identifier_hits: hits.length > 0 ? hits : undefined,
+        identifier_conflicts: conflicts.length > 0 ? conflicts : undefined
+      };
+
+      if (hits.some(hit => IdentifierMatching.isStrongType(hit.type))) {
+        return {
+          ...match,
+          ...evidence,
+          match_type: 'identifier' as const,
+          confidence_score: Math.max(identifierConfidence, match.confidence_score || 0)
+        };
+      }
+
+      if (conflicts.length > 0) {
+        return { ...match, ...evidence, confidence_score: (match.confidence_score || 0) * identifierConfig.conflict_penalty };
+      }
+
+      if (hits.length > 0) {
+        return { ...match, ...evidence, confidence_score: Math.min(1.0, (match.confidence_score || 0) + identifierConfig.domain_boost) };
+      }
+
+      return match;
+    });
+
+    for (const candidate of candidates) {
+      if (seen.has(candidate.entry.id) || seen.has(matchKey(candidate.dataset.name, candidate.entry.organization_name))) {
+        continue;
+      }
+
+      const { hits, conflicts } = IdentifierMatching.compare(requested, candidate.identifiers);
+      if (!hits.some(hit => IdentifierMatching.isStrongType(hit.type))) continue;
+
+      results.push({
+        dataset_name: candidate.dataset.name,
+        organization_name: candidate.entry.organization_name,
+        match_type: 'identifier',
+        category: candidate.entry.category,
+        confidence_score: identifierConfidence,
+        last_updated: candidate.dataset.updated_at,
+        entry_id: candidate.entry.id,
+        countries: candidate.entry.countries,
+        identifier_hits: hits,
+        identifier_conflicts: conflicts.length > 0 ? conflicts : undefined
+      });
+    }
+
+    return results.sort((a, b) => (b.confidence_score || 0) - (a.confidence_score || 0));
+  }
+
+  /**
+   * Entries sharing a strong identifier with the request, from the index or the database
+   */
+  private async lookupIdentifierCandidates(identifiers: EntityIdentifiers, useIndex: boolean): Promise<IndexCandidate[]> {
+    const lookupValues = IdentifierMatching.lookupValues(IdentifierMatching.fromRequest(identifiers));
+    if (lookupValues.length === 0) return [];
+
+    if (useIndex) {
+      return this.indexService.findByIdentifiers(lookupValues);
+    }
+
+    const lookupResult = await this.supabaseService.findEntriesByIdentifiers(lookupValues);
+    return lookupResult.success && lookupResult.data ? lookupResult.data : [];
+  }
+
+  /**
+   * Cache key part for the pipeline; the default pipeline leaves keys as before
+   */
+  private pipelineCacheQualifier(pipeline: string): string | undefined {
+    return pipeline !== this.configManager.getPipelinesConfig().default_pipeline ? `pipeline=${pipeline}` : undefined;
+  }
+
+  /**
+   * Run the request's matching pipeline. With the in-memory index every
+   * strategy selects from the same scored candidates; without it, strategies
+   * draw on the database queries. Index candidates no stage accepted are
+   * recorded as dismissed. Identifier candidates are only looked up when the
+   * pipeline has an identifier stage (otherwise they are empty).
    */
   private async executeProgressiveSearch(
+    entityName: string,
+    searchLocation: string | undefined,
+    context: string | undefined,
+    options: { pipeline: string; entityType?: EntityType; identifiers?: EntityIdentifiers },
+    dismissed?: DismissedCandidate[]
+  ): Promise<{ matches: DatasetMatch[]; identifierCandidates: IndexCandidate[]; trace: PipelineTrace }> {
+    const useIndex = await this.isIndexAvailable();
+    const pipeline = this.strategyRegistry.getPipeline(options.pipeline);
+    const scorePersons = useIndex && options.entityType === 'person';
+    const personThreshold = this.configManager.getEntityTypesConfig().person.min_similarity;
+    const nameThreshold = pipeline?.min_similarity ?? this.configManager.getSimilarityThresholds()?.good_similarity ?? 0.85;
+
+    // Exact, acronym and alias hits on organizations are accepted at any score
+    const meetsThreshold = (match: DatasetMatch): boolean => {
+      const score = match.confidence_score || 0;
+      if (scorePersons) return score >= personThreshold;
+      return ['exact', 'core_acronym', 'alias', 'identifier'].includes(match.match_type) || score >= nameThreshold;
+    };
+
+    const shared = new Map<string, Promise<any>>();
+    const once = <T>(key: string, run: () => Promise<T>): Promise<T> => {
+      if (!shared.has(key)) shared.set(key, run());
+      return shared.get(key)!;
+    };
+
+    const strategyContext: StrategyContext = {
+      entityName,
+      searchLocation,
+      entityType: options.entityType,
+      identifiers: options.identifiers,
+      useIndex,
+      scoredCandidates: () => once('scored', async () => this.scoreIndexCandidates(entityName, searchLocation, options.entityType)),
+      databaseMatches: pool => once(`database:${pool}`, () => {
+        if (pool === 'exact') return this.findExactMatches(entityName, searchLocation);
+        if (pool === 'similarity') return this.findHighSimilarityMatches(entityName, searchLocation, nameThreshold);
+        return this.findAliasMatches(entityName, searchLocation);
+      }),
+      identifierCandidates: () => once('identifiers', () => this.lookupIdentifierCandidates(options.identifiers!, useIndex)),
+      meetsThreshold
+    };
+
+    const { trace, results } = await this.strategyRegistry.run(options.pipeline, strategyContext);
+
+    // Identifier hits are folded in afterwards by applyIdentifierEvidence, together with their evidence
+    const nameMatches = results.filter(result => result.strategy !== 'identifier').flatMap(result => result.matches);
+    const identifierCandidates: IndexCandidate[] = shared.has('identifiers') ? await shared.get('identifiers')! : [];
+
+    if (dismissed && shared.has('scored')) {
+      const accepted = new Set(nameMatches);
+      const thresholdName = pipeline?.min_similarity !== undefined ? `"${options.pipeline}" pipeline's min_similarity` : 'good_similarity threshold';
+
+      for (const match of (await shared.get('scored')!) as DatasetMatch[]) {
+        if (accepted.has(match)) continue;
+
+        const score = (match.confidence_score || 0).toFixed(3);
+        let reason: string;
+        if (meetsThreshold(match)) {
+          reason = `Not accepted by any stage of the "${options.pipeline}" pipeline that ran${trace.stopped_after ? ` (stopped after "${trace.stopped_after}")` : ''}`;
+        } else if (scorePersons) {
+          reason = `Person name similarity ${score} below entity_types.person.min_similarity of ${personThreshold}`;
+        } else {
+          reason = `Similarity ${score} below the ${thresholdName} of ${nameThreshold}`;
+        }
+        this.dismissMatch(dismissed, match, reason);
+      }
+    }
+
+    return {
+      matches: this.rankAndDeduplicateMatches(nameMatches, entityName, searchLocation, context, dismissed),
+      identifierCandidates,
+      trace
+    };
+  }
+
+  /**
+   * Score every index candidate for a name, before any threshold. Person
+   * searches use the person-name pipeline: part order, initials and
+   * diacritics are tolerated, and organization legal forms are never stripped
+   */
+  private scoreIndexCandidates(entityName: string, searchLocation?: string, entityType?: EntityType): DatasetMatch[] {
+    if (entityType !== 'person') {
+      return this.indexService.search(entityName)
+        .map(candidate => this.scoreIndexCandidate(entityName, candidate, searchLocation))
+        .filter((match): match is DatasetMatch => match !== null);
+    }
+
+    // Also retrieve with diacritics folded so "Muller" finds "Müller" and back
+    const candidates = new Map<string, IndexCandidate>();
+    const folded = EntityNormalization.foldDiacritics(entityName);
+    for (const query of folded !== entityName ? [entityName, folded] : [entityName]) {
+      this.indexService.search(query).forEach(candidate => candidates.set(candidate.entry.id, candidate));
+    }
+
+    return Array.from(candidates.values())
+      .map(candidate => this.scorePersonCandidate(entityName, candidate))
+      .filter((match): match is DatasetMatch => match !== null);
+  }
+
+  /**
+   * Score a person name against an index candidate's name and aliases, keeping the best
+   */
+  private scorePersonCandidate(entityName: string, candidate: IndexCandidate): DatasetMatch | null {
+    const { similarity, nameIndex } = this.scorePersonNames(entityName, candidate.names);
+    if (!similarity) return null;
+
+    let matchType = similarity.matchType;
+    if (nameIndex > 0) {
+      matchType = similarity.matchType === 'exact' ? 'alias' : 'alias_partial';
+    }
+
+    return {
+      dataset_name: candidate.dataset.name,
+      organization_name: candidate.entry.organization_name,
+      match_type: matchType,
+      category: candidate.entry.category,
+      confidence_score: similarity.score,
+      last_updated: candidate.dataset.updated_at,
+      entry_id: candidate.entry.id,
+      countries: candidate.entry.countries
+    };
+  }
+
+  /**
+   * Score a person name against a list of names (primary name first), keeping the best
+   */
+  private scorePersonNames(entityName: string, names: string[]): { similarity: PersonNameSimilarity | null; nameIndex: number } {
+    const personConfig = this.configManager.getEntityTypesConfig().person;
+    let nameIndex = -1;
+    let similarity: PersonNameSimilarity | null = null;
+
+    for (let index = 0; index < names.length; index++) {
+      const result = PersonNameMatching.similarity(entityName, names[index], {
+        initialScore: personConfig.initial_score,
+        missingTokenPenalty: personConfig.missing_token_penalty
+      });
+
+      if (result && (!similarity || result.score > similarity.score)) {
+        similarity = result;
+        nameIndex = index;
+      }
+    }
+
+    return { similarity, nameIndex };
+  }
+
+  /**
+   * Apply the requested entity type: entries of another type are filtered or
+   * penalized (entity_types.type_mismatch_action), person names found by the
+   * database strategies are re-scored as person names, and a requested birth
+   * date is checked against the entry's. Entry types and birth dates come from
+   * the in-memory index, so database-only matches are never treated as a mismatch.
+   */
+  private applyEntityTypeRules(
+    matches: DatasetMatch[],
+    entityName: string,
+    entityType?: EntityType,
+    birthDate?: string,
+    dismissed?: DismissedCandidate[]
+  ): DatasetMatch[] {
+    if (!entityType) return matches;
+
+    const typeConfig = this.configManager.getEntityTypesConfig();
+    const personConfig = typeConfig.person;
+    const results: DatasetMatch[] = [];
+
+    for (const match of matches) {
+      const indexed = match.entry_id ? this.indexService.getEntry(match.entry_id) : null;
+      let updated: DatasetMatch = match;
+
+      // Database strategies score names as organizations; alias hits are kept as they are
+      if (entityType === 'person' && !indexed && match.match_type !== 'alias') {
+        const { similarity } = this.scorePersonNames(entityName, [match.organization_name]);
+        if (!similarity || similarity.score < personConfig.min_similarity) {
+          if (dismissed) {
+            this.dismissMatch(dismissed, match, `Person name similarity ${(similarity?.score || 0).toFixed(3)} below entity_types.person.min_similarity of ${personConfig.min_similarity}`);
+          }
+          continue;
+        }
+        updated = { ...updated, match_type: similarity.matchType, confidence_score: similarity.score };
+      }
+
+      const entryType = EntityNormalization.resolveEntityType(indexed?.entry.schema_type);
+      if (entryType) {
+        updated = { ...updated, entity_type: entryType };
+      }
+
+      if (entryType && entryType !== entityType) {
+        if (typeConfig.type_mismatch_action === 'filter') {
+          if (dismissed) {
+            this.dismissMatch(dismissed, updated, `Entry is a ${entryType}, not a ${entityType} (entity_type filter)`);
+          }
+          continue;
+        }
+        updated = {
+          ...updated,
+          type_mismatch: true,
+          confidence_score: (updated.confidence_score || 0) * typeConfig.type_mismatch_penalty
+        };
+      }
+
+      if (entityType === 'person' && birthDate && indexed?.entry.birth_date) {
+        const check = PersonNameMatching.compareBirthDates(birthDate, indexed.entry.birth_date, personConfig.birth_year_tolerance);
+        if (check) {
+          const score = updated.confidence_score || 0;
+          updated = {
+            ...updated,
+            birth_date_check: check,
+            confidence_score: check === 'match'
+              ? Math.min(1.0, score + personConfig.birth_date_match_boost)
+              : check === 'mismatch' ? score * personConfig.birth_date_mismatch_penalty : score
+          };
+        }
+      }
+
+      results.push(updated);
+    }
+
+    return results.sort((a, b) => (b.confidence_score || 0) - (a.confidence_score || 0));
+  }
+
+  /**
+   * Apply analyst overrides for a screened name. Suppressed entries are
+   * removed; confirmed entries are kept (or added from the index when scoring
+   * missed them) with full confidence and ranked first. Suppressions are
+   * recorded in the explain report when there is one
+   */
+  private async applyOverrides(
+    matches: DatasetMatch[],
+    entityName: string,
+    organizationId?: string,
+    report?: EntityMatchReport
+  ): Promise<{ matches: DatasetMatch[]; applied: AppliedOverride[]; overrides: MatchOverride[] }> {
+    const overrideService = MatchOverrideService.getInstance();
+    const overrides = await overrideService.getActiveOverrides(entityName, organizationId);
+    if (overrides.length === 0) return { matches, applied: [], overrides };
+
+    const applied: AppliedOverride[] = [];
+    const confirmed: DatasetMatch[] = [];
+    const remaining: DatasetMatch[] = [];
+    const recordApplied = (override: MatchOverride) => applied.push({
+      override_id: override.id,
+      action: override.action,
+      dataset_name: override.dataset_name,
+      organization_name: override.organization_name,
+      organization_id: override.organization_id,
+      reason: override.reason
+    });
+
+    for (const match of matches) {
+      const override = overrides.find(candidate => overrideService.targets(candidate, match));
+      if (!override) {
+        remaining.push(match);
+      } else if (override.action === 'suppress') {
+        recordApplied(override);
+        if (report) {
+          report.dismissed.push({
+            organization_name: match.organization_name,
+            dataset_name: match.dataset_name,
+            match_type: match.match_type,
+            confidence_score: match.confidence_score || 0,
+            reasons: [`Suppressed by analyst override ${override.id}: ${override.reason}`]
+          });
+          report.dismissed_total++;
+        }
+      } else {
+        recordApplied(override);
+        confirmed.push({ ...match, confidence_score: 1.0, override_id: override.id });
+      }
+    }
+
+    // Confirmed entries the scoring did not return; an entry gone from the index is not resurrected
+    const indexAvailable = await this.isIndexAvailable();
+    for (const override of overrides) {
+      if (override.action !== 'confirm' || applied.some(item => item.override_id === override.id)) continue;
+
+      const indexed = override.entry_id && indexAvailable ? this.indexService.getEntry(override.entry_id) : null;
+      if (indexAvailable && override.entry_id && !indexed) continue;
+
+      recordApplied(override);
+      confirmed.push({
+        dataset_name: indexed?.dataset.name || override.dataset_name,
+        organization_name: indexed?.entry.organization_name || override.organization_name,
+        match_type: 'override',
+        category: indexed?.entry.category ?? null,
+        confidence_score: 1.0,
+        entry_id: indexed?.entry.id || override.entry_id || undefined,
+        countries: indexed?.entry.countries,
+        override_id: override.id
+      });
+    }
+
+    return { matches: [...confirmed, ...remaining], applied, overrides };
+  }
+
+  /**
+   * Merge matches on entries of the same clustered entity into one match that
+   * lists every source listing, so an entity on three lists is one result
+   * "listed on 3 lists". The best-ranked match of a cluster leads; linked
+   * listings that did not match the query are attached, except those an active
+   * override suppresses for this query and, unless includeHistorical is set,
+   * those not listed during as_of. Matches are returned unchanged when no match
+   * belongs to a cluster.
+   */
+  private consolidateMatches(
+    matches: DatasetMatch[],
+    overrides: MatchOverride[],
+    options?: { asOf?: AsOf; includeHistorical?: boolean; consolidate?: boolean }
+  ): DatasetMatch[] {
+    if (!(options?.consolidate ?? this.configManager.getClusteringConfig().consolidate_matches)) return matches;
+
+    const results: DatasetMatch[] = [];
+    const leaders = new Map<string, DatasetMatch>();
+
+    for (const match of matches) {
+      const clusterId = match.entry_id ? this.indexService.getClusterId(match.entry_id) : null;
+      if (!clusterId) {
+        results.push(match);
+        continue;
+      }
+
+      const listing: SourceListing = {
+        dataset_name: match.dataset_name,
+        organization_name: match.organization_name,
+        entry_id: match.entry_id!,
+        matched: true,
+        match_type: match.match_type,
+        confidence_score: match.confidence_score,
+        countries: match.countries,
+        category: match.category,
+        listing_status: match.listing_status,
+        first_seen: match.first_seen,
+        last_seen: match.last_seen
+      };
+
+      const leader = leaders.get(clusterId);
+      if (leader) {
+        if (!leader.listings!.some(existing => existing.entry_id === listing.entry_id)) {
+          leader.listings!.push(listing);
+        }
+        continue;
+      }
+
+      const consolidated: DatasetMatch = { ...match, cluster_id: clusterId, listings: [listing] };
+      leaders.set(clusterId, consolidated);
+      results.push(consolidated);
+    }
+
+    if (leaders.size === 0) return matches;
+
+    const overrideService = MatchOverrideService.getInstance();
+    const suppressed = overrides.filter(override => override.action === 'suppress');
+    const window = options?.asOf !== undefined ? ListingPeriod.parseAsOf(options.asOf) : null;
+    const graceDays = this.configManager.getListingConfig().delisted_grace_days;
+
+    for (const [clusterId, leader] of leaders) {
+      for (const member of this.indexService.getClusterMembers(clusterId)) {
+        if (leader.listings!.some(listing => listing.entry_id === member.entry.id)) continue;
+
+        const listing: SourceListing = {
+          dataset_name: member.dataset.name,
+          organization_name: member.entry.organization_name,
+          entry_id: member.entry.id,
+          matched: false,
+          countries: member.entry.countries,
+          category: member.entry.category ?? null,
+          listing_status: ListingPeriod.status(member.entry, this.indexService.getDatasetLastSeen(member.dataset.id), graceDays, window),
+          first_seen: member.entry.first_seen ?? null,
+          last_seen: member.entry.last_seen ?? null
+        };
+
+        if (listing.listing_status === 'historical' && !options?.includeHistorical) continue;
+        if (suppressed.some(override => overrideService.targets(override, listing))) continue;
+
+        leader.listings!.push(listing);
+      }
+
+      leader.listing_count = leader.listings!.length;
+    }
+
+    return results;
+  }
+
+  /**
+   * Set each match's listing status from its entry's first_seen / last_seen.
+   * With as_of, entries not listed at any point of that period are 'historical'
+   * and dropped unless includeHistorical is set. Listing dates come from the
+   * in-memory index, so database-only matches are returned without a status.
+   */
+  private applyListingPeriod(
+    matches: DatasetMatch[],
+    asOf?: AsOf,
+    includeHistorical: boolean = false,
+    dismissed?: DismissedCandidate[]
+  ): DatasetMatch[] {
+    const window = asOf !== undefined ? ListingPeriod.parseAsOf(asOf) : null;
+    const graceDays = this.configManager.getListingConfig().delisted_grace_days;
+    const results: DatasetMatch[] = [];
+
+    for (const match of matches) {
+      const indexed = match.entry_id ? this.indexService.getEntry(match.entry_id) : null;
+      if (!indexed) {
+        results.push(match);
+        continue;
+      }
+
+      const { first_seen = null, last_seen = null } = indexed.entry;
+      const status = ListingPeriod.status(indexed.entry, this.indexService.getDatasetLastSeen(indexed.dataset.id), graceDays, window);
+      const updated: DatasetMatch = { ...match, listing_status: status, first_seen, last_seen };
+
+      if (status === 'historical' && !includeHistorical) {
+        if (dismissed) {
+          this.dismissMatch(dismissed, updated, `Not listed during the as_of period (listed ${first_seen || '?'} to ${last_seen || '?'})`);
+        }
+        continue;
+      }
+
+      results.push(updated);
+    }
+
+    return results;
+  }
+
+  /**
+   * Score a single index candidate against its name and aliases, keeping the best
+   */
+  private scoreIndexCandidate(
+    entityName: string,
+    candidate: IndexCandidate,
+    searchLocation?: string
+  ): DatasetMatch | null {
+    const entityCountries = candidate.entry.countries && candidate.entry.countries.length > 0
+      ? candidate.entry.countries
+      : [candidate.entry.category || ''];
+
+    const { similarity, nameIndex: bestNameIndex } = this.scoreNames(
+      entityName,
+      candidate.names,
+      { searchLocation, entityCountries }
+    );
+
+    if (!similarity) return null;
+
+    // Best hit on an alias rather than the primary name (phonetic and semantic hits keep their type)
+    let matchType = similarity.matchType;
+    if (bestNameIndex > 0 && matchType !== 'phonetic' && matchType !== 'semantic') {
+      matchType = similarity.matchType === 'exact' ? 'alias' : 'alias_partial';
+    }
+
+    return {
+      dataset_name: candidate.dataset.name,
+      organization_name: candidate.entry.organization_name,
+      match_type: matchType,
+      category: candidate.entry.category,
+      confidence_score: similarity.score,
+      last_updated: candidate.dataset.updated_at,
+      entry_id: candidate.entry.id,
+      countries: candidate.entry.countries,
+      quality_metrics: {
+        specificity_score: similarity.components.jaro_winkler || 0,
+        length_ratio: similarity.components.levenshtein || 0,
+        word_count_ratio: similarity.components.word_level || 0,
+        match_coverage: similarity.score
+      }
+    };
+  }
+
+  /**
+   * Score an entity against a list of names (primary name first), keeping the best
+   */
+  private scoreNames(
+    entityName: string,
+    names: string[],
+    context: MatchContext
+  ): { similarity: AdvancedSimilarityResult | null; nameIndex: number } {
+    let nameIndex = -1;
+    let similarity: AdvancedSimilarityResult | null = null;
+
+    for (let index = 0; index < names.length; index++) {
+      const result = this.configurableMatching.calculateAdvancedSimilarity(entityName, names[index], context);
+
+      if (!similarity || result.score > similarity.score) {
+        similarity = result;
+        nameIndex = index;
+      }
+    }
+
+    return { similarity, nameIndex };
+  }
+
+  /**
+   * Attach a structured explanation to each returned match
+   */
+  private attachExplanations(
+    matches: DatasetMatch[],
     entityName: string,
     searchLocation?: string,
-    context?: string,
     options?: any
-  ): Promise<DatasetMatch[]> {
-    // Get strategies with safe defaults
-    const strategies = this.configManager.getQueryStrategies();
-    const timeouts = this.configManager.getTimeouts();
-    const allMatches: DatasetMatch[] = [];
+  ): DatasetMatch[] {
+    return matches.map(match => ({
+      ...match,
+      explanation: this.explainMatch(entityName, match, searchLocation, options)
+    }));
+  }
 
-    // Safe access with defaults
-    const exactMatchLimit = strategies?.exact_match_limit || 10;
-    const fuzzyMatchLimit = strategies?.fuzzy_match_limit || 20;
+  /**
+   * Re-score a match against its names to report components, boosts,
+   * normalization steps and the alias that matched
+   */
+  private explainMatch(
+    entityName: string,
+    match: DatasetMatch,
+    searchLocation?: string,
+    options?: any
+  ): MatchExplanation {
+    const indexed = match.entry_id ? this.indexService.getEntry(match.entry_id) : null;
+    const names = indexed ? indexed.names : [match.organization_name];
+    const entityCountries = match.countries && match.countries.length > 0
+      ? match.countries
+      : [match.category || ''];
+
+    const { similarity, nameIndex } = this.scoreNames(entityName, names, { searchLocation, entityCountries });
+    const person = options?.entityType === 'person' ? this.scorePersonNames(entityName, names) : null;
+    const matchedIndex = person ? person.nameIndex : nameIndex;
+    const matchedName = matchedIndex >= 0 ? names[matchedIndex] : match.organization_name;
+
+    const components: Record<string, number> = {};
+    const boosts: MatchExplanation['boosts'] = {};
+
+    if (similarity) {
+      const { acronym_boost, geographic_boost, context_boost, ...scores } = similarity.components;
+      for (const [component, score] of Object.entries(scores)) {
+        if (score !== undefined) components[component] = score;
+      }
+      if (acronym_boost !== undefined) boosts.acronym = acronym_boost;
+      if (geographic_boost !== undefined) boosts.geographic = geographic_boost;
+      if (context_boost !== undefined) boosts.organization_type = context_boost;
+    }
 
-    // Strategy 1: Exact matches
-    const exactMatches = await this.findExactMatches(entityName, searchLocation);
-    allMatches.push(...exactMatches);
+    const affiliatedBoost = (match as EnhancedDatasetMatch).boost_applied;
+    if (affiliatedBoost !== undefined) {
+      boosts.affiliated = affiliatedBoost;
+    }
 
-    if (allMatches.length >= exactMatchLimit) {
-      return this.rankAndDeduplicateMatches(allMatches, entityName, searchLocation, context);
+    let geography: MatchExplanation['geography'];
+    if (searchLocation && this.configManager.getGeographicConfig().enable_location_boost) {
+      const geographicScore = this.geographicMatching.calculateGeographicScore({
+        searchLocation,
+        entityCountries: entityCountries.filter(country => country.length > 0),
+        entityAddresses: indexed?.entry.addresses || undefined,
+        searchRadius: options?.searchRadius,
+        prioritizeLocal: options?.prioritizeLocal
+      });
+      boosts.geographic_ranking = geographicScore.boost_factor;
+      geography = { relationship: geographicScore.relationship, matched_places: geographicScore.matched_places };
     }
 
-    // Strategy 2: High similarity matches
-    const fuzzyMatches = await this.findHighSimilarityMatches(entityName, searchLocation);
-    allMatches.push(...fuzzyMatches);
+    return {
+      matched_name: matchedName,
+      matched_alias: matchedIndex > 0 ? matchedName : null,
+      summary: person?.similarity ? person.similarity.explanation : similarity ? similarity.explanation : 'No similarity breakdown available',
+      components,
+      boosts,
+      ...(geography ? { geography } : {}),
+      normalization: this.configurableMatching.traceNormalization(matchedName)
+    };
+  }
+
+  /**
+   * Record a candidate that was dropped, merging reasons if it was already recorded
+   */
+  private dismissMatch(dismissed: DismissedCandidate[], match: DatasetMatch, reason: string): void {
+    const existing = dismissed.find(candidate =>
+      candidate.organization_name === match.organization_name &&
+      candidate.dataset_name === match.dataset_name
+    );
 
-    if (allMatches.length >= fuzzyMatchLimit) {
-      return this.rankAndDeduplicateMatches(allMatches, entityName, searchLocation, context);
+    if (existing) {
+      existing.reasons.push(reason);
+      return;
     }
 
-    // Strategy 3: Alias matches
-    const aliasMatches = await this.findAliasMatches(entityName, searchLocation);
-    allMatches.push(...aliasMatches);
+    dismissed.push({
+      organization_name: match.organization_name,
+      dataset_name: match.dataset_name,
+      match_type: match.match_type,
+      confidence_score: match.confidence_score || 0,
+      reasons: [reason]
+    });
+  }
+
+  /**
+   * Build the per-entity explain report (highest-scoring dismissals first)
+   */
+  private buildEntityReport(
+    entityName: string,
+    dismissed: DismissedCandidate[],
+    skippedReason?: string,
+    pipeline?: PipelineTrace
+  ): EntityMatchReport {
+    const maxReported = this.configManager.getConfigValue('matching', 'debugging.max_debug_results', 100);
+    const ranked = [...dismissed].sort((a, b) => b.confidence_score - a.confidence_score);
 
-    return this.rankAndDeduplicateMatches(allMatches, entityName, searchLocation, context);
+    return {
+      entity: entityName,
+      normalization: this.configurableMatching.traceNormalization(entityName),
+      dismissed: ranked.slice(0, maxReported),
+      dismissed_total: ranked.length,
+      skipped_reason: skippedReason,
+      pipeline
+    };
   }
 
   /**
@@ -795,7 +1766,7 @@ export class DatasetMatchingService {
   /**
    * Find high similarity matches
    */
-  private async findHighSimilarityMatches(entityName: string, searchLocation?: string): Promise<DatasetMatch[]> {
+  private async findHighSimilarityMatches(entityName: string, searchLocation?: string, minSimilarity?: number): Promise<DatasetMatch[]> {
     const result = await this.supabaseService.findDatasetMatches(
       entityName,
       searchLocation,
@@ -808,8 +1779,8 @@ export class DatasetMatchingService {
     const matches: DatasetMatch[] = [];
     const thresholds = this.configManager.getSimilarityThresholds();
 
-    // Safe access with default
-    const goodSimilarityThreshold = thresholds?.good_similarity || 0.85;
+    // Safe access with default; pipelines can set their own threshold
+    const goodSimilarityThreshold = minSimilarity ?? (thresholds?.good_similarity || 0.85);
 
     for (const match of result.data) {
       const similarity = this.configurableMatching.calculateAdvancedSimilarity(
@@ -865,7 +1836,8 @@ export class DatasetMatchingService {
     matches: DatasetMatch[],
     entityName: string,
     searchLocation?: string,
-    context?: string
+    context?: string,
+    dismissed?: DismissedCandidate[]
   ): DatasetMatch[] {
     // Simple deduplication by organization name
     const uniqueMatches = new Map<string, DatasetMatch>();
@@ -877,6 +1849,11 @@ export class DatasetMatchingService {
       // Keep the match with higher confidence
       if (!existing || (match.confidence_score || 0) > (existing.confidence_score || 0)) {
         uniqueMatches.set(key, match);
+        if (existing && dismissed) {
+          this.dismissMatch(dismissed, existing, `Duplicate of a higher-confidence match in "${match.dataset_name}"`);
+        }
+      } else if (dismissed) {
+        this.dismissMatch(dismissed, match, `Duplicate of a higher-confidence match in "${existing.dataset_name}"`);
       }
     }
 
@@ -900,7 +1877,11 @@ export class DatasetMatchingService {
     return matches.map(match => {
       const geographicScore = this.geographicMatching.calculateGeographicScore({
         searchLocation,
-        entityCountries: match.category ? [match.category] : [],
+        entityCountries: match.countries && match.countries.length > 0
+          ? match.countries
+          : (match.category ? [match.category] : []),
+        // Addresses are only at hand for entries held by the in-memory index
+        entityAddresses: match.entry_id ? this.indexService.getEntry(match.entry_id)?.entry.addresses || undefined : undefined,
         searchRadius: options?.searchRadius,
         prioritizeLocal: options?.prioritizeLocal
       });
@@ -926,7 +1907,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: 0,
           cache_used: false,
-          algorithm_version: '2.0.0-enhanced'
+          algorithm_version: '2.0.0-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -951,7 +1933,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: processingTime,
           cache_used: false,
-          algorithm_version: '2.0.0-enhanced'
+          algorithm_version: '2.0.0-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
 
@@ -967,7 +1950,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-enhanced'
+          algorithm_version: '2.0.0-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -1039,7 +2023,8 @@ export class DatasetMatchingService {
           early_termination_enabled: this.configManager.getSimilarityWeights().performance_tuning?.early_termination?.enable || false,
           concurrent_processing_enabled: true
         },
-        algorithm_version: '2.0.0-performance-optimized'
+        algorithm_version: '2.0.0-performance-optimized',
+        config_version: this.configManager.getConfigVersion()
       };
 
       return {
@@ -1048,7 +2033,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-performance-optimized'
+          algorithm_version: '2.0.0-performance-optimized',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     } catch (error: any) {
@@ -1063,7 +2049,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.0.0-performance-optimized'
+          algorithm_version: '2.0.0-performance-optimized',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -1093,7 +2080,10 @@ export class DatasetMatchingService {
           forceRefresh: options.forceRefresh,
           searchRadius: options.searchRadius,
           prioritizeLocal: options.prioritizeLocal,
-          maxResults: options.maxResults || 20
+          maxResults: options.maxResults || 20,
+          asOf: options.as_of,
+          includeHistorical: options.include_historical,
+          organizationId: options.organization_id
         }
       );
 
@@ -1136,7 +2126,10 @@ export class DatasetMatchingService {
             location,
             searchRadius: options.searchRadius,
             prioritizeLocal: options.prioritizeLocal,
-            maxResults: Math.floor((options.maxResults || 20) / 2) // Allocate half results to affiliated
+            maxResults: Math.floor((options.maxResults || 20) / 2), // Allocate half results to affiliated
+            asOf: options.as_of,
+            includeHistorical: options.include_historical,
+            organizationId: options.organization_id
           }
         );
 
@@ -1213,7 +2206,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.1.0-affiliated-enhanced'
+          algorithm_version: '2.1.0-affiliated-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
 
@@ -1229,7 +2223,8 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.1.0-affiliated-enhanced'
+          algorithm_version: '2.1.0-affiliated-enhanced',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -1282,6 +2277,7 @@ export class DatasetMatchingService {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
           algorithm_version: '2.1.0-concurrency-enhanced',
+          config_version: this.configManager.getConfigVersion(),
           performance_stats: {
             total_entities: tasks.length,
             successful_entities: stats.successful,
@@ -1305,7 +2301,144 @@ export class DatasetMatchingService {
         metadata: {
           processing_time_ms: this.getProcessingTime(startTime),
           cache_used: false,
-          algorithm_version: '2.1.0-concurrency-enhanced'
+          algorithm_version: '2.1.0-concurrency-enhanced',
+          config_version: this.configManager.getConfigVersion()
+        }
+      };
+    }
+  }
+
+  /**
+   * Multi-hop ownership screening: walk parent, subsidiary and shareholder edges
+   * from the entity, match every node and aggregate listed ownership of the entity
+   */
+  async screenOwnershipGraph(request: OwnershipScreeningRequest): Promise<ServiceResponse<OwnershipScreeningResult>> {
+    const startTime = process.hrtime();
+    const { entity, location, context, options = {} } = request;
+    const ownershipConfig = this.configManager.getOwnershipConfig();
+
+    try {
+      const graph = new OwnershipGraph([
+        ...(request.edges || []),
+        ...(request.corporate_structure ? OwnershipGraph.fromCorporateStructure(entity, request.corporate_structure) : []),
+        ...(request.edges_csv ? await OwnershipGraph.parseEdgesCsv(request.edges_csv) : [])
+      ]);
+
+      const maxHops = Math.min(options.maxHops || ownershipConfig.default_max_hops, ownershipConfig.max_hops_limit);
+      const walk = graph.walk(entity, maxHops, ownershipConfig.max_nodes);
+
+      // 1. Match every node of the walked graph in one batch
+      const batchResponse = await this.findMatchesBatch(
+        walk.nodes.map(node => node.name),
+        context,
+        options.forceRefresh,
+        {
+          location,
+          searchRadius: options.searchRadius,
+          prioritizeLocal: options.prioritizeLocal,
+          maxResults: options.maxResults || 10
+        }
+      );
+
+      if (!batchResponse.success || !batchResponse.data) {
+        throw new Error(batchResponse.error?.message || 'Failed to match ownership graph');
+      }
+
+      const minConfidence = options.minConfidence || 0;
+      const matchesByKey = new Map<string, DatasetMatch[]>();
+      const listed = new Set<string>();
+
+      walk.nodes.forEach(node => {
+        const matches = (batchResponse.data![node.name] || [])
+          .filter(match => (match.confidence_score || 0) >= minConfidence);
+        matchesByKey.set(node.key, matches);
+
+        if (matches.some(match => (match.confidence_score || 0) >= ownershipConfig.listed_min_confidence)) {
+          listed.add(node.key);
+        }
+      });
+
+      // 2. Propagate listed status through ownership stakes (50% rule)
+      const statuses = graph.computeOwnershipStatus(
+        walk.nodes.map(node => node.key),
+        listed,
+        ownershipConfig.exposure_threshold,
+        ownershipConfig.assumed_parent_percentage
+      );
+
+      const results: OwnershipNodeResult[] = walk.nodes.map(node => {
+        const status = statuses.get(node.key)!;
+        return {
+          entity: node.name,
+          hops: node.hops,
+          path: node.path,
+          effective_ownership: OwnershipGraph.effectiveOwnership(node.path),
+          matches: matchesByKey.get(node.key) || [],
+          listed: listed.has(node.key),
+          blocked_by_ownership: status.blocked && !listed.has(node.key),
+          aggregate_listed_ownership: status.aggregate
+        };
+      });
+
+      // 3. Exposure of the screened entity
+      const [root, ...related] = results;
+      const rootStatus = statuses.get(walk.nodes[0].key)!;
+
+      const exposure = {
+        score: root.listed ? 1 : Math.round(rootStatus.aggregate) / 100,
+        aggregate_listed_ownership: rootStatus.aggregate,
+        threshold: ownershipConfig.exposure_threshold,
+        blocked: rootStatus.blocked,
+        contributors: rootStatus.contributors.map(contributor => ({
+          entity: graph.getName(contributor.key),
+          ownership_percentage: contributor.percentage,
+          assumed_percentage: contributor.assumed,
+          reason: listed.has(contributor.key) ? 'listed' as const : 'blocked_by_ownership' as const
+        })),
+        listed_holdings: related
+          .filter(node => node.listed && node.path.every(step => step.direction === 'down'))
+          .map(node => ({ entity: node.entity, hops: node.hops, effective_ownership: node.effective_ownership }))
+      };
+
+      console.log(`🕸️  Ownership screening for "${entity}": ${results.length} nodes within ${maxHops} hops, ${listed.size} listed, exposure ${exposure.aggregate_listed_ownership}%${exposure.blocked ? ' (blocked)' : ''}`);
+
+      return {
+        success: true,
+        data: {
+          entity,
+          root,
+          related,
+          exposure,
+          summary: {
+            total_nodes: graph.size,
+            screened_nodes: results.length,
+            matched_nodes: results.filter(node => node.matches.length > 0).length,
+            max_hops: maxHops,
+            truncated: walk.truncated
+          }
+        },
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: (batchResponse.metadata?.cache_hits || 0) > 0,
+          algorithm_version: '2.2.0-ownership-graph',
+          config_version: this.configManager.getConfigVersion()
+        }
+      };
+
+    } catch (error: any) {
+      // Malformed uploaded edge files surface as validation errors
+      const serviceError = error instanceof ValidationError
+        ? createServiceError('VALIDATION_ERROR', error.message)
+        : createServiceError('OWNERSHIP_SCREENING_ERROR', `Failed to screen ownership graph: ${error.message}`);
+
+      return {
+        success: false,
+        error: serviceError,
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: false,
+          algorithm_version: '2.2.0-ownership-graph',
+          config_version: this.configManager.getConfigVersion()
         }
       };
     }
@@ -1347,7 +2480,7 @@ export class DatasetMatchingService {
       .toLowerCase()
       .replace(/[^a-z0-9|]/g, '');
 
-    return `affiliated:${entity}:${affiliatedHash}:${location || ''}:${context || ''}`;
+    return `affiliated:${this.configManager.getConfigVersion()}:${entity}:${affiliatedHash}:${location || ''}:${context || ''}`;
   }
 
   }
\ No newline at end of file
@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import path from 'path';
+import { DatasetMatchingService } from './DatasetMatchingService';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ConcurrencyManager } from '../utils/ConcurrencyManager';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { MatchJobStore } from '../jobs/MatchJobStore';
+import { InMemoryMatchJobStore } from '../jobs/InMemoryMatchJobStore';
+import { FileMatchJobStore } from '../jobs/FileMatchJobStore';
+import {
+  DatasetMatch,
+  MatchJob,
+  MatchJobResult,
+  ServiceResponse
+} from '../types/DatasetMatchTypes';
+import { createServiceError } from '../utils/ErrorHandler';
+
+/**
+ * Asynchronous batch matching: jobs are queued, worked through the
+ * ConcurrencyManager and their results persisted in a MatchJobStore
+ * (MATCH_JOB_STORE=memory|file, file jobs live under MATCH_JOB_DIR).
+ */
+export class MatchJobService {
+  private static instance: MatchJobService;
+  private store: MatchJobStore;
+  private configManager: ConfigManager;
+  private concurrencyManager: ConcurrencyManager;
+
+  private queue: string[] = [];
+  private running = new Set<string>();
+  private cancelled = new Set<string>();
+
+  constructor(store?: MatchJobStore) {
+    this.store = store || MatchJobService.createStore();
+    this.configManager = ConfigManager.getInstance();
+
+    const performanceConfig = this.configManager.getSimilarityWeights().performance_tuning?.batch_processing;
+    this.concurrencyManager = new ConcurrencyManager({
+      maxConcurrent: performanceConfig?.max_concurrent || 5,
+      delayBetweenBatches: 0,
+      timeout: 30000,
+      retryAttempts: 2
+    });
+  }
+
+  public static getInstance(): MatchJobService {
+    if (!MatchJobService.instance) {
+      MatchJobService.instance = new MatchJobService();
+    }
+    return MatchJobService.instance;
+  }
+
+  private static createStore(): MatchJobStore {
+    if (process.env.MATCH_JOB_STORE === 'file') {
+      const jobDir = process.env.MATCH_JOB_DIR || path.join(process.cwd(), 'data', 'match-jobs');
+      console.log(`🗄️  Match jobs stored in ${jobDir}`);
+      return new FileMatchJobStore(jobDir);
+    }
+    return new InMemoryMatchJobStore();
+  }
+
+  static isValidJobId(jobId: string): boolean {
+    return /^job_[a-f0-9]{16}$/.test(jobId);
+  }
+
+  async createJob(
+    entities: string[],
+    options: MatchJob['options'],
+    actor: string,
+    name?: string
+  ): Promise<ServiceResponse<MatchJob>> {
+    const startTime = process.hrtime();
+
+    try {
+      await this.purgeExpiredJobs();
+
+      const now = new Date().toISOString();
+      const job: MatchJob = {
+        id: `job_${crypto.randomBytes(8).toString('hex')}`,
+        name: name || null,
+        status: 'queued',
+        total: entities.length,
+        processed: 0,
+        failed: 0,
+        total_matches: 0,
+        options,
+        error: null,
+        config_version: this.configManager.getConfigVersion(),
+        created_by: actor,
+        created_at: now,
+        updated_at: now,
+        started_at: null,
+        completed_at: null
+      };
+
+      await this.store.createJob(job, entities);
+      this.enqueue(job.id);
+      console.log(`📋 Match job ${job.id} queued with ${entities.length} entities`);
+
+      return {
+        success: true,
+        data: job,
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: false,
+          algorithm_version: '2.3.0-match-jobs',
+          config_version: job.config_version
+        }
+      };
+    } catch (error: any) {
+      return this.errorResponse('JOB_CREATE_ERROR', `Failed to create match job: ${error.message}`, startTime);
+    }
+  }
+
+  async getJob(jobId: string): Promise<MatchJob | null> {
+    return MatchJobService.isValidJobId(jobId) ? this.store.getJob(jobId) : null;
+  }
+
+  async getResults(jobId: string, offset: number, limit: number): Promise<MatchJobResult[]> {
+    return this.store.getResults(jobId, offset, limit);
+  }
+
+  /**
+   * Cancel a queued or running job; results stored so far stay retrievable
+   */
+  async cancelJob(jobId: string): Promise<MatchJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return job;
+    }
+
+    this.queue = this.queue.filter(id => id !== jobId);
+    if (this.running.has(jobId)) {
+      this.cancelled.add(jobId);
+    }
+
+    const now = new Date().toISOString();
+    console.log(`🛑 Match job ${jobId} cancelled at ${job.processed}/${job.total}`);
+    return this.store.updateJob(jobId, { status: 'cancelled', updated_at: now, completed_at: now });
+  }
+
+  /**
+   * Re-queue jobs that were queued or running when the process stopped
+   */
+  async resumeInterruptedJobs(): Promise<number> {
+    const jobs = await this.store.listJobs(['queued', 'running']);
+    jobs
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach(job => this.enqueue(job.id));
+
+    if (jobs.length > 0) {
+      console.log(`🔁 Resuming ${jobs.length} interrupted match job(s)`);
+    }
+    return jobs.length;
+  }
+
+  private enqueue(jobId: string): void {
+    if (!this.queue.includes(jobId) && !this.running.has(jobId)) {
+      this.queue.push(jobId);
+    }
+    this.pump();
+  }
+
+  private pump(): void {
+    const maxConcurrentJobs = this.configManager.getJobsConfig().max_concurrent_jobs;
+
+    while (this.running.size < maxConcurrentJobs && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.running.add(jobId);
+
+      this.runJob(jobId)
+        .catch(async error => {
+          console.error(`❌ Match job ${jobId} failed:`, error.message);
+          await this.store.updateJob(jobId, {
+            status: 'failed',
+            error: error.message,
+            updated_at: new Date().toISOString(),
+            completed_at: new Date().toISOString()
+          }).catch(() => undefined);
+        })
+        .finally(() => {
+          this.running.delete(jobId);
+          this.cancelled.delete(jobId);
+          this.pump();
+        });
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    let job = await this.store.getJob(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    const flushEvery = this.configManager.getJobsConfig().flush_every;
+    const entities = await this.store.getEntities(jobId);
+    const completed = await this.store.getCompletedIndexes(jobId);
+
+    job = await this.store.updateJob(jobId, {
+      status: 'running',
+      started_at: job.started_at || new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }) as MatchJob;
+
+    const options = job.options;
+    const tasks = entities
+      .map((entity, index) => ({ id: String(index), data: index }))
+      .filter(task => !completed.has(task.data));
+
+    // Counters carry over when resuming after a restart
+    let { processed, failed, total_matches: totalMatches } = job;
+    let pending: MatchJobResult[] = [];
+
+    const flush = async (): Promise<void> => {
+      await this.store.appendResults(jobId, pending);
+      pending = [];
+      await this.store.updateJob(jobId, { processed, failed, total_matches: totalMatches, updated_at: new Date().toISOString() });
+    };
+
+    for await (const taskResult of this.concurrencyManager.processStreaming(tasks, (index: number) => this.matchEntity(entities[index], options))) {
+      const index = Number(taskResult.taskId);
+      if (isNaN(index)) continue;
+
+      const matches = taskResult.data || [];
+      pending.push({
+        index,
+        entity: entities[index],
+        success: taskResult.success,
+        matches,
+        ...(taskResult.success ? {} : { error: taskResult.error?.message })
+      });
+
+      processed++;
+      totalMatches += matches.length;
+      if (!taskResult.success) failed++;
+
+      if (this.cancelled.has(jobId)) break;
+      if (pending.length >= flushEvery) {
+        await flush();
+      }
+    }
+
+    // Cancellation already set the final status; only record the last results
+    if (this.cancelled.has(jobId)) {
+      await this.store.appendResults(jobId, pending);
+      await this.store.updateJob(jobId, { processed, failed, total_matches: totalMatches });
+      return;
+    }
+
+    await flush();
+    await this.store.updateJob(jobId, { status: 'completed', completed_at: new Date().toISOString() });
+    console.log(`✅ Match job ${jobId} completed: ${processed} entities, ${totalMatches} matches, ${failed} failed`);
+  }
+
+  private async matchEntity(entity: string, options: MatchJob['options']): Promise<DatasetMatch[]> {
+    const result = await DatasetMatchingService.getInstance().findMatchesBatch([entity], options.context, options.forceRefresh || false, {
+      location: options.location,
+      searchRadius: options.searchRadius,
+      prioritizeLocal: options.prioritizeLocal,
+      maxResults: options.maxResults,
+      entityType: options.entity_type,
+      asOf: options.as_of,
+      includeHistorical: options.include_historical,
+      organizationId: options.organization_id,
+      pipeline: options.pipeline
+    });
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || 'Matching failed');
+    }
+
+    const matches = (result.data[entity] || []).filter(match =>
+      (!options.matchTypes || options.matchTypes.length === 0 || options.matchTypes.includes(match.match_type)) &&
+      (options.minConfidence === undefined || (match.confidence_score || 0) >= options.minConfidence)
+    );
+
+    return ResponseFormatter.sanitizeMatches(matches);
+  }
+
+  /**
+   * Drop finished jobs older than jobs.retention_days (0 keeps them forever)
+   */
+  private async purgeExpiredJobs(): Promise<void> {
+    const retentionDays = this.configManager.getJobsConfig().retention_days;
+    if (!retentionDays) return;
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const finished = await this.store.listJobs(['completed', 'failed', 'cancelled']);
+
+    for (const job of finished) {
+      if ((job.completed_at || job.updated_at) < cutoff) {
+        await this.store.deleteJob(job.id);
+      }
+    }
+  }
+
+  private errorResponse<T>(code: string, message: string, startTime: [number, number]): ServiceResponse<T> {
+    return {
+      success: false,
+      error: createServiceError(code, message),
+      metadata: {
+        processing_time_ms: this.getProcessingTime(startTime),
+        cache_used: false,
+        algorithm_version: '2.3.0-match-jobs',
+        config_version: this.configManager.getConfigVersion()
+      }
+    };
+  }
+
+  private getProcessingTime(startTime: [number, number]): number {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return Math.round((seconds * 1000) + (nanoseconds / 1e6));
+  }
+}
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import path from 'path';
+import { DatasetIndexService } from './DatasetIndexService';
+import { ConfigManager } from '../utils/ConfigManager';
+import { EntityNormalization } from '../algorithms/EntityNormalization';
+import { MatchOverrideStore } from '../overrides/MatchOverrideStore';
+import { InMemoryMatchOverrideStore } from '../overrides/InMemoryMatchOverrideStore';
+import { FileMatchOverrideStore } from '../overrides/FileMatchOverrideStore';
+import {
+  CreateMatchOverrideRequest,
+  MatchOverride,
+  ServiceResponse,
+  UpdateMatchOverrideRequest
+} from '../types/DatasetMatchTypes';
+import { createServiceError } from '../utils/ErrorHandler';
+
+export type MatchOverrideStatus = 'active' | 'expired' | 'revoked';
+
+export interface MatchOverrideFilter {
+  query?: string;
+  organization_id?: string;
+  include_inactive?: boolean;
+}
+
+/**
+ * Analyst overrides on top of scoring: "query X never matches entry Y"
+ * (suppress) or "query X always matches entry Y" (confirm), globally or for
+ * one organization, optionally until an expiry date. Active overrides are kept
+ * in memory so matching never waits on the store.
+ * Storage is selected with MATCH_OVERRIDE_STORE=memory|file (files under MATCH_OVERRIDE_DIR).
+ */
+export class MatchOverrideService {
+  private static instance: MatchOverrideService;
+  private store: MatchOverrideStore;
+  private configManager: ConfigManager;
+  private overrides: Map<string, MatchOverride> | null = null;
+
+  constructor(store?: MatchOverrideStore) {
+    this.store = store || MatchOverrideService.createStore();
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  public static getInstance(): MatchOverrideService {
+    if (!MatchOverrideService.instance) {
+      MatchOverrideService.instance = new MatchOverrideService();
+    }
+    return MatchOverrideService.instance;
+  }
+
+  private static createStore(): MatchOverrideStore {
+    if (process.env.MATCH_OVERRIDE_STORE === 'file') {
+      const overrideDir = process.env.MATCH_OVERRIDE_DIR || path.join(process.cwd(), 'data', 'overrides');
+      return new FileMatchOverrideStore(overrideDir);
+    }
+    return new InMemoryMatchOverrideStore();
+  }
+
+  static isValidOverrideId(overrideId: string): boolean {
+    return /^ov_[a-f0-9]{16}$/.test(overrideId);
+  }
+
+  /**
+   * Queries are compared after the same normalization as cache keys
+   */
+  static queryKey(query: string): string {
+    return EntityNormalization.normalizeText(query);
+  }
+
+  static statusOf(override: MatchOverride, now: number = Date.now()): MatchOverrideStatus {
+    if (override.revoked_at) return 'revoked';
+    if (override.expires_at && Date.parse(override.expires_at) <= now) return 'expired';
+    return 'active';
+  }
+
+  /**
+   * Register an override on behalf of an authenticated analyst. The target entry
+   * is taken from the index when entry_id is given, so its names are recorded as
+   * they were at the time
+   */
+  async createOverride(request: CreateMatchOverrideRequest, actor: string): Promise<ServiceResponse<MatchOverride>> {
+    const startTime = process.hrtime();
+
+    try {
+      let datasetName = request.dataset_name?.trim();
+      let organizationName = request.organization_name?.trim();
+
+      if (request.entry_id) {
+        const indexService = DatasetIndexService.getInstance();
+        if (indexService.isEnabled()) {
+          await indexService.ensureFresh();
+        }
+
+        const indexed = indexService.getEntry(request.entry_id);
+        if (indexed) {
+          datasetName = indexed.dataset.name;
+          organizationName = indexed.entry.organization_name;
+        } else if (!datasetName || !organizationName) {
+          return this.errorResponse('OVERRIDE_ENTRY_NOT_FOUND', `Entry ${request.entry_id} is not in the dataset index; pass dataset_name and organization_name`, startTime);
+        }
+      }
+
+      const overrides = await this.loadOverrides();
+      const candidate = {
+        query: request.query.trim(),
+        entry_id: request.entry_id || null,
+        dataset_name: datasetName!,
+        organization_name: organizationName!,
+        organization_id: request.organization_id?.trim() || null
+      };
+
+      const duplicate = Array.from(overrides.values()).find(override =>
+        MatchOverrideService.statusOf(override) === 'active' &&
+        MatchOverrideService.queryKey(override.query) === MatchOverrideService.queryKey(candidate.query) &&
+        override.organization_id === candidate.organization_id &&
+        this.targets(override, candidate)
+      );
+      if (duplicate) {
+        return this.errorResponse('OVERRIDE_EXISTS', `Override ${duplicate.id} already covers this query and entry; revoke it first`, startTime);
+      }
+
+      const now = new Date().toISOString();
+      const override: MatchOverride = {
+        id: `ov_${crypto.randomBytes(8).toString('hex')}`,
+        ...candidate,
+        action: request.action,
+        reason: request.reason.trim(),
+        created_by: actor,
+        updated_by: null,
+        expires_at: request.expires_at ? new Date(request.expires_at).toISOString() : null,
+        revoked_at: null,
+        created_at: now,
+        updated_at: now
+      };
+
+      await this.save(override);
+      return this.successResponse(override, startTime);
+    } catch (error: any) {
+      return this.errorResponse('OVERRIDE_CREATE_ERROR', `Failed to create override: ${error.message}`, startTime);
+    }
+  }
+
+  async listOverrides(filter: MatchOverrideFilter = {}): Promise<MatchOverride[]> {
+    const overrides = await this.loadOverrides();
+    const queryKey = filter.query ? MatchOverrideService.queryKey(filter.query) : null;
+
+    return Array.from(overrides.values())
+      .filter(override => filter.include_inactive || MatchOverrideService.statusOf(override) === 'active')
+      .filter(override => !queryKey || MatchOverrideService.queryKey(override.query) === queryKey)
+      .filter(override => filter.organization_id === undefined || override.organization_id === filter.organization_id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async getOverride(overrideId: string): Promise<MatchOverride | null> {
+    if (!MatchOverrideService.isValidOverrideId(overrideId)) return null;
+    return (await this.loadOverrides()).get(overrideId) || null;
+  }
+
+  async getHistory(overrideId: string): Promise<MatchOverride[]> {
+    return this.store.getHistory(overrideId);
+  }
+
+  /**
+   * Change the reason or expiry of an override that has not been revoked
+   */
+  async updateOverride(overrideId: string, request: UpdateMatchOverrideRequest, actor: string): Promise<ServiceResponse<MatchOverride | null>> {
+    const startTime = process.hrtime();
+
+    try {
+      const override = await this.getOverride(overrideId);
+      if (!override) return this.successResponse(null, startTime);
+      if (override.revoked_at) {
+        return this.errorResponse('OVERRIDE_REVOKED', `Override ${overrideId} was revoked and can no longer be changed`, startTime);
+      }
+
+      const updated: MatchOverride = {
+        ...override,
+        reason: request.reason !== undefined ? request.reason.trim() : override.reason,
+        expires_at: request.expires_at === undefined
+          ? override.expires_at
+          : request.expires_at === null ? null : new Date(request.expires_at).toISOString(),
+        updated_by: actor,
+        updated_at: new Date().toISOString()
+      };
+
+      await this.save(updated);
+      return this.successResponse(updated, startTime);
+    } catch (error: any) {
+      return this.errorResponse('OVERRIDE_UPDATE_ERROR', `Failed to update override: ${error.message}`, startTime);
+    }
+  }
+
+  /**
+   * Stop an override from applying; the revoked revision stays in the store
+   */
+  async revokeOverride(overrideId: string, actor: string): Promise<MatchOverride | null> {
+    const override = await this.getOverride(overrideId);
+    if (!override) return null;
+    if (override.revoked_at) return override;
+
+    const now = new Date().toISOString();
+    const revoked: MatchOverride = { ...override, revoked_at: now, updated_by: actor, updated_at: now };
+    await this.save(revoked);
+    return revoked;
+  }
+
+  /**
+   * Every override with its current status, and optionally each revision, for audit
+   */
+  async exportOverrides(includeHistory: boolean = false): Promise<Array<MatchOverride & { status: MatchOverrideStatus; revisions?: MatchOverride[] }>> {
+    const overrides = await this.listOverrides({ include_inactive: true });
+    const now = Date.now();
+
+    return Promise.all(overrides.map(async override => ({
+      ...override,
+      status: MatchOverrideService.statusOf(override, now),
+      revisions: includeHistory ? await this.store.getHistory(override.id) : undefined
+    })));
+  }
+
+  /**
+   * Active overrides for a screened name: global ones plus those of the
+   * requesting organization. Where both target the same entry, the
+   * organization's override wins
+   */
+  async getActiveOverrides(entityName: string, organizationId?: string): Promise<MatchOverride[]> {
+    const overrides = await this.loadOverrides();
+    if (overrides.size === 0) return [];
+
+    const queryKey = MatchOverrideService.queryKey(entityName);
+    const now = Date.now();
+    const applicable = Array.from(overrides.values())
+      .filter(override => MatchOverrideService.statusOf(override, now) === 'active')
+      .filter(override => override.organization_id === null || override.organization_id === organizationId)
+      .filter(override => MatchOverrideService.queryKey(override.query) === queryKey)
+      // Organization-scoped first, then the most recently changed
+      .sort((a, b) => Number(b.organization_id !== null) - Number(a.organization_id !== null) || b.updated_at.localeCompare(a.updated_at));
+
+    return applicable.filter((override, index) =>
+      applicable.findIndex(other => this.targets(other, override)) === index
+    );
+  }
+
+  /**
+   * Whether an override targets the given entry (by id, or by dataset and name)
+   */
+  targets(override: Pick<MatchOverride, 'entry_id' | 'dataset_name' | 'organization_name'>, match: { entry_id?: string | null; dataset_name: string; organization_name: string }): boolean {
+    if (override.entry_id && match.entry_id) {
+      return override.entry_id === match.entry_id;
+    }
+    return override.dataset_name.toLowerCase() === match.dataset_name.toLowerCase() &&
+      override.organization_name.toLowerCase() === match.organization_name.toLowerCase();
+  }
+
+  private async loadOverrides(): Promise<Map<string, MatchOverride>> {
+    if (!this.overrides) {
+      const overrides = await this.store.listOverrides();
+      this.overrides = new Map(overrides.map(override => [override.id, override]));
+    }
+    return this.overrides;
+  }
+
+  private async save(override: MatchOverride): Promise<void> {
+    await this.store.saveOverride(override);
+    (await this.loadOverrides()).set(override.id, override);
+  }
+
+  private successResponse<T>(data: T, startTime: [number, number]): ServiceResponse<T> {
+    return {
+      success: true,
+      data,
+      metadata: {
+        processing_time_ms: this.getProcessingTime(startTime),
+        cache_used: false,
+        algorithm_version: '2.5.0-overrides',
+        config_version: this.configManager.getConfigVersion()
+      }
+    };
+  }
+
+  private errorResponse<T>(code: string, message: string, startTime: [number, number]): ServiceResponse<T> {
+    return {
+      success: false,
+      error: createServiceError(code, message),
+      metadata: {
+        processing_time_ms: this.getProcessingTime(startTime),
+        cache_used: false,
+        algorithm_version: '2.5.0-overrides',
+        config_version: this.configManager.getConfigVersion()
+      }
+    };
+  }
+
+  private getProcessingTime(startTime: [number, number]): number {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return Math.round((seconds * 1000) + (nanoseconds / 1e6));
+  }
+}
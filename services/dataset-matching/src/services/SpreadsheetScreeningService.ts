@@ -0,0 +1,407 @@
+import path from 'path';
+import { DatasetMatchingService } from './DatasetMatchingService';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { ConfigManager } from '../utils/ConfigManager';
+import { CsvParser } from '../utils/CsvParser';
+import { SpreadsheetColumnDetector } from '../utils/SpreadsheetColumnDetector';
+import { XlsxCellValue, XlsxRow, XlsxWorkbook } from '../utils/XlsxWorkbook';
+import {
+  BatchMatchRequest,
+  DatasetMatch,
+  EntityIdentifiers,
+  IdentifierType,
+  ServiceResponse,
+  SpreadsheetColumnDetection,
+  SpreadsheetColumnMapping,
+  SpreadsheetFormat,
+  SpreadsheetScreeningResult,
+  SpreadsheetUploadRequest
+} from '../types/DatasetMatchTypes';
+import { createServiceError, ValidationError } from '../utils/ErrorHandler';
+
+export interface ParsedSpreadsheet {
+  format: SpreadsheetFormat;
+  filename: string | null;
+  sheet: string | null;
+  sheets: string[];
+  headerRow: number;
+  headers: string[];
+  rows: XlsxRow[]; // Data rows below the header
+  workbook: XlsxWorkbook | null;
+}
+
+// Header positions of a column mapping
+interface ResolvedColumns {
+  mapping: SpreadsheetColumnMapping;
+  name: number;
+  country?: number;
+  identifiers: Array<{ type: IdentifierType; index: number }>;
+}
+
+interface RowLookup {
+  key: string;
+  entity: string;
+  location?: string;
+  identifiers?: EntityIdentifiers;
+}
+
+export const MATCH_COLUMNS = ['Best Match', 'Match Dataset', 'Match Confidence', 'Match Type', 'Match Count'];
+
+/**
+ * Screens uploaded CSV and .xlsx spreadsheets: each row's name (with its
+ * country and identifiers, when mapped) goes through the batch matcher and
+ * the best match is appended to the row. The original columns are kept as
+ * they are; .xlsx output is the uploaded workbook with cells added.
+ */
+export class SpreadsheetScreeningService {
+  private static instance: SpreadsheetScreeningService;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  public static getInstance(): SpreadsheetScreeningService {
+    if (!SpreadsheetScreeningService.instance) {
+      SpreadsheetScreeningService.instance = new SpreadsheetScreeningService();
+    }
+    return SpreadsheetScreeningService.instance;
+  }
+
+  /**
+   * Read an upload; the first non-empty row is the header
+   */
+  async parse(upload: SpreadsheetUploadRequest): Promise<ParsedSpreadsheet> {
+    const format = upload.format || SpreadsheetScreeningService.detectFormat(upload.file, upload.filename);
+    let workbook: XlsxWorkbook | null = null;
+    let sheet: string | null = null;
+    let rows: XlsxRow[];
+
+    if (format === 'xlsx') {
+      try {
+        workbook = await XlsxWorkbook.load(Buffer.from(upload.file.replace(/^data:[^,]*;base64,/, ''), 'base64'));
+        sheet = upload.sheet ?? workbook.getSheetNames()[0];
+        rows = workbook.readRows(sheet);
+      } catch (error: any) {
+        throw new ValidationError(`file is not a readable .xlsx workbook: ${error.message}`);
+      }
+    } else {
+      rows = await CsvParser.parseRecords(upload.file);
+    }
+
+    if (rows.length === 0) {
+      throw new ValidationError('file contains no rows');
+    }
+
+    const maxRows = this.configManager.getSpreadsheetsConfig().max_rows;
+    if (rows.length - 1 > maxRows) {
+      throw new ValidationError(`file must contain at most ${maxRows} data rows`);
+    }
+
+    return {
+      format,
+      filename: upload.filename || null,
+      sheet,
+      sheets: workbook ? workbook.getSheetNames() : [],
+      headerRow: rows[0].rowNumber,
+      headers: rows[0].cells.map(cell => cell.trim()),
+      rows: rows.slice(1),
+      workbook
+    };
+  }
+
+  /**
+   * Headers, detected column mapping and a few sample rows, for the user to confirm
+   */
+  detectColumns(spreadsheet: ParsedSpreadsheet): SpreadsheetColumnDetection {
+    const detection = SpreadsheetColumnDetector.detect(spreadsheet.headers);
+    const sampleRows = this.configManager.getSpreadsheetsConfig().sample_rows;
+
+    return {
+      format: spreadsheet.format,
+      sheet: spreadsheet.sheet,
+      sheets: spreadsheet.sheets,
+      header_row: spreadsheet.headerRow,
+      headers: spreadsheet.headers,
+      columns: detection.columns,
+      confidence: detection.confidence,
+      data_rows: spreadsheet.rows.length,
+      sample: spreadsheet.rows.slice(0, sampleRows).map(row => spreadsheet.headers.map((_, index) => row.cells[index] || ''))
+    };
+  }
+
+  /**
+   * Check a column mapping against the header row, or detect one when none is given
+   */
+  resolveColumns(spreadsheet: ParsedSpreadsheet, mapping?: SpreadsheetColumnMapping): SpreadsheetColumnMapping {
+    if (mapping) {
+      this.locateColumns(spreadsheet.headers, mapping);
+      return mapping;
+    }
+
+    const detected = SpreadsheetColumnDetector.detect(spreadsheet.headers).columns;
+    if (!detected) {
+      throw new ValidationError('Could not detect the name column; provide columns.name');
+    }
+    return detected;
+  }
+
+  async screen(
+    spreadsheet: ParsedSpreadsheet,
+    mapping: SpreadsheetColumnMapping,
+    output: SpreadsheetFormat | 'json',
+    options: NonNullable<BatchMatchRequest['options']> = {}
+  ): Promise<ServiceResponse<SpreadsheetScreeningResult>> {
+    const startTime = process.hrtime();
+
+    try {
+      const columns = this.locateColumns(spreadsheet.headers, mapping);
+      const lookups = spreadsheet.rows.map(row => this.toLookup(row, columns, options.location));
+      const matches = await this.matchLookups(lookups.filter((lookup): lookup is RowLookup => lookup !== null), options);
+
+      const annotations = new Map<number, XlsxCellValue[]>();
+      let screened = 0;
+      let matched = 0;
+
+      spreadsheet.rows.forEach((row, index) => {
+        const lookup = lookups[index];
+        if (!lookup) {
+          annotations.set(row.rowNumber, [null, null, null, null, null]);
+          return;
+        }
+
+        const rowMatches = matches.get(lookup.key) || [];
+        screened++;
+        if (rowMatches.length > 0) matched++;
+        annotations.set(row.rowNumber, this.annotate(rowMatches));
+      });
+
+      // Cells beyond the last header are kept too; match columns go after the widest row
+      const width = Math.max(spreadsheet.headers.length, ...spreadsheet.rows.map(row => row.cells.length));
+      const pad = (cells: string[]) => Array.from({ length: width }, (_, index) => cells[index] ?? '');
+      const headers = [...pad(spreadsheet.headers), ...MATCH_COLUMNS];
+      const rows = spreadsheet.rows.map(row => ({
+        row: row.rowNumber,
+        cells: [...pad(row.cells), ...annotations.get(row.rowNumber)!]
+      }));
+
+      const result: SpreadsheetScreeningResult = {
+        summary: {
+          format: spreadsheet.format,
+          sheet: spreadsheet.sheet,
+          columns: mapping,
+          rows: spreadsheet.rows.length,
+          screened,
+          matched,
+          config_version: this.configManager.getConfigVersion()
+        },
+        headers,
+        rows
+      };
+
+      if (output !== 'json') {
+        result.file = {
+          format: output,
+          filename: this.outputFilename(spreadsheet.filename, output),
+          content: await this.buildFile(spreadsheet, output, headers, rows, annotations)
+        };
+      }
+
+      console.log(`📑 Screened spreadsheet: ${screened} rows, ${matched} with matches`);
+
+      return {
+        success: true,
+        data: result,
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: false,
+          algorithm_version: '2.6.0-spreadsheets',
+          config_version: result.summary.config_version,
+          matches_found: matched
+        }
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: createServiceError('SPREADSHEET_SCREENING_ERROR', `Spreadsheet screening failed: ${error.message}`),
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: false,
+          algorithm_version: '2.6.0-spreadsheets',
+          config_version: this.configManager.getConfigVersion()
+        }
+      };
+    }
+  }
+
+  static detectFormat(file: string, filename?: string): SpreadsheetFormat {
+    const extension = filename ? path.extname(filename).toLowerCase() : '';
+    if (extension === '.xlsx' || extension === '.xlsm') return 'xlsx';
+    if (extension === '.csv' || extension === '.txt') return 'csv';
+
+    // Base64 of the "PK\x03\x04" ZIP signature every .xlsx starts with
+    return /^(data:[^,]*;base64,)?UEsDB/.test(file) ? 'xlsx' : 'csv';
+  }
+
+  private locateColumns(headers: string[], mapping: SpreadsheetColumnMapping): ResolvedColumns {
+    const find = (header: string, field: string): number => {
+      const index = SpreadsheetColumnDetector.indexOf(headers, header);
+      if (index === -1) {
+        throw new ValidationError(`${field}: spreadsheet has no column "${header}"`);
+      }
+      return index;
+    };
+
+    return {
+      mapping,
+      name: find(mapping.name, 'columns.name'),
+      ...(mapping.country ? { country: find(mapping.country, 'columns.country') } : {}),
+      identifiers: (Object.keys(mapping.identifiers || {}) as IdentifierType[]).map(type => ({
+        type,
+        index: find(mapping.identifiers![type]!, `columns.identifiers.${type}`)
+      }))
+    };
+  }
+
+  private toLookup(row: XlsxRow, columns: ResolvedColumns, defaultLocation?: string): RowLookup | null {
+    const entity = (row.cells[columns.name] || '').trim();
+    if (!entity) return null;
+
+    const country = columns.country !== undefined ? (row.cells[columns.country] || '').trim() : '';
+    const location = country || defaultLocation;
+
+    const identifiers: EntityIdentifiers = {};
+    columns.identifiers.forEach(({ type, index }) => {
+      const value = (row.cells[index] || '').trim();
+      if (value) identifiers[type] = value;
+    });
+    const hasIdentifiers = Object.keys(identifiers).length > 0;
+
+    return {
+      key: JSON.stringify([entity, location || '', IdentifierMatching.fingerprint(identifiers)]),
+      entity,
+      location,
+      identifiers: hasIdentifiers ? identifiers : undefined
+    };
+  }
+
+  /**
+   * Match distinct lookups in batches that share a location. A batch keys its
+   * results by name, so the same name with other identifiers goes to another batch
+   */
+  private async matchLookups(
+    lookups: RowLookup[],
+    options: NonNullable<BatchMatchRequest['options']>
+  ): Promise<Map<string, DatasetMatch[]>> {
+    const batchSize = this.configManager.getSpreadsheetsConfig().batch_size;
+    const batches: Array<{ location?: string; lookups: RowLookup[] }> = [];
+    const seen = new Set<string>();
+
+    for (const lookup of lookups) {
+      if (seen.has(lookup.key)) continue;
+      seen.add(lookup.key);
+
+      let batch = batches.find(candidate =>
+        candidate.location === lookup.location &&
+        candidate.lookups.length < batchSize &&
+        !candidate.lookups.some(other => other.entity === lookup.entity)
+      );
+      if (!batch) {
+        batch = { location: lookup.location, lookups: [] };
+        batches.push(batch);
+      }
+      batch.lookups.push(lookup);
+    }
+
+    const results = new Map<string, DatasetMatch[]>();
+    for (const batch of batches) {
+      const identifiers: Record<string, EntityIdentifiers> = {};
+      batch.lookups.forEach(lookup => {
+        if (lookup.identifiers) identifiers[lookup.entity] = lookup.identifiers;
+      });
+
+      const result = await DatasetMatchingService.getInstance().findMatchesBatch(
+        batch.lookups.map(lookup => lookup.entity),
+        options.context,
+        options.forceRefresh || false,
+        {
+          location: batch.location,
+          searchRadius: options.searchRadius,
+          prioritizeLocal: options.prioritizeLocal,
+          maxResults: options.maxResults,
+          identifiers,
+          entityType: options.entity_type,
+          asOf: options.as_of,
+          includeHistorical: options.include_historical,
+          organizationId: options.organization_id,
+          consolidate: options.consolidate,
+          pipeline: options.pipeline
+        }
+      );
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || 'Matching failed');
+      }
+
+      batch.lookups.forEach(lookup => {
+        const matches = (result.data![lookup.entity] || []).filter(match =>
+          (!options.matchTypes || options.matchTypes.length === 0 || options.matchTypes.includes(match.match_type)) &&
+          (options.minConfidence === undefined || (match.confidence_score || 0) >= options.minConfidence)
+        );
+        results.set(lookup.key, matches);
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Values of the appended match columns for one row
+   */
+  private annotate(matches: DatasetMatch[]): XlsxCellValue[] {
+    const best = matches[0];
+    if (!best) return ['', '', null, '', 0];
+
+    // A consolidated match lists every dataset the entity appears on
+    const datasets = best.listings && best.listings.length > 0
+      ? Array.from(new Set(best.listings.map(listing => listing.dataset_name)))
+      : [best.dataset_name];
+
+    return [
+      best.organization_name,
+      datasets.join('; '),
+      Math.round((best.confidence_score || 0) * 1000) / 1000,
+      best.match_type,
+      matches.length
+    ];
+  }
+
+  private async buildFile(
+    spreadsheet: ParsedSpreadsheet,
+    format: SpreadsheetFormat,
+    headers: string[],
+    rows: SpreadsheetScreeningResult['rows'],
+    annotations: Map<number, XlsxCellValue[]>
+  ): Promise<Buffer> {
+    if (format === 'xlsx' && spreadsheet.workbook) {
+      // Writes into the uploaded workbook, so formatting and other sheets survive
+      spreadsheet.workbook.appendColumns(spreadsheet.sheet ?? undefined, new Map([
+        [spreadsheet.headerRow, MATCH_COLUMNS],
+        ...annotations
+      ]));
+      return spreadsheet.workbook.toBuffer();
+    }
+
+    return Buffer.from(CsvParser.format([headers, ...rows.map(row => row.cells)]), 'utf8');
+  }
+
+  private outputFilename(filename: string | null, format: SpreadsheetFormat): string {
+    const base = filename ? path.basename(filename, path.extname(filename)) : 'spreadsheet';
+    return `${base.replace(/[^\w.-]+/g, '_')}-screened.${format}`;
+  }
+
+  private getProcessingTime(startTime: [number, number]): number {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return Math.round((seconds * 1000) + (nanoseconds / 1e6));
+  }
+}
@@ -4,11 +4,15 @@ import {
   Dataset,
   DatasetMatch,
   DatabaseError,
+  DatasetEntrySource,
+  IndexCandidate,
+  MatchFeedback,
   ServiceResponse
 } from '../types/DatasetMatchTypes';
 import { createDatabaseError } from '../utils/ErrorHandler';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
 
-export class SupabaseService {
+export class SupabaseService implements DatasetEntrySource {
   private client: SupabaseClient;
   private static instance: SupabaseService;
 
@@ -174,11 +178,12 @@ export class SupabaseService {
     try {
       const startTime = process.hrtime();
       const { CountryNormalizer } = await import('../utils/CountryNormalizer');
+      const { Gazetteer } = await import('../utils/Gazetteer');
       const countryNormalizer = CountryNormalizer.getInstance();
 
-      // Normalize the search location
-      const normalizedLocation = countryNormalizer.normalizeCountry(searchLocation);
-      if (!normalizedLocation) {
+      // Normalize the search location; a city or province resolves to its country
+      const searchCountry = Gazetteer.getInstance().resolveCountry(searchLocation);
+      if (!searchCountry) {
         console.warn(`Could not normalize location: ${searchLocation}, falling back to text-only search`);
         return this.findDatasetMatchesOptimized(searchText, undefined, options);
       }
@@ -198,7 +203,7 @@ export class SupabaseService {
           datasets!inner(name, updated_at, is_active)
         `)
         .eq('datasets.is_active', true)
-        .contains('countries', [normalizedLocation.canonical])
+        .contains('countries', [searchCountry])
         .or(`organization_name.ilike.%${searchText}%`)
         .limit(maxResults);
 
@@ -214,8 +219,8 @@ export class SupabaseService {
 
       // Step 2: If we need more results, search regional countries
       if (allMatches.length < maxResults) {
-        const regionalCountries = countryNormalizer.getRegionalCountries(normalizedLocation.canonical);
-        const otherRegionalCountries = regionalCountries.filter(c => c !== normalizedLocation.canonical);
+        const regionalCountries = countryNormalizer.getRegionalCountries(searchCountry);
+        const otherRegionalCountries = regionalCountries.filter(c => c !== searchCountry);
 
         if (otherRegionalCountries.length > 0) {
           const { data: regionalMatches, error: regionalError } = await this.client
@@ -776,6 +781,223 @@ export class SupabaseService {
     }
   }
 
+  // Lightweight change signature for a dataset: entry count, newest insert and newest edit.
+  // The edit timestamp catches entries changed in place, which leave the other two as they were
+  async getDatasetSignature(datasetId: string): Promise<ServiceResponse<string>> {
+    try {
+      const startTime = process.hrtime();
+
+      const { count, error: countError } = await this.client
+        .from('dataset_entries')
+        .select('id', { count: 'exact', head: true })
+        .eq('dataset_id', datasetId);
+
+      if (countError) {
+        throw countError;
+      }
+
+      const latest: Record<'created_at' | 'updated_at', string> = { created_at: '', updated_at: '' };
+      for (const column of ['created_at', 'updated_at'] as const) {
+        const { data, error } = await this.client
+          .from('dataset_entries')
+          .select(column)
+          .eq('dataset_id', datasetId)
+          .order(column, { ascending: false })
+          .limit(1);
+
+        if (error) {
+          throw error;
+        }
+        latest[column] = data && data[0] ? (data[0] as Record<string, string>)[column] : '';
+      }
+
+      const processingTime = this.getProcessingTime(startTime);
+
+      return {
+        success: true,
+        data: `${count || 0}:${latest.created_at}:${latest.updated_at}`,
+        metadata: {
+          processing_time_ms: processingTime,
+          cache_used: false,
+          algorithm_version: '1.0.0'
+        }
+      };
+    } catch (error: any) {
+      const dbError = createDatabaseError(
+        `Failed to get dataset signature: ${error.message}`,
+        'SELECT dataset_entries (signature)',
+        { dataset_id: datasetId }
+      );
+
+      return {
+        success: false,
+        error: dbError
+      };
+    }
+  }
+
+  // Load all entries of a dataset for the in-memory index (paged to stay under PostgREST row limits)
+  async getIndexableEntries(datasetId: string): Promise<ServiceResponse<DatasetEntry[]>> {
+    try {
+      const startTime = process.hrtime();
+      const pageSize = 1000;
+      const entries: DatasetEntry[] = [];
+
+      for (let from = 0; ; from += pageSize) {
+        const { data, error } = await this.client
+          .from('dataset_entries')
+          .select('id, dataset_id, organization_name, aliases, countries, category, identifiers, emails, addresses, schema_type, birth_date, first_seen, last_seen, created_at, updated_at')
+          .eq('dataset_id', datasetId)
+          .order('id')
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        (data || []).forEach((row: any) => {
+          entries.push({
+            id: row.id,
+            dataset_id: row.dataset_id,
+            organization_name: row.organization_name,
+            aliases: Array.isArray(row.aliases) ? row.aliases : [],
+            countries: Array.isArray(row.countries) ? row.countries : [],
+            category: row.category,
+            identifiers: row.identifiers,
+            emails: row.emails,
+            addresses: row.addresses,
+            schema_type: row.schema_type,
+            birth_date: row.birth_date,
+            first_seen: row.first_seen,
+            last_seen: row.last_seen,
+            created_at: row.created_at,
+            updated_at: row.updated_at
+          });
+        });
+
+        if (!data || data.length < pageSize) break;
+      }
+
+      const processingTime = this.getProcessingTime(startTime);
+
+      return {
+        success: true,
+        data: entries,
+        metadata: {
+          processing_time_ms: processingTime,
+          cache_used: false,
+          algorithm_version: '1.0.0'
+        }
+      };
+    } catch (error: any) {
+      const dbError = createDatabaseError(
+        `Failed to load indexable entries: ${error.message}`,
+        'SELECT dataset_entries (index)',
+        { dataset_id: datasetId }
+      );
+
+      return {
+        success: false,
+        error: dbError
+      };
+    }
+  }
+
+  // Entries whose free-text identifiers contain any of the normalized values.
+  // The substring match is loose on purpose; callers confirm hits with IdentifierMatching.compare
+  async findEntriesByIdentifiers(values: string[]): Promise<ServiceResponse<IndexCandidate[]>> {
+    try {
+      const startTime = process.hrtime();
+
+      if (values.length === 0) {
+        return {
+          success: true,
+          data: [],
+          metadata: { processing_time_ms: 0, cache_used: false, algorithm_version: '1.0.0' }
+        };
+      }
+
+      const { data, error } = await this.client
+        .from('dataset_entries')
+        .select(`
+          id,
+          dataset_id,
+          organization_name,
+          aliases,
+          countries,
+          category,
+          identifiers,
+          emails,
+          addresses,
+          schema_type,
+          birth_date,
+          first_seen,
+          last_seen,
+          created_at,
+          updated_at,
+          datasets!inner(id, name, description, is_active, created_at, updated_at)
+        `)
+        .eq('datasets.is_active', true)
+        .or(values.map(value => `identifiers.ilike.${this.quoteContainsPattern(value)}`).join(','))
+        .limit(100);
+
+      if (error) {
+        throw error;
+      }
+
+      const candidates: IndexCandidate[] = (data || []).map((row: any) => {
+        const entry: DatasetEntry = {
+          id: row.id,
+          dataset_id: row.dataset_id,
+          organization_name: row.organization_name,
+          aliases: Array.isArray(row.aliases) ? row.aliases : [],
+          countries: Array.isArray(row.countries) ? row.countries : [],
+          category: row.category,
+          identifiers: row.identifiers,
+          emails: row.emails,
+          addresses: row.addresses,
+          schema_type: row.schema_type,
+          birth_date: row.birth_date,
+          first_seen: row.first_seen,
+          last_seen: row.last_seen,
+          created_at: row.created_at,
+          updated_at: row.updated_at
+        };
+
+        return {
+          entry,
+          dataset: row.datasets,
+          names: [entry.organization_name, ...(entry.aliases || [])],
+          index_score: 1.0,
+          identifiers: IdentifierMatching.parseEntry(entry)
+        };
+      });
+
+      const processingTime = this.getProcessingTime(startTime);
+
+      return {
+        success: true,
+        data: candidates,
+        metadata: {
+          processing_time_ms: processingTime,
+          cache_used: false,
+          algorithm_version: '1.0.0'
+        }
+      };
+    } catch (error: any) {
+      const dbError = createDatabaseError(
+        `Failed to find entries by identifier: ${error.message}`,
+        'SELECT dataset_entries (identifiers)',
+        { values }
+      );
+
+      return {
+        success: false,
+        error: dbError
+      };
+    }
+  }
+
   // Batch search for multiple entities (Optimized Version)
   async findDatasetMatchesBatch(searchTexts: string[]): Promise<ServiceResponse<Record<string, DatasetMatch[]>>> {
     try {
@@ -978,6 +1200,13 @@ export class SupabaseService {
     }
   }
 
+  // Double-quoted ilike pattern for a PostgREST filter, so commas, parentheses and dots in domains or
+  // other identifiers stay part of the value, and LIKE wildcards in it match literally
+  private quoteContainsPattern(value: string): string {
+    const pattern = `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    return `"${pattern.replace(/["\\]/g, match => `\\${match}`)}"`;
+  }
+
   // Helper method to calculate processing time
   private getProcessingTime(startTime: [number, number]): number {
     const [seconds, nanoseconds] = process.hrtime(startTime);
@@ -1036,4 +1265,98 @@ export class SupabaseService {
       };
     }
   }
+
+  // Persist analyst feedback on a returned match
+  async saveMatchFeedback(feedback: MatchFeedback): Promise<ServiceResponse<MatchFeedback>> {
+    try {
+      const startTime = process.hrtime();
+
+      const { data, error } = await this.client
+        .from('match_feedback')
+        .insert(feedback)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const processingTime = this.getProcessingTime(startTime);
+
+      return {
+        success: true,
+        data: data as MatchFeedback,
+        metadata: {
+          processing_time_ms: processingTime,
+          cache_used: false,
+          algorithm_version: '1.0.0'
+        }
+      };
+    } catch (error: any) {
+      const dbError = createDatabaseError(
+        `Failed to save match feedback: ${error.message}`,
+        'INSERT match_feedback',
+        { entity: feedback.entity, organization_name: feedback.organization_name, verdict: feedback.verdict }
+      );
+
+      return {
+        success: false,
+        error: dbError
+      };
+    }
+  }
+
+  // Load analyst feedback for offline tuning (paged like getIndexableEntries)
+  async getMatchFeedback(since?: string): Promise<ServiceResponse<MatchFeedback[]>> {
+    try {
+      const startTime = process.hrtime();
+      const pageSize = 1000;
+      const feedback: MatchFeedback[] = [];
+
+      for (let from = 0; ; from += pageSize) {
+        let query = this.client
+          .from('match_feedback')
+          .select('*');
+
+        if (since) {
+          query = query.gte('created_at', since);
+        }
+
+        const { data, error } = await query
+          .order('created_at')
+          .range(from, from + pageSize - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        feedback.push(...((data || []) as MatchFeedback[]));
+
+        if (!data || data.length < pageSize) break;
+      }
+
+      const processingTime = this.getProcessingTime(startTime);
+
+      return {
+        success: true,
+        data: feedback,
+        metadata: {
+          processing_time_ms: processingTime,
+          cache_used: false,
+          algorithm_version: '1.0.0'
+        }
+      };
+    } catch (error: any) {
+      const dbError = createDatabaseError(
+        `Failed to load match feedback: ${error.message}`,
+        'SELECT match_feedback',
+        { since }
+      );
+
+      return {
+        success: false,
+        error: dbError
+      };
+    }
+  }
 }
\ No newline at end of file
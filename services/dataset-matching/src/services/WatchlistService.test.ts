@@ -0,0 +1,114 @@
+import { WatchlistService } from './WatchlistService';
+import { InMemoryWatchlistStore } from '../watchlists/InMemoryWatchlistStore';
+import { StreamWriter } from '../utils/StreamWriter';
+import { DatasetMatch, Watchlist, WatchlistScreeningSummary } from '../types/DatasetMatchTypes';
+
+const match = (overrides: Partial<DatasetMatch> = {}): DatasetMatch => ({
+  dataset_name: 'Entity List',
+  organization_name: 'Harbin Institute of Technology',
+  match_type: 'exact',
+  confidence_score: 0.95,
+  entry_id: 'el-001',
+  countries: ['CN'],
+  ...overrides
+});
+
+describe('WatchlistService.diffMatches', () => {
+  it('reports nothing when the match set is unchanged', () => {
+    expect(WatchlistService.diffMatches([match()], [match({ countries: ['CN'] })], 0.1)).toEqual([]);
+  });
+
+  it('reports new and removed matches', () => {
+    const diffs = WatchlistService.diffMatches(
+      [match()],
+      [match({ entry_id: 'sdn-002', dataset_name: 'SDN', organization_name: 'Harbin Institute' })],
+      0.1
+    );
+    expect(diffs.map(diff => [diff.change, diff.match.entry_id])).toEqual([['new', 'sdn-002'], ['removed', 'el-001']]);
+  });
+
+  it('lists the fields of a changed match', () => {
+    const [diff] = WatchlistService.diffMatches(
+      [match()],
+      [match({ match_type: 'alias', countries: ['CN', 'HK'], category: 'military_end_user' })],
+      0.1
+    );
+    expect(diff.change).toBe('changed');
+    expect(diff.changed_fields).toEqual(['match_type', 'category', 'countries']);
+    expect(diff.previous?.match_type).toBe('exact');
+  });
+
+  it('ignores confidence moves below the threshold', () => {
+    expect(WatchlistService.diffMatches([match()], [match({ confidence_score: 0.9 })], 0.1)).toEqual([]);
+    const [diff] = WatchlistService.diffMatches([match()], [match({ confidence_score: 0.8 })], 0.1);
+    expect(diff.changed_fields).toEqual(['confidence_score']);
+  });
+
+  it('pairs matches without an entry id by dataset and name, ignoring case', () => {
+    const previous = [match({ entry_id: undefined })];
+    const current = [match({ entry_id: undefined, organization_name: 'HARBIN INSTITUTE OF TECHNOLOGY' })];
+    const [diff] = WatchlistService.diffMatches(previous, current, 0.1);
+    expect(diff.change).toBe('changed');
+    expect(diff.changed_fields).toEqual(['organization_name']);
+  });
+});
+
+describe('WatchlistService alert streams', () => {
+  const watchlist = (id: string, createdBy: string): Watchlist => ({
+    id,
+    name: id,
+    webhook_url: null,
+    options: {},
+    created_by: createdBy,
+    entity_count: 1,
+    datasets_version: null,
+    last_screened_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  });
+
+  const summary = (watchlistId: string): WatchlistScreeningSummary => ({
+    watchlist_id: watchlistId,
+    trigger: 'manual',
+    datasets_version: 'v2',
+    previous_datasets_version: 'v1',
+    screened: 1,
+    failed: 0,
+    alerts: { new: 0, removed: 0, changed: 0 },
+    screened_at: '2024-01-02T00:00:00Z'
+  });
+
+  // Records the watchlists of the screening events it receives
+  const writer = () => {
+    const received: string[] = [];
+    const fake = {
+      received,
+      open: () => {},
+      onClose: () => {},
+      isClosed: () => false,
+      send: (event: string, data: Record<string, any>) => {
+        if (event === 'screening') received.push(data.watchlist_id);
+      }
+    };
+    return fake as unknown as StreamWriter & { received: string[] };
+  };
+
+  it('only streams the watchlists of the subscribing analyst, unless subscribed for everyone', () => {
+    const service = new WatchlistService(new InMemoryWatchlistStore());
+    const alice = writer();
+    const aliceOne = writer();
+    const admin = writer();
+    service.subscribe(alice, null, 'alice');
+    service.subscribe(aliceOne, 'wl_a2', 'alice');
+    service.subscribe(admin, null, null);
+
+    const deliver = (item: Watchlist) => (service as any).deliver(item, summary(item.id), []);
+    deliver(watchlist('wl_a1', 'alice'));
+    deliver(watchlist('wl_b1', 'bob'));
+    deliver(watchlist('wl_a2', 'alice'));
+
+    expect(alice.received).toEqual(['wl_a1', 'wl_a2']);
+    expect(aliceOne.received).toEqual(['wl_a2']);
+    expect(admin.received).toEqual(['wl_a1', 'wl_b1', 'wl_a2']);
+  });
+});
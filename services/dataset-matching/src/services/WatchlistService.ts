@@ -0,0 +1,467 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import path from 'path';
+import { DatasetMatchingService } from './DatasetMatchingService';
+import { ConfigManager } from '../utils/ConfigManager';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { StreamWriter } from '../utils/StreamWriter';
+import { WebhookUrlValidator } from '../utils/WebhookUrlValidator';
+import { WatchlistStore } from '../watchlists/WatchlistStore';
+import { InMemoryWatchlistStore } from '../watchlists/InMemoryWatchlistStore';
+import { FileWatchlistStore } from '../watchlists/FileWatchlistStore';
+import {
+  CreateWatchlistRequest,
+  DatasetMatch,
+  ServiceResponse,
+  Watchlist,
+  WatchlistAlert,
+  WatchlistEntity,
+  WatchlistScreeningSummary,
+  WatchlistScreeningTrigger
+} from '../types/DatasetMatchTypes';
+import { createServiceError } from '../utils/ErrorHandler';
+
+interface AlertSubscriber {
+  writer: StreamWriter;
+  watchlistId: string | null; // null receives alerts for every watchlist of the owner
+  owner: string | null;       // Analyst whose watchlists are streamed; null for every analyst's
+}
+
+/**
+ * Continuous re-screening: watchlist entities are screened again whenever the
+ * datasets version moves (polled every watchlists.poll_interval_ms) or
+ * data-management reports a finished import. Each run is diffed against the
+ * previous match sets and new, removed and changed matches are recorded as
+ * alerts, pushed to SSE subscribers and POSTed to the watchlist's webhook.
+ * Storage is selected with WATCHLIST_STORE=memory|file (files under WATCHLIST_DIR).
+ */
+export class WatchlistService {
+  private static instance: WatchlistService;
+  private store: WatchlistStore;
+  private configManager: ConfigManager;
+
+  private subscribers = new Set<AlertSubscriber>();
+  private queued = new Set<string>();
+  private screeningChain: Promise<void> = Promise.resolve(); // Runs one screening at a time
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(store?: WatchlistStore) {
+    this.store = store || WatchlistService.createStore();
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  public static getInstance(): WatchlistService {
+    if (!WatchlistService.instance) {
+      WatchlistService.instance = new WatchlistService();
+    }
+    return WatchlistService.instance;
+  }
+
+  private static createStore(): WatchlistStore {
+    if (process.env.WATCHLIST_STORE === 'file') {
+      const watchlistDir = process.env.WATCHLIST_DIR || path.join(process.cwd(), 'data', 'watchlists');
+      console.log(`🗄️  Watchlists stored in ${watchlistDir}`);
+      return new FileWatchlistStore(watchlistDir);
+    }
+    return new InMemoryWatchlistStore();
+  }
+
+  static isValidWatchlistId(watchlistId: string): boolean {
+    return /^wl_[a-f0-9]{16}$/.test(watchlistId);
+  }
+
+  /**
+   * Register a watchlist on behalf of an authenticated analyst; its baseline
+   * screening runs in the background and raises no alerts. webhook_url must
+   * already have passed WebhookUrlValidator.validate
+   */
+  async createWatchlist(request: CreateWatchlistRequest, actor: string): Promise<ServiceResponse<Watchlist>> {
+    const startTime = process.hrtime();
+
+    try {
+      const existing = await this.store.listWatchlists();
+      const maxWatchlists = this.configManager.getWatchlistsConfig().max_watchlists;
+      if (existing.length >= maxWatchlists) {
+        return this.errorResponse('WATCHLIST_LIMIT_REACHED', `At most ${maxWatchlists} watchlists can be registered`, startTime);
+      }
+
+      // Screening is per entity name, so duplicates would only produce duplicate alerts
+      const seen = new Set<string>();
+      const entities: WatchlistEntity[] = [];
+      request.entities.forEach(entity => {
+        const name = entity.trim();
+        if (!seen.has(name.toLowerCase())) {
+          seen.add(name.toLowerCase());
+          entities.push({ entity: name, matches: [], screened_at: null });
+        }
+      });
+
+      const now = new Date().toISOString();
+      const watchlist: Watchlist = {
+        id: `wl_${crypto.randomBytes(8).toString('hex')}`,
+        name: request.name.trim(),
+        webhook_url: request.webhook_url || null,
+        options: request.options || {},
+        created_by: actor,
+        entity_count: entities.length,
+        datasets_version: null,
+        last_screened_at: null,
+        created_at: now,
+        updated_at: now
+      };
+
+      await this.store.createWatchlist(watchlist, entities);
+      this.enqueue(watchlist.id, 'created');
+      console.log(`👁️  Watchlist ${watchlist.id} "${watchlist.name}" registered with ${entities.length} entities`);
+
+      return {
+        success: true,
+        data: watchlist,
+        metadata: {
+          processing_time_ms: this.getProcessingTime(startTime),
+          cache_used: false,
+          algorithm_version: '2.4.0-watchlists',
+          config_version: this.configManager.getConfigVersion()
+        }
+      };
+    } catch (error: any) {
+      return this.errorResponse('WATCHLIST_CREATE_ERROR', `Failed to create watchlist: ${error.message}`, startTime);
+    }
+  }
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    const watchlists = await this.store.listWatchlists();
+    return watchlists.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async getWatchlist(watchlistId: string): Promise<Watchlist | null> {
+    return WatchlistService.isValidWatchlistId(watchlistId) ? this.store.getWatchlist(watchlistId) : null;
+  }
+
+  async getEntities(watchlistId: string): Promise<WatchlistEntity[]> {
+    return this.store.getEntities(watchlistId);
+  }
+
+  async getAlerts(watchlistId: string, offset: number, limit: number): Promise<{ alerts: WatchlistAlert[]; total: number }> {
+    return this.store.getAlerts(watchlistId, offset, limit);
+  }
+
+  async deleteWatchlist(watchlistId: string): Promise<boolean> {
+    const watchlist = await this.getWatchlist(watchlistId);
+    if (!watchlist) return false;
+
+    this.queued.delete(watchlistId);
+    await this.store.deleteWatchlist(watchlistId);
+    console.log(`🗑️  Watchlist ${watchlistId} deleted`);
+    return true;
+  }
+
+  /**
+   * Queue a re-screening of one watchlist. Returns false when one is already queued
+   */
+  rescreen(watchlistId: string, trigger: WatchlistScreeningTrigger = 'manual'): boolean {
+    return this.enqueue(watchlistId, trigger);
+  }
+
+  /**
+   * data-management finished an import: reload the index and re-screen every watchlist
+   */
+  async handleDatasetsUpdated(datasetId?: string): Promise<number> {
+    const version = await DatasetMatchingService.getInstance().getDatasetsVersion(true);
+    console.log(`📣 Datasets updated${datasetId ? ` (dataset ${datasetId})` : ''}, now at version ${version}`);
+
+    const watchlists = await this.store.listWatchlists();
+    return watchlists.filter(watchlist => this.enqueue(watchlist.id, 'import')).length;
+  }
+
+  /**
+   * Re-screen watchlists that were last screened against an older datasets version
+   */
+  async checkDatasetsVersion(): Promise<number> {
+    // The poll interval is the throttle here, so bypass the index's own version check interval
+    const version = await DatasetMatchingService.getInstance().getDatasetsVersion(true);
+    if (version === null) return 0;
+
+    const watchlists = await this.store.listWatchlists();
+    const stale = watchlists.filter(watchlist => watchlist.datasets_version !== version);
+    const queued = stale.filter(watchlist =>
+      this.enqueue(watchlist.id, watchlist.last_screened_at === null ? 'created' : 'datasets_version')
+    ).length;
+
+    if (queued > 0) {
+      console.log(`🔄 Datasets version ${version}: re-screening ${queued} watchlist(s)`);
+    }
+    return queued;
+  }
+
+  /**
+   * Start polling the datasets version. The interval is re-read from the
+   * configuration on every tick; 0 pauses polling
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    const schedule = () => {
+      const interval = this.configManager.getWatchlistsConfig().poll_interval_ms;
+      this.pollTimer = setTimeout(async () => {
+        if (interval > 0) {
+          await this.checkDatasetsVersion().catch(error => {
+            console.warn('Failed to check datasets version for watchlists:', error.message || error);
+          });
+        }
+        schedule();
+      }, interval > 0 ? interval : 60000);
+      this.pollTimer.unref();
+    };
+
+    schedule();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Push alerts and screening summaries to a streaming client until it disconnects
+   */
+  subscribe(writer: StreamWriter, watchlistId: string | null, owner: string | null): void {
+    const subscriber: AlertSubscriber = { writer, watchlistId, owner };
+    this.subscribers.add(subscriber);
+    writer.onClose(() => this.subscribers.delete(subscriber));
+
+    writer.open(this.configManager.getStreamingConfig().heartbeat_interval_ms);
+    writer.send('subscribed', { watchlist_id: watchlistId, timestamp: new Date().toISOString() });
+  }
+
+  private enqueue(watchlistId: string, trigger: WatchlistScreeningTrigger): boolean {
+    if (this.queued.has(watchlistId)) return false;
+    this.queued.add(watchlistId);
+
+    this.screeningChain = this.screeningChain.then(async () => {
+      // Leaving the queue before the run starts lets a change during the run queue another one
+      if (!this.queued.delete(watchlistId)) return; // Deleted while queued
+      try {
+        await this.screenWatchlist(watchlistId, trigger);
+      } catch (error: any) {
+        console.error(`❌ Screening of watchlist ${watchlistId} failed:`, error.message);
+      }
+    });
+    return true;
+  }
+
+  private async screenWatchlist(watchlistId: string, trigger: WatchlistScreeningTrigger): Promise<WatchlistScreeningSummary | null> {
+    const watchlist = await this.store.getWatchlist(watchlistId);
+    if (!watchlist) return null;
+
+    const matchingService = DatasetMatchingService.getInstance();
+    const watchlistsConfig = this.configManager.getWatchlistsConfig();
+    const version = await matchingService.getDatasetsVersion();
+    const entities = await this.store.getEntities(watchlistId);
+    const options = watchlist.options;
+    const screenedAt = new Date().toISOString();
+
+    const alerts: WatchlistAlert[] = [];
+    let screened = 0;
+    let failed = 0;
+
+    for (let i = 0; i < entities.length; i += watchlistsConfig.screening_chunk_size) {
+      const chunk = entities.slice(i, i + watchlistsConfig.screening_chunk_size);
+
+      // Always recompute: a cached result could predate the data change we are looking for
+      const result = await matchingService.findMatchesBatch(chunk.map(item => item.entity), options.context, true, {
+        location: options.location,
+        searchRadius: options.searchRadius,
+        prioritizeLocal: options.prioritizeLocal,
+        maxResults: options.maxResults,
+        entityType: options.entity_type,
+        asOf: options.as_of,
+        includeHistorical: options.include_historical,
+        organizationId: options.organization_id,
+        pipeline: options.pipeline,
+        // Alerts are per listing, so a new listing of an already-matched entity is still reported
+        consolidate: false
+      });
+
+      // Failed entities keep their previous match set so they are not reported as removed
+      if (!result.success || !result.data) {
+        failed += chunk.length;
+        continue;
+      }
+
+      for (const item of chunk) {
+        const matches = this.filterMatches(result.data[item.entity] || [], options);
+
+        // The first screening is the baseline; only later runs are diffed
+        if (item.screened_at !== null) {
+          alerts.push(...WatchlistService.diffMatches(item.matches, matches, watchlistsConfig.confidence_change_threshold).map(diff => ({
+            id: `alert_${crypto.randomBytes(8).toString('hex')}`,
+            watchlist_id: watchlistId,
+            entity: item.entity,
+            ...diff,
+            trigger,
+            datasets_version: version,
+            previous_datasets_version: watchlist.datasets_version,
+            created_at: screenedAt
+          })));
+        }
+
+        item.matches = matches;
+        item.screened_at = screenedAt;
+        screened++;
+      }
+    }
+
+    // Deleted while screening
+    if (!(await this.store.getWatchlist(watchlistId))) return null;
+
+    await this.store.saveEntities(watchlistId, entities);
+    await this.store.appendAlerts(watchlistId, alerts);
+    const updated = await this.store.updateWatchlist(watchlistId, {
+      // With failures the version stays put, so the next version check retries them
+      datasets_version: failed === 0 ? version : watchlist.datasets_version,
+      last_screened_at: screenedAt,
+      updated_at: new Date().toISOString()
+    });
+
+    const summary: WatchlistScreeningSummary = {
+      watchlist_id: watchlistId,
+      trigger,
+      datasets_version: version,
+      previous_datasets_version: watchlist.datasets_version,
+      screened,
+      failed,
+      alerts: {
+        new: alerts.filter(alert => alert.change === 'new').length,
+        removed: alerts.filter(alert => alert.change === 'removed').length,
+        changed: alerts.filter(alert => alert.change === 'changed').length
+      },
+      screened_at: screenedAt
+    };
+
+    console.log(`👁️  Watchlist ${watchlistId} screened (${trigger}): ${screened} entities, ${alerts.length} alerts, ${failed} failed`);
+    this.deliver(updated || watchlist, summary, alerts);
+    return summary;
+  }
+
+  private filterMatches(matches: DatasetMatch[], options: Watchlist['options']): DatasetMatch[] {
+    const filtered = matches.filter(match =>
+      (!options.matchTypes || options.matchTypes.length === 0 || options.matchTypes.includes(match.match_type)) &&
+      (options.minConfidence === undefined || (match.confidence_score || 0) >= options.minConfidence)
+    );
+    return ResponseFormatter.sanitizeMatches(filtered);
+  }
+
+  /**
+   * Compare two match sets for one entity. Matches are paired by dataset entry;
+   * a pair is changed when its match type, category, countries or name moved,
+   * or its confidence moved by at least the configured threshold
+   */
+  static diffMatches(
+    previous: DatasetMatch[],
+    current: DatasetMatch[],
+    confidenceThreshold: number
+  ): Array<Pick<WatchlistAlert, 'change' | 'match' | 'previous' | 'changed_fields'>> {
+    const key = (match: DatasetMatch) => match.entry_id || `${match.dataset_name}|${match.organization_name}`.toLowerCase();
+    const previousByKey = new Map(previous.map(match => [key(match), match]));
+    const currentKeys = new Set(current.map(key));
+    const diffs: Array<Pick<WatchlistAlert, 'change' | 'match' | 'previous' | 'changed_fields'>> = [];
+
+    for (const match of current) {
+      const before = previousByKey.get(key(match));
+      if (!before) {
+        diffs.push({ change: 'new', match });
+        continue;
+      }
+
+      const changedFields: string[] = [];
+      if (before.match_type !== match.match_type) changedFields.push('match_type');
+      if (before.organization_name !== match.organization_name) changedFields.push('organization_name');
+      if (before.dataset_name !== match.dataset_name) changedFields.push('dataset_name');
+      if ((before.category || null) !== (match.category || null)) changedFields.push('category');
+      if ([...(before.countries || [])].sort().join('|') !== [...(match.countries || [])].sort().join('|')) changedFields.push('countries');
+      if (Math.abs((before.confidence_score || 0) - (match.confidence_score || 0)) >= confidenceThreshold) changedFields.push('confidence_score');
+
+      if (changedFields.length > 0) {
+        diffs.push({ change: 'changed', match, previous: before, changed_fields: changedFields });
+      }
+    }
+
+    previous
+      .filter(match => !currentKeys.has(key(match)))
+      .forEach(match => diffs.push({ change: 'removed', match }));
+
+    return diffs;
+  }
+
+  private deliver(watchlist: Watchlist, summary: WatchlistScreeningSummary, alerts: WatchlistAlert[]): void {
+    this.subscribers.forEach(subscriber => {
+      if (subscriber.writer.isClosed()) return;
+      if (subscriber.watchlistId !== null && subscriber.watchlistId !== watchlist.id) return;
+      if (subscriber.owner !== null && subscriber.owner !== watchlist.created_by) return;
+
+      alerts.forEach(alert => subscriber.writer.send('alert', alert));
+      subscriber.writer.send('screening', summary);
+    });
+
+    if (watchlist.webhook_url && alerts.length > 0) {
+      this.postWebhook(watchlist, summary, alerts).catch(error => {
+        console.error(`❌ Webhook delivery for watchlist ${watchlist.id} failed:`, error.message);
+      });
+    }
+  }
+
+  /**
+   * POST one payload per screening run. With WATCHLIST_WEBHOOK_SECRET set the
+   * body is signed as X-Watchlist-Signature: sha256=<hex HMAC of the body>.
+   * The URL is checked again on every delivery, and redirects are not followed,
+   * so a stored URL cannot be turned against internal hosts later
+   */
+  private async postWebhook(watchlist: Watchlist, summary: WatchlistScreeningSummary, alerts: WatchlistAlert[]): Promise<void> {
+    const { webhook_timeout_ms: timeout, webhook_retry_attempts: retryAttempts } = this.configManager.getWatchlistsConfig();
+    const url = WebhookUrlValidator.parse(watchlist.webhook_url!).toString();
+    const body = JSON.stringify({
+      event: 'watchlist.alerts',
+      watchlist: { id: watchlist.id, name: watchlist.name },
+      summary,
+      alerts
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const secret = process.env.WATCHLIST_WEBHOOK_SECRET;
+    if (secret) {
+      headers['X-Watchlist-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await axios.post(url, body, { headers, timeout, maxRedirects: 0, lookup: WebhookUrlValidator.lookup });
+        console.log(`📬 Delivered ${alerts.length} alerts for watchlist ${watchlist.id} to webhook`);
+        return;
+      } catch (error: any) {
+        if (attempt >= retryAttempts || error.code === 'EWEBHOOKBLOCKED') throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
+      }
+    }
+  }
+
+  private errorResponse<T>(code: string, message: string, startTime: [number, number]): ServiceResponse<T> {
+    return {
+      success: false,
+      error: createServiceError(code, message),
+      metadata: {
+        processing_time_ms: this.getProcessingTime(startTime),
+        cache_used: false,
+        algorithm_version: '2.4.0-watchlists',
+        config_version: this.configManager.getConfigVersion()
+      }
+    };
+  }
+
+  private getProcessingTime(startTime: [number, number]): number {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return Math.round((seconds * 1000) + (nanoseconds / 1e6));
+  }
+}
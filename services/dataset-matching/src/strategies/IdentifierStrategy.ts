@@ -0,0 +1,38 @@
+import { DatasetMatch } from '../types/DatasetMatchTypes';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { ConfigManager } from '../utils/ConfigManager';
+import { MatchingStrategy, StrategyContext } from './MatchingStrategy';
+
+/**
+ * Entries sharing a strong identifier (LEI, registration number, IMO, tax ID)
+ * with the request, whatever their name. Without this stage in a pipeline,
+ * requested identifiers only corroborate or contradict name matches.
+ */
+export class IdentifierStrategy implements MatchingStrategy {
+  readonly name = 'identifier';
+  readonly description = 'Entries sharing a strong identifier with the request';
+  readonly cost = 1;
+  readonly timeoutKey = 'exact_match_ms';
+
+  async execute(context: StrategyContext): Promise<DatasetMatch[]> {
+    if (!context.identifiers) return [];
+
+    const requested = IdentifierMatching.fromRequest(context.identifiers);
+    if (IdentifierMatching.lookupValues(requested).length === 0) return [];
+
+    const confidence = ConfigManager.getInstance().getMatchingConfig().match_types.identifier?.confidence ?? 0.99;
+    return (await context.identifierCandidates())
+      .map(candidate => ({ candidate, hits: IdentifierMatching.compare(requested, candidate.identifiers).hits }))
+      .filter(({ hits }) => hits.some(hit => IdentifierMatching.isStrongType(hit.type)))
+      .map(({ candidate, hits }) => ({
+        dataset_name: candidate.dataset.name,
+        organization_name: candidate.entry.organization_name,
+        match_type: 'identifier' as const,
+        category: candidate.entry.category,
+        confidence_score: confidence,
+        entry_id: candidate.entry.id,
+        countries: candidate.entry.countries,
+        identifier_hits: hits
+      }));
+  }
+}
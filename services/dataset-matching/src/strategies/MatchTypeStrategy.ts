@@ -0,0 +1,45 @@
+import { DatasetMatch } from '../types/DatasetMatchTypes';
+import { DatabaseMatchPool, MatchingStrategy, StrategyContext } from './MatchingStrategy';
+
+export interface MatchTypeStrategyOptions {
+  name: string;
+  description: string;
+  cost: number;
+  timeoutKey: string;
+  matchTypes: Array<DatasetMatch['match_type']>;
+  databasePools: DatabaseMatchPool[]; // Queries the matches are taken from without the index
+}
+
+/**
+ * Name-matching strategy accepting one family of match types (exact, alias,
+ * fuzzy…). With the index, matches are taken from the scored index candidates
+ * that meet the pipeline's threshold; without it, from the database queries.
+ */
+export class MatchTypeStrategy implements MatchingStrategy {
+  readonly name: string;
+  readonly description: string;
+  readonly cost: number;
+  readonly timeoutKey: string;
+  private matchTypes: Set<DatasetMatch['match_type']>;
+  private databasePools: DatabaseMatchPool[];
+
+  constructor(options: MatchTypeStrategyOptions) {
+    this.name = options.name;
+    this.description = options.description;
+    this.cost = options.cost;
+    this.timeoutKey = options.timeoutKey;
+    this.matchTypes = new Set(options.matchTypes);
+    this.databasePools = options.databasePools;
+  }
+
+  async execute(context: StrategyContext): Promise<DatasetMatch[]> {
+    const accepts = (match: DatasetMatch) => this.matchTypes.has(match.match_type) && context.meetsThreshold(match);
+
+    if (context.useIndex) {
+      return (await context.scoredCandidates()).filter(accepts);
+    }
+
+    const pools = await Promise.all(this.databasePools.map(pool => context.databaseMatches(pool)));
+    return pools.flat().filter(accepts);
+  }
+}
@@ -0,0 +1,33 @@
+import { DatasetMatch, EntityIdentifiers, EntityType, IndexCandidate } from '../types/DatasetMatchTypes';
+
+// Database queries of the fallback path (no in-memory index); each runs at most once per request
+export type DatabaseMatchPool = 'exact' | 'similarity' | 'alias';
+
+/**
+ * What a strategy can draw on for one request. Expensive work (scoring the
+ * index candidates, database queries, identifier lookups) is shared, so a
+ * pipeline with several stages pays for it once.
+ */
+export interface StrategyContext {
+  entityName: string;
+  searchLocation?: string;
+  entityType?: EntityType;
+  identifiers?: EntityIdentifiers;
+  useIndex: boolean; // False when matching falls back to database queries
+  scoredCandidates(): Promise<DatasetMatch[]>; // Index candidates scored against the name, before any threshold
+  databaseMatches(pool: DatabaseMatchPool): Promise<DatasetMatch[]>;
+  identifierCandidates(): Promise<IndexCandidate[]>; // Entries sharing a strong identifier with the request
+  meetsThreshold(match: DatasetMatch): boolean; // The pipeline's similarity threshold for name matches
+}
+
+/**
+ * A way of finding matches for one entity. Strategies are registered by name
+ * with the StrategyRegistry and combined into pipelines in matching-config.json.
+ */
+export interface MatchingStrategy {
+  readonly name: string;
+  readonly description: string;
+  readonly cost: number; // Relative cost of one run; pipelines can cap the total with max_cost
+  readonly timeoutKey: string; // Key of query.timeouts bounding one run, unless the stage names another
+  execute(context: StrategyContext): Promise<DatasetMatch[]>;
+}
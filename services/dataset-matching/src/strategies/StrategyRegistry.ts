@@ -0,0 +1,215 @@
+import { ConfigManager } from '../utils/ConfigManager';
+import { ValidationError } from '../utils/ErrorHandler';
+import {
+  DatasetMatch,
+  MatchingPipelineDefinition,
+  PipelineStageRun,
+  PipelineTrace
+} from '../types/DatasetMatchTypes';
+import { MatchingStrategy, StrategyContext } from './MatchingStrategy';
+import { MatchTypeStrategy } from './MatchTypeStrategy';
+import { IdentifierStrategy } from './IdentifierStrategy';
+
+export interface PipelineRun {
+  trace: PipelineTrace;
+  results: Array<{ strategy: string; matches: DatasetMatch[] }>; // Per stage that ran, in order
+}
+
+/**
+ * Named matching strategies and the pipelines that combine them. Pipelines are
+ * declared in the `pipelines` block of matching-config.json and chosen per
+ * request, per organization, or by default, so recall/precision trade-offs
+ * change without code changes. Further strategies can be registered at startup.
+ */
+export class StrategyRegistry {
+  private static instance: StrategyRegistry;
+  private strategies = new Map<string, MatchingStrategy>();
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    StrategyRegistry.createBuiltInStrategies().forEach(strategy => this.register(strategy));
+  }
+
+  public static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry();
+    }
+    return StrategyRegistry.instance;
+  }
+
+  private static createBuiltInStrategies(): MatchingStrategy[] {
+    return [
+      new IdentifierStrategy(),
+      new MatchTypeStrategy({
+        name: 'exact',
+        description: 'Name or normalized name equal to the query',
+        cost: 1,
+        timeoutKey: 'exact_match_ms',
+        matchTypes: ['exact'],
+        databasePools: ['exact']
+      }),
+      new MatchTypeStrategy({
+        name: 'acronym',
+        description: 'Query is the acronym of the name, or the other way round',
+        cost: 1,
+        timeoutKey: 'exact_match_ms',
+        matchTypes: ['core_acronym'],
+        databasePools: ['exact']
+      }),
+      new MatchTypeStrategy({
+        name: 'alias',
+        description: 'Match on an alias rather than the primary name',
+        cost: 2,
+        timeoutKey: 'alias_match_ms',
+        matchTypes: ['alias', 'alias_partial'],
+        databasePools: ['alias', 'similarity']
+      }),
+      new MatchTypeStrategy({
+        name: 'fuzzy',
+        description: 'Similar names (edit distance, word overlap, core name)',
+        cost: 3,
+        timeoutKey: 'fuzzy_match_ms',
+        matchTypes: ['fuzzy', 'word_match', 'core_match', 'partial'],
+        databasePools: ['exact', 'similarity']
+      }),
+      new MatchTypeStrategy({
+        name: 'phonetic',
+        description: 'Names that sound alike or are transliterated differently',
+        cost: 3,
+        timeoutKey: 'fuzzy_match_ms',
+        matchTypes: ['phonetic'],
+        databasePools: ['similarity']
+      }),
+      new MatchTypeStrategy({
+        name: 'semantic',
+        description: 'Reworded names recognised by name embeddings (when semantic matching is enabled)',
+        cost: 2,
+        timeoutKey: 'fuzzy_match_ms',
+        matchTypes: ['semantic'],
+        databasePools: ['similarity']
+      })
+    ];
+  }
+
+  /**
+   * Add a strategy, replacing any registered under the same name
+   */
+  register(strategy: MatchingStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  get(name: string): MatchingStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  list(): MatchingStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  getPipelines(): Record<string, MatchingPipelineDefinition> {
+    return this.configManager.getPipelinesConfig().definitions;
+  }
+
+  getPipeline(name: string): MatchingPipelineDefinition | null {
+    return this.getPipelines()[name] || null;
+  }
+
+  /**
+   * Pipeline for a request: the one asked for, else the organization's, else the default
+   */
+  resolvePipeline(requested?: string, organizationId?: string): string {
+    const config = this.configManager.getPipelinesConfig();
+
+    if (requested !== undefined) {
+      if (!config.definitions[requested]) {
+        throw new ValidationError(`Unknown pipeline "${requested}" (available: ${Object.keys(config.definitions).join(', ')})`);
+      }
+      return requested;
+    }
+
+    const organizationPipeline = organizationId ? config.organizations[organizationId] : undefined;
+    return organizationPipeline && config.definitions[organizationPipeline] ? organizationPipeline : config.default_pipeline;
+  }
+
+  /**
+   * Run a pipeline's stages in order. A stage that fails or exceeds its
+   * timeout contributes nothing; the run goes on with the next stage.
+   */
+  async run(pipelineName: string, context: StrategyContext): Promise<PipelineRun> {
+    const pipeline = this.getPipeline(pipelineName);
+    if (!pipeline) {
+      throw new Error(`Pipeline "${pipelineName}" is not configured`);
+    }
+
+    const timeouts = this.configManager.getTimeouts();
+    const trace: PipelineTrace = { pipeline: pipelineName, stages: [] };
+    const results: PipelineRun['results'] = [];
+    let found = 0;
+    let bestConfidence = 0;
+    let spentCost = 0;
+
+    for (const stage of pipeline.stages) {
+      const strategy = this.strategies.get(stage.strategy);
+      if (!strategy) {
+        console.warn(`⚠️  Pipeline "${pipelineName}" names unknown strategy "${stage.strategy}"`);
+        trace.stages.push({ strategy: stage.strategy, matches: 0, duration_ms: 0, skipped_reason: 'Unknown strategy' });
+        continue;
+      }
+      if (pipeline.max_cost !== undefined && spentCost + strategy.cost > pipeline.max_cost) {
+        trace.stages.push({ strategy: stage.strategy, matches: 0, duration_ms: 0, skipped_reason: `Cost ${strategy.cost} exceeds the remaining budget of ${pipeline.max_cost - spentCost}` });
+        continue;
+      }
+      spentCost += strategy.cost;
+
+      const stageRun: PipelineStageRun = { strategy: stage.strategy, matches: 0, duration_ms: 0 };
+      const startTime = Date.now();
+      try {
+        const matches = await this.withTimeout(strategy.execute(context), timeouts[stage.timeout || strategy.timeoutKey]);
+        if (matches === null) {
+          stageRun.timed_out = true;
+          console.warn(`⏱️  Strategy "${stage.strategy}" timed out for "${context.entityName}"`);
+        } else {
+          stageRun.matches = matches.length;
+          results.push({ strategy: stage.strategy, matches });
+          found += matches.length;
+          bestConfidence = matches.reduce((best, match) => Math.max(best, match.confidence_score || 0), bestConfidence);
+        }
+      } catch (error: any) {
+        stageRun.error = error.message || String(error);
+        console.warn(`⚠️  Strategy "${stage.strategy}" failed for "${context.entityName}":`, stageRun.error);
+      }
+      stageRun.duration_ms = Date.now() - startTime;
+      trace.stages.push(stageRun);
+
+      const stopWhen = stage.stop_when;
+      if (stopWhen && (
+        (stopWhen.min_matches !== undefined && found >= stopWhen.min_matches) ||
+        (stopWhen.min_confidence !== undefined && bestConfidence >= stopWhen.min_confidence)
+      )) {
+        trace.stopped_after = stage.strategy;
+        break;
+      }
+    }
+
+    return { trace, results };
+  }
+
+  /**
+   * Resolve to null when the strategy is still running after timeoutMs
+   */
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs?: number): Promise<T | null> {
+    if (!timeoutMs) return promise;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
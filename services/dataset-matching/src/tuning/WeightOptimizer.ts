@@ -0,0 +1,344 @@
+import { ConfigurableMatching } from '../algorithms/ConfigurableMatching';
+import { ConfigManager } from '../utils/ConfigManager';
+import {
+  MatchFeedback,
+  TuningMetrics,
+  TuningParameters,
+  TuningProposal
+} from '../types/DatasetMatchTypes';
+
+// similarity-weights.json algorithm name -> ConfigurableMatching component name
+const ALGORITHM_COMPONENTS: Record<string, string> = {
+  jaro_winkler: 'jaro_winkler',
+  levenshtein: 'levenshtein',
+  word_level_similarity: 'word_level',
+  character_ngram: 'character_ngram',
+  phonetic: 'phonetic',
+  semantic: 'semantic'
+};
+
+// Match types accepted by the indexed search regardless of score
+const ALWAYS_ACCEPTED = new Set(['exact', 'core_acronym']);
+
+interface ScoredName {
+  fixedScore: number | null; // Set when the score came from a fast path that ignores weights
+  components: Record<string, number>;
+  boost: number;
+}
+
+interface ScoredFeedback {
+  feedback: MatchFeedback;
+  alwaysAccepted: boolean;
+  names: ScoredName[];
+  phonetic: { match_threshold: number; confidence_factor: number };
+  semantic: { match_threshold: number; confidence_factor: number };
+}
+
+interface Candidate {
+  params: TuningParameters;
+  metrics: TuningMetrics;
+  distance: number;
+}
+
+/**
+ * Proposes similarity weights and the good_similarity acceptance threshold from
+ * analyst feedback. Each feedback item is scored once with the current configuration;
+ * candidate weights are then replayed over the stored component scores, so the search
+ * is a grid over the weight simplex without re-running the matcher.
+ *
+ * Weights and the threshold are chosen to maximise F-beta on the feedback (beta < 1
+ * favours precision), preferring the candidate closest to the current configuration.
+ */
+export class WeightOptimizer {
+  private configManager: ConfigManager;
+  private configurableMatching: ConfigurableMatching;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.configurableMatching = ConfigurableMatching.getInstance();
+  }
+
+  /**
+   * Current tunable parameters from ConfigManager
+   */
+  public getCurrentParameters(): TuningParameters {
+    const algorithms = this.configManager.getSimilarityWeights().algorithms;
+    const weights: Record<string, number> = {};
+
+    Object.keys(ALGORITHM_COMPONENTS)
+      .filter(name => (algorithms[name]?.weight || 0) > 0)
+      .forEach(name => { weights[name] = algorithms[name].weight; });
+
+    return {
+      weights,
+      good_similarity: this.configManager.getSimilarityThresholds()?.good_similarity || 0.85
+    };
+  }
+
+  /**
+   * Build a tuning proposal with before/after metrics on the given feedback
+   */
+  public propose(feedback: MatchFeedback[]): TuningProposal {
+    const tuning = this.configManager.getTuningConfig();
+    const truePositives = feedback.filter(item => item.verdict === 'true_positive').length;
+    const falsePositives = feedback.length - truePositives;
+
+    if (feedback.length < tuning.min_feedback_items) {
+      throw new Error(`Need at least ${tuning.min_feedback_items} feedback items to tune, got ${feedback.length}`);
+    }
+    if (truePositives < tuning.min_items_per_verdict || falsePositives < tuning.min_items_per_verdict) {
+      throw new Error(
+        `Need at least ${tuning.min_items_per_verdict} items of each verdict, got ${truePositives} true and ${falsePositives} false positives`
+      );
+    }
+
+    const scored = feedback.map(item => this.scoreFeedback(item));
+    const base = this.getCurrentParameters();
+    const before = this.evaluate(scored, base, tuning.f_beta);
+
+    let best: Candidate = { params: base, metrics: before, distance: 0 };
+    const thresholds = this.thresholdGrid(tuning.threshold_range, tuning.threshold_step);
+
+    for (const weights of this.weightGrid(Object.keys(base.weights), tuning.weight_step, tuning.min_weight)) {
+      const scores = scored.map(item => this.scoreItem(item, weights));
+
+      for (const threshold of thresholds) {
+        const params = { weights, good_similarity: threshold };
+        const metrics = this.computeMetrics(scored, scores, threshold, tuning.f_beta);
+        const distance = this.distance(base, params);
+
+        if (metrics.f_beta > best.metrics.f_beta + 1e-9 ||
+            (Math.abs(metrics.f_beta - best.metrics.f_beta) <= 1e-9 && distance < best.distance)) {
+          best = { params, metrics, distance };
+        }
+      }
+    }
+
+    const changesProposed = best.metrics.f_beta - before.f_beta >= tuning.min_improvement;
+    const proposed = changesProposed ? best.params : base;
+    const after = changesProposed ? best.metrics : before;
+
+    const beforeScores = scored.map(item => this.scoreItem(item, base.weights));
+    const afterScores = scored.map(item => this.scoreItem(item, proposed.weights));
+
+    return {
+      id: `tuning-${Date.now()}`,
+      created_at: new Date().toISOString(),
+      feedback_items: feedback.length,
+      f_beta: tuning.f_beta,
+      base,
+      proposed,
+      before,
+      after,
+      changes_proposed: changesProposed,
+      flipped: scored
+        .map((item, i) => ({
+          entity: item.feedback.entity,
+          organization_name: item.feedback.organization_name,
+          verdict: item.feedback.verdict,
+          accepted_before: this.isAccepted(item, beforeScores[i], base.good_similarity),
+          accepted_after: this.isAccepted(item, afterScores[i], proposed.good_similarity)
+        }))
+        .filter(change => change.accepted_before !== change.accepted_after)
+    };
+  }
+
+  /**
+   * Write an approved proposal into similarity-weights.json and matching-config.json.
+   * Refuses when the configuration has changed since the proposal was generated.
+   */
+  public applyProposal(proposal: TuningProposal): TuningParameters {
+    if (!proposal.changes_proposed) {
+      throw new Error(`Proposal ${proposal.id} does not change the configuration`);
+    }
+
+    const current = this.getCurrentParameters();
+    if (this.distance(current, proposal.base) > 1e-9) {
+      throw new Error(`Configuration changed since proposal ${proposal.id} was generated; generate a new proposal`);
+    }
+
+    this.configManager.updateConfigFile('similarity-weights.json', config => {
+      Object.entries(proposal.proposed.weights).forEach(([name, weight]) => {
+        config.algorithms[name].weight = weight;
+      });
+    });
+    this.configManager.updateConfigFile('matching-config.json', config => {
+      config.similarity.thresholds.good_similarity = proposal.proposed.good_similarity;
+    });
+
+    console.log(`✅ Applied tuning proposal ${proposal.id}`);
+    return this.getCurrentParameters();
+  }
+
+  /**
+   * Score a feedback item against its matched names with the current configuration
+   */
+  private scoreFeedback(feedback: MatchFeedback): ScoredFeedback {
+    const names = [feedback.organization_name];
+    if (feedback.matched_name && feedback.matched_name !== feedback.organization_name) {
+      names.push(feedback.matched_name);
+    }
+
+    let alwaysAccepted = false;
+    const scoredNames = names.map(name => {
+      const result = this.configurableMatching.calculateAdvancedSimilarity(feedback.entity, name, {
+        searchLocation: feedback.location || undefined,
+        searchContext: feedback.context || undefined
+      });
+
+      if (ALWAYS_ACCEPTED.has(result.matchType)) {
+        alwaysAccepted = true;
+      }
+
+      const components = result.components as Record<string, number>;
+      const fastPath = ALWAYS_ACCEPTED.has(result.matchType) || result.explanation.includes('early termination');
+
+      return {
+        fixedScore: fastPath ? result.score : null,
+        components,
+        boost: (components.geographic_boost || 1) * (components.context_boost || 1)
+      };
+    });
+
+    return {
+      feedback,
+      alwaysAccepted,
+      names: scoredNames,
+      phonetic: this.configManager.getPhoneticConfig(),
+      semantic: this.configManager.getSemanticConfig()
+    };
+  }
+
+  /**
+   * Replay ConfigurableMatching's weighted score for one item with candidate weights
+   */
+  private scoreItem(item: ScoredFeedback, weights: Record<string, number>): number {
+    const { phonetic, semantic } = item;
+
+    return Math.max(...item.names.map(name => {
+      if (name.fixedScore !== null) return name.fixedScore;
+
+      let score = 0;
+      let totalWeight = 0;
+      Object.entries(weights).forEach(([algorithm, weight]) => {
+        score += (name.components[ALGORITHM_COMPONENTS[algorithm]] || 0) * weight;
+        totalWeight += weight;
+      });
+      if (totalWeight > 0) score /= totalWeight;
+      score = Math.min(1.0, score * name.boost);
+
+      const phoneticScore = name.components.phonetic;
+      if (phoneticScore !== undefined && phoneticScore >= phonetic.match_threshold) {
+        score = Math.max(score, phoneticScore * phonetic.confidence_factor);
+      }
+
+      const semanticScore = name.components.semantic;
+      if (semanticScore !== undefined && semanticScore >= semantic.match_threshold) {
+        score = Math.max(score, semanticScore * semantic.confidence_factor);
+      }
+
+      return score;
+    }));
+  }
+
+  private isAccepted(item: ScoredFeedback, score: number, threshold: number): boolean {
+    return item.alwaysAccepted || score >= threshold;
+  }
+
+  private evaluate(scored: ScoredFeedback[], params: TuningParameters, beta: number): TuningMetrics {
+    const scores = scored.map(item => this.scoreItem(item, params.weights));
+    return this.computeMetrics(scored, scores, params.good_similarity, beta);
+  }
+
+  /**
+   * Accepted true-positive feedback counts as a true positive, accepted false-positive
+   * feedback as a false positive; rejected items are false / true negatives
+   */
+  private computeMetrics(scored: ScoredFeedback[], scores: number[], threshold: number, beta: number): TuningMetrics {
+    const counts = { true_positive: 0, false_positive: 0, false_negative: 0, true_negative: 0 };
+
+    scored.forEach((item, i) => {
+      const accepted = this.isAccepted(item, scores[i], threshold);
+      const correct = item.feedback.verdict === 'true_positive';
+
+      if (accepted && correct) counts.true_positive++;
+      else if (accepted) counts.false_positive++;
+      else if (correct) counts.false_negative++;
+      else counts.true_negative++;
+    });
+
+    const precision = this.ratio(counts.true_positive, counts.true_positive + counts.false_positive);
+    const recall = this.ratio(counts.true_positive, counts.true_positive + counts.false_negative);
+
+    return {
+      ...counts,
+      precision: this.round(precision),
+      recall: this.round(recall),
+      f1: this.round(this.fScore(precision, recall, 1)),
+      f_beta: this.round(this.fScore(precision, recall, beta))
+    };
+  }
+
+  /**
+   * All weight vectors over the given algorithms in steps of `step`, summing to 1,
+   * with every algorithm keeping at least `minWeight`
+   */
+  private *weightGrid(algorithms: string[], step: number, minWeight: number): Generator<Record<string, number>> {
+    const units = Math.round(1 / step);
+    const minUnits = Math.max(0, Math.round(minWeight / step));
+
+    function* split(remaining: number, slots: number): Generator<number[]> {
+      if (slots === 1) {
+        if (remaining >= minUnits) yield [remaining];
+        return;
+      }
+      for (let take = minUnits; take <= remaining - minUnits * (slots - 1); take++) {
+        for (const rest of split(remaining - take, slots - 1)) {
+          yield [take, ...rest];
+        }
+      }
+    }
+
+    for (const allocation of split(units, algorithms.length)) {
+      const weights: Record<string, number> = {};
+      algorithms.forEach((algorithm, i) => {
+        weights[algorithm] = this.round(allocation[i] * step);
+      });
+      yield weights;
+    }
+  }
+
+  private thresholdGrid(range: [number, number], step: number): number[] {
+    const thresholds: number[] = [];
+    for (let value = range[0]; value <= range[1] + 1e-9; value += step) {
+      thresholds.push(this.round(value));
+    }
+    return thresholds;
+  }
+
+  /**
+   * L1 distance between two parameter sets (weights plus threshold)
+   */
+  private distance(a: TuningParameters, b: TuningParameters): number {
+    const names = new Set([...Object.keys(a.weights), ...Object.keys(b.weights)]);
+    let total = Math.abs(a.good_similarity - b.good_similarity);
+    names.forEach(name => {
+      total += Math.abs((a.weights[name] || 0) - (b.weights[name] || 0));
+    });
+    return total;
+  }
+
+  private fScore(precision: number, recall: number, beta: number): number {
+    const betaSquared = beta * beta;
+    const denominator = betaSquared * precision + recall;
+    return denominator > 0 ? ((1 + betaSquared) * precision * recall) / denominator : 0;
+  }
+
+  private ratio(numerator: number, denominator: number): number {
+    return denominator > 0 ? numerator / denominator : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Offline weight and threshold tuning from analyst feedback.
+ *
+ * Usage:
+ *   npm run tune -- propose [--feedback <file>] [--since <ISO date>] [--out <file>] [--json]
+ *   npm run tune -- apply <proposal file>
+ *
+ * propose reads feedback from the match_feedback table (or an exported JSON file),
+ * prints a before/after report and writes the proposal to --out.
+ * apply writes an approved proposal into src/config.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { SupabaseService } from '../services/SupabaseService';
+import { WeightOptimizer } from './WeightOptimizer';
+import { MatchFeedback, TuningMetrics, TuningProposal } from '../types/DatasetMatchTypes';
+
+async function loadFeedback(file?: string, since?: string): Promise<MatchFeedback[]> {
+  if (file) {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const feedback: MatchFeedback[] = Array.isArray(parsed) ? parsed : parsed.feedback;
+    if (!Array.isArray(feedback)) {
+      throw new Error(`${file} must contain a feedback array`);
+    }
+    return since ? feedback.filter(item => !item.created_at || item.created_at >= since) : feedback;
+  }
+
+  const result = await SupabaseService.getInstance().getMatchFeedback(since);
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Failed to load feedback');
+  }
+  return result.data || [];
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printMetrics(label: string, metrics: TuningMetrics): void {
+  console.log(`   ${label.padEnd(7)} precision ${percent(metrics.precision)}  recall ${percent(metrics.recall)}  F1 ${percent(metrics.f1)}  F-beta ${percent(metrics.f_beta)}  (TP ${metrics.true_positive}, FP ${metrics.false_positive}, FN ${metrics.false_negative}, TN ${metrics.true_negative})`);
+}
+
+function printProposal(proposal: TuningProposal): void {
+  console.log(`\n🎛️  Tuning proposal ${proposal.id} from ${proposal.feedback_items} feedback items (F-beta, beta=${proposal.f_beta})`);
+  printMetrics('before', proposal.before);
+  printMetrics('after', proposal.after);
+
+  if (!proposal.changes_proposed) {
+    console.log('   No change proposed: no candidate improved F-beta by the configured minimum');
+    return;
+  }
+
+  console.log('   Parameters:');
+  Object.keys(proposal.proposed.weights).forEach(name => {
+    console.log(`     ${name.padEnd(22)} ${proposal.base.weights[name]} → ${proposal.proposed.weights[name]}`);
+  });
+  console.log(`     ${'good_similarity'.padEnd(22)} ${proposal.base.good_similarity} → ${proposal.proposed.good_similarity}`);
+
+  if (proposal.flipped.length > 0) {
+    console.log('   Decisions that change:');
+    proposal.flipped.forEach(change => {
+      const icon = (change.verdict === 'true_positive') === change.accepted_after ? '✅' : '⚠️ ';
+      console.log(`     ${icon} "${change.entity}" → "${change.organization_name}" (${change.verdict}): ${change.accepted_after ? 'now accepted' : 'now rejected'}`);
+    });
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const optimizer = new WeightOptimizer();
+
+  if (command === 'apply') {
+    const file = args[0];
+    if (!file) throw new Error('Usage: tune apply <proposal file>');
+
+    const proposal = JSON.parse(fs.readFileSync(file, 'utf8')) as TuningProposal;
+    const applied = optimizer.applyProposal(proposal);
+    console.log(JSON.stringify(applied, null, 2));
+    console.log('Running services pick up the new configuration after POST /api/dataset-matching/admin/config/reload or a restart');
+    return;
+  }
+
+  if (command !== 'propose') {
+    throw new Error('Usage: tune propose [--feedback <file>] [--since <date>] [--out <file>] [--json] | tune apply <proposal file>');
+  }
+
+  let feedbackFile: string | undefined;
+  let since: string | undefined;
+  let out = path.resolve(`tuning-proposal-${new Date().toISOString().slice(0, 10)}.json`);
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--feedback': feedbackFile = args[++i]; break;
+      case '--since': since = args[++i]; break;
+      case '--out': out = path.resolve(args[++i]); break;
+      case '--json': json = true; break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+
+  const feedback = await loadFeedback(feedbackFile, since);
+  const proposal = optimizer.propose(feedback);
+  fs.writeFileSync(out, JSON.stringify(proposal, null, 2));
+
+  if (json) {
+    console.log(JSON.stringify(proposal, null, 2));
+  } else {
+    printProposal(proposal);
+    console.log(`\n💾 Proposal written to ${out}`);
+    if (proposal.changes_proposed) {
+      console.log(`   Review it, then approve with: npm run tune -- apply ${out}`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ Tuning failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -2,11 +2,86 @@
 export interface DatasetMatch {
   dataset_name: string;
   organization_name: string;
-  match_type: 'exact' | 'alias' | 'alias_partial' | 'fuzzy' | 'partial' | 'core_match' | 'core_acronym' | 'word_match';
+  match_type: 'exact' | 'alias' | 'alias_partial' | 'fuzzy' | 'partial' | 'core_match' | 'core_acronym' | 'word_match' | 'phonetic' | 'semantic' | 'identifier' | 'override';
   category?: string | null;
   confidence_score?: number;
   last_updated?: string;
   quality_metrics?: QualityMetrics;
+  entry_id?: string;
+  countries?: string[];
+  explanation?: MatchExplanation;
+  identifier_hits?: IdentifierHit[];
+  identifier_conflicts?: IdentifierConflict[];
+  entity_type?: EntityType; // Type of the dataset entry, when its schema is known
+  type_mismatch?: boolean; // Entry type differs from the requested entity_type (penalized)
+  birth_date_check?: BirthDateCheck;
+  listing_status?: ListingStatus; // Set for entries found through the in-memory index
+  first_seen?: string | null;
+  last_seen?: string | null;
+  override_id?: string; // Set when an analyst override confirmed this match
+  cluster_id?: string; // Set when the entry is linked to listings of the same entity on other lists
+  listings?: SourceListing[]; // Every listing of the consolidated entity, this match's own first
+  listing_count?: number;
+}
+
+// ==================== Entity Clusters ====================
+
+// One dataset entry of a consolidated entity. Listings that did not match the
+// query themselves are attached because they are linked to one that did
+export interface SourceListing {
+  dataset_name: string;
+  organization_name: string;
+  entry_id: string;
+  matched: boolean;
+  match_type?: DatasetMatch['match_type'];
+  confidence_score?: number;
+  countries?: string[];
+  category?: string | null;
+  listing_status?: ListingStatus;
+  first_seen?: string | null;
+  last_seen?: string | null;
+}
+
+// ==================== Listing Periods ====================
+
+// current: listed in the requested period and still listed; delisted: listed then, removed since;
+// historical: not listed at any point of the requested period
+export type ListingStatus = 'current' | 'historical' | 'delisted';
+
+// A single date or an inclusive date range (YYYY-MM-DD); an open end defaults to today
+export type AsOf = string | { start?: string; end?: string };
+
+// ==================== Entity Types ====================
+
+// Entry kinds distinguished by the matching pipelines (mapped from the imported `schema`)
+export type EntityType = 'person' | 'organization' | 'vessel';
+
+// Requested birth date compared with the entry's: same date, years within tolerance, or neither
+export type BirthDateCheck = 'match' | 'within_tolerance' | 'mismatch';
+
+// ==================== Identifier Matching ====================
+
+export type IdentifierType = 'lei' | 'registration_number' | 'imo' | 'tax_id' | 'website_domain' | 'email_domain';
+
+// Structured identifiers a match request can carry alongside the entity name
+export type EntityIdentifiers = Partial<Record<IdentifierType, string>>;
+
+// An identifier after normalization; 'unknown' marks dataset values whose kind could not be told
+export interface ParsedIdentifier {
+  type: IdentifierType | 'unknown';
+  value: string;
+}
+
+export interface IdentifierHit {
+  type: IdentifierType;
+  value: string;
+}
+
+// The request and the dataset entry both carry this kind of identifier, with different values
+export interface IdentifierConflict {
+  type: IdentifierType;
+  requested: string;
+  found: string[];
 }
 
 export interface QualityMetrics {
@@ -28,11 +103,28 @@ export interface SingleMatchRequest {
   searchRadius?: 'local' | 'regional' | 'global';
   prioritizeLocal?: boolean;
   maxResults?: number;
+  explain?: boolean;
+  identifiers?: EntityIdentifiers;
+  entity_type?: EntityType;
+  birth_date?: string; // YYYY, YYYY-MM or YYYY-MM-DD; persons only
+  as_of?: AsOf;
+  include_historical?: boolean; // Return entries not listed during as_of, flagged 'historical'
+  organization_id?: string; // Applies this organization's analyst overrides on top of the global ones
+  consolidate?: boolean; // Merge listings of the same entity into one match (default from clustering config)
+  pipeline?: string; // Matching pipeline to run; defaults to the organization's, then the configured default
 }
 
 export interface BatchMatchRequest {
   entities: string[];
+  identifiers?: Record<string, EntityIdentifiers>; // Keyed by entity name
+  birth_dates?: Record<string, string>; // Keyed by entity name; persons only
   options?: {
+    entity_type?: EntityType;
+    as_of?: AsOf;
+    include_historical?: boolean;
+    organization_id?: string;
+    consolidate?: boolean;
+    pipeline?: string;
     matchTypes?: string[];
     minConfidence?: number;
     forceRefresh?: boolean;
@@ -41,6 +133,7 @@ export interface BatchMatchRequest {
     searchRadius?: 'local' | 'regional' | 'global';
     prioritizeLocal?: boolean;
     maxResults?: number;
+    explain?: boolean;
   };
 }
 
@@ -53,6 +146,9 @@ export interface MatchResponse {
     processing_time_ms: number;
     cache_hit: boolean;
     search_entity: string;
+    config_version?: string;
+    explain?: EntityMatchReport;
+    overrides_applied?: AppliedOverride[];
   };
 }
 
@@ -66,7 +162,155 @@ export interface BatchMatchResponse {
     processing_time_ms: number;
     cache_hits: number;
     failed_entities: string[];
+    config_version?: string;
+    explain?: Record<string, EntityMatchReport>;
+    overrides_applied?: Record<string, AppliedOverride[]>; // Keyed by entity; entities without overrides are omitted
+  };
+}
+
+// ==================== Explainable Match Reports ====================
+
+export interface NormalizationStep {
+  step: string;
+  result: string;
+}
+
+export interface MatchExplanation {
+  matched_name: string;
+  matched_alias: string | null; // Set when the best-scoring name was an alias
+  summary: string;
+  components: Record<string, number>; // Per-algorithm similarity scores
+  boosts: {
+    geographic?: number;
+    organization_type?: number;
+    acronym?: number;
+    affiliated?: number;
+    geographic_ranking?: number;
+  };
+  // Relationship behind geographic_ranking; matched_places are entry addresses in the searched city or province
+  geography?: {
+    relationship: 'same_city' | 'same_province' | 'same_country' | 'same_region' | 'different_region' | 'unknown';
+    matched_places: string[];
   };
+  normalization: NormalizationStep[]; // Steps applied to the matched name
+}
+
+export interface DismissedCandidate {
+  organization_name: string;
+  dataset_name: string;
+  match_type: DatasetMatch['match_type'];
+  confidence_score: number;
+  reasons: string[];
+}
+
+export interface EntityMatchReport {
+  entity: string;
+  normalization: NormalizationStep[];
+  dismissed: DismissedCandidate[];
+  dismissed_total: number;
+  skipped_reason?: string;
+  pipeline?: PipelineTrace;
+}
+
+// ==================== Matching Pipelines ====================
+
+// One step of a pipeline: a registered strategy, its timeout and when to stop afterwards
+export interface PipelineStage {
+  strategy: string;
+  timeout?: string; // Key of query.timeouts; defaults to the strategy's own
+  stop_when?: {
+    min_matches?: number; // Stop once this many matches were found by the stages so far
+    min_confidence?: number; // Stop once any match so far reaches this confidence
+  };
+}
+
+export interface MatchingPipelineDefinition {
+  description?: string;
+  stages: PipelineStage[];
+  min_similarity?: number; // Replaces similarity.thresholds.good_similarity for this pipeline
+  max_cost?: number; // Stages that would take the summed strategy cost beyond this are skipped
+}
+
+export interface PipelineStageRun {
+  strategy: string;
+  matches: number;
+  duration_ms: number;
+  timed_out?: boolean;
+  skipped_reason?: string;
+  error?: string;
+}
+
+// What a pipeline run did, reported in explain
+export interface PipelineTrace {
+  pipeline: string;
+  stages: PipelineStageRun[];
+  stopped_after?: string; // Stage whose stop condition ended the run early
+}
+
+// ==================== Analyst Feedback & Tuning ====================
+
+export type FeedbackVerdict = 'true_positive' | 'false_positive';
+
+export interface MatchFeedbackRequest {
+  entity: string;
+  location?: string;
+  context?: string;
+  match: Pick<DatasetMatch, 'dataset_name' | 'organization_name' | 'match_type'> &
+    Partial<Pick<DatasetMatch, 'confidence_score' | 'entry_id' | 'explanation'>>;
+  verdict: FeedbackVerdict;
+  notes?: string;
+}
+
+export interface MatchFeedback {
+  id?: string;
+  entity: string;
+  location: string | null;
+  context: string | null;
+  dataset_name: string;
+  organization_name: string;
+  matched_name: string | null; // Alias the match was made on, when known
+  entry_id: string | null;
+  match_type: DatasetMatch['match_type'];
+  confidence_score: number | null;
+  verdict: FeedbackVerdict;
+  analyst: string | null;
+  notes: string | null;
+  created_at?: string;
+}
+
+export interface TuningParameters {
+  weights: Record<string, number>; // Keyed by similarity-weights.json algorithm name
+  good_similarity: number;
+}
+
+export interface TuningMetrics {
+  true_positive: number;
+  false_positive: number;
+  false_negative: number;
+  true_negative: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  f_beta: number;
+}
+
+export interface TuningProposal {
+  id: string;
+  created_at: string;
+  feedback_items: number;
+  f_beta: number;
+  base: TuningParameters;
+  proposed: TuningParameters;
+  before: TuningMetrics;
+  after: TuningMetrics;
+  changes_proposed: boolean;
+  flipped: Array<{
+    entity: string;
+    organization_name: string;
+    verdict: FeedbackVerdict;
+    accepted_before: boolean;
+    accepted_after: boolean;
+  }>;
 }
 
 // ==================== Enhanced Integration Types ====================
@@ -96,6 +340,9 @@ export interface AffiliatedMatchRequest {
     prioritizeLocal?: boolean;
     maxResults?: number;
     affiliatedBoost?: number; // Default: 1.15
+    as_of?: AsOf;
+    include_historical?: boolean;
+    organization_id?: string;
   };
 }
 
@@ -128,6 +375,7 @@ export interface AffiliatedMatchResponse {
     cache_hits: number;
     affiliated_boost_applied: number;
     algorithm_version: string;
+    config_version?: string;
   };
 }
 
@@ -149,6 +397,326 @@ export interface BatchAffiliatedRequest {
     prioritizeLocal?: boolean;
     maxResults?: number;
     affiliatedBoost?: number;
+    as_of?: AsOf;
+    include_historical?: boolean;
+    organization_id?: string;
+  };
+}
+
+// ==================== Streaming Batches ====================
+
+export type BatchStreamKind = 'match' | 'affiliated';
+
+export type BatchStreamStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface BatchStreamResult<T = any> {
+  seq: number; // Event id, in completion order
+  index: number; // Position of the entity in the submitted batch
+  entity: string;
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface BatchStreamProgress {
+  batch_id: string;
+  processed: number;
+  total: number;
+  failed: number;
+  percent: number;
+  elapsed_ms: number;
+}
+
+export interface BatchStreamSummary extends BatchStreamProgress {
+  kind: BatchStreamKind;
+  status: BatchStreamStatus;
+  total_matches: number;
+  failed_entities: string[];
+  config_version: string;
+}
+
+// ==================== Asynchronous Match Jobs ====================
+
+export type MatchJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CreateMatchJobRequest {
+  name?: string;
+  entities?: string[];
+  csv?: string; // Contents of an uploaded CSV file with a header row
+  column?: string; // CSV column holding entity names (default: entity, name, organization_name or company, else the first column)
+  options?: BatchMatchRequest['options'];
+}
+
+export interface MatchJob {
+  id: string;
+  name: string | null;
+  status: MatchJobStatus;
+  total: number;
+  processed: number;
+  failed: number;
+  total_matches: number;
+  options: NonNullable<BatchMatchRequest['options']>;
+  error: string | null;
+  config_version: string;
+  created_by: string | null; // Authenticated analyst (req.actor); only they can read or cancel the job
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface MatchJobResult {
+  index: number; // Position of the entity in the submitted list
+  entity: string;
+  success: boolean;
+  matches: DatasetMatch[];
+  error?: string;
+}
+
+// ==================== Spreadsheet Screening ====================
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Header names of the columns to screen; country and identifiers are optional
+export interface SpreadsheetColumnMapping {
+  name: string;
+  country?: string;
+  identifiers?: Partial<Record<IdentifierType, string>>;
+}
+
+export interface SpreadsheetUploadRequest {
+  file: string; // CSV text, or the .xlsx file base64 encoded
+  format?: SpreadsheetFormat; // Detected from filename or content when omitted
+  filename?: string;
+  sheet?: string; // Worksheet to read (default: the first one)
+}
+
+export interface SpreadsheetScreeningRequest extends SpreadsheetUploadRequest {
+  columns?: SpreadsheetColumnMapping; // Detected from the header row when omitted
+  output?: SpreadsheetFormat | 'json'; // Default: the upload's format
+  options?: BatchMatchRequest['options'];
+}
+
+export interface SpreadsheetColumnDetection {
+  format: SpreadsheetFormat;
+  sheet: string | null;
+  sheets: string[];
+  header_row: number;
+  headers: string[];
+  columns: SpreadsheetColumnMapping | null; // null when no name column could be found
+  confidence: 'high' | 'medium' | 'low';
+  data_rows: number;
+  sample: string[][];
+}
+
+export interface SpreadsheetScreeningSummary {
+  format: SpreadsheetFormat;
+  sheet: string | null;
+  columns: SpreadsheetColumnMapping;
+  rows: number;
+  screened: number; // Rows with a name; the rest are passed through unannotated
+  matched: number;
+  config_version: string;
+}
+
+export interface SpreadsheetScreeningResult {
+  summary: SpreadsheetScreeningSummary;
+  headers: string[]; // Original headers followed by the appended match columns
+  rows: Array<{ row: number; cells: Array<string | number | null> }>;
+  file?: { format: SpreadsheetFormat; filename: string; content: Buffer };
+}
+
+// ==================== Watchlists & Change Alerts ====================
+
+export type WatchlistAlertChange = 'new' | 'removed' | 'changed';
+
+// What started a screening run: a version change seen by the poller, an import
+// notification from data-management, or an explicit API call
+export type WatchlistScreeningTrigger = 'created' | 'datasets_version' | 'import' | 'manual';
+
+export interface CreateWatchlistRequest {
+  name: string;
+  entities: string[];
+  webhook_url?: string;
+  options?: BatchMatchRequest['options'];
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  webhook_url: string | null;
+  options: NonNullable<BatchMatchRequest['options']>;
+  created_by: string | null; // Authenticated analyst (req.actor)
+  entity_count: number;
+  datasets_version: string | null; // Datasets version the stored match sets were screened against
+  last_screened_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatchlistEntity {
+  entity: string;
+  matches: DatasetMatch[]; // Match set from the last successful screening
+  screened_at: string | null; // null until the baseline screening has run
+}
+
+export interface WatchlistAlert {
+  id: string;
+  watchlist_id: string;
+  entity: string;
+  change: WatchlistAlertChange;
+  match: DatasetMatch; // Current match; the dropped one for 'removed'
+  previous?: DatasetMatch; // Match before the change, for 'changed'
+  changed_fields?: string[];
+  trigger: WatchlistScreeningTrigger;
+  datasets_version: string | null;
+  previous_datasets_version: string | null;
+  created_at: string;
+}
+
+export interface WatchlistScreeningSummary {
+  watchlist_id: string;
+  trigger: WatchlistScreeningTrigger;
+  datasets_version: string | null;
+  previous_datasets_version: string | null;
+  screened: number;
+  failed: number;
+  alerts: Record<WatchlistAlertChange, number>;
+  screened_at: string;
+}
+
+// ==================== Analyst Overrides ====================
+
+// suppress: the query never matches the entry; confirm: the query always matches it
+export type MatchOverrideAction = 'suppress' | 'confirm';
+
+export interface CreateMatchOverrideRequest {
+  query: string; // Entity name as screened; compared after normalization
+  action: MatchOverrideAction;
+  entry_id?: string; // Target entry; dataset_name + organization_name are filled in from the index
+  dataset_name?: string; // Required without entry_id
+  organization_name?: string; // Required without entry_id
+  organization_id?: string; // Scope; omitted applies to every organization
+  reason: string;
+  expires_at?: string; // ISO date or timestamp
+}
+
+export interface UpdateMatchOverrideRequest {
+  reason?: string;
+  expires_at?: string | null;
+}
+
+export interface MatchOverride {
+  id: string;
+  query: string;
+  action: MatchOverrideAction;
+  entry_id: string | null;
+  dataset_name: string;
+  organization_name: string;
+  organization_id: string | null;
+  reason: string;
+  created_by: string | null; // Authenticated analyst (req.actor)
+  updated_by: string | null;
+  expires_at: string | null;
+  revoked_at: string | null; // Overrides are revoked rather than deleted so the audit trail stays complete
+  created_at: string;
+  updated_at: string;
+}
+
+// An override that changed a response, reported in its metadata
+export interface AppliedOverride {
+  override_id: string;
+  action: MatchOverrideAction;
+  dataset_name: string;
+  organization_name: string;
+  organization_id: string | null;
+  reason: string;
+}
+
+// ==================== Ownership Graph Screening ====================
+
+// Role of `target` relative to `source`: "B is the parent of A" is { source: A, target: B, relationship: 'parent' }
+export type OwnershipRelationship = 'parent' | 'subsidiary' | 'shareholder';
+
+export interface OwnershipEdge {
+  source: string;
+  target: string;
+  relationship: OwnershipRelationship;
+  ownership_percentage?: number | null; // 0-100, stake held by the owning side
+}
+
+// Shape of entity-search's company.corporate_structure
+export interface CorporateStructure {
+  parent_company?: string;
+  subsidiaries?: string[];
+  company_type?: string;
+}
+
+export interface OwnershipScreeningRequest {
+  entity: string;
+  edges?: OwnershipEdge[];
+  corporate_structure?: CorporateStructure;
+  edges_csv?: string; // Contents of an uploaded source,target,relationship,ownership_percentage file
+  location?: string;
+  context?: string;
+  options?: {
+    maxHops?: number;
+    minConfidence?: number;
+    forceRefresh?: boolean;
+    searchRadius?: 'local' | 'regional' | 'global';
+    prioritizeLocal?: boolean;
+    maxResults?: number;
+  };
+}
+
+export interface OwnershipPathStep {
+  from: string;
+  to: string;
+  relationship: OwnershipRelationship; // Role of `to` relative to `from`
+  ownership_percentage: number | null;
+  direction: 'up' | 'down'; // up: towards owners, down: towards holdings
+}
+
+export interface OwnershipNodeResult {
+  entity: string;
+  hops: number;
+  path: OwnershipPathStep[]; // Shortest path from the screened entity
+  effective_ownership: number | null; // Compounded stake along a one-directional path, null when unknown or mixed
+  matches: DatasetMatch[];
+  listed: boolean; // Top match meets ownership.listed_min_confidence
+  blocked_by_ownership: boolean; // Not listed itself, but >= threshold owned by listed or blocked owners
+  aggregate_listed_ownership: number; // Percent held by listed or blocked owners
+}
+
+export interface OwnershipExposure {
+  score: number; // 0-1, aggregate listed ownership of the screened entity
+  aggregate_listed_ownership: number;
+  threshold: number;
+  blocked: boolean; // Listed itself, or owned at or above the threshold by listed or blocked owners
+  contributors: Array<{
+    entity: string;
+    ownership_percentage: number;
+    assumed_percentage: boolean; // Stake was not supplied and ownership.assumed_parent_percentage was used
+    reason: 'listed' | 'blocked_by_ownership';
+  }>;
+  listed_holdings: Array<{ // Listed subsidiaries and investees below the screened entity
+    entity: string;
+    hops: number;
+    effective_ownership: number | null;
+  }>;
+}
+
+export interface OwnershipScreeningResult {
+  entity: string;
+  root: OwnershipNodeResult;
+  related: OwnershipNodeResult[];
+  exposure: OwnershipExposure;
+  summary: {
+    total_nodes: number; // Nodes in the supplied graph
+    screened_nodes: number; // Nodes within max_hops that were matched against datasets
+    matched_nodes: number;
+    max_hops: number;
+    truncated: boolean; // ownership.max_nodes was reached
   };
 }
 
@@ -158,7 +726,15 @@ export interface DatasetEntry {
   dataset_id: string;
   organization_name: string;
   aliases?: string[];
+  countries?: string[];
   category?: string | null;
+  identifiers?: string | null; // Free text as imported, e.g. "LEI: 5493…; 91110000…"
+  emails?: string | null;
+  addresses?: string | null; // Free text as imported, several addresses separated by ";"
+  schema_type?: string | null; // OpenSanctions schema: Person, Organization, Company, Vessel…
+  birth_date?: string | null; // Free text, may list several dates
+  first_seen?: string | null; // Listing period as imported; last_seen stops moving once delisted
+  last_seen?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -172,6 +748,37 @@ export interface Dataset {
   updated_at: string;
 }
 
+// Read-only access to active dataset entries, implemented by SupabaseService
+// and by any local stand-in used to build the in-memory index
+export interface DatasetEntrySource {
+  getDatasetsVersion(): Promise<ServiceResponse<string>>;
+  getActiveDatasets(): Promise<ServiceResponse<Dataset[]>>;
+  getDatasetSignature(datasetId: string): Promise<ServiceResponse<string>>;
+  getIndexableEntries(datasetId: string): Promise<ServiceResponse<DatasetEntry[]>>;
+}
+
+// In-memory index types
+export interface IndexCandidate {
+  entry: DatasetEntry;
+  dataset: Dataset;
+  names: string[];
+  index_score: number;
+  identifiers: ParsedIdentifier[];
+}
+
+export interface DatasetIndexStats {
+  datasets: number;
+  entries: number;
+  tokens: number;
+  ngrams: number;
+  phonetic_keys: number;
+  semantic_vectors: number; // Entries with name embeddings (0 unless semantic matching is enabled)
+  clusters: number; // Entities listed more than once across datasets
+  version: string | null;
+  last_refresh: string | null;
+  last_refresh_ms: number;
+}
+
 // Internal Processing Types
 export interface NormalizedEntity {
   original: string;
@@ -247,6 +854,7 @@ export interface ServiceResponse<T> {
     processing_time_ms: number;
     cache_used: boolean;
     algorithm_version: string;
+    config_version?: string; // Hash of the configuration that produced the result
     matches_found?: number;
     geographic_boost_applied?: boolean;
     early_termination_applied?: boolean;
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('ConfigManager history', () => {
+  const originalWeights = fs.readFileSync(path.join(__dirname, '../config/similarity-weights.json'), 'utf8');
+  let configDir: string;
+  let historyDir: string;
+  let ConfigManager: typeof import('./ConfigManager').ConfigManager;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-history-'));
+    process.env.CONFIG_DIR = configDir;
+    process.env.CONFIG_HISTORY_DIR = historyDir;
+    process.env.SIMILARITY_ENV_ONLY = 'from-environment';
+    jest.isolateModules(() => {
+      ({ ConfigManager } = require('./ConfigManager'));
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+    fs.rmSync(historyDir, { recursive: true, force: true });
+    delete process.env.CONFIG_DIR;
+    delete process.env.CONFIG_HISTORY_DIR;
+    delete process.env.SIMILARITY_ENV_ONLY;
+  });
+
+  it('writes nothing when configuration is only read', () => {
+    const configManager = ConfigManager.getInstance();
+    const configVersion = configManager.getConfigVersion();
+
+    expect(configManager.getConfig('similarity').env_only).toBe('from-environment');
+    expect(configManager.getConfigVersionDetails(configVersion)?.action).toBe('load');
+    expect(fs.readdirSync(configDir)).toEqual([]);
+    expect(fs.readdirSync(historyDir)).toEqual([]);
+  });
+
+  it('records an update with the replaced files and rolls back to their content', () => {
+    const configManager = ConfigManager.getInstance();
+    const original = configManager.getConfigVersions().similarity;
+    const weights = JSON.parse(originalWeights);
+
+    const updated = configManager.replaceConfig('similarity', {
+      ...weights,
+      algorithms: { ...weights.algorithms, jaro_winkler: { ...weights.algorithms.jaro_winkler, prefix_scale: 0.12 } }
+    });
+    expect(configManager.getConfigHistory('similarity').map(entry => [entry.version, entry.action])).toEqual([
+      [updated, 'update'],
+      [original, 'load']
+    ]);
+
+    // The snapshot is the file as it was, without environment overrides
+    expect(configManager.getConfigSnapshot('similarity', original)).toEqual(weights);
+
+    expect(configManager.rollbackConfig('similarity')).toBe(original);
+    expect(JSON.parse(fs.readFileSync(path.join(configDir, 'similarity-weights.json'), 'utf8'))).toEqual(weights);
+    expect(configManager.getConfigHistory('similarity')[0].action).toBe('rollback');
+  });
+});
@@ -1,5 +1,44 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import { ConfigType, ConfigValidator } from './ConfigValidator';
+import { ValidationError } from './ErrorHandler';
+import { MatchingPipelineDefinition } from '../types/DatasetMatchTypes';
+
+const CONFIG_FILENAMES: Record<ConfigType, string> = {
+  matching: 'matching-config.json',
+  country: 'country-mappings.json',
+  similarity: 'similarity-weights.json'
+};
+
+export type ConfigAction = 'load' | 'update' | 'rollback' | 'tuning';
+
+export interface ConfigActivation {
+  config_version: string;
+  versions: Record<ConfigType, string>;
+  action: ConfigAction;
+  activated_at: string;
+}
+
+// algorithms.semantic of similarity-weights.json; a weight of 0 disables semantic matching
+export interface SemanticConfig {
+  weight: number;
+  model: string;
+  dimensions: number;
+  ngram_size: number;
+  token_weight: number;
+  ngram_weight: number;
+  match_threshold: number;
+  confidence_factor: number;
+  synonyms: Record<string, string>;
+  stop_words: string[];
+  ann: {
+    tables: number;
+    hash_bits: number;
+    min_similarity: number;
+    max_neighbours: number;
+  };
+}
 
 interface MatchingConfig {
   similarity: {
@@ -18,6 +57,7 @@ interface MatchingConfig {
     location_boost_factor: number;
     location_penalty_factor: number;
     enable_regional_grouping: boolean;
+    enable_subnational: boolean; // Compare cities and provinces parsed from addresses (gazetteer)
   };
   query: {
     strategies: Record<string, number>;
@@ -25,6 +65,14 @@ interface MatchingConfig {
     enable_progressive_search: boolean;
     minimum_results_before_next_strategy: number;
   };
+  index: {
+    enable_in_memory_index: boolean;
+    ngram_size: number;
+    max_candidates: number;
+    min_candidate_score: number;
+    max_posting_ratio: number;
+    version_check_interval_ms: number;
+  };
   cache: {
     enable_caching: boolean;
     default_ttl_minutes: number;
@@ -40,6 +88,85 @@ interface MatchingConfig {
     log_similarity_scores: boolean;
     max_debug_results: number;
   };
+  tuning: {
+    min_feedback_items: number;
+    min_items_per_verdict: number;
+    weight_step: number;
+    min_weight: number;
+    threshold_range: [number, number];
+    threshold_step: number;
+    f_beta: number;
+    min_improvement: number;
+  };
+  ownership: {
+    default_max_hops: number;
+    max_hops_limit: number;
+    max_nodes: number;
+    listed_min_confidence: number;
+    exposure_threshold: number;
+    assumed_parent_percentage: number;
+  };
+  streaming: {
+    max_entities: number;
+    progress_every: number;
+    progress_interval_ms: number;
+    heartbeat_interval_ms: number;
+    batch_ttl_minutes: number;
+    max_stored_batches: number;
+  };
+  jobs: {
+    max_entities: number;
+    max_concurrent_jobs: number;
+    default_page_size: number;
+    max_page_size: number;
+    flush_every: number;
+    retention_days: number;
+  };
+  watchlists: {
+    max_watchlists: number;
+    max_entities: number;
+    poll_interval_ms: number;
+    screening_chunk_size: number;
+    confidence_change_threshold: number;
+    default_page_size: number;
+    max_page_size: number;
+    webhook_timeout_ms: number;
+    webhook_retry_attempts: number;
+  };
+  spreadsheets: {
+    max_rows: number; // Data rows accepted per uploaded spreadsheet
+    batch_size: number; // Names per batch matcher call
+    sample_rows: number; // Rows returned by column detection
+  };
+  identifiers: {
+    conflict_penalty: number; // Confidence multiplier for name matches contradicted by an identifier
+    domain_boost: number; // Added when a website or email domain corroborates a name match
+  };
+  entity_types: {
+    type_mismatch_action: 'filter' | 'penalize'; // When an entry's type differs from the requested entity_type
+    type_mismatch_penalty: number;
+    person: {
+      min_similarity: number;
+      initial_score: number;
+      missing_token_penalty: number;
+      birth_year_tolerance: number;
+      birth_date_match_boost: number;
+      birth_date_mismatch_penalty: number;
+    };
+  };
+  listing: {
+    delisted_grace_days: number; // How far last_seen may lag the dataset's latest import before an entry counts as delisted
+  };
+  clustering: {
+    consolidate_matches: boolean; // Return listings of the same entity on several lists as one match
+    max_cluster_size: number; // Links that would make an entity larger than this are skipped
+    min_name_length: number; // Shorter normalized names never link entries on their own
+  };
+  pipelines: {
+    default_pipeline: string;
+    organizations: Record<string, string>; // organization_id → pipeline used when a request names none
+    definitions: Record<string, MatchingPipelineDefinition>;
+  };
 }
 
 interface CountryMappings {
@@ -92,6 +219,12 @@ interface SimilarityWeights {
       organization_suffixes: string[];
       weight_reduction: number;
     };
+    transliteration: {
+      enable: boolean;
+      romanization_variants: Record<string, string>;
+      english_to_pinyin: Record<string, string>;
+      description?: string;
+    };
   };
   quality_filters: {
     minimum_word_overlap: number;
@@ -124,10 +257,17 @@ export class ConfigManager {
   private matchingConfig: MatchingConfig | null = null;
   private countryMappings: CountryMappings | null = null;
   private similarityWeights: SimilarityWeights | null = null;
-  private configDir: string;
+  private bundledConfigDir: string; // Configuration shipped with the build, read when configDir has no copy
+  private configDir: string; // Where configuration changes are written
+  private historyDir: string;
+  private configOverrides: Record<string, string> = {};
+  private versions: Partial<Record<ConfigType, string>> = {};
+  private loadedAt: string = new Date().toISOString(); // When a configuration file was last read
 
   private constructor() {
-    this.configDir = path.join(__dirname, '../config');
+    this.bundledConfigDir = path.join(__dirname, '../config');
+    this.configDir = process.env.CONFIG_DIR || path.join(process.cwd(), 'data', 'config');
+    this.historyDir = process.env.CONFIG_HISTORY_DIR || path.join(process.cwd(), 'data', 'config-history');
   }
 
   public static getInstance(): ConfigManager {
@@ -141,12 +281,13 @@ export class ConfigManager {
    * Load configuration from files with environment variable overrides
    */
   private loadConfig<T>(filename: string, envPrefix?: string): T {
-    const configPath = path.join(this.configDir, filename);
+    const configPath = this.getConfigPath(this.getConfigType(filename));
+    this.loadedAt = new Date().toISOString();
 
     if (!fs.existsSync(configPath)) {
       console.warn(`⚠️  Warning: Configuration file not found: ${configPath}`);
       console.warn(`   Using default configuration for ${filename}`);
-      console.warn(`   Please check your deployment - config files should be in: ${this.configDir}`);
+      console.warn(`   Please check your deployment - config files should be in: ${this.bundledConfigDir}`);
 
       // Return default configuration instead of throwing error
       return this.getDefaultConfig<T>(filename);
@@ -189,6 +330,7 @@ export class ConfigManager {
   public getMatchingConfig(): MatchingConfig {
     if (!this.matchingConfig) {
       this.matchingConfig = this.loadConfig<MatchingConfig>('matching-config.json', 'MATCHING_');
+      this.versions.matching = this.hashConfig(this.matchingConfig);
     }
     return this.matchingConfig;
   }
@@ -199,6 +341,7 @@ export class ConfigManager {
   public getCountryMappings(): CountryMappings {
     if (!this.countryMappings) {
       this.countryMappings = this.loadConfig<CountryMappings>('country-mappings.json', 'COUNTRY_');
+      this.versions.country = this.hashConfig(this.countryMappings);
     }
     return this.countryMappings;
   }
@@ -209,6 +352,7 @@ export class ConfigManager {
   public getSimilarityWeights(): SimilarityWeights {
     if (!this.similarityWeights) {
       this.similarityWeights = this.loadConfig<SimilarityWeights>('similarity-weights.json', 'SIMILARITY_');
+      this.versions.similarity = this.hashConfig(this.similarityWeights);
     }
     return this.similarityWeights;
   }
@@ -228,26 +372,269 @@ export class ConfigManager {
   }
 
   /**
-   * Get specific configuration value with path notation
+   * Load one or more configuration files from alternate paths, keyed by file name
+   * (e.g. { 'similarity-weights.json': '/tmp/candidate-weights.json' }).
+   * Used by the evaluation harness to compare configurations side by side.
    */
-  public getConfigValue(configType: 'matching' | 'country' | 'similarity', path: string, defaultValue?: any): any {
-    const pathParts = path.split('.');
-    let config: any;
+  public setConfigOverrides(overrides: Record<string, string>): void {
+    Object.keys(overrides).forEach(filename => this.getConfigType(filename));
+
+    this.configOverrides = { ...overrides };
+    this.reloadConfigurations();
+  }
+
+  /**
+   * Go back to the configuration files in the config directory
+   */
+  public clearConfigOverrides(): void {
+    this.configOverrides = {};
+    this.reloadConfigurations();
+  }
+
+  /**
+   * Rewrite a configuration file in place and reload. The raw file is edited,
+   * so environment overrides are never persisted.
+   */
+  public updateConfigFile(filename: string, update: (config: any) => void): void {
+    const type = this.getConfigType(filename);
+    const config = JSON.parse(fs.readFileSync(this.getConfigPath(type), 'utf8'));
+
+    update(config);
+
+    this.writeConfig(type, config, 'tuning');
+  }
+
+  // ==================== Versioning & History ====================
+
+  /**
+   * Version hash of the active configuration set, stamped into response metadata
+   * so a result can be traced back to the configuration that produced it
+   */
+  public getConfigVersion(): string {
+    return this.combineVersions(this.getConfigVersions());
+  }
+
+  /**
+   * Version hash of each configuration file
+   */
+  public getConfigVersions(): Record<ConfigType, string> {
+    this.getMatchingConfig();
+    this.getCountryMappings();
+    this.getSimilarityWeights();
+
+    return {
+      matching: this.versions.matching!,
+      country: this.versions.country!,
+      similarity: this.versions.similarity!
+    };
+  }
 
-    switch (configType) {
+  /**
+   * Active configuration of the given type
+   */
+  public getConfig(type: ConfigType): any {
+    switch (type) {
       case 'matching':
-        config = this.getMatchingConfig();
-        break;
+        return this.getMatchingConfig();
       case 'country':
-        config = this.getCountryMappings();
-        break;
+        return this.getCountryMappings();
       case 'similarity':
-        config = this.getSimilarityWeights();
-        break;
+        return this.getSimilarityWeights();
       default:
-        throw new Error(`Unknown configuration type: ${configType}`);
+        throw new Error(`Unknown configuration type: ${type}`);
+    }
+  }
+
+  /**
+   * Validate and persist a complete configuration, then hot-reload it.
+   * Returns the new configuration version.
+   */
+  public replaceConfig(type: ConfigType, config: any, action: ConfigAction = 'update'): string {
+    return this.writeConfig(type, config, action);
+  }
+
+  /**
+   * Restore a previously active configuration. Without a version, the configuration
+   * that was active before the current one is restored.
+   */
+  public rollbackConfig(type: ConfigType, version?: string): string {
+    const current = this.getConfigVersions()[type];
+    let target = version;
+
+    if (!target) {
+      const previous = this.getConfigHistory(type).find(entry => entry.version !== current);
+      if (!previous) {
+        throw new Error(`No previous ${type} configuration to roll back to`);
+      }
+      target = previous.version;
+    }
+
+    const snapshot = this.getConfigSnapshot(type, target);
+    if (!snapshot) {
+      throw new Error(`Unknown ${type} configuration version: ${target}`);
+    }
+
+    return this.writeConfig(type, snapshot, 'rollback');
+  }
+
+  /**
+   * Activations of one configuration type, most recent first, with consecutive
+   * duplicates collapsed
+   */
+  public getConfigHistory(type: ConfigType): Array<{ version: string; config_version: string; action: ConfigAction; activated_at: string }> {
+    const history: Array<{ version: string; config_version: string; action: ConfigAction; activated_at: string }> = [];
+
+    for (const activation of this.readActivations()) {
+      const version = activation.versions[type];
+      if (history.length > 0 && history[history.length - 1].version === version) continue;
+      history.push({ version, config_version: activation.config_version, action: activation.action, activated_at: activation.activated_at });
+    }
+
+    return history.reverse();
+  }
+
+  /**
+   * File content of a configuration version, without environment overrides,
+   * or null when it was never recorded
+   */
+  public getConfigSnapshot(type: ConfigType, version: string): any | null {
+    if (!/^[a-f0-9]+$/.test(version)) return null;
+    if (version === this.getConfigVersions()[type]) {
+      return JSON.parse(this.readRawConfig(type));
+    }
+
+    const snapshotPath = path.join(this.historyDir, type, `${version}.json`);
+    return fs.existsSync(snapshotPath) ? JSON.parse(fs.readFileSync(snapshotPath, 'utf8')) : null;
+  }
+
+  /**
+   * File versions behind a combined config_version, or null when it was never recorded
+   */
+  public getConfigVersionDetails(configVersion: string): ConfigActivation | null {
+    const recorded = this.readActivations().find(activation => activation.config_version === configVersion);
+    if (recorded) return recorded;
+
+    // The active set is known even before its first change is recorded
+    const versions = this.getConfigVersions();
+    return configVersion === this.combineVersions(versions)
+      ? { config_version: configVersion, versions, action: 'load', activated_at: this.loadedAt }
+      : null;
+  }
+
+  private writeConfig(type: ConfigType, config: any, action: ConfigAction): string {
+    const errors = ConfigValidator.validate(type, config);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid ${type} configuration: ${errors.join('; ')}`);
+    }
+
+    // The set being replaced is recorded first, so it can be rolled back to even
+    // when it was loaded from disk rather than activated through this API
+    const previous = this.getConfigVersions();
+    if (this.readActivations().pop()?.config_version !== this.combineVersions(previous)) {
+      this.recordActivation(previous, 'load', this.loadedAt);
+    }
+
+    const configPath = this.configOverrides[CONFIG_FILENAMES[type]] || path.join(this.configDir, CONFIG_FILENAMES[type]);
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    this.reloadConfigurations();
+
+    const versions = this.getConfigVersions();
+    this.recordActivation(versions, action, new Date().toISOString());
+
+    console.log(`🔧 ${type} configuration ${action}: version ${versions[type]}`);
+    return versions[type];
+  }
+
+  /**
+   * Snapshot the configuration files as they are on disk and append to the
+   * activation log. Snapshots hold the file content, so environment overrides
+   * are never written back by a rollback. Only explicit changes (updates,
+   * rollbacks, tuning) are recorded, and nothing while evaluation overrides
+   * are active.
+   */
+  private recordActivation(versions: Record<ConfigType, string>, action: ConfigAction, activatedAt: string): void {
+    if (Object.keys(this.configOverrides).length > 0) return;
+
+    try {
+      for (const type of Object.keys(CONFIG_FILENAMES) as ConfigType[]) {
+        const snapshotPath = path.join(this.historyDir, type, `${versions[type]}.json`);
+        if (!fs.existsSync(snapshotPath)) {
+          fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+          fs.writeFileSync(snapshotPath, this.readRawConfig(type));
+        }
+      }
+
+      const activation: ConfigActivation = {
+        config_version: this.combineVersions(versions),
+        versions,
+        action,
+        activated_at: activatedAt
+      };
+      fs.appendFileSync(path.join(this.historyDir, 'activations.jsonl'), `${JSON.stringify(activation)}\n`);
+    } catch (error) {
+      console.warn(`⚠️  Failed to record configuration history in ${this.historyDir}:`, error);
+    }
+  }
+
+  /**
+   * Configuration file content; the built-in defaults when the file is missing
+   */
+  private readRawConfig(type: ConfigType): string {
+    const configPath = this.getConfigPath(type);
+    return fs.existsSync(configPath)
+      ? fs.readFileSync(configPath, 'utf8')
+      : JSON.stringify(this.getDefaultConfig(CONFIG_FILENAMES[type]), null, 2);
+  }
+
+  private combineVersions(versions: Record<ConfigType, string>): string {
+    return this.hashConfig(`${versions.matching}:${versions.country}:${versions.similarity}`);
+  }
+
+  private readActivations(): ConfigActivation[] {
+    const logPath = path.join(this.historyDir, 'activations.jsonl');
+    if (!fs.existsSync(logPath)) return [];
+
+    return fs.readFileSync(logPath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as ConfigActivation);
+  }
+
+  /**
+   * File a configuration is read from: an evaluation override, a changed copy in
+   * configDir, or the bundled file
+   */
+  private getConfigPath(type: ConfigType): string {
+    const filename = CONFIG_FILENAMES[type];
+    if (this.configOverrides[filename]) {
+      return this.configOverrides[filename];
     }
 
+    const changedPath = path.join(this.configDir, filename);
+    return fs.existsSync(changedPath) ? changedPath : path.join(this.bundledConfigDir, filename);
+  }
+
+  private getConfigType(filename: string): ConfigType {
+    const type = (Object.keys(CONFIG_FILENAMES) as ConfigType[]).find(key => CONFIG_FILENAMES[key] === filename);
+    if (!type) {
+      throw new Error(`Unknown configuration file: ${filename}`);
+    }
+    return type;
+  }
+
+  private hashConfig(config: any): string {
+    const content = typeof config === 'string' ? config : JSON.stringify(config);
+    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 12);
+  }
+
+  /**
+   * Get specific configuration value with path notation
+   */
+  public getConfigValue(configType: ConfigType, path: string, defaultValue?: any): any {
+    const pathParts = path.split('.');
+    const config = this.getConfig(configType);
+
     let current = config;
     for (const part of pathParts) {
       if (current && typeof current === 'object' && part in current) {
@@ -302,6 +689,126 @@ export class ConfigManager {
     return this.getMatchingConfig().query.timeouts;
   }
 
+  /**
+   * Get in-memory index configuration
+   */
+  public getIndexConfig() {
+    return this.getMatchingConfig().index || this.getDefaultMatchingConfig().index;
+  }
+
+  /**
+   * Get feedback-driven weight tuning configuration
+   */
+  public getTuningConfig() {
+    return this.getMatchingConfig().tuning || this.getDefaultMatchingConfig().tuning;
+  }
+
+  /**
+   * Get ownership-graph screening configuration
+   */
+  public getOwnershipConfig() {
+    return this.getMatchingConfig().ownership || this.getDefaultMatchingConfig().ownership;
+  }
+
+  /**
+   * Get streaming batch configuration
+   */
+  public getStreamingConfig() {
+    return this.getMatchingConfig().streaming || this.getDefaultMatchingConfig().streaming;
+  }
+
+  /**
+   * Get asynchronous match job configuration
+   */
+  public getJobsConfig() {
+    return this.getMatchingConfig().jobs || this.getDefaultMatchingConfig().jobs;
+  }
+
+  /**
+   * Get watchlist re-screening configuration
+   */
+  public getWatchlistsConfig() {
+    return this.getMatchingConfig().watchlists || this.getDefaultMatchingConfig().watchlists;
+  }
+
+  /**
+   * Get spreadsheet screening configuration
+   */
+  public getSpreadsheetsConfig() {
+    return this.getMatchingConfig().spreadsheets || this.getDefaultMatchingConfig().spreadsheets;
+  }
+
+  /**
+   * Get identifier matching configuration
+   */
+  public getIdentifiersConfig() {
+    return this.getMatchingConfig().identifiers || this.getDefaultMatchingConfig().identifiers;
+  }
+
+  /**
+   * Get entity-type (person / organization / vessel) matching configuration
+   */
+  public getEntityTypesConfig() {
+    return this.getMatchingConfig().entity_types || this.getDefaultMatchingConfig().entity_types;
+  }
+
+  /**
+   * Get listing period (as_of / delisting) configuration
+   */
+  public getListingConfig() {
+    return this.getMatchingConfig().listing || this.getDefaultMatchingConfig().listing;
+  }
+
+  /**
+   * Get cross-dataset entity clustering configuration
+   */
+  public getClusteringConfig() {
+    return this.getMatchingConfig().clustering || this.getDefaultMatchingConfig().clustering;
+  }
+
+  /**
+   * Get matching pipeline configuration
+   */
+  public getPipelinesConfig() {
+    return this.getMatchingConfig().pipelines || this.getDefaultMatchingConfig().pipelines;
+  }
+
+  /**
+   * Get phonetic algorithm configuration
+   */
+  public getPhoneticConfig(): { weight: number; metaphone_max_length: number; match_threshold: number; confidence_factor: number } {
+    const defaults = this.getDefaultSimilarityWeights().algorithms.phonetic;
+    const phonetic = this.getSimilarityWeights().algorithms.phonetic;
+    return {
+      weight: phonetic?.weight ?? 0,
+      metaphone_max_length: phonetic?.metaphone_max_length ?? defaults.metaphone_max_length,
+      match_threshold: phonetic?.match_threshold ?? defaults.match_threshold,
+      confidence_factor: phonetic?.confidence_factor ?? defaults.confidence_factor
+    };
+  }
+
+  /**
+   * Get semantic (embedding) matching configuration
+   */
+  public getSemanticConfig(): SemanticConfig {
+    const defaults = this.getDefaultSimilarityWeights().algorithms.semantic as SemanticConfig;
+    const semantic = this.getSimilarityWeights().algorithms.semantic;
+    return {
+      ...defaults,
+      ...semantic,
+      weight: semantic?.weight ?? 0,
+      ann: { ...defaults.ann, ...semantic?.ann }
+    };
+  }
+
+  /**
+   * Get transliteration configuration
+   */
+  public getTransliterationConfig() {
+    return this.getSimilarityWeights().special_patterns.transliteration ||
+      this.getDefaultSimilarityWeights().special_patterns.transliteration;
+  }
+
   /**
    * Validate configuration integrity
    */
@@ -309,30 +816,10 @@ export class ConfigManager {
     const errors: string[] = [];
 
     try {
-      // Validate matching config
-      const matching = this.getMatchingConfig();
-      if (!matching.similarity || !matching.geographic || !matching.query) {
-        errors.push('Missing required sections in matching configuration');
+      for (const type of Object.keys(CONFIG_FILENAMES) as ConfigType[]) {
+        ConfigValidator.validate(type, this.getConfig(type))
+          .forEach(error => errors.push(`${CONFIG_FILENAMES[type]}: ${error}`));
       }
-
-      // Validate country mappings
-      const countries = this.getCountryMappings();
-      if (!countries.mappings || Object.keys(countries.mappings).length === 0) {
-        errors.push('Country mappings are empty or invalid');
-      }
-
-      // Validate similarity weights
-      const weights = this.getSimilarityWeights();
-      if (!weights.algorithms || Object.keys(weights.algorithms).length === 0) {
-        errors.push('Similarity algorithms configuration is empty or invalid');
-      }
-
-      // Validate weight totals
-      const totalWeight = Object.values(weights.algorithms).reduce((sum, alg) => sum + alg.weight, 0);
-      if (Math.abs(totalWeight - 1.0) > 0.01) {
-        errors.push(`Algorithm weights should sum to 1.0, got ${totalWeight}`);
-      }
-
     } catch (error) {
       errors.push(`Configuration validation error: ${error}`);
     }
@@ -410,7 +897,8 @@ export class ConfigManager {
         enable_location_boost: true,
         location_boost_factor: 1.2,
         location_penalty_factor: 0.8,
-        enable_regional_grouping: true
+        enable_regional_grouping: true,
+        enable_subnational: true
       },
       query: {
         strategies: {
@@ -428,6 +916,14 @@ export class ConfigManager {
         enable_progressive_search: true,
         minimum_results_before_next_strategy: 3
       },
+      index: {
+        enable_in_memory_index: true,
+        ngram_size: 3,
+        max_candidates: 200,
+        min_candidate_score: 0.2,
+        max_posting_ratio: 0.2,
+        version_check_interval_ms: 60000
+      },
       cache: {
         enable_caching: true,
         default_ttl_minutes: 5,
@@ -440,6 +936,7 @@ export class ConfigManager {
         ]
       },
       match_types: {
+        identifier: { confidence: 0.99, description: "Shared strong identifier (LEI, registration number, IMO, tax ID)" },
         exact: { confidence: 1.0, description: "Perfect string match" },
         core_acronym: { confidence: 0.95, description: "Core name matches with acronym in parentheses" },
         alias: { confidence: 0.95, description: "Exact match with known alias" },
@@ -447,6 +944,8 @@ export class ConfigManager {
         word_match: { confidence: 0.8, description: "Strong word-level similarity" },
         core_match: { confidence: 0.75, description: "Core organization name matches" },
         alias_partial: { confidence: 0.7, description: "Partial match with alias" },
+        phonetic: { confidence: 0.8, description: "Phonetic or transliteration match" },
+        semantic: { confidence: 0.8, description: "Reworded name recognised by name embeddings" },
         partial: { confidence: 0.6, description: "Substring or containment match" }
       },
       debugging: {
@@ -454,6 +953,98 @@ export class ConfigManager {
         enable_timing_metrics: true,
         log_similarity_scores: false,
         max_debug_results: 100
+      },
+      tuning: {
+        min_feedback_items: 30,
+        min_items_per_verdict: 5,
+        weight_step: 0.05,
+        min_weight: 0.05,
+        threshold_range: [0.7, 0.95],
+        threshold_step: 0.01,
+        f_beta: 0.5,
+        min_improvement: 0.01
+      },
+      ownership: {
+        default_max_hops: 3,
+        max_hops_limit: 5,
+        max_nodes: 200,
+        listed_min_confidence: 0.85,
+        exposure_threshold: 50,
+        assumed_parent_percentage: 50
+      },
+      streaming: {
+        max_entities: 10000,
+        progress_every: 50,
+        progress_interval_ms: 2000,
+        heartbeat_interval_ms: 15000,
+        batch_ttl_minutes: 60,
+        max_stored_batches: 50
+      },
+      jobs: {
+        max_entities: 100000,
+        max_concurrent_jobs: 1,
+        default_page_size: 100,
+        max_page_size: 1000,
+        flush_every: 25,
+        retention_days: 7
+      },
+      watchlists: {
+        max_watchlists: 100,
+        max_entities: 5000,
+        poll_interval_ms: 300000,
+        screening_chunk_size: 50,
+        confidence_change_threshold: 0.05,
+        default_page_size: 100,
+        max_page_size: 1000,
+        webhook_timeout_ms: 5000,
+        webhook_retry_attempts: 3
+      },
+      spreadsheets: {
+        max_rows: 10000,
+        batch_size: 100,
+        sample_rows: 5
+      },
+      identifiers: {
+        conflict_penalty: 0.5,
+        domain_boost: 0.05
+      },
+      entity_types: {
+        type_mismatch_action: 'penalize',
+        type_mismatch_penalty: 0.5,
+        person: {
+          min_similarity: 0.85,
+          initial_score: 0.9,
+          missing_token_penalty: 0.05,
+          birth_year_tolerance: 1,
+          birth_date_match_boost: 0.05,
+          birth_date_mismatch_penalty: 0.5
+        }
+      },
+      listing: {
+        delisted_grace_days: 7
+      },
+      clustering: {
+        consolidate_matches: true,
+        max_cluster_size: 25,
+        min_name_length: 4
+      },
+      pipelines: {
+        default_pipeline: 'default',
+        organizations: {},
+        definitions: {
+          default: {
+            description: 'Identifier lookup, then exact, acronym, fuzzy, phonetic, semantic and alias matches',
+            stages: [
+              { strategy: 'identifier' },
+              { strategy: 'exact', stop_when: { min_matches: 10 } },
+              { strategy: 'acronym' },
+              { strategy: 'fuzzy', stop_when: { min_matches: 20 } },
+              { strategy: 'phonetic' },
+              { strategy: 'semantic' },
+              { strategy: 'alias' }
+            ]
+          }
+        }
       }
     };
   }
@@ -484,7 +1075,28 @@ export class ConfigManager {
         jaro_winkler: { weight: 0.4, description: "Jaro-Winkler distance" },
         levenshtein: { weight: 0.3, description: "Levenshtein distance" },
         word_level: { weight: 0.2, description: "Word-level similarity" },
-        character_ngram: { weight: 0.1, description: "Character n-gram similarity" }
+        character_ngram: { weight: 0.1, description: "Character n-gram similarity" },
+        phonetic: {
+          weight: 0,
+          metaphone_max_length: 6,
+          match_threshold: 0.9,
+          confidence_factor: 0.88,
+          description: "Metaphone and Pinyin short-form similarity"
+        },
+        semantic: {
+          weight: 0,
+          model: "char-ngram",
+          dimensions: 256,
+          ngram_size: 3,
+          token_weight: 1.0,
+          ngram_weight: 0.5,
+          match_threshold: 0.8,
+          confidence_factor: 1.0,
+          synonyms: { "academy": "institute", "institution": "institute", "centre": "center" },
+          stop_words: ["the", "of", "and", "for", "co", "ltd", "inc", "company", "corporation", "limited"],
+          ann: { tables: 16, hash_bits: 8, min_similarity: 0.6, max_neighbours: 50 },
+          description: "Cosine similarity of local name embeddings"
+        }
       },
       context_adjustments: {
         organization_types: {
@@ -493,6 +1105,8 @@ export class ConfigManager {
           government: { boost_factor: 1.05, keywords: ["agency", "department", "bureau", "office"] }
         },
         geographic_boost: {
+          "same_city": 1.35,
+          "same_province": 1.25,
           "same_country": 1.2,
           "same_region": 1.1,
           "different_region": 0.9
@@ -534,6 +1148,25 @@ export class ConfigManager {
           enable: true,
           organization_suffixes: ["inc", "ltd", "llc", "corp", "corporation", "company", "co", "institute", "university", "research", "center", "centre"],
           weight_reduction: 0.05
+        },
+        transliteration: {
+          enable: true,
+          romanization_variants: {
+            "peking": "beijing",
+            "nanking": "nanjing",
+            "tsinghua": "qinghua",
+            "canton": "guangzhou"
+          },
+          english_to_pinyin: {
+            "university": "da",
+            "aeronautics": "hang",
+            "astronautics": "hang",
+            "science": "ke",
+            "technology": "ji",
+            "polytechnical": "gong",
+            "national": "guo",
+            "defense": "guo"
+          }
         }
       },
       quality_filters: {
@@ -0,0 +1,346 @@
+export type ConfigType = 'matching' | 'country' | 'similarity';
+
+/**
+ * Structural validation for the three configuration files.
+ * Returns a list of human-readable errors; an empty list means the config is valid.
+ */
+export class ConfigValidator {
+  static validate(type: ConfigType, config: any): string[] {
+    if (!this.isObject(config)) {
+      return ['Configuration must be a JSON object'];
+    }
+
+    switch (type) {
+      case 'matching':
+        return this.validateMatchingConfig(config);
+      case 'country':
+        return this.validateCountryMappings(config);
+      case 'similarity':
+        return this.validateSimilarityWeights(config);
+      default:
+        return [`Unknown configuration type: ${type}`];
+    }
+  }
+
+  private static validateMatchingConfig(config: any): string[] {
+    const errors: string[] = [];
+
+    for (const section of ['similarity', 'geographic', 'query', 'index', 'cache', 'match_types', 'debugging']) {
+      this.requireObject(config, section, errors);
+    }
+    if (errors.length > 0) return errors;
+
+    this.requireObject(config, 'similarity.thresholds', errors);
+    this.requireObject(config, 'similarity.preprocessing', errors);
+    if (this.isObject(config.similarity.thresholds)) {
+      Object.keys(config.similarity.thresholds).forEach(name => {
+        this.requireNumber(config, `similarity.thresholds.${name}`, 0, 1, errors);
+      });
+
+      const { high_similarity, good_similarity, moderate_similarity } = config.similarity.thresholds;
+      if (typeof good_similarity === 'number' && typeof high_similarity === 'number' && good_similarity > high_similarity) {
+        errors.push('similarity.thresholds.good_similarity must not exceed high_similarity');
+      }
+      if (typeof good_similarity === 'number' && typeof moderate_similarity === 'number' && moderate_similarity > good_similarity) {
+        errors.push('similarity.thresholds.moderate_similarity must not exceed good_similarity');
+      }
+    }
+
+    this.requireBoolean(config, 'index.enable_in_memory_index', errors);
+    this.requireNumber(config, 'index.ngram_size', 1, 5, errors);
+    this.requireNumber(config, 'index.max_candidates', 1, 10000, errors);
+    this.requireNumber(config, 'index.min_candidate_score', 0, 1, errors);
+    this.requireNumber(config, 'index.max_posting_ratio', 0, 1, errors);
+    this.requireNumber(config, 'index.version_check_interval_ms', 0, Number.MAX_SAFE_INTEGER, errors);
+
+    if (config.geographic.enable_subnational !== undefined) {
+      this.requireBoolean(config, 'geographic.enable_subnational', errors);
+    }
+
+    this.requireBoolean(config, 'cache.enable_caching', errors);
+    this.requireNumber(config, 'cache.default_ttl_minutes', 0, 24 * 60, errors);
+    this.requireNumber(config, 'cache.max_cache_entries', 1, 1000000, errors);
+
+    Object.keys(config.match_types).forEach(name => {
+      this.requireNumber(config, `match_types.${name}.confidence`, 0, 1, errors);
+    });
+
+    if (config.tuning !== undefined) {
+      this.requireNumber(config, 'tuning.weight_step', 0.01, 0.5, errors);
+      this.requireNumber(config, 'tuning.f_beta', 0.01, 10, errors);
+    }
+
+    if (config.ownership !== undefined) {
+      this.requireNumber(config, 'ownership.default_max_hops', 1, 10, errors);
+      this.requireNumber(config, 'ownership.max_hops_limit', 1, 10, errors);
+      this.requireNumber(config, 'ownership.max_nodes', 1, 10000, errors);
+      this.requireNumber(config, 'ownership.listed_min_confidence', 0, 1, errors);
+      this.requireNumber(config, 'ownership.exposure_threshold', 0, 100, errors);
+      this.requireNumber(config, 'ownership.assumed_parent_percentage', 0, 100, errors);
+    }
+
+    if (config.streaming !== undefined) {
+      this.requireNumber(config, 'streaming.max_entities', 1, 1000000, errors);
+      this.requireNumber(config, 'streaming.progress_every', 1, 100000, errors);
+      this.requireNumber(config, 'streaming.progress_interval_ms', 100, 600000, errors);
+      this.requireNumber(config, 'streaming.heartbeat_interval_ms', 1000, 600000, errors);
+      this.requireNumber(config, 'streaming.batch_ttl_minutes', 1, 24 * 60, errors);
+      this.requireNumber(config, 'streaming.max_stored_batches', 1, 10000, errors);
+    }
+
+    if (config.jobs !== undefined) {
+      this.requireNumber(config, 'jobs.max_entities', 1, 10000000, errors);
+      this.requireNumber(config, 'jobs.max_concurrent_jobs', 1, 100, errors);
+      this.requireNumber(config, 'jobs.default_page_size', 1, 100000, errors);
+      this.requireNumber(config, 'jobs.max_page_size', 1, 100000, errors);
+      this.requireNumber(config, 'jobs.flush_every', 1, 100000, errors);
+      this.requireNumber(config, 'jobs.retention_days', 0, 3650, errors);
+    }
+
+    if (config.watchlists !== undefined) {
+      this.requireNumber(config, 'watchlists.max_watchlists', 1, 100000, errors);
+      this.requireNumber(config, 'watchlists.max_entities', 1, 1000000, errors);
+      this.requireNumber(config, 'watchlists.poll_interval_ms', 0, 24 * 60 * 60 * 1000, errors);
+      this.requireNumber(config, 'watchlists.screening_chunk_size', 1, 1000, errors);
+      this.requireNumber(config, 'watchlists.confidence_change_threshold', 0, 1, errors);
+      this.requireNumber(config, 'watchlists.default_page_size', 1, 100000, errors);
+      this.requireNumber(config, 'watchlists.max_page_size', 1, 100000, errors);
+      this.requireNumber(config, 'watchlists.webhook_timeout_ms', 100, 600000, errors);
+      this.requireNumber(config, 'watchlists.webhook_retry_attempts', 0, 10, errors);
+    }
+
+    if (config.spreadsheets !== undefined) {
+      this.requireNumber(config, 'spreadsheets.max_rows', 1, 1000000, errors);
+      this.requireNumber(config, 'spreadsheets.batch_size', 1, 1000, errors);
+      this.requireNumber(config, 'spreadsheets.sample_rows', 0, 100, errors);
+    }
+
+    if (config.identifiers !== undefined) {
+      this.requireNumber(config, 'identifiers.conflict_penalty', 0, 1, errors);
+      this.requireNumber(config, 'identifiers.domain_boost', 0, 1, errors);
+    }
+
+    if (config.entity_types !== undefined) {
+      if (!['filter', 'penalize'].includes(config.entity_types?.type_mismatch_action)) {
+        errors.push('entity_types.type_mismatch_action must be "filter" or "penalize"');
+      }
+      this.requireNumber(config, 'entity_types.type_mismatch_penalty', 0, 1, errors);
+      this.requireNumber(config, 'entity_types.person.min_similarity', 0, 1, errors);
+      this.requireNumber(config, 'entity_types.person.initial_score', 0, 1, errors);
+      this.requireNumber(config, 'entity_types.person.missing_token_penalty', 0, 1, errors);
+      this.requireNumber(config, 'entity_types.person.birth_year_tolerance', 0, 100, errors);
+      this.requireNumber(config, 'entity_types.person.birth_date_match_boost', 0, 1, errors);
+      this.requireNumber(config, 'entity_types.person.birth_date_mismatch_penalty', 0, 1, errors);
+    }
+
+    if (config.listing !== undefined) {
+      this.requireNumber(config, 'listing.delisted_grace_days', 0, 3650, errors);
+    }
+
+    if (config.clustering !== undefined) {
+      this.requireBoolean(config, 'clustering.consolidate_matches', errors);
+      this.requireNumber(config, 'clustering.max_cluster_size', 2, 1000, errors);
+      this.requireNumber(config, 'clustering.min_name_length', 1, 100, errors);
+    }
+
+    if (config.pipelines !== undefined) {
+      this.validatePipelines(config, errors);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Pipelines must have stages, known timeout keys, and every pipeline referred
+   * to must be defined. Strategy names are checked when a pipeline runs, since
+   * strategies can be registered at startup
+   */
+  private static validatePipelines(config: any, errors: string[]): void {
+    if (!this.requireObject(config, 'pipelines.definitions', errors)) return;
+
+    const definitions = config.pipelines.definitions;
+    const timeouts = this.isObject(config.query?.timeouts) ? config.query.timeouts : {};
+
+    for (const [name, pipeline] of Object.entries<any>(definitions)) {
+      const prefix = `pipelines.definitions.${name}`;
+      if (!Array.isArray(pipeline?.stages) || pipeline.stages.length === 0) {
+        errors.push(`${prefix}.stages must be a non-empty array`);
+        continue;
+      }
+
+      pipeline.stages.forEach((stage: any, index: number) => {
+        const stagePath = `${prefix}.stages.${index}`;
+        if (typeof stage?.strategy !== 'string' || stage.strategy.length === 0) {
+          errors.push(`${stagePath}.strategy must be a strategy name`);
+        }
+        if (stage?.timeout !== undefined && typeof timeouts[stage.timeout] !== 'number') {
+          errors.push(`${stagePath}.timeout must be a key of query.timeouts, got "${stage.timeout}"`);
+        }
+        if (stage?.stop_when?.min_matches !== undefined) {
+          this.checkNumber(stage.stop_when.min_matches, `${stagePath}.stop_when.min_matches`, 1, 10000, errors);
+        }
+        if (stage?.stop_when?.min_confidence !== undefined) {
+          this.checkNumber(stage.stop_when.min_confidence, `${stagePath}.stop_when.min_confidence`, 0, 1, errors);
+        }
+      });
+
+      if (pipeline.min_similarity !== undefined) {
+        this.checkNumber(pipeline.min_similarity, `${prefix}.min_similarity`, 0, 1, errors);
+      }
+      if (pipeline.max_cost !== undefined) {
+        this.checkNumber(pipeline.max_cost, `${prefix}.max_cost`, 1, 1000, errors);
+      }
+    }
+
+    if (!definitions[config.pipelines.default_pipeline]) {
+      errors.push(`pipelines.default_pipeline must name a defined pipeline, got "${config.pipelines.default_pipeline}"`);
+    }
+
+    if (config.pipelines.organizations !== undefined) {
+      if (!this.requireObject(config, 'pipelines.organizations', errors)) return;
+      for (const [organizationId, pipelineName] of Object.entries<any>(config.pipelines.organizations)) {
+        if (!definitions[pipelineName]) {
+          errors.push(`pipelines.organizations.${organizationId} must name a defined pipeline, got "${pipelineName}"`);
+        }
+      }
+    }
+  }
+
+  private static validateCountryMappings(config: any): string[] {
+    const errors: string[] = [];
+
+    this.requireObject(config, 'mappings', errors);
+    this.requireObject(config, 'regional_groups', errors);
+    this.requireStringArray(config, 'priority_countries', errors);
+    if (errors.length > 0) return errors;
+
+    if (Object.keys(config.mappings).length === 0) {
+      errors.push('mappings must not be empty');
+    }
+
+    Object.keys(config.mappings).forEach(country => {
+      const prefix = `mappings.${country}`;
+      if (!this.requireObject(config, prefix, errors)) return;
+      if (typeof config.mappings[country].canonical !== 'string') {
+        errors.push(`${prefix}.canonical must be a string`);
+      }
+      this.requireStringArray(config, `${prefix}.iso_codes`, errors);
+      this.requireStringArray(config, `${prefix}.aliases`, errors);
+    });
+
+    Object.keys(config.regional_groups).forEach(region => {
+      this.requireStringArray(config, `regional_groups.${region}`, errors);
+    });
+
+    return errors;
+  }
+
+  private static validateSimilarityWeights(config: any): string[] {
+    const errors: string[] = [];
+
+    for (const section of ['algorithms', 'context_adjustments', 'special_patterns']) {
+      this.requireObject(config, section, errors);
+    }
+    if (errors.length > 0) return errors;
+
+    const algorithms = Object.keys(config.algorithms);
+    if (algorithms.length === 0) {
+      errors.push('algorithms must not be empty');
+    }
+
+    algorithms.forEach(name => {
+      this.requireNumber(config, `algorithms.${name}.weight`, 0, 1, errors);
+    });
+
+    // The blend is divided by the total weight, so only the ratios matter
+    const totalWeight = algorithms.reduce((sum, name) => sum + (Number(config.algorithms[name]?.weight) || 0), 0);
+    if (totalWeight <= 0) {
+      errors.push('At least one algorithm weight must be greater than 0');
+    }
+
+    if (this.isObject(config.algorithms.semantic)) {
+      this.validateSemantic(config, errors);
+    }
+
+    return errors;
+  }
+
+  private static validateSemantic(config: any, errors: string[]): void {
+    const semantic = config.algorithms.semantic;
+    const optionalNumbers: Array<[string, number, number]> = [
+      ['dimensions', 16, 4096],
+      ['ngram_size', 2, 5],
+      ['token_weight', 0, 10],
+      ['ngram_weight', 0, 10],
+      ['match_threshold', 0, 1],
+      ['confidence_factor', 0, 1]
+    ];
+    optionalNumbers
+      .filter(([name]) => semantic[name] !== undefined)
+      .forEach(([name, min, max]) => this.requireNumber(config, `algorithms.semantic.${name}`, min, max, errors));
+
+    if (semantic.model !== undefined && (typeof semantic.model !== 'string' || semantic.model.length === 0)) {
+      errors.push('algorithms.semantic.model must be a non-empty string');
+    }
+    if (semantic.synonyms !== undefined && !this.isObject(semantic.synonyms)) {
+      errors.push('algorithms.semantic.synonyms must be an object');
+    }
+    if (semantic.stop_words !== undefined && !Array.isArray(semantic.stop_words)) {
+      errors.push('algorithms.semantic.stop_words must be an array');
+    }
+
+    if (semantic.ann !== undefined) {
+      if (!this.requireObject(config, 'algorithms.semantic.ann', errors)) return;
+      const annNumbers: Array<[string, number, number]> = [
+        ['tables', 1, 64],
+        ['hash_bits', 1, 24],
+        ['min_similarity', 0, 1],
+        ['max_neighbours', 1, 1000]
+      ];
+      annNumbers
+        .filter(([name]) => semantic.ann[name] !== undefined)
+        .forEach(([name, min, max]) => this.requireNumber(config, `algorithms.semantic.ann.${name}`, min, max, errors));
+    }
+  }
+
+  private static resolve(config: any, path: string): any {
+    return path.split('.').reduce((current, part) => (this.isObject(current) ? current[part] : undefined), config);
+  }
+
+  private static requireObject(config: any, path: string, errors: string[]): boolean {
+    if (!this.isObject(this.resolve(config, path))) {
+      errors.push(`${path} must be an object`);
+      return false;
+    }
+    return true;
+  }
+
+  private static requireNumber(config: any, path: string, min: number, max: number, errors: string[]): void {
+    this.checkNumber(this.resolve(config, path), path, min, max, errors);
+  }
+
+  private static checkNumber(value: any, path: string, min: number, max: number, errors: string[]): void {
+    if (typeof value !== 'number' || isNaN(value)) {
+      errors.push(`${path} must be a number`);
+    } else if (value < min || value > max) {
+      errors.push(`${path} must be between ${min} and ${max}, got ${value}`);
+    }
+  }
+
+  private static requireBoolean(config: any, path: string, errors: string[]): void {
+    if (typeof this.resolve(config, path) !== 'boolean') {
+      errors.push(`${path} must be a boolean`);
+    }
+  }
+
+  private static requireStringArray(config: any, path: string, errors: string[]): void {
+    const value = this.resolve(config, path);
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      errors.push(`${path} must be an array of strings`);
+    }
+  }
+
+  private static isObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,29 @@
+import fs from 'fs';
+import path from 'path';
+import { CsvParser } from './CsvParser';
+
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'suppliers.csv'), 'utf8');
+
+describe('CsvParser', () => {
+  it('reads quoted line breaks, escaped quotes, CRLF and a byte order mark', async () => {
+    const rows = await CsvParser.parse(fixture);
+
+    expect(rows[0]).toEqual(['Supplier Name', 'Country', 'Notes']);
+    expect(rows[1]).toEqual(['Acme, Inc', 'US', 'Line one\r\nline two']);
+    expect(rows[2]).toEqual(['Beta Corp', 'DE', 'He said "hello"']);
+    expect(rows[3]).toEqual(['Harbin Institute of Technology', 'CN', '']);
+    expect(rows).toHaveLength(4);
+  });
+
+  it('numbers records as a spreadsheet does, counting blank lines', async () => {
+    const records = await CsvParser.parseRecords(fixture);
+
+    expect(records.map(record => record.rowNumber)).toEqual([1, 2, 4, 6]);
+  });
+
+  it('round-trips formatted rows', async () => {
+    const rows = [['name', 'note'], ['Acme, Inc', 'two\nlines'], ['Beta "B" Corp', '']];
+
+    expect(await CsvParser.parse(CsvParser.format(rows))).toEqual(rows);
+  });
+});
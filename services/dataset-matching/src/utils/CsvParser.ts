@@ -0,0 +1,58 @@
+/**
+ * CSV parsing for uploaded files, with csv-parser as in data-management
+ * (quoted fields, escaped quotes, line breaks inside quoted fields, CRLF),
+ * and formatting for downloads
+ */
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+
+export interface CsvRecord {
+  rowNumber: number; // 1-based record number in the file, blank lines included
+  cells: string[];
+}
+
+export class CsvParser {
+  /**
+   * Parse CSV text into rows of fields, skipping blank rows
+   */
+  static async parse(text: string): Promise<string[][]> {
+    return (await this.parseRecords(text)).map(record => record.cells);
+  }
+
+  /**
+   * Non-blank records with their position in the file, so rows can be reported
+   * by the number a spreadsheet shows for them
+   */
+  static parseRecords(text: string): Promise<CsvRecord[]> {
+    const records: CsvRecord[] = [];
+    let rowNumber = 0;
+
+    return new Promise((resolve, reject) => {
+      // Spreadsheet exports often start with a byte order mark
+      Readable.from([text.replace(/^\uFEFF/, '')])
+        .pipe(csv({ headers: false }))
+        .on('data', (row: Record<string, string>) => {
+          rowNumber++;
+          const cells = Object.keys(row).map(key => row[key]);
+          if (cells.some(cell => cell.trim())) {
+            records.push({ rowNumber, cells });
+          }
+        })
+        .on('end', () => resolve(records))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Format rows as CSV text, quoting fields where needed
+   */
+  static format(rows: unknown[][]): string {
+    return rows.map(row => row.map(field => this.formatField(field)).join(',')).join('\n') + '\n';
+  }
+
+  static formatField(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
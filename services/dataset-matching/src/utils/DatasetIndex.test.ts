@@ -0,0 +1,79 @@
+import { DatasetIndex } from './DatasetIndex';
+import { Dataset, DatasetEntry } from '../types/DatasetMatchTypes';
+
+const dataset = (id: string): Dataset => ({
+  id,
+  name: id === 'ds-el' ? 'Entity List' : 'SDN',
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+});
+
+const entry = (id: string, organizationName: string, overrides: Partial<DatasetEntry> = {}): DatasetEntry => ({
+  id,
+  dataset_id: 'ds-el',
+  organization_name: organizationName,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+describe('DatasetIndex', () => {
+  let index: DatasetIndex;
+
+  beforeEach(() => {
+    index = new DatasetIndex({ phoneticKeys: false });
+  });
+
+  it('finds entries by name and alias, best candidate first', () => {
+    index.replaceDataset(dataset('ds-el'), [
+      entry('el-1', 'Harbin Institute of Technology', { aliases: ['HIT'] }),
+      entry('el-2', 'Beijing University of Aeronautics and Astronautics', { aliases: ['Beihang University'] }),
+      entry('el-3', 'Shanghai University')
+    ]);
+
+    expect(index.search('Harbin Institute of Technolgy')[0].entry.id).toBe('el-1');
+    expect(index.search('Beihang University')[0].entry.id).toBe('el-2');
+    expect(index.getEntry('el-3')?.dataset.name).toBe('Entity List');
+  });
+
+  it('keeps entries that share a name as separate candidates', () => {
+    index.replaceDataset(dataset('ds-el'), [
+      entry('el-1', 'Shanghai University', { countries: ['CN'] }),
+      entry('el-2', 'Shanghai University', { countries: ['HK'] })
+    ]);
+
+    expect(index.size()).toBe(2);
+    expect(index.search('Shanghai University').map(candidate => candidate.entry.id).sort()).toEqual(['el-1', 'el-2']);
+  });
+
+  it('skips entries without an id or a name', () => {
+    index.replaceDataset(dataset('ds-el'), [
+      entry('', 'Shanghai University'),
+      entry('el-2', ''),
+      entry('el-3', 'Harbin Institute of Technology')
+    ]);
+
+    expect(index.size()).toBe(1);
+  });
+
+  it('replaces a dataset without touching the others', () => {
+    index.replaceDataset(dataset('ds-el'), [entry('el-1', 'Harbin Institute of Technology'), entry('el-2', 'Shanghai University')]);
+    index.replaceDataset(dataset('ds-sdn'), [entry('sdn-1', 'Shanghai University', { dataset_id: 'ds-sdn' })]);
+
+    index.replaceDataset(dataset('ds-el'), [entry('el-1', 'Harbin Institute of Technology')]);
+
+    expect(index.datasetCount()).toBe(2);
+    expect(index.getEntry('el-2')).toBeNull();
+    expect(index.search('Shanghai University').map(candidate => candidate.entry.id)).toEqual(['sdn-1']);
+  });
+
+  it('drops every posting of a removed dataset', () => {
+    index.replaceDataset(dataset('ds-el'), [entry('el-1', 'Harbin Institute of Technology')]);
+    index.removeDataset('ds-el');
+
+    expect(index.size()).toBe(0);
+    expect(index.search('Harbin Institute of Technology')).toEqual([]);
+    expect(index.getPostingCounts()).toEqual({ tokens: 0, ngrams: 0, phonetics: 0, vectors: 0 });
+  });
+});
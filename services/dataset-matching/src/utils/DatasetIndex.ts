@@ -0,0 +1,418 @@
+/**
+ * In-memory inverted index over dataset entries
+ * Maps name tokens and character n-grams to entries so candidates can be
+ * retrieved without a database round-trip per query
+ */
+import { Dataset, DatasetEntry, IndexCandidate, ParsedIdentifier } from '../types/DatasetMatchTypes';
+import { PhoneticMatching } from '../algorithms/PhoneticMatching';
+import { SemanticMatching } from '../algorithms/SemanticMatching';
+import { EntityNormalization } from '../algorithms/EntityNormalization';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { ListingPeriod } from './ListingPeriod';
+import { EntityClusterer, EntityClusterOptions, EntityClusters } from './EntityClusterer';
+import { VectorIndex } from './VectorIndex';
+
+export interface SemanticIndexOptions {
+  tables: number;
+  hashBits: number;
+  minSimilarity: number; // Nearest neighbours below this cosine similarity are not candidates
+  maxNeighbours: number;
+}
+
+export interface DatasetIndexOptions {
+  ngramSize?: number;
+  maxCandidates?: number;
+  minCandidateScore?: number;
+  maxPostingRatio?: number; // Postings shared by more than this share of entries are skipped
+  phoneticKeys?: boolean; // Also index Metaphone / Pinyin keys for transliterated names
+  semantic?: SemanticIndexOptions | null; // Also index name embeddings for nearest-neighbour retrieval
+}
+
+interface IndexedEntry {
+  key: string;
+  entry: DatasetEntry;
+  dataset: Dataset;
+  names: string[];
+  tokens: Set<string>;
+  ngrams: Set<string>;
+  phonetics: Set<string>;
+  identifiers: ParsedIdentifier[];
+}
+
+export class DatasetIndex {
+  // Phonetic hits alone rank below a comparable surface-text hit
+  private static readonly PHONETIC_SCORE_FACTOR = 0.8;
+  // Likewise for neighbours found only through name embeddings
+  private static readonly SEMANTIC_SCORE_FACTOR = 0.8;
+
+  private static readonly STOP_WORDS = new Set([
+    'the', 'of', 'and', 'for', 'in', 'at', 'to', 'a', 'an', 'on', 'by', 'with'
+  ]);
+
+  private entries = new Map<string, IndexedEntry>();
+  private datasetEntries = new Map<string, Set<string>>();
+  private tokenPostings = new Map<string, Set<string>>();
+  private ngramPostings = new Map<string, Set<string>>();
+  private phoneticPostings = new Map<string, Set<string>>();
+  private identifierPostings = new Map<string, Set<string>>();
+  private datasetLastSeen = new Map<string, number>();
+  private clusters: EntityClusters = new Map();
+  private clusterOf = new Map<string, string>();
+
+  private ngramSize: number;
+  private maxCandidates: number;
+  private minCandidateScore: number;
+  private maxPostingRatio: number;
+  private phoneticKeys: boolean;
+  private semantic: SemanticIndexOptions | null;
+  private vectorIndex: VectorIndex | null = null;
+
+  constructor(options: DatasetIndexOptions = {}) {
+    this.ngramSize = options.ngramSize || 3;
+    this.maxCandidates = options.maxCandidates || 200;
+    this.minCandidateScore = options.minCandidateScore ?? 0.2;
+    this.maxPostingRatio = options.maxPostingRatio ?? 0.2;
+    this.phoneticKeys = options.phoneticKeys ?? true;
+    this.semantic = options.semantic || null;
+  }
+
+  /**
+   * Replace all entries of a dataset (used for both initial load and incremental refresh)
+   */
+  replaceDataset(dataset: Dataset, entries: DatasetEntry[]): void {
+    this.removeDataset(dataset.id);
+
+    const keys = new Set<string>();
+    for (const entry of entries) {
+      // Keyed by entry id alone: a list can hold several entries under the same name
+      if (!entry.organization_name || !entry.id) continue;
+
+      const key = entry.id;
+      const names = [entry.organization_name, ...(entry.aliases || [])]
+        .filter(name => typeof name === 'string' && name.trim().length > 0);
+
+      const tokens = new Set<string>();
+      const ngrams = new Set<string>();
+      const phonetics = new Set<string>();
+      for (const name of names) {
+        this.tokenize(name).forEach(token => tokens.add(token));
+        this.generateNGrams(name).forEach(gram => ngrams.add(gram));
+        if (this.phoneticKeys) {
+          PhoneticMatching.getIndexKeys(name).forEach(phoneticKey => phonetics.add(phoneticKey));
+        }
+      }
+
+      const identifiers = IdentifierMatching.parseEntry(entry);
+
+      const indexed: IndexedEntry = { key, entry, dataset, names, tokens, ngrams, phonetics, identifiers };
+      this.entries.set(key, indexed);
+      keys.add(key);
+
+      tokens.forEach(token => this.addPosting(this.tokenPostings, token, key));
+      ngrams.forEach(gram => this.addPosting(this.ngramPostings, gram, key));
+      phonetics.forEach(phoneticKey => this.addPosting(this.phoneticPostings, phoneticKey, key));
+      identifiers.forEach(identifier => this.addPosting(this.identifierPostings, identifier.value, key));
+      this.getVectorIndex()?.add(key, names.map(name => SemanticMatching.getInstance().getModel().embed(name)));
+    }
+
+    this.datasetEntries.set(dataset.id, keys);
+
+    // The latest last_seen marks the dataset's most recent import
+    const lastSeen = entries.reduce<number | null>((latest, entry) => {
+      const timestamp = ListingPeriod.parseTimestamp(entry.last_seen);
+      return timestamp !== null && (latest === null || timestamp > latest) ? timestamp : latest;
+    }, null);
+    if (lastSeen !== null) {
+      this.datasetLastSeen.set(dataset.id, lastSeen);
+    }
+  }
+
+  /**
+   * Remove a dataset and all of its entries from the index
+   */
+  removeDataset(datasetId: string): void {
+    const keys = this.datasetEntries.get(datasetId);
+    if (!keys) return;
+
+    for (const key of keys) {
+      const indexed = this.entries.get(key);
+      if (!indexed) continue;
+
+      indexed.tokens.forEach(token => this.removePosting(this.tokenPostings, token, key));
+      indexed.ngrams.forEach(gram => this.removePosting(this.ngramPostings, gram, key));
+      indexed.phonetics.forEach(phoneticKey => this.removePosting(this.phoneticPostings, phoneticKey, key));
+      indexed.identifiers.forEach(identifier => this.removePosting(this.identifierPostings, identifier.value, key));
+      this.vectorIndex?.remove(key);
+      this.entries.delete(key);
+    }
+
+    this.datasetEntries.delete(datasetId);
+    this.datasetLastSeen.delete(datasetId);
+  }
+
+  /**
+   * Remove every entry from the index
+   */
+  clear(): void {
+    this.entries.clear();
+    this.datasetEntries.clear();
+    this.tokenPostings.clear();
+    this.ngramPostings.clear();
+    this.phoneticPostings.clear();
+    this.identifierPostings.clear();
+    this.vectorIndex?.clear();
+    this.datasetLastSeen.clear();
+    this.clusters.clear();
+    this.clusterOf.clear();
+  }
+
+  /**
+   * Link entries of the same real-world entity across datasets. Clusters span
+   * every dataset, so they are rebuilt once after a refresh rather than per dataset
+   */
+  rebuildClusters(options: EntityClusterOptions = {}): void {
+    this.clusters = EntityClusterer.cluster(Array.from(this.entries.values()), options);
+    this.clusterOf.clear();
+    for (const [clusterId, keys] of this.clusters) {
+      keys.forEach(key => this.clusterOf.set(key, clusterId));
+    }
+  }
+
+  /**
+   * Retrieve candidate entries for a query, ranked by token and n-gram overlap
+   */
+  search(query: string, limit?: number): IndexCandidate[] {
+    const maxResults = limit || this.maxCandidates;
+    const totalEntries = this.entries.size;
+    if (!query || totalEntries === 0) return [];
+
+    const queryTokens = this.tokenize(query);
+    const queryNGrams = this.generateNGrams(query);
+    const queryPhonetics = this.phoneticKeys ? PhoneticMatching.getIndexKeys(query) : [];
+    if (queryTokens.length === 0 && queryNGrams.length === 0 && queryPhonetics.length === 0) return [];
+
+    // Nearest neighbours by name embedding catch reworded names sharing few tokens
+    const semanticHits = new Map<string, number>();
+    if (this.vectorIndex && this.semantic) {
+      const queryVector = SemanticMatching.getInstance().embed(query);
+      this.vectorIndex.search(queryVector, this.semantic.maxNeighbours, this.semantic.minSimilarity)
+        .forEach(neighbour => semanticHits.set(neighbour.key, neighbour.similarity));
+    }
+
+    const maxPostingSize = Math.max(50, Math.floor(totalEntries * this.maxPostingRatio));
+    const tokenScores = new Map<string, number>();
+    const ngramHits = new Map<string, number>();
+    const phoneticHits = new Map<string, number>();
+
+    // Token overlap weighted by inverse document frequency
+    let totalTokenWeight = 0;
+    for (const token of queryTokens) {
+      const posting = this.tokenPostings.get(token);
+      const weight = this.inverseDocumentFrequency(posting ? posting.size : 0, totalEntries);
+      totalTokenWeight += weight;
+
+      if (!posting || posting.size > maxPostingSize) continue;
+      for (const key of posting) {
+        tokenScores.set(key, (tokenScores.get(key) || 0) + weight);
+      }
+    }
+
+    // Character n-gram overlap catches typos and spacing differences
+    for (const gram of queryNGrams) {
+      const posting = this.ngramPostings.get(gram);
+      if (!posting || posting.size > maxPostingSize) continue;
+      for (const key of posting) {
+        ngramHits.set(key, (ngramHits.get(key) || 0) + 1);
+      }
+    }
+
+    // Metaphone / Pinyin keys catch transliterated and romanized spellings
+    for (const phoneticKey of queryPhonetics) {
+      const posting = this.phoneticPostings.get(phoneticKey);
+      if (!posting || posting.size > maxPostingSize) continue;
+      for (const key of posting) {
+        phoneticHits.set(key, (phoneticHits.get(key) || 0) + 1);
+      }
+    }
+
+    const candidateKeys = new Set<string>([...tokenScores.keys(), ...ngramHits.keys(), ...phoneticHits.keys(), ...semanticHits.keys()]);
+    const candidates: IndexCandidate[] = [];
+
+    for (const key of candidateKeys) {
+      const indexed = this.entries.get(key);
+      if (!indexed) continue;
+
+      const tokenCoverage = totalTokenWeight > 0 ? (tokenScores.get(key) || 0) / totalTokenWeight : 0;
+      const ngramCoverage = queryNGrams.length > 0 ? (ngramHits.get(key) || 0) / queryNGrams.length : 0;
+      const phoneticCoverage = queryPhonetics.length > 0 ? (phoneticHits.get(key) || 0) / queryPhonetics.length : 0;
+      const score = Math.min(1.0, Math.max(
+        tokenCoverage * 0.6 + ngramCoverage * 0.4,
+        phoneticCoverage * DatasetIndex.PHONETIC_SCORE_FACTOR,
+        (semanticHits.get(key) || 0) * DatasetIndex.SEMANTIC_SCORE_FACTOR
+      ));
+
+      if (score < this.minCandidateScore) continue;
+
+      candidates.push({
+        entry: indexed.entry,
+        dataset: indexed.dataset,
+        names: indexed.names,
+        index_score: score,
+        identifiers: indexed.identifiers
+      });
+    }
+
+    return candidates
+      .sort((a, b) => b.index_score - a.index_score)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Look up a single indexed entry by id
+   */
+  getEntry(entryId: string): IndexCandidate | null {
+    const indexed = this.entries.get(entryId);
+    if (!indexed) return null;
+
+    return {
+      entry: indexed.entry,
+      dataset: indexed.dataset,
+      names: indexed.names,
+      index_score: 1.0,
+      identifiers: indexed.identifiers
+    };
+  }
+
+  /**
+   * Entries carrying any of the given normalized identifier values
+   */
+  findByIdentifiers(values: string[]): IndexCandidate[] {
+    const keys = new Set<string>();
+    for (const value of values) {
+      this.identifierPostings.get(value)?.forEach(key => keys.add(key));
+    }
+
+    return Array.from(keys)
+      .map(key => this.getEntry(key))
+      .filter((candidate): candidate is IndexCandidate => candidate !== null);
+  }
+
+  /**
+   * Latest last_seen of a dataset's entries (epoch ms), null when it has no listing dates
+   */
+  getDatasetLastSeen(datasetId: string): number | null {
+    return this.datasetLastSeen.get(datasetId) ?? null;
+  }
+
+  /**
+   * Cluster of an entry, null when the entity is listed only once
+   */
+  getClusterId(entryId: string): string | null {
+    return this.clusterOf.get(entryId) ?? null;
+  }
+
+  /**
+   * Every indexed entry of a cluster
+   */
+  getClusterMembers(clusterId: string): IndexCandidate[] {
+    return (this.clusters.get(clusterId) || [])
+      .map(key => this.getEntry(key))
+      .filter((candidate): candidate is IndexCandidate => candidate !== null);
+  }
+
+  clusterCount(): number {
+    return this.clusters.size;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  datasetCount(): number {
+    return this.datasetEntries.size;
+  }
+
+  getPostingCounts(): { tokens: number; ngrams: number; phonetics: number; vectors: number } {
+    return {
+      tokens: this.tokenPostings.size,
+      ngrams: this.ngramPostings.size,
+      phonetics: this.phoneticPostings.size,
+      vectors: this.vectorIndex?.size() || 0
+    };
+  }
+
+  /**
+   * The embedding index, created on first use since its size depends on the model
+   */
+  private getVectorIndex(): VectorIndex | null {
+    if (!this.semantic) return null;
+    if (!this.vectorIndex) {
+      this.vectorIndex = new VectorIndex(SemanticMatching.getInstance().getModel().dimensions, {
+        tables: this.semantic.tables,
+        hashBits: this.semantic.hashBits
+      });
+    }
+    return this.vectorIndex;
+  }
+
+  /**
+   * Split a name into normalized tokens (bracketed acronyms are kept as tokens).
+   * CJK runs become character bigrams since they carry no word boundaries.
+   */
+  private tokenize(text: string): string[] {
+    return this.normalize(text)
+      .split(' ')
+      .flatMap(token => EntityNormalization.containsCJK(token) ? EntityNormalization.cjkBigrams(token) : [token])
+      .filter(token => token.length > 1 && !DatasetIndex.STOP_WORDS.has(token));
+  }
+
+  /**
+   * Generate character n-grams over the whitespace-free name
+   */
+  private generateNGrams(text: string): string[] {
+    const chars = Array.from(this.normalize(text).replace(/\s+/g, ''));
+    const size = chars.some(char => EntityNormalization.containsCJK(char)) ? 2 : this.ngramSize;
+    const grams = new Set<string>();
+
+    if (chars.length < size) {
+      if (chars.length > 0) grams.add(chars.join(''));
+      return Array.from(grams);
+    }
+
+    for (let i = 0; i <= chars.length - size; i++) {
+      grams.add(chars.slice(i, i + size).join(''));
+    }
+
+    return Array.from(grams);
+  }
+
+  private normalize(text: string): string {
+    return EntityNormalization.stripScriptLegalSuffixes(EntityNormalization.unicodeNormalize(text))
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private inverseDocumentFrequency(postingSize: number, totalEntries: number): number {
+    return Math.log(1 + totalEntries / (1 + postingSize));
+  }
+
+  private addPosting(postings: Map<string, Set<string>>, term: string, key: string): void {
+    let posting = postings.get(term);
+    if (!posting) {
+      posting = new Set<string>();
+      postings.set(term, posting);
+    }
+    posting.add(key);
+  }
+
+  private removePosting(postings: Map<string, Set<string>>, term: string, key: string): void {
+    const posting = postings.get(term);
+    if (!posting) return;
+
+    posting.delete(key);
+    if (posting.size === 0) {
+      postings.delete(term);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Cross-dataset entity resolution
+ * The same organization is often listed on several lists (OFAC, UFLPA, NRO…)
+ * under slightly different names. Entries are linked when they share a strong
+ * identifier, or when the primary name of one equals a name of the other and
+ * their countries agree. Linked entries form a cluster: one real-world entity.
+ */
+import crypto from 'crypto';
+import { DatasetEntry, ParsedIdentifier } from '../types/DatasetMatchTypes';
+import { EntityNormalization } from '../algorithms/EntityNormalization';
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { PersonNameMatching } from '../algorithms/PersonNameMatching';
+import { CountryNormalizer } from './CountryNormalizer';
+
+export interface ClusterableEntry {
+  key: string;
+  entry: DatasetEntry;
+  names: string[];
+  identifiers: ParsedIdentifier[];
+}
+
+export interface EntityClusterOptions {
+  maxClusterSize?: number; // Links that would grow a cluster beyond this are skipped
+  minNameLength?: number; // Shorter normalized names never link entries on their own
+}
+
+// Cluster id → member keys; entries listed only once are not part of any cluster
+export type EntityClusters = Map<string, string[]>;
+
+export class EntityClusterer {
+  /**
+   * Group entries referring to the same real-world entity
+   */
+  static cluster(entries: ClusterableEntry[], options: EntityClusterOptions = {}): EntityClusters {
+    const maxClusterSize = options.maxClusterSize ?? 25;
+    const minNameLength = options.minNameLength ?? 4;
+    const byKey = new Map(entries.map(entry => [entry.key, entry]));
+
+    const parent = new Map<string, string>();
+    const size = new Map<string, number>();
+    const find = (key: string): string => {
+      let root = key;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      // Path compression keeps later lookups flat
+      let node = key;
+      while (node !== root) {
+        const next = parent.get(node)!;
+        parent.set(node, root);
+        node = next;
+      }
+      return root;
+    };
+    const union = (a: string, b: string): void => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA === rootB || size.get(rootA)! + size.get(rootB)! > maxClusterSize) return;
+      parent.set(rootB, rootA);
+      size.set(rootA, size.get(rootA)! + size.get(rootB)!);
+    };
+    entries.forEach(entry => {
+      parent.set(entry.key, entry.key);
+      size.set(entry.key, 1);
+    });
+
+    // Shared strong identifiers (LEI, registration number, IMO, tax ID, or an untyped code)
+    const byIdentifier = new Map<string, string[]>();
+    for (const entry of entries) {
+      entry.identifiers
+        .filter(identifier => identifier.type === 'unknown' || IdentifierMatching.isStrongType(identifier.type))
+        .forEach(identifier => this.addToGroup(byIdentifier, identifier.value, entry.key));
+    }
+    for (const keys of byIdentifier.values()) {
+      // A value carried by many entries is a placeholder or a shared group code, not an identity
+      if (keys.length < 2 || keys.length > maxClusterSize) continue;
+      for (let i = 1; i < keys.length; i++) {
+        if (this.sameKind(byKey.get(keys[0])!, byKey.get(keys[i])!)) union(keys[0], keys[i]);
+      }
+    }
+
+    // Equal names on different lists. The primary name of one side must be involved:
+    // aliases alone are too often shared between a company and its subsidiaries
+    const byName = new Map<string, string[]>();
+    const primaryNames = new Map<string, string>();
+    for (const entry of entries) {
+      entry.names.forEach((name, index) => {
+        const nameKey = this.nameKey(name, minNameLength);
+        if (!nameKey) return;
+        this.addToGroup(byName, nameKey, entry.key);
+        if (index === 0) primaryNames.set(entry.key, nameKey);
+      });
+    }
+    for (const [nameKey, keys] of byName) {
+      if (keys.length < 2 || keys.length > maxClusterSize) continue;
+      for (let i = 0; i < keys.length; i++) {
+        for (let j = i + 1; j < keys.length; j++) {
+          const left = byKey.get(keys[i])!;
+          const right = byKey.get(keys[j])!;
+          if (primaryNames.get(left.key) !== nameKey && primaryNames.get(right.key) !== nameKey) continue;
+          if (this.canLinkByName(left, right)) union(left.key, right.key);
+        }
+      }
+    }
+
+    const members = new Map<string, string[]>();
+    entries.forEach(entry => this.addToGroup(members, find(entry.key), entry.key));
+
+    const clusters: EntityClusters = new Map();
+    for (const keys of members.values()) {
+      if (keys.length < 2) continue;
+      keys.sort();
+      clusters.set(this.clusterId(keys[0]), keys);
+    }
+
+    return clusters;
+  }
+
+  /**
+   * Cluster ids follow the cluster's lowest entry key, so they survive
+   * refreshes as long as that entry stays listed
+   */
+  static clusterId(anchorKey: string): string {
+    return `ent_${crypto.createHash('sha1').update(anchorKey).digest('hex').slice(0, 16)}`;
+  }
+
+  private static nameKey(name: string, minNameLength: number): string | null {
+    if (EntityNormalization.shouldSkipMatching(name)) return null;
+    const normalized = EntityNormalization.normalizeText(name);
+    if (EntityNormalization.isGenericTerm(normalized)) return null;
+    // CJK names are short by nature: two characters already name an organization
+    const minLength = EntityNormalization.containsCJK(normalized) ? 2 : minNameLength;
+    return normalized.replace(/\s+/g, '').length >= minLength ? normalized : null;
+  }
+
+  /**
+   * Name links need agreeing countries, no contradicting identifier and, for
+   * persons, the same birth date: a shared person name alone identifies no one
+   */
+  private static canLinkByName(left: ClusterableEntry, right: ClusterableEntry): boolean {
+    if (left.entry.dataset_id === right.entry.dataset_id) return false;
+    if (!this.sameKind(left, right)) return false;
+    if (!this.countriesAgree(left.entry.countries, right.entry.countries)) return false;
+
+    const strong = left.identifiers.filter(identifier => IdentifierMatching.isStrongType(identifier.type));
+    if (IdentifierMatching.compare(strong, right.identifiers).conflicts.length > 0) return false;
+
+    const isPerson = [left, right].some(item => EntityNormalization.resolveEntityType(item.entry.schema_type) === 'person');
+    if (isPerson) {
+      if (!left.entry.birth_date || !right.entry.birth_date) return false;
+      return PersonNameMatching.compareBirthDates(left.entry.birth_date, right.entry.birth_date, 0) === 'match';
+    }
+
+    return true;
+  }
+
+  // Entries of unknown type link with anything; a person never links with a vessel
+  private static sameKind(left: ClusterableEntry, right: ClusterableEntry): boolean {
+    const leftType = EntityNormalization.resolveEntityType(left.entry.schema_type);
+    const rightType = EntityNormalization.resolveEntityType(right.entry.schema_type);
+    return !leftType || !rightType || leftType === rightType;
+  }
+
+  // Countries agree when they overlap or either side lists none
+  private static countriesAgree(left?: string[], right?: string[]): boolean {
+    if (!left || left.length === 0 || !right || right.length === 0) return true;
+
+    const normalizer = CountryNormalizer.getInstance();
+    const canonical = (country: string) => normalizer.normalizeCountry(country)?.canonical || country.trim().toLowerCase();
+    const leftCountries = new Set(left.map(canonical));
+    return right.some(country => leftCountries.has(canonical(country)));
+  }
+
+  private static addToGroup(groups: Map<string, string[]>, groupKey: string, key: string): void {
+    const group = groups.get(groupKey);
+    if (!group) {
+      groups.set(groupKey, [key]);
+    } else if (group[group.length - 1] !== key) {
+      // An entry's values are added together, so a repeat can only be the last key
+      group.push(key);
+    }
+  }
+}
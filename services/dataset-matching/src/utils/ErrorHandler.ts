@@ -181,4 +181,10 @@ export const validateNumber = (value: any, fieldName: string, min = 0, max = 1)
   if (value < min || value > max) {
     throw new ValidationError(`${fieldName} must be between ${min} and ${max}`);
   }
+};
+
+export const validateEnum = (value: any, fieldName: string, allowed: readonly string[]) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new ValidationError(`${fieldName} must be one of: ${allowed.join(', ')}`);
+  }
 };
\ No newline at end of file
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import { CountryNormalizer } from './CountryNormalizer';
+
+export type PlaceType = 'province' | 'city';
+
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  type: PlaceType;
+  country: string; // Canonical name from country-mappings.json
+  parent?: string; // Province of a city
+  aliases: string[];
+}
+
+export interface ParsedLocation {
+  country: string | null;
+  province: GazetteerPlace | null;
+  city: GazetteerPlace | null;
+}
+
+export type PlaceRelationship = 'same_city' | 'same_province' | 'same_country';
+
+interface PlaceHit {
+  place: GazetteerPlace;
+  position: number; // Character offset, for telling which of two mentions comes last
+  length: number;
+}
+
+/**
+ * Offline gazetteer of provinces and cities (src/data/gazetteer.json, or
+ * GAZETTEER_PATH). Finds the places named in free-text addresses and
+ * locations, in Latin script ("Nangang District, Harbin, Heilongjiang") or
+ * others ("黑龙江省哈尔滨市南岗区"), so geographic matching can go below the
+ * country level.
+ */
+export class Gazetteer {
+  private static instance: Gazetteer;
+  private static readonly MAX_CACHED_LOCATIONS = 10000;
+
+  private countryNormalizer: CountryNormalizer;
+  private version: string;
+  private places = new Map<string, GazetteerPlace>();
+  // Latin-script aliases by normalized word sequence; other scripts are matched as substrings
+  private wordAliases = new Map<string, GazetteerPlace[]>();
+  private scriptAliases: Array<{ alias: string; place: GazetteerPlace }> = [];
+  private maxAliasWords = 1;
+  private cache = new Map<string, ParsedLocation>();
+
+  private constructor(filePath: string) {
+    this.countryNormalizer = CountryNormalizer.getInstance();
+
+    let data: { version?: string; places?: GazetteerPlace[] } = {};
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      console.warn(`⚠️  Gazetteer not loaded from ${filePath}: ${error.message}; sub-national matching disabled`);
+    }
+
+    this.version = data.version || 'none';
+    (data.places || []).forEach(place => this.addPlace(place));
+    console.log(`🗺️  Gazetteer ${this.version}: ${this.places.size} places`);
+  }
+
+  public static getInstance(): Gazetteer {
+    if (!Gazetteer.instance) {
+      Gazetteer.instance = new Gazetteer(process.env.GAZETTEER_PATH || path.join(__dirname, '../data/gazetteer.json'));
+    }
+    return Gazetteer.instance;
+  }
+
+  public getVersion(): string {
+    return this.version;
+  }
+
+  public getPlace(id: string): GazetteerPlace | null {
+    return this.places.get(id) || null;
+  }
+
+  /**
+   * Country, province and city named in a location or a single address.
+   * A named country wins over places of other countries; among several
+   * cities, one whose province is also named is preferred, then the longest
+   * and last mentioned name (addresses usually run from street to country)
+   */
+  public parse(text: string): ParsedLocation {
+    const key = text.trim();
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const countries = this.findCountries(key);
+    let hits = this.findPlaces(key);
+
+    if (countries.length > 0) {
+      hits = hits.filter(hit => countries.includes(hit.place.country));
+    } else {
+      // Names shared across countries (Hyderabad, Cambridge) only count when one country dominates
+      const counts = new Map<string, number>();
+      hits.forEach(hit => counts.set(hit.place.country, (counts.get(hit.place.country) || 0) + 1));
+      const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+      const dominant = ranked.length > 0 && (ranked.length === 1 || ranked[0][1] > ranked[1][1]) ? ranked[0][0] : null;
+      hits = hits.filter(hit => hit.place.country === dominant);
+    }
+
+    const provinceIds = new Set(hits.filter(hit => hit.place.type === 'province').map(hit => hit.place.id));
+    const byPreference = (a: PlaceHit, b: PlaceHit) => (b.length - a.length) || (b.position - a.position);
+
+    const city = hits
+      .filter(hit => hit.place.type === 'city')
+      .sort((a, b) => Number(provinceIds.has(b.place.parent || '')) - Number(provinceIds.has(a.place.parent || '')) || byPreference(a, b))[0]?.place || null;
+
+    const province = (city?.parent ? this.getPlace(city.parent) : null)
+      || hits.filter(hit => hit.place.type === 'province').sort(byPreference)[0]?.place
+      || null;
+
+    const parsed: ParsedLocation = {
+      country: countries[0] || city?.country || province?.country || null,
+      province,
+      city
+    };
+
+    if (this.cache.size >= Gazetteer.MAX_CACHED_LOCATIONS) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, parsed);
+    return parsed;
+  }
+
+  /**
+   * Places of each address in a free-text address list ("addr 1; addr 2")
+   */
+  public parseAddresses(addresses: string): ParsedLocation[] {
+    return addresses
+      .split(/[;\n|]+/)
+      .map(address => address.trim())
+      .filter(address => address.length > 0)
+      .map(address => this.parse(address))
+      .filter(location => location.city || location.province);
+  }
+
+  /**
+   * Canonical country of a location that may name only a city or province ("Harbin")
+   */
+  public resolveCountry(location: string): string | null {
+    return this.countryNormalizer.normalizeCountry(location)?.canonical || this.parse(location).country;
+  }
+
+  /**
+   * Closest sub-national relationship between two parsed locations, if they share at least a country
+   */
+  public static relate(a: ParsedLocation, b: ParsedLocation): PlaceRelationship | null {
+    if (a.city && b.city && a.city.id === b.city.id) return 'same_city';
+    if (a.province && b.province && a.province.id === b.province.id) return 'same_province';
+    if (a.country && a.country === b.country) return 'same_country';
+    return null;
+  }
+
+  public static describe(location: ParsedLocation): string {
+    return [location.city?.name, location.province?.name, location.country]
+      .filter((part, index, parts) => part && parts.indexOf(part) === index)
+      .join(', ');
+  }
+
+  private addPlace(place: GazetteerPlace): void {
+    this.places.set(place.id, place);
+
+    for (const alias of new Set([place.name, ...(place.aliases || [])])) {
+      if (Gazetteer.isLatin(alias)) {
+        const words = Gazetteer.words(alias);
+        if (words.length === 0) continue;
+        const key = words.join(' ');
+        this.wordAliases.set(key, [...(this.wordAliases.get(key) || []), place]);
+        this.maxAliasWords = Math.max(this.maxAliasWords, words.length);
+      } else {
+        this.scriptAliases.push({ alias: alias.normalize('NFKC'), place });
+      }
+    }
+  }
+
+  private findPlaces(text: string): PlaceHit[] {
+    const hits: PlaceHit[] = [];
+
+    // Longest word sequences first; a shorter name inside a longer one is not a separate mention
+    const words = Gazetteer.words(text);
+    const offsets: number[] = [];
+    words.reduce((offset, word) => { offsets.push(offset); return offset + word.length + 1; }, 0);
+    const covered = new Array(words.length).fill(false);
+
+    for (let size = Math.min(this.maxAliasWords, words.length); size >= 1; size--) {
+      for (let start = 0; start + size <= words.length; start++) {
+        if (covered.slice(start, start + size).some(Boolean)) continue;
+        const places = this.wordAliases.get(words.slice(start, start + size).join(' '));
+        if (!places) continue;
+
+        places.forEach(place => hits.push({ place, position: offsets[start], length: size }));
+        covered.fill(true, start, start + size);
+      }
+    }
+
+    const normalized = text.normalize('NFKC');
+    for (const { alias, place } of this.scriptAliases) {
+      const position = normalized.lastIndexOf(alias);
+      if (position !== -1) {
+        hits.push({ place, position, length: alias.length });
+      }
+    }
+
+    return hits;
+  }
+
+  // Countries named in comma-separated parts ("…, Harbin, China"); fuzzy matches are too loose here
+  private findCountries(text: string): string[] {
+    const countries: string[] = [];
+    for (const part of [text, ...text.split(/[,;\n]+/)]) {
+      const match = part.trim() ? this.countryNormalizer.normalizeCountry(part.trim()) : null;
+      if (match && match.matchType !== 'fuzzy' && !countries.includes(match.canonical)) {
+        countries.push(match.canonical);
+      }
+    }
+    return countries;
+  }
+
+  private static isLatin(text: string): boolean {
+    return /^[\p{Script=Latin}\p{N}\p{P}\p{Zs}]+$/u.test(text);
+  }
+
+  // Lowercase words without accents; dots and apostrophes are dropped so "Xi'an" and "D.C." match "xian" and "dc"
+  private static words(text: string): string[] {
+    return text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/['’.]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 0);
+  }
+}
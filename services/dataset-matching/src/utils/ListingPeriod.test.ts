@@ -0,0 +1,52 @@
+import { ListingPeriod } from './ListingPeriod';
+import { ValidationError } from './ErrorHandler';
+
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+describe('ListingPeriod', () => {
+  describe('parseAsOf', () => {
+    it('turns a date into the whole day', () => {
+      expect(ListingPeriod.parseAsOf('2024-03-01')).toEqual({ start: day('2024-03-01'), end: day('2024-03-02') - 1 });
+    });
+
+    it('leaves a missing start open and ends a missing end today', () => {
+      expect(ListingPeriod.parseAsOf({ end: '2024-03-01' }).start).toBe(-Infinity);
+
+      const before = Date.now();
+      const window = ListingPeriod.parseAsOf({ start: '2024-03-01' });
+      expect(window.end).toBeGreaterThanOrEqual(before);
+    });
+
+    it('rejects malformed, impossible and inverted dates', () => {
+      expect(() => ListingPeriod.parseAsOf('03/01/2024')).toThrow(ValidationError);
+      expect(() => ListingPeriod.parseAsOf('2024-02-30')).toThrow('as_of is not a valid date');
+      expect(() => ListingPeriod.parseAsOf({ start: '2024-03-02', end: '2024-03-01' })).toThrow('must not be after');
+      expect(() => ListingPeriod.parseAsOf({})).toThrow('must have a start or an end date');
+    });
+  });
+
+  describe('status', () => {
+    const datasetLastSeen = day('2024-06-01');
+
+    it('marks entries that fell behind the latest import as delisted, after the grace period', () => {
+      expect(ListingPeriod.status({ last_seen: '2024-05-29' }, datasetLastSeen, 7)).toBe('current');
+      expect(ListingPeriod.status({ last_seen: '2024-04-01' }, datasetLastSeen, 7)).toBe('delisted');
+      expect(ListingPeriod.status({}, datasetLastSeen, 7)).toBe('current');
+    });
+
+    it('marks entries not listed during the window as historical', () => {
+      const window = ListingPeriod.parseAsOf({ start: '2024-01-01', end: '2024-02-01' });
+
+      expect(ListingPeriod.status({ first_seen: '2023-01-01', last_seen: '2023-06-01' }, datasetLastSeen, 7, window)).toBe('historical');
+      expect(ListingPeriod.status({ first_seen: '2024-05-01', last_seen: '2024-06-01' }, datasetLastSeen, 7, window)).toBe('historical');
+      expect(ListingPeriod.status({ first_seen: '2023-01-01', last_seen: '2024-01-15' }, datasetLastSeen, 7, window)).toBe('delisted');
+      expect(ListingPeriod.status({ first_seen: '2023-01-01', last_seen: '2024-06-01' }, datasetLastSeen, 7, window)).toBe('current');
+    });
+  });
+
+  it('fingerprints dates and ranges', () => {
+    expect(ListingPeriod.fingerprint()).toBe('');
+    expect(ListingPeriod.fingerprint('2024-03-01')).toBe('asof=2024-03-01');
+    expect(ListingPeriod.fingerprint({ end: '2024-03-01' })).toBe('asof=..2024-03-01');
+  });
+});
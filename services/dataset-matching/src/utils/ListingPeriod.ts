@@ -0,0 +1,98 @@
+/**
+ * Listing periods of dataset entries
+ * Entries carry the first and last date they were seen on their list. Lists are
+ * re-imported regularly, so an entry whose last_seen lags behind the latest
+ * last_seen of its dataset has been removed from the list (delisted).
+ */
+import { AsOf, ListingStatus } from '../types/DatasetMatchTypes';
+import { ValidationError } from './ErrorHandler';
+
+// Inclusive bounds in epoch milliseconds; open bounds are ±Infinity
+export interface ListingWindow {
+  start: number;
+  end: number;
+}
+
+export class ListingPeriod {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Parse an as_of date or range into a window; a missing start is open,
+   * a missing end defaults to today
+   */
+  static parseAsOf(asOf: AsOf, field: string = 'as_of'): ListingWindow {
+    if (typeof asOf === 'string') {
+      const day = this.parseDay(asOf, field);
+      return { start: day, end: day + this.DAY_MS - 1 };
+    }
+
+    if (typeof asOf !== 'object' || asOf === null || Array.isArray(asOf)) {
+      throw new ValidationError(`${field} must be a date (YYYY-MM-DD) or an object with start and/or end dates`);
+    }
+    if (asOf.start === undefined && asOf.end === undefined) {
+      throw new ValidationError(`${field} must have a start or an end date`);
+    }
+
+    const start = asOf.start !== undefined ? this.parseDay(asOf.start, `${field}.start`) : -Infinity;
+    const end = asOf.end !== undefined ? this.parseDay(asOf.end, `${field}.end`) + this.DAY_MS - 1 : Date.now();
+    if (start > end) {
+      throw new ValidationError(`${field}.start must not be after ${field}.end`);
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Stable key for an as_of value, used in cache keys
+   */
+  static fingerprint(asOf?: AsOf): string {
+    if (asOf === undefined) return '';
+    return typeof asOf === 'string' ? `asof=${asOf}` : `asof=${asOf.start || ''}..${asOf.end || ''}`;
+  }
+
+  /**
+   * Listing status of an entry. Without a window only delisting is detected.
+   * Missing dates count as listed: no first_seen means listed since ever, no
+   * last_seen means still listed.
+   */
+  static status(
+    entry: { first_seen?: string | null; last_seen?: string | null },
+    datasetLastSeen: number | null,
+    graceDays: number,
+    window?: ListingWindow | null
+  ): ListingStatus {
+    const firstSeen = this.parseTimestamp(entry.first_seen);
+    const lastSeen = this.parseTimestamp(entry.last_seen);
+    const delisted = lastSeen !== null && datasetLastSeen !== null && lastSeen < datasetLastSeen - graceDays * this.DAY_MS;
+
+    if (window) {
+      const listedFrom = firstSeen ?? -Infinity;
+      const listedUntil = delisted ? lastSeen! : Infinity;
+      if (listedFrom > window.end || listedUntil < window.start) {
+        return 'historical';
+      }
+    }
+
+    return delisted ? 'delisted' : 'current';
+  }
+
+  static parseTimestamp(value?: string | null): number | null {
+    if (!value) return null;
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  private static parseDay(value: unknown, field: string): number {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+    }
+
+    // Date.parse rolls impossible days over ("2024-02-30" → March 1st)
+    const day = Date.parse(`${value}T00:00:00Z`);
+    if (isNaN(day) || new Date(day).toISOString().slice(0, 10) !== value) {
+      throw new ValidationError(`${field} is not a valid date`);
+    }
+
+    return day;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Directed ownership graph (owner → holding) built from parent, subsidiary and
+ * shareholder edges. Supports a bounded walk from the screened entity and a
+ * 50%-rule style propagation of listed status through ownership stakes
+ */
+import {
+  CorporateStructure,
+  OwnershipEdge,
+  OwnershipPathStep,
+  OwnershipRelationship
+} from '../types/DatasetMatchTypes';
+import { ValidationError } from './ErrorHandler';
+import { CsvParser } from './CsvParser';
+
+interface Holding {
+  owner: string;
+  owned: string;
+  role: 'parent' | 'shareholder'; // Role of the owner relative to the holding
+  percentage: number | null;
+}
+
+export interface OwnershipWalkNode {
+  key: string;
+  name: string;
+  hops: number;
+  path: OwnershipPathStep[];
+}
+
+export interface OwnershipWalk {
+  nodes: OwnershipWalkNode[];
+  truncated: boolean;
+}
+
+export interface OwnershipStatus {
+  aggregate: number;
+  blocked: boolean;
+  contributors: Array<{ key: string; percentage: number; assumed: boolean }>;
+}
+
+export class OwnershipGraph {
+  private static readonly RELATIONSHIPS: OwnershipRelationship[] = ['parent', 'subsidiary', 'shareholder'];
+  private static readonly CSV_COLUMNS = ['source', 'target', 'relationship', 'ownership_percentage'];
+
+  private names = new Map<string, string>();
+  private owners = new Map<string, Holding[]>(); // Keyed by holding
+  private holdings = new Map<string, Holding[]>(); // Keyed by owner
+
+  constructor(edges: OwnershipEdge[] = []) {
+    edges.forEach(edge => this.addEdge(edge));
+  }
+
+  /**
+   * Edges implied by entity-search's corporate_structure (no stakes are reported there)
+   */
+  static fromCorporateStructure(entity: string, structure: CorporateStructure): OwnershipEdge[] {
+    const edges: OwnershipEdge[] = [];
+
+    if (structure.parent_company && structure.parent_company.trim()) {
+      edges.push({ source: entity, target: structure.parent_company, relationship: 'parent', ownership_percentage: null });
+    }
+
+    (structure.subsidiaries || [])
+      .filter(subsidiary => typeof subsidiary === 'string' && subsidiary.trim())
+      .forEach(subsidiary => {
+        edges.push({ source: entity, target: subsidiary, relationship: 'subsidiary', ownership_percentage: null });
+      });
+
+    return edges;
+  }
+
+  /**
+   * Parse an uploaded edge file with a source,target,relationship,ownership_percentage header
+   */
+  static async parseEdgesCsv(text: string): Promise<OwnershipEdge[]> {
+    const rows = await CsvParser.parse(text);
+    if (rows.length === 0) {
+      throw new ValidationError('edges_csv is empty');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const columns = this.CSV_COLUMNS.map(column => header.indexOf(column));
+    const missing = this.CSV_COLUMNS.slice(0, 3).filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      throw new ValidationError(`edges_csv header is missing: ${missing.join(', ')}`);
+    }
+
+    return rows.slice(1).map((fields, i) => {
+      const [source, target, relationship, percentage] = columns.map(column => (column === -1 ? '' : (fields[column] || '').trim()));
+      const row = i + 2;
+
+      if (!source || !target) {
+        throw new ValidationError(`edges_csv row ${row}: source and target are required`);
+      }
+
+      const normalizedRelationship = relationship.toLowerCase() as OwnershipRelationship;
+      if (!this.RELATIONSHIPS.includes(normalizedRelationship)) {
+        throw new ValidationError(`edges_csv row ${row}: relationship must be one of ${this.RELATIONSHIPS.join(', ')}`);
+      }
+
+      let ownershipPercentage: number | null = null;
+      if (percentage) {
+        ownershipPercentage = parseFloat(percentage.replace('%', ''));
+        if (isNaN(ownershipPercentage) || ownershipPercentage < 0 || ownershipPercentage > 100) {
+          throw new ValidationError(`edges_csv row ${row}: ownership_percentage must be between 0 and 100`);
+        }
+      }
+
+      return { source, target, relationship: normalizedRelationship, ownership_percentage: ownershipPercentage };
+    });
+  }
+
+  static normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  addEdge(edge: OwnershipEdge): void {
+    const source = this.register(edge.source);
+    const target = this.register(edge.target);
+    if (source === target) return;
+
+    const holding: Holding = edge.relationship === 'subsidiary'
+      ? { owner: source, owned: target, role: 'parent', percentage: edge.ownership_percentage ?? null }
+      : { owner: target, owned: source, role: edge.relationship, percentage: edge.ownership_percentage ?? null };
+
+    // The same stake may be reported from both sides; keep the most specific
+    const existing = (this.owners.get(holding.owned) || []).find(h => h.owner === holding.owner);
+    if (existing) {
+      if (existing.percentage === null) existing.percentage = holding.percentage;
+      if (holding.role === 'parent') existing.role = 'parent';
+      return;
+    }
+
+    this.push(this.owners, holding.owned, holding);
+    this.push(this.holdings, holding.owner, holding);
+  }
+
+  get size(): number {
+    return this.names.size;
+  }
+
+  getName(key: string): string {
+    return this.names.get(key) || key;
+  }
+
+  /**
+   * Breadth-first walk in both directions, keeping the shortest path to each node
+   */
+  walk(root: string, maxHops: number, maxNodes: number): OwnershipWalk {
+    const rootKey = this.register(root);
+    const visited = new Map<string, OwnershipWalkNode>();
+    visited.set(rootKey, { key: rootKey, name: this.getName(rootKey), hops: 0, path: [] });
+
+    let frontier = [rootKey];
+    let truncated = false;
+
+    for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+      const next: string[] = [];
+
+      for (const key of frontier) {
+        const current = visited.get(key)!;
+
+        for (const [neighbour, step] of this.neighbours(key)) {
+          if (visited.has(neighbour)) continue;
+          if (visited.size >= maxNodes) {
+            truncated = true;
+            continue;
+          }
+
+          visited.set(neighbour, { key: neighbour, name: this.getName(neighbour), hops, path: [...current.path, step] });
+          next.push(neighbour);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return { nodes: Array.from(visited.values()), truncated };
+  }
+
+  /**
+   * Compounded stake along a path that only moves up (the node's stake in the root)
+   * or only down (the root's stake in the node)
+   */
+  static effectiveOwnership(path: OwnershipPathStep[]): number | null {
+    if (path.length === 0) return null;
+    if (path.some(step => step.direction !== path[0].direction || step.ownership_percentage === null)) return null;
+
+    const fraction = path.reduce((product, step) => product * (step.ownership_percentage as number) / 100, 1);
+    return Math.round(fraction * 10000) / 100;
+  }
+
+  /**
+   * Propagate listed status: a node owned in aggregate at or above the threshold
+   * by listed or already-blocked owners is blocked too. Only stakes between the
+   * given nodes are considered. Parent stakes without a percentage count as
+   * assumedParentPercentage, shareholder stakes without one are ignored
+   */
+  computeOwnershipStatus(
+    nodes: string[],
+    listed: Set<string>,
+    threshold: number,
+    assumedParentPercentage: number
+  ): Map<string, OwnershipStatus> {
+    const inScope = new Set(nodes);
+    const blocked = new Set(Array.from(listed).filter(key => inScope.has(key)));
+
+    const statusOf = (key: string): OwnershipStatus => {
+      const contributors = (this.owners.get(key) || [])
+        .filter(holding => inScope.has(holding.owner) && blocked.has(holding.owner))
+        .map(holding => ({
+          key: holding.owner,
+          percentage: holding.percentage ?? (holding.role === 'parent' ? assumedParentPercentage : 0),
+          assumed: holding.percentage === null
+        }))
+        .filter(contributor => contributor.percentage > 0);
+
+      const aggregate = Math.min(100, contributors.reduce((sum, contributor) => sum + contributor.percentage, 0));
+      return { aggregate: Math.round(aggregate * 100) / 100, blocked: blocked.has(key), contributors };
+    };
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const key of nodes) {
+        if (!blocked.has(key) && statusOf(key).aggregate >= threshold) {
+          blocked.add(key);
+          changed = true;
+        }
+      }
+    }
+
+    const statuses = new Map<string, OwnershipStatus>();
+    nodes.forEach(key => statuses.set(key, statusOf(key)));
+    return statuses;
+  }
+
+  private neighbours(key: string): Array<[string, OwnershipPathStep]> {
+    const from = this.getName(key);
+
+    const up = (this.owners.get(key) || []).map((holding): [string, OwnershipPathStep] => [holding.owner, {
+      from,
+      to: this.getName(holding.owner),
+      relationship: holding.role,
+      ownership_percentage: holding.percentage,
+      direction: 'up'
+    }]);
+
+    const down = (this.holdings.get(key) || []).map((holding): [string, OwnershipPathStep] => [holding.owned, {
+      from,
+      to: this.getName(holding.owned),
+      relationship: 'subsidiary',
+      ownership_percentage: holding.percentage,
+      direction: 'down'
+    }]);
+
+    return [...up, ...down];
+  }
+
+  private register(name: string): string {
+    const key = OwnershipGraph.normalizeName(name);
+    if (!this.names.has(key)) {
+      this.names.set(key, name.trim());
+    }
+    return key;
+  }
+
+  private push(map: Map<string, Holding[]>, key: string, holding: Holding): void {
+    const list = map.get(key);
+    if (list) {
+      list.push(holding);
+    } else {
+      map.set(key, [holding]);
+    }
+  }
+}
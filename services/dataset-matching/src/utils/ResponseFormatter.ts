@@ -4,7 +4,9 @@ import {
   MatchResponse,
   BatchMatchResponse,
   ServiceResponse,
-  ServiceError
+  ServiceError,
+  EntityMatchReport,
+  AppliedOverride
 } from '../types/DatasetMatchTypes';
 
 export class ResponseFormatter {
@@ -49,6 +51,9 @@ export class ResponseFormatter {
     searchEntity: string,
     processingTimeMs: number,
     cacheHit: boolean = false,
+    explain?: EntityMatchReport,
+    configVersion?: string,
+    overridesApplied?: AppliedOverride[],
     statusCode: number = 200
   ): Response {
     const response: MatchResponse = {
@@ -58,7 +63,10 @@ export class ResponseFormatter {
         total_matches: matches.length,
         processing_time_ms: processingTimeMs,
         cache_hit: cacheHit,
-        search_entity: searchEntity
+        search_entity: searchEntity,
+        config_version: configVersion,
+        explain,
+        overrides_applied: overridesApplied
       }
     };
 
@@ -71,6 +79,9 @@ export class ResponseFormatter {
     processingTimeMs: number,
     cacheHits: number = 0,
     failedEntities: string[] = [],
+    explain?: Record<string, EntityMatchReport>,
+    configVersion?: string,
+    overridesApplied?: Record<string, AppliedOverride[]>,
     statusCode: number = 200
   ): Response {
     const totalMatches = Object.values(matchResults)
@@ -84,7 +95,10 @@ export class ResponseFormatter {
         total_matches: totalMatches,
         processing_time_ms: processingTimeMs,
         cache_hits: cacheHits,
-        failed_entities: failedEntities
+        failed_entities: failedEntities,
+        config_version: configVersion,
+        explain,
+        overrides_applied: overridesApplied
       }
     };
 
@@ -0,0 +1,101 @@
+import { IdentifierMatching } from '../algorithms/IdentifierMatching';
+import { IdentifierType, SpreadsheetColumnMapping } from '../types/DatasetMatchTypes';
+
+export interface ColumnDetectionResult {
+  columns: SpreadsheetColumnMapping | null;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Guesses which spreadsheet columns hold the entity name, country and
+ * identifiers from the header row. Headers are compared normalized
+ * ("Company Name" → company_name), exact pattern matches before partial ones.
+ */
+export class SpreadsheetColumnDetector {
+  // Most specific first, so "Supplier Name" wins over a bare "Name" column in the partial pass
+  private static readonly NAME_PATTERNS = [
+    'entity_name', 'organization_name', 'organisation_name', 'company_name', 'supplier_name', 'vendor_name',
+    'legal_name', 'counterparty_name', 'organization', 'organisation', 'company', 'supplier', 'vendor',
+    'counterparty', 'institution', 'entity', 'name'
+  ];
+
+  private static readonly COUNTRY_PATTERNS = [
+    'country', 'country_code', 'country_name', 'countries', 'jurisdiction', 'nation', 'nationality', 'location', 'region'
+  ];
+
+  static detect(headers: string[]): ColumnDetectionResult {
+    const normalized = headers.map(header => this.normalize(header));
+    const claimed = new Set<number>();
+
+    // Country first: "Country of registration" must not be taken for a registration number
+    const country = this.findColumn(normalized, this.COUNTRY_PATTERNS, claimed);
+    if (country) claimed.add(country.index);
+
+    const identifiers: Partial<Record<IdentifierType, string>> = {};
+    headers.forEach((header, index) => {
+      if (claimed.has(index) || !header.trim()) return;
+      const type = IdentifierMatching.typeForLabel(header);
+      if (type && !identifiers[type]) {
+        identifiers[type] = header;
+        claimed.add(index);
+      }
+    });
+
+    let confidence: ColumnDetectionResult['confidence'] = 'low';
+    let nameIndex: number | undefined;
+
+    const name = this.findColumn(normalized, this.NAME_PATTERNS, claimed);
+    if (name) {
+      nameIndex = name.index;
+      confidence = name.exact ? 'high' : 'medium';
+    } else {
+      // Fall back to the first unclaimed column with a header
+      nameIndex = headers.findIndex((header, index) => !claimed.has(index) && header.trim() !== '');
+      if (nameIndex === -1) {
+        return { columns: null, confidence: 'low' };
+      }
+    }
+
+    return {
+      columns: {
+        name: headers[nameIndex],
+        ...(country ? { country: headers[country.index] } : {}),
+        ...(Object.keys(identifiers).length > 0 ? { identifiers } : {})
+      },
+      confidence
+    };
+  }
+
+  /**
+   * Position of a header, compared case-insensitively and ignoring punctuation
+   */
+  static indexOf(headers: string[], header: string): number {
+    const target = this.normalize(header);
+    return headers.findIndex(candidate => this.normalize(candidate) === target);
+  }
+
+  private static findColumn(
+    normalized: string[],
+    patterns: string[],
+    claimed: Set<number>
+  ): { index: number; exact: boolean } | null {
+    const available = (index: number) => !claimed.has(index) && normalized[index] !== '';
+
+    for (const pattern of patterns) {
+      const index = normalized.findIndex((header, i) => available(i) && header === pattern);
+      if (index !== -1) return { index, exact: true };
+    }
+
+    // Partial matches must cover whole words: "nation" does not match "international_name"
+    for (const pattern of patterns) {
+      const index = normalized.findIndex((header, i) => available(i) && `_${header}_`.includes(`_${pattern}_`));
+      if (index !== -1) return { index, exact: false };
+    }
+
+    return null;
+  }
+
+  private static normalize(header: string): string {
+    return header.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Writes streaming responses as Server-Sent Events or newline-delimited JSON.
+ * SSE events carry an id so clients can resume with the Last-Event-ID header;
+ * NDJSON lines carry the same id in an "id" field
+ */
+import { Request, Response } from 'express';
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export class StreamWriter {
+  private closed = false;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private closeHandlers: Array<() => void> = [];
+
+  constructor(private res: Response, readonly format: StreamFormat) {
+    res.on('close', () => this.handleClose());
+  }
+
+  /**
+   * ?format=ndjson or an Accept header of application/x-ndjson selects NDJSON, otherwise SSE
+   */
+  static negotiate(req: Request): StreamFormat {
+    const format = String(req.query.format || '').toLowerCase();
+    if (format === 'ndjson' || format === 'sse') {
+      return format;
+    }
+    return (req.headers.accept || '').includes('application/x-ndjson') ? 'ndjson' : 'sse';
+  }
+
+  open(heartbeatIntervalMs: number): void {
+    this.res.writeHead(200, {
+      'Content-Type': this.format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable proxy buffering so events arrive as they are written
+    });
+
+    // Keep idle connections (slow entities, proxies with read timeouts) open
+    this.heartbeat = setInterval(() => {
+      if (this.format === 'sse') {
+        this.write(': ping\n\n');
+      } else {
+        this.write(`${JSON.stringify({ event: 'ping', timestamp: new Date().toISOString() })}\n`);
+      }
+    }, heartbeatIntervalMs);
+  }
+
+  send(event: string, data: Record<string, any>, id?: number): void {
+    if (this.format === 'sse') {
+      const idLine = id !== undefined ? `id: ${id}\n` : '';
+      this.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } else {
+      this.write(`${JSON.stringify({ event, ...(id !== undefined ? { id } : {}), ...data })}\n`);
+    }
+  }
+
+  end(): void {
+    this.stopHeartbeat();
+    if (!this.closed) {
+      this.closed = true;
+      this.res.end();
+    }
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  onClose(handler: () => void): void {
+    this.closeHandlers.push(handler);
+  }
+
+  private write(chunk: string): void {
+    if (this.closed) return;
+    try {
+      this.res.write(chunk);
+    } catch (error) {
+      console.error('Error writing stream event:', error);
+      this.handleClose();
+    }
+  }
+
+  private handleClose(): void {
+    this.stopHeartbeat();
+    if (this.closed) return;
+    this.closed = true;
+    this.closeHandlers.forEach(handler => handler());
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * In-process approximate nearest-neighbour index over embedding vectors
+ * Random-hyperplane LSH: each table hashes a vector to the signs of its dot
+ * products with a few random hyperplanes, so vectors at a small angle share a
+ * bucket in at least one table with high probability. Bucket members are then
+ * re-ranked by exact cosine similarity.
+ */
+export interface VectorIndexOptions {
+  tables?: number;
+  hashBits?: number; // Hyperplanes per table; more bits give smaller buckets but lower recall
+  seed?: number; // Hyperplanes are seeded, so the same settings always build the same index
+}
+
+export interface VectorNeighbour {
+  key: string;
+  similarity: number;
+}
+
+export class VectorIndex {
+  private dimensions: number;
+  private tables: number;
+  private hashBits: number;
+  private planes: Float32Array[][];
+  private buckets: Array<Map<number, Set<string>>>;
+  private vectors = new Map<string, Float32Array[]>();
+
+  constructor(dimensions: number, options: VectorIndexOptions = {}) {
+    this.dimensions = dimensions;
+    this.tables = options.tables || 16;
+    this.hashBits = Math.min(options.hashBits || 8, 30);
+
+    const random = VectorIndex.seededGaussian(options.seed ?? 42);
+    this.planes = Array.from({ length: this.tables }, () =>
+      Array.from({ length: this.hashBits }, () => Float32Array.from({ length: dimensions }, random))
+    );
+    this.buckets = Array.from({ length: this.tables }, () => new Map<number, Set<string>>());
+  }
+
+  /**
+   * Index the vectors of one item (e.g. an entry's name and aliases), replacing earlier ones
+   */
+  add(key: string, vectors: Float32Array[]): void {
+    this.remove(key);
+    const usable = vectors.filter(vector => vector.length === this.dimensions);
+    if (usable.length === 0) return;
+
+    this.vectors.set(key, usable);
+    for (const vector of usable) {
+      this.planes.forEach((planes, table) => {
+        const hash = this.hash(vector, planes);
+        let bucket = this.buckets[table].get(hash);
+        if (!bucket) {
+          bucket = new Set<string>();
+          this.buckets[table].set(hash, bucket);
+        }
+        bucket.add(key);
+      });
+    }
+  }
+
+  remove(key: string): void {
+    const vectors = this.vectors.get(key);
+    if (!vectors) return;
+
+    for (const vector of vectors) {
+      this.planes.forEach((planes, table) => {
+        const hash = this.hash(vector, planes);
+        const bucket = this.buckets[table].get(hash);
+        if (!bucket) return;
+        bucket.delete(key);
+        if (bucket.size === 0) this.buckets[table].delete(hash);
+      });
+    }
+    this.vectors.delete(key);
+  }
+
+  clear(): void {
+    this.vectors.clear();
+    this.buckets.forEach(bucket => bucket.clear());
+  }
+
+  /**
+   * Items whose closest vector is at least minSimilarity (cosine) from the query, best first
+   */
+  search(vector: Float32Array, limit: number, minSimilarity: number = 0): VectorNeighbour[] {
+    if (vector.length !== this.dimensions || this.vectors.size === 0) return [];
+
+    const candidates = new Set<string>();
+    this.planes.forEach((planes, table) => {
+      this.buckets[table].get(this.hash(vector, planes))?.forEach(key => candidates.add(key));
+    });
+
+    const neighbours: VectorNeighbour[] = [];
+    for (const key of candidates) {
+      const similarity = Math.max(...this.vectors.get(key)!.map(candidate => VectorIndex.dot(vector, candidate)));
+      if (similarity >= minSimilarity) {
+        neighbours.push({ key, similarity });
+      }
+    }
+
+    return neighbours
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  size(): number {
+    return this.vectors.size;
+  }
+
+  private hash(vector: Float32Array, planes: Float32Array[]): number {
+    let hash = 0;
+    planes.forEach((plane, bit) => {
+      if (VectorIndex.dot(vector, plane) >= 0) hash |= 1 << bit;
+    });
+    return hash;
+  }
+
+  private static dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+  }
+
+  /**
+   * Standard normal samples (Box-Muller over a mulberry32 generator)
+   */
+  private static seededGaussian(seed: number): () => number {
+    let state = seed >>> 0;
+    const uniform = () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+    };
+    return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+  }
+}
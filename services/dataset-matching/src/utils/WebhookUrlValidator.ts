@@ -0,0 +1,124 @@
+/**
+ * Webhook destinations supplied by API callers
+ * The service POSTs to these URLs from inside the network, so a URL must not
+ * reach internal hosts: only https is accepted, every address the host resolves
+ * to must be public, and with WATCHLIST_WEBHOOK_ALLOWED_HOSTS set the host must
+ * be listed (exactly, or as *.example.com for its subdomains). Listed hosts may
+ * resolve to private addresses, for receivers inside the network.
+ */
+import dns from 'dns';
+import net from 'net';
+import { ValidationError } from './ErrorHandler';
+
+type LookupCallback = (error: Error | null, addresses: Array<{ address: string; family: 4 | 6 }>) => void;
+
+export class WebhookUrlValidator {
+  private static readonly BLOCKED = WebhookUrlValidator.createBlockList();
+
+  /**
+   * Check a webhook URL before it is stored; throws ValidationError with the reason
+   */
+  static async validate(url: string, field: string = 'webhook_url'): Promise<void> {
+    const parsed = this.parse(url, field);
+    if (this.isAllowedHost(parsed.hostname)) return;
+
+    const addresses = await this.resolve(parsed.hostname).catch(() => {
+      throw new ValidationError(`${field} host ${parsed.hostname} could not be resolved`);
+    });
+    if (addresses.some(address => this.isPrivateAddress(address))) {
+      throw new ValidationError(`${field} must not point to a private, loopback or link-local address`);
+    }
+  }
+
+  /**
+   * Parse and check scheme, credentials and allowlist, without resolving the host
+   */
+  static parse(url: string, field: string = 'webhook_url'): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ValidationError(`${field} must be a valid URL`);
+    }
+
+    if (parsed.protocol !== 'https:') {
+      throw new ValidationError(`${field} must be an https URL`);
+    }
+    if (parsed.username || parsed.password) {
+      throw new ValidationError(`${field} must not contain credentials`);
+    }
+    if (this.allowedHosts().length > 0 && !this.isAllowedHost(parsed.hostname)) {
+      throw new ValidationError(`${field} host ${parsed.hostname} is not in WATCHLIST_WEBHOOK_ALLOWED_HOSTS`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Resolver for outgoing webhook requests (axios lookup). Checking again at
+   * connect time stops a host that passed validation from being re-pointed
+   * at an internal address afterwards
+   */
+  static lookup = (hostname: string, options: object, callback: LookupCallback): void => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, []);
+        return;
+      }
+
+      const blocked = !WebhookUrlValidator.isAllowedHost(hostname) &&
+        addresses.some(entry => WebhookUrlValidator.isPrivateAddress(entry.address));
+      if (blocked) {
+        callback(Object.assign(new Error(`Webhook host ${hostname} resolves to a private address`), { code: 'EWEBHOOKBLOCKED' }), []);
+        return;
+      }
+
+      callback(null, addresses.map(entry => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 })));
+    });
+  };
+
+  static isPrivateAddress(address: string): boolean {
+    // IPv4-mapped IPv6 (::ffff:10.0.0.1) reaches the IPv4 host
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return this.isPrivateAddress(mapped[1]);
+
+    const family = net.isIP(address);
+    if (family === 0) return true;
+    return this.BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  private static isAllowedHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return this.allowedHosts().some(allowed =>
+      allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+    );
+  }
+
+  private static allowedHosts(): string[] {
+    return (process.env.WATCHLIST_WEBHOOK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  private static async resolve(hostname: string): Promise<string[]> {
+    // URL keeps the brackets of IPv6 literals
+    const host = hostname.replace(/^\[(.*)\]$/, '$1');
+    if (net.isIP(host)) return [host];
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.map(entry => entry.address);
+  }
+
+  private static createBlockList(): net.BlockList {
+    const blockList = new net.BlockList();
+    const ipv4: Array<[string, number]> = [
+      ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+      ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+    ];
+    const ipv6: Array<[string, number]> = [
+      ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+    ];
+    ipv4.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv4'));
+    ipv6.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv6'));
+    return blockList;
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { XlsxWorkbook } from './XlsxWorkbook';
+
+// Written as Excel writes it: shared and rich-text strings, an inline string,
+// a date-formatted serial, formulas with cached results and a gap row
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'suppliers.xlsx'));
+
+describe('XlsxWorkbook', () => {
+  it('reads the display text of each cell', async () => {
+    const workbook = await XlsxWorkbook.load(fixture);
+
+    expect(workbook.getSheetNames()).toEqual(['Suppliers', 'Notes & Sources']);
+    expect(workbook.readRows()).toEqual([
+      { rowNumber: 1, cells: ['Supplier Name', 'Country', 'Onboarded', 'Spend'] },
+      { rowNumber: 2, cells: ['Harbin Institute of Technology', 'China', '2024-01-01', '1250.5'] },
+      { rowNumber: 4, cells: ['Beihang University', '', '2024-02-01', '2501'] },
+      { rowNumber: 5, cells: ['Acme & Sons, Ltd', 'FALSE'] }
+    ]);
+    expect(workbook.readRows('Notes & Sources')).toEqual([
+      { rowNumber: 1, cells: ['Source'] },
+      { rowNumber: 2, cells: ['Internal review'] }
+    ]);
+  });
+
+  it('appends columns after the last used column and keeps the other sheets', async () => {
+    const workbook = await XlsxWorkbook.load(fixture);
+    workbook.appendColumns('Suppliers', new Map([
+      [1, ['Status', 'Score']],
+      [2, ['match', 0.97]],
+      [5, ['no_match', null]]
+    ]));
+
+    const reloaded = await XlsxWorkbook.load(await workbook.toBuffer());
+
+    expect(reloaded.readRows('Suppliers')).toEqual([
+      { rowNumber: 1, cells: ['Supplier Name', 'Country', 'Onboarded', 'Spend', 'Status', 'Score'] },
+      { rowNumber: 2, cells: ['Harbin Institute of Technology', 'China', '2024-01-01', '1250.5', 'match', '0.97'] },
+      { rowNumber: 4, cells: ['Beihang University', '', '2024-02-01', '2501'] },
+      { rowNumber: 5, cells: ['Acme & Sons, Ltd', 'FALSE', '', '', 'no_match'] }
+    ]);
+    expect(reloaded.readRows('Notes & Sources')).toHaveLength(2);
+  });
+
+  it('rejects files that are not .xlsx workbooks', async () => {
+    await expect(XlsxWorkbook.load(Buffer.from('name,country\n'))).rejects.toThrow('Not an .xlsx file');
+    await expect(XlsxWorkbook.load(fixture)).resolves.toBeInstanceOf(XlsxWorkbook);
+  });
+
+  it('reports unknown sheet names', async () => {
+    const workbook = await XlsxWorkbook.load(fixture);
+
+    expect(() => workbook.readRows('Sheet9')).toThrow('Sheet "Sheet9" not found');
+  });
+});
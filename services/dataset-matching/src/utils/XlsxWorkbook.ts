@@ -0,0 +1,110 @@
+/**
+ * Reads the cell values of .xlsx worksheets and appends columns to a sheet
+ * in place, on top of ExcelJS. Other sheets, styles, formulas and column
+ * widths are written back as ExcelJS read them.
+ */
+import ExcelJS from 'exceljs';
+
+export type XlsxCellValue = string | number | null;
+
+export interface XlsxRow {
+  rowNumber: number; // 1-based, as in the sheet
+  cells: string[]; // Display text per column (A = 0); numbers as stored, dates as YYYY-MM-DD
+}
+
+export class XlsxWorkbook {
+  private workbook: ExcelJS.Workbook;
+
+  private constructor(workbook: ExcelJS.Workbook) {
+    this.workbook = workbook;
+  }
+
+  static async load(buffer: Buffer): Promise<XlsxWorkbook> {
+    // Every .xlsx is a zip archive; legacy .xls files are not
+    if (buffer.length < 4 || buffer.readUInt32LE(0) !== 0x04034b50) {
+      throw new Error('Not an .xlsx file (legacy .xls workbooks are not supported)');
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    // ExcelJS declares its own Buffer type, which Node's Buffer does not satisfy
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+    if (workbook.worksheets.length === 0) {
+      throw new Error('Workbook contains no worksheets');
+    }
+    return new XlsxWorkbook(workbook);
+  }
+
+  getSheetNames(): string[] {
+    return this.workbook.worksheets.map(sheet => sheet.name);
+  }
+
+  /**
+   * Non-empty rows of a sheet (the first sheet by default)
+   */
+  readRows(sheetName?: string): XlsxRow[] {
+    const rows: XlsxRow[] = [];
+
+    this.getSheet(sheetName).eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: false }, (cell, columnNumber) => {
+        const value = XlsxWorkbook.cellText(cell.value);
+        if (value !== '') {
+          while (cells.length < columnNumber - 1) cells.push('');
+          cells[columnNumber - 1] = value;
+        }
+      });
+
+      if (cells.some(cell => cell.trim() !== '')) {
+        rows.push({ rowNumber, cells });
+      }
+    });
+
+    return rows;
+  }
+
+  /**
+   * Append cells after the last used column of a sheet. Values are keyed by
+   * row number; every keyed row must already exist in the sheet.
+   */
+  appendColumns(sheetName: string | undefined, values: Map<number, XlsxCellValue[]>): void {
+    const sheet = this.getSheet(sheetName);
+    const firstColumn = this.readRows(sheet.name).reduce((max, row) => Math.max(max, row.cells.length), 0);
+
+    values.forEach((cells, rowNumber) => {
+      const row = sheet.getRow(rowNumber);
+      cells.forEach((value, offset) => {
+        if (value !== null && value !== '') {
+          row.getCell(firstColumn + offset + 1).value = value;
+        }
+      });
+      row.commit();
+    });
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    return Buffer.from(await this.workbook.xlsx.writeBuffer());
+  }
+
+  private getSheet(sheetName?: string): ExcelJS.Worksheet {
+    if (sheetName === undefined) return this.workbook.worksheets[0];
+
+    const sheet = this.workbook.getWorksheet(sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found (sheets: ${this.getSheetNames().join(', ')})`);
+    }
+    return sheet;
+  }
+
+  private static cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if ('richText' in value) return value.richText.map(run => run.text).join('');
+    if ('hyperlink' in value) return XlsxWorkbook.cellText(value.text as ExcelJS.CellValue);
+    if ('formula' in value || 'sharedFormula' in value) return XlsxWorkbook.cellText(value.result ?? null);
+    if ('error' in value) return value.error;
+    return '';
+  }
+}
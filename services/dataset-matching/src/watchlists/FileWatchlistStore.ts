@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { Watchlist, WatchlistAlert, WatchlistEntity } from '../types/DatasetMatchTypes';
+import { WatchlistStore } from './WatchlistStore';
+
+/**
+ * Watchlist store on the local filesystem, one directory per watchlist:
+ *   watchlist.json   watchlist settings and screening state (replaced atomically)
+ *   entities.json    entities with their last match sets (replaced atomically)
+ *   alerts.ndjson    one alert per line, appended after each screening
+ */
+export class FileWatchlistStore implements WatchlistStore {
+  constructor(private baseDir: string) {
+    fs.mkdirSync(baseDir, { recursive: true });
+  }
+
+  async createWatchlist(watchlist: Watchlist, entities: WatchlistEntity[]): Promise<void> {
+    const watchlistDir = this.watchlistDir(watchlist.id);
+    await fs.promises.mkdir(watchlistDir, { recursive: true });
+    await fs.promises.writeFile(path.join(watchlistDir, 'alerts.ndjson'), '');
+    await this.writeAtomic(path.join(watchlistDir, 'entities.json'), JSON.stringify(entities));
+    await this.writeAtomic(path.join(watchlistDir, 'watchlist.json'), JSON.stringify(watchlist, null, 2));
+  }
+
+  async getWatchlist(watchlistId: string): Promise<Watchlist | null> {
+    return this.readJson<Watchlist | null>(path.join(this.watchlistDir(watchlistId), 'watchlist.json'), null);
+  }
+
+  async updateWatchlist(watchlistId: string, update: Partial<Watchlist>): Promise<Watchlist | null> {
+    const watchlist = await this.getWatchlist(watchlistId);
+    if (!watchlist) return null;
+
+    const updated = { ...watchlist, ...update, id: watchlistId };
+    await this.writeAtomic(path.join(this.watchlistDir(watchlistId), 'watchlist.json'), JSON.stringify(updated, null, 2));
+    return updated;
+  }
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    const watchlistIds = await fs.promises.readdir(this.baseDir);
+    const watchlists = await Promise.all(watchlistIds.map(watchlistId => this.getWatchlist(watchlistId).catch(() => null)));
+
+    return watchlists.filter((watchlist): watchlist is Watchlist => !!watchlist);
+  }
+
+  async deleteWatchlist(watchlistId: string): Promise<void> {
+    await fs.promises.rm(this.watchlistDir(watchlistId), { recursive: true, force: true });
+  }
+
+  async getEntities(watchlistId: string): Promise<WatchlistEntity[]> {
+    return this.readJson<WatchlistEntity[]>(path.join(this.watchlistDir(watchlistId), 'entities.json'), []);
+  }
+
+  async saveEntities(watchlistId: string, entities: WatchlistEntity[]): Promise<void> {
+    await this.writeAtomic(path.join(this.watchlistDir(watchlistId), 'entities.json'), JSON.stringify(entities));
+  }
+
+  async appendAlerts(watchlistId: string, alerts: WatchlistAlert[]): Promise<void> {
+    if (alerts.length === 0) return;
+    const lines = alerts.map(alert => JSON.stringify(alert)).join('\n') + '\n';
+    await fs.promises.appendFile(path.join(this.watchlistDir(watchlistId), 'alerts.ndjson'), lines);
+  }
+
+  async getAlerts(watchlistId: string, offset: number, limit: number): Promise<{ alerts: WatchlistAlert[]; total: number }> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(path.join(this.watchlistDir(watchlistId), 'alerts.ndjson'), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { alerts: [], total: 0 };
+      throw error;
+    }
+
+    // A trailing partial line (process killed mid-append) is ignored
+    const lines = content.split('\n').slice(0, -1).filter(line => line);
+    return {
+      alerts: lines.slice(offset, offset + limit).map(line => JSON.parse(line)),
+      total: lines.length
+    };
+  }
+
+  private async readJson<T>(file: string, missing: T): Promise<T> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return missing;
+      throw error;
+    }
+  }
+
+  private async writeAtomic(file: string, content: string): Promise<void> {
+    await fs.promises.writeFile(`${file}.tmp`, content);
+    await fs.promises.rename(`${file}.tmp`, file);
+  }
+
+  private watchlistDir(watchlistId: string): string {
+    // Watchlist ids are generated server-side; refuse anything that could escape the base directory
+    if (!/^[A-Za-z0-9_-]+$/.test(watchlistId)) {
+      throw new Error(`Invalid watchlist id: ${watchlistId}`);
+    }
+    return path.join(this.baseDir, watchlistId);
+  }
+}
@@ -0,0 +1,60 @@
+import { Watchlist, WatchlistAlert, WatchlistEntity } from '../types/DatasetMatchTypes';
+import { WatchlistStore } from './WatchlistStore';
+
+interface StoredWatchlist {
+  watchlist: Watchlist;
+  entities: WatchlistEntity[];
+  alerts: WatchlistAlert[];
+}
+
+/**
+ * Process-local watchlist store; watchlists and alerts are lost on restart
+ */
+export class InMemoryWatchlistStore implements WatchlistStore {
+  private watchlists = new Map<string, StoredWatchlist>();
+
+  async createWatchlist(watchlist: Watchlist, entities: WatchlistEntity[]): Promise<void> {
+    this.watchlists.set(watchlist.id, { watchlist: { ...watchlist }, entities: [...entities], alerts: [] });
+  }
+
+  async getWatchlist(watchlistId: string): Promise<Watchlist | null> {
+    const stored = this.watchlists.get(watchlistId);
+    return stored ? { ...stored.watchlist } : null;
+  }
+
+  async updateWatchlist(watchlistId: string, update: Partial<Watchlist>): Promise<Watchlist | null> {
+    const stored = this.watchlists.get(watchlistId);
+    if (!stored) return null;
+
+    stored.watchlist = { ...stored.watchlist, ...update, id: watchlistId };
+    return { ...stored.watchlist };
+  }
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values()).map(stored => ({ ...stored.watchlist }));
+  }
+
+  async deleteWatchlist(watchlistId: string): Promise<void> {
+    this.watchlists.delete(watchlistId);
+  }
+
+  async getEntities(watchlistId: string): Promise<WatchlistEntity[]> {
+    return [...(this.watchlists.get(watchlistId)?.entities || [])];
+  }
+
+  async saveEntities(watchlistId: string, entities: WatchlistEntity[]): Promise<void> {
+    const stored = this.watchlists.get(watchlistId);
+    if (stored) {
+      stored.entities = [...entities];
+    }
+  }
+
+  async appendAlerts(watchlistId: string, alerts: WatchlistAlert[]): Promise<void> {
+    this.watchlists.get(watchlistId)?.alerts.push(...alerts);
+  }
+
+  async getAlerts(watchlistId: string, offset: number, limit: number): Promise<{ alerts: WatchlistAlert[]; total: number }> {
+    const alerts = this.watchlists.get(watchlistId)?.alerts || [];
+    return { alerts: alerts.slice(offset, offset + limit), total: alerts.length };
+  }
+}
@@ -0,0 +1,20 @@
+import { Watchlist, WatchlistAlert, WatchlistEntity } from '../types/DatasetMatchTypes';
+
+/**
+ * Persistence for watchlists, the match set each entity had at its last
+ * screening, and the change alerts produced by re-screening. Alerts are
+ * appended in creation order and paged in that order.
+ */
+export interface WatchlistStore {
+  createWatchlist(watchlist: Watchlist, entities: WatchlistEntity[]): Promise<void>;
+  getWatchlist(watchlistId: string): Promise<Watchlist | null>;
+  updateWatchlist(watchlistId: string, update: Partial<Watchlist>): Promise<Watchlist | null>;
+  listWatchlists(): Promise<Watchlist[]>;
+  deleteWatchlist(watchlistId: string): Promise<void>;
+
+  getEntities(watchlistId: string): Promise<WatchlistEntity[]>;
+  saveEntities(watchlistId: string, entities: WatchlistEntity[]): Promise<void>;
+
+  appendAlerts(watchlistId: string, alerts: WatchlistAlert[]): Promise<void>;
+  getAlerts(watchlistId: string, offset: number, limit: number): Promise<{ alerts: WatchlistAlert[]; total: number }>;
+}
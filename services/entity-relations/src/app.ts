@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import { DeepThinkingSearchController } from './controllers/DeepThinkingSearchController';
 import { StandardSearchController } from './controllers/StandardSearchController';
 import { FeatureFlags } from './utils/FeatureFlags';
+import { LLMProviderRegistry } from './providers/LLMProviderRegistry';
 import { Logger } from './shared/utils/Logger';
 
 // Load environment variables
@@ -54,9 +55,8 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
 // Environment variable validation
 function validateEnvironment() {
-  const required = [
-    'GEMINI_API_KEY'
-  ];
+  // The Gemini key is only needed when Gemini is the default provider (not when running on fixtures)
+  const required = (process.env.LLM_PROVIDER || 'gemini') === 'gemini' ? ['GEMINI_API_KEY'] : [];
 
   const missing = required.filter(key => !process.env[key]);
 
@@ -131,6 +131,12 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Request timeout middleware
 app.use((req, res, next) => {
+  // Batch searches run one search per risk entity and can outlast the timeout;
+  // each search is bounded by its own Gemini API timeout instead
+  if (req.path.endsWith('/batch') || req.path.endsWith('/batch/stream')) {
+    return next();
+  }
+
   const timeout = setTimeout(() => {
     if (!res.headersSent) {
       logger.warn('Request timeout', {
@@ -177,14 +183,22 @@ app.get('/api/health', (req, res) => {
       'Grounding metadata extraction'
     ],
     grounding: featureFlags.enhanced_grounding,
+    llm_providers: {
+      default: LLMProviderRegistry.getInstance().getDefaultName(),
+      available: LLMProviderRegistry.getInstance().listAvailable()
+    },
     endpoints: {
       deepthinking_search: 'POST /api/deepthinking-search',
       deepthinking_health: 'GET /api/deepthinking/health',
       deepthinking_info: 'GET /api/deepthinking/info',
+      deepthinking_batch: 'POST /api/deepthinking-search/batch',
+      deepthinking_batch_stream: 'POST /api/deepthinking-search/batch/stream',
       normal_search: 'POST /api/normal-search',
       normal_health: 'GET /api/normal/health',
       normal_info: 'GET /api/normal/info',
       standard_search: 'POST /api/standard-search',
+      standard_batch: 'POST /api/standard-search/batch',
+      standard_batch_stream: 'POST /api/standard-search/batch/stream',
       standard_health: 'GET /api/standard/health',
       standard_info: 'GET /api/standard/info',
       grounding_admin: 'POST /api/admin/grounding/config', // Admin endpoint
@@ -260,11 +274,15 @@ app.post('/api/admin/grounding/emergency-disable', (req, res) => {
 
 // DeepThinking Search endpoints
 app.post('/api/deepthinking-search', deepThinkingSearchController.handleDeepThinkingSearch.bind(deepThinkingSearchController));
+app.post('/api/deepthinking-search/batch', deepThinkingSearchController.handleBatchSearch.bind(deepThinkingSearchController));
+app.post('/api/deepthinking-search/batch/stream', deepThinkingSearchController.handleBatchSearchStream.bind(deepThinkingSearchController));
 app.get('/api/deepthinking/health', deepThinkingSearchController.healthCheck.bind(deepThinkingSearchController));
 app.get('/api/deepthinking/info', deepThinkingSearchController.getInfo.bind(deepThinkingSearchController));
 
 // Standard Search endpoints
 app.post('/api/standard-search', standardSearchController.handleStandardSearch.bind(standardSearchController));
+app.post('/api/standard-search/batch', standardSearchController.handleBatchSearch.bind(standardSearchController));
+app.post('/api/standard-search/batch/stream', standardSearchController.handleBatchSearchStream.bind(standardSearchController));
 app.get('/api/standard/health', standardSearchController.healthCheck.bind(standardSearchController));
 app.get('/api/standard/info', standardSearchController.getInfo.bind(standardSearchController));
 
@@ -301,11 +319,15 @@ app.get('/api', (req, res) => {
     documentation: {
       deepthinking_endpoints: {
         search: 'POST /api/deepthinking-search - Advanced entity search',
+        batch: 'POST /api/deepthinking-search/batch - One institution against a list of risk entities',
+        batch_stream: 'POST /api/deepthinking-search/batch/stream - Batch search with SSE progress',
         health: 'GET /api/deepthinking/health - Service health check',
         info: 'GET /api/deepthinking/info - Service information'
       },
       standard_endpoints: {
         search: 'POST /api/standard-search - Fast entity verification',
+        batch: 'POST /api/standard-search/batch - One institution against a list of risk entities',
+        batch_stream: 'POST /api/standard-search/batch/stream - Batch search with SSE progress',
         health: 'GET /api/standard/health - Service health check',
         info: 'GET /api/standard/info - Service information'
       }
@@ -337,9 +359,13 @@ app.use('*', (req, res) => {
       'GET /api/health',
       'GET /api',
       'POST /api/deepthinking-search',
+      'POST /api/deepthinking-search/batch',
+      'POST /api/deepthinking-search/batch/stream',
       'GET /api/deepthinking/health',
       'GET /api/deepthinking/info',
       'POST /api/standard-search',
+      'POST /api/standard-search/batch',
+      'POST /api/standard-search/batch/stream',
       'GET /api/standard/health',
       'GET /api/standard/info'
     ]
@@ -1,13 +1,19 @@
 import { Request, Response } from 'express';
 import { GeminiDeepThinkingService } from '../services/GeminiDeepThinkingService';
+import { BatchSearchService } from '../services/BatchSearchService';
 import { NormalSearchRequest, NormalSearchResult, FormattedSearchOutput, OptimizedSearchResponse, SourceInfo, QualityMetrics } from '../types/gemini';
 import { FeatureFlags } from '../utils/FeatureFlags';
+import { SSEWriter } from '../utils/SSEWriter';
+import { ServiceError } from '../shared/errors/ServiceErrors';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
 
 export class DeepThinkingSearchController {
   private geminiService: GeminiDeepThinkingService;
+  private batchSearchService: BatchSearchService;
 
   constructor() {
     this.geminiService = new GeminiDeepThinkingService();
+    this.batchSearchService = new BatchSearchService('deepthinking', request => this.searchEntity(request));
   }
 
   /**
@@ -100,6 +106,10 @@ export class DeepThinkingSearchController {
         institution_A: result.institution_A,
         relationship_type: result.relationship_type,
         finding_summary: result.finding_summary,
+        ...(result.citations ? {
+          finding_summary_with_citations: result.finding_summary_with_citations,
+          citations: result.citations
+        } : {}),
         potential_intermediary_B: intermediaryString,
 
         // Source data information (processed from raw result)
@@ -121,7 +131,8 @@ export class DeepThinkingSearchController {
         timestamp: new Date().toISOString(),
         processing_time_ms: processingTime,
         enhanced_mode: enhancedMode,
-        api_version: '1.0.0'
+        api_version: '1.0.0',
+        search_mode: 'deepthinking'
       }
     };
   }
@@ -135,9 +146,19 @@ export class DeepThinkingSearchController {
         Risk_Entity: req.body.Risk_Entity,
         Location: req.body.Location,
         Start_Date: req.body.Start_Date,
-        End_Date: req.body.End_Date
+        End_Date: req.body.End_Date,
+        Provider: req.body.Provider,
+        Model: req.body.Model
       };
 
+      // A list of risk entities goes to the batch endpoint, which searches each one separately
+      if (Array.isArray(searchRequest.Risk_Entity)) {
+        res.status(400).json({
+          error: 'Risk_Entity must be a single name; use POST /api/deepthinking-search/batch for a list of risk entities'
+        });
+        return;
+      }
+
       // Validate required fields
       if (!searchRequest.Target_institution || !searchRequest.Risk_Entity) {
         res.status(400).json({
@@ -146,58 +167,17 @@ export class DeepThinkingSearchController {
         return;
       }
 
-      console.log('📨 DeepThinking Search Request:', searchRequest);
-
-      // Execute search with feature flag support
-      const startTime = Date.now();
-      const { results } = await this.geminiService.executeSearch(searchRequest);
-
-      // Handle no results case - Always use Optimized Format v2.1.0
-      if (!results || results.length === 0) {
-        res.status(200).json({
-          version: '2.1.0',
-          success: true,
-          data: {
-            risk_item: searchRequest.Risk_Entity,
-            institution_A: searchRequest.Target_institution,
-            relationship_type: 'No Evidence Found',
-            finding_summary: 'After thorough search, no evidence of connection was found.',
-            potential_intermediary_B: 'None',
-            sources: [],
-            sources_count: 0,
-            key_evidence: [],
-            quality_metrics: {
-              evidence_count: 0,
-              source_count: 0,
-              coverage_percentage: 0
-            }
-          },
-          metadata: {
-            timestamp: new Date().toISOString(),
-            enhanced_mode: false,
-            api_version: '1.0.0'
-          }
+      if (searchRequest.Provider !== undefined && !LLMProviderRegistry.getInstance().isAvailable(searchRequest.Provider)) {
+        res.status(400).json({
+          error: `Unknown LLM provider: ${searchRequest.Provider}`,
+          available_providers: LLMProviderRegistry.getInstance().listAvailable()
         });
-        console.log('✅ Returned Optimized Format v2.1.0 (no results)');
         return;
       }
 
-      // Always use Optimized Format v2.1.0
-      const processingTime = Date.now() - startTime;
-      const enhancedResult = results[0];
-      const responseResult = this.formatOptimizedSearchResults(enhancedResult, processingTime);
-
-      // Include grounding_supports data if available
-      if (enhancedResult.grounding_metadata && enhancedResult.grounding_metadata.grounding_supports) {
-        responseResult.data.grounding_metadata = enhancedResult.grounding_metadata;
-      }
+      console.log('📨 DeepThinking Search Request:', searchRequest);
 
-      // 🔍 [DEBUG] Log key evidence data
-      console.log('🔍 [BACKEND DEBUG] Key Evidence Data:', {
-        key_evidence_count: responseResult.data.key_evidence?.length || 0,
-        key_evidence_sample: responseResult.data.key_evidence?.slice(0, 2),
-        sources_count: responseResult.data.sources_count
-      });
+      const responseResult = await this.searchEntity(searchRequest);
 
       console.log('✅ DeepThinking Search completed - Using Optimized Format v2.1.0');
       res.status(200).json(responseResult);
@@ -213,6 +193,135 @@ export class DeepThinkingSearchController {
     }
   }
 
+  /**
+   * Search one risk entity and format the result; shared by single and batch searches
+   * and the replay suite. Errors propagate so batch searches can retry them
+   */
+  async searchEntity(searchRequest: NormalSearchRequest): Promise<OptimizedSearchResponse> {
+    // Execute search with feature flag support
+    const startTime = Date.now();
+    const { results, validation } = await this.geminiService.executeSearch(searchRequest);
+
+    // Handle no results case - Always use Optimized Format v2.1.0
+    if (!results || results.length === 0) {
+      // An unparseable answer is not the same as an answer with no evidence
+      const unparsed = validation?.status === 'invalid';
+      console.log('✅ Returned Optimized Format v2.1.0 (no results)');
+      return {
+        version: '2.1.0',
+        success: true,
+        data: {
+          risk_item: searchRequest.Risk_Entity,
+          institution_A: searchRequest.Target_institution,
+          relationship_type: unparsed ? 'Unknown' : 'No Evidence Found',
+          finding_summary: unparsed
+            ? 'The model answer could not be parsed into a finding; see metadata.validation.'
+            : 'After thorough search, no evidence of connection was found.',
+          potential_intermediary_B: 'None',
+          sources: [],
+          sources_count: 0,
+          key_evidence: [],
+          quality_metrics: {
+            evidence_count: 0,
+            source_count: 0,
+            coverage_percentage: 0
+          }
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          enhanced_mode: false,
+          api_version: '1.0.0',
+          search_mode: 'deepthinking',
+          ...(validation ? { validation } : {})
+        }
+      };
+    }
+
+    // Always use Optimized Format v2.1.0
+    const processingTime = Date.now() - startTime;
+    const enhancedResult = results[0];
+    const responseResult = this.formatOptimizedSearchResults(enhancedResult, processingTime);
+    if (validation) {
+      responseResult.metadata.validation = validation;
+    }
+
+    // Include grounding_supports data if available
+    if (enhancedResult.grounding_metadata && enhancedResult.grounding_metadata.grounding_supports) {
+      responseResult.data.grounding_metadata = enhancedResult.grounding_metadata;
+    }
+
+    // 🔍 [DEBUG] Log key evidence data
+    console.log('🔍 [BACKEND DEBUG] Key Evidence Data:', {
+      key_evidence_count: responseResult.data.key_evidence?.length || 0,
+      key_evidence_sample: responseResult.data.key_evidence?.slice(0, 2),
+      sources_count: responseResult.data.sources_count
+    });
+
+    return responseResult;
+  }
+
+  /**
+   * Check one institution against a list of risk entities
+   * POST /api/deepthinking-search/batch
+   */
+  async handleBatchSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const batchRequest = this.batchSearchService.parseRequest(req.body);
+      console.log(`📨 DeepThinking Batch Search Request: ${batchRequest.Target_institution} vs ${batchRequest.Risk_Entities.length} risk entities`);
+
+      res.status(200).json(await this.batchSearchService.run(batchRequest));
+    } catch (error) {
+      this.sendBatchError(res, error);
+    }
+  }
+
+  /**
+   * Batch search with progress streamed as Server-Sent Events:
+   * start, entity_start, retry, result (one per risk entity) and complete
+   * POST /api/deepthinking-search/batch/stream
+   */
+  async handleBatchSearchStream(req: Request, res: Response): Promise<void> {
+    let stream: SSEWriter | null = null;
+    try {
+      const batchRequest = this.batchSearchService.parseRequest(req.body);
+      console.log(`📨 DeepThinking Batch Search Stream: ${batchRequest.Target_institution} vs ${batchRequest.Risk_Entities.length} risk entities`);
+
+      const sse = stream = new SSEWriter(res);
+      const response = await this.batchSearchService.run(batchRequest, {
+        onStart: total => sse.send('start', { total, search_mode: 'deepthinking' }),
+        onEntityStart: (index, riskEntity) => sse.send('entity_start', { index, risk_entity: riskEntity }),
+        onRetry: (index, riskEntity, attempt, error, delayMs) =>
+          sse.send('retry', { index, risk_entity: riskEntity, attempt, error, delay_ms: delayMs }),
+        onEntityComplete: (result, completed, total) => sse.send('result', { ...result, completed, total })
+      }, () => sse.isClosed());
+
+      sse.send('complete', { summary: response.data.summary, metadata: response.metadata });
+      sse.end();
+    } catch (error) {
+      if (stream) {
+        console.error('❌ DeepThinking Batch Search Stream Error:', error);
+        stream.send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        stream.end();
+      } else {
+        this.sendBatchError(res, error);
+      }
+    }
+  }
+
+  private sendBatchError(res: Response, error: unknown): void {
+    if (error instanceof ServiceError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error('❌ DeepThinking Batch Search Error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal server error during deepthinking batch search',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async healthCheck(req: Request, res: Response): Promise<void> {
     res.status(200).json({
       status: 'healthy',
@@ -247,6 +356,8 @@ export class DeepThinkingSearchController {
       },
       api_endpoints: {
         search: 'POST /api/deepthinking-search',
+        batch: 'POST /api/deepthinking-search/batch',
+        batch_stream: 'POST /api/deepthinking-search/batch/stream (SSE)',
         health: 'GET /api/health',
         info: 'GET /api/info'
       },
@@ -255,7 +366,9 @@ export class DeepThinkingSearchController {
         Risk_Entity: 'string (required)',
         Location: 'string (required)',
         Start_Date: 'string (optional, YYYY-MM-DD)',
-        End_Date: 'string (optional, YYYY-MM-DD)'
+        End_Date: 'string (optional, YYYY-MM-DD)',
+        Provider: 'string (optional, LLM provider)',
+        Model: 'string (optional, model of that provider)'
       },
       response_format: {
         result: 'Formatted text output',
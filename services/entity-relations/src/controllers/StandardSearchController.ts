@@ -1,13 +1,19 @@
 import { Request, Response } from 'express';
 import { GeminiService } from '../services/GeminiService';
+import { BatchSearchService } from '../services/BatchSearchService';
 import { NormalSearchRequest, NormalSearchResult, FormattedSearchOutput, OptimizedSearchResponse, SourceInfo, QualityMetrics } from '../types/gemini';
 import { FeatureFlags } from '../utils/FeatureFlags';
+import { SSEWriter } from '../utils/SSEWriter';
+import { ServiceError } from '../shared/errors/ServiceErrors';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
 
 export class StandardSearchController {
   private geminiService: GeminiService;
+  private batchSearchService: BatchSearchService;
 
   constructor() {
     this.geminiService = new GeminiService();
+    this.batchSearchService = new BatchSearchService('standard', request => this.searchEntity(request));
   }
 
   /**
@@ -17,7 +23,7 @@ export class StandardSearchController {
   private formatStandardSearchResults(
     result: any,
     processingTime?: number
-  ): any {
+  ): OptimizedSearchResponse {
     // Handle intermediary_B array conversion to string
     let intermediaryString = 'None';
     if (Array.isArray(result.potential_intermediary_B) && result.potential_intermediary_B.length > 0) {
@@ -55,8 +61,14 @@ export class StandardSearchController {
         sources: sources,
         sources_count: sources.length,
 
+        // Standard Search has no grounding supports, so no key evidence
+        key_evidence: [],
+
         // Simple evidence quality - no complex metrics
         quality_metrics: {
+          evidence_count: 0,
+          source_count: sources.length,
+          coverage_percentage: 0,
           source_quality_score: 0.6
         }
       },
@@ -64,6 +76,8 @@ export class StandardSearchController {
       metadata: {
         timestamp: new Date().toISOString(),
         processing_time_ms: processingTime,
+        enhanced_mode: false,
+        api_version: '1.0.0',
         search_mode: 'standard'
       }
     };
@@ -78,9 +92,19 @@ export class StandardSearchController {
         Risk_Entity: req.body.Risk_Entity,
         Location: req.body.Location,
         Start_Date: req.body.Start_Date,
-        End_Date: req.body.End_Date
+        End_Date: req.body.End_Date,
+        Provider: req.body.Provider,
+        Model: req.body.Model
       };
 
+      // A list of risk entities goes to the batch endpoint, which searches each one separately
+      if (Array.isArray(searchRequest.Risk_Entity)) {
+        res.status(400).json({
+          error: 'Risk_Entity must be a single name; use POST /api/standard-search/batch for a list of risk entities'
+        });
+        return;
+      }
+
       // Validate required fields
       if (!searchRequest.Target_institution || !searchRequest.Risk_Entity) {
         res.status(400).json({
@@ -89,84 +113,17 @@ export class StandardSearchController {
         return;
       }
 
-      console.log('📨 Standard Search Request:', searchRequest);
-
-      // Execute search using GeminiService's verifyCompanyEntity method
-      const startTime = Date.now();
-      const result = await this.geminiService.verifyCompanyEntity(
-        searchRequest.Risk_Entity,
-        searchRequest.Location,
-        searchRequest.Target_institution,
-        {
-          start: searchRequest.Start_Date,
-          end: searchRequest.End_Date
-        }
-      );
-
-      // 🔍 [DEBUG] Log the raw result from GeminiService
-      console.log('🔍 [STANDARD DEBUG] Raw GeminiService result:', {
-        result_type: typeof result,
-        result_value: result,
-        is_null: result === null,
-        is_undefined: result === undefined,
-        is_empty_object: result && Object.keys(result).length === 0,
-        keys: result ? Object.keys(result) : 'no keys'
-      });
-
-      // Handle no result case - simplified Standard Search format
-      if (!result) {
-        console.log('❌ [STANDARD DEBUG] Triggering fallback response - result is falsy');
-        res.status(200).json({
-          version: '2.1.0',
-          success: true,
-          data: {
-            risk_item: searchRequest.Risk_Entity,
-            institution_A: searchRequest.Target_institution,
-            relationship_type: 'No Evidence Found',
-            finding_summary: 'After thorough search, no evidence of connection was found.',
-            potential_intermediary_B: 'None',
-            sources: [],
-            sources_count: 0,
-            quality_metrics: {
-              source_quality_score: 0.3
-            }
-          },
-          metadata: {
-            timestamp: new Date().toISOString(),
-            search_mode: 'standard'
-          }
+      if (searchRequest.Provider !== undefined && !LLMProviderRegistry.getInstance().isAvailable(searchRequest.Provider)) {
+        res.status(400).json({
+          error: `Unknown LLM provider: ${searchRequest.Provider}`,
+          available_providers: LLMProviderRegistry.getInstance().listAvailable()
         });
-        console.log('✅ Returned simplified Standard Search format (no results)');
         return;
       }
 
-      // ✅ [DEBUG] We have a valid result - process it normally
-      console.log('✅ [STANDARD DEBUG] Valid result received, processing normally...');
-
-      // 🔧 [FIX] Extract actual data from array result
-      const actualResult = Array.isArray(result) && result.length > 0 ? result[0] : result;
-
-      console.log('🔍 [STANDARD DEBUG] Extracted actual result:', {
-        is_array: Array.isArray(result),
-        array_length: Array.isArray(result) ? result.length : 0,
-        relationship_type: actualResult.relationship_type,
-        finding_summary: actualResult.finding_summary?.substring(0, 100) + '...',
-        sources_length: actualResult.sources?.length || 0,
-        keys: Object.keys(actualResult)
-      });
-
-      // Always use Optimized Format v2.1.0
-      const processingTime = Date.now() - startTime;
-
-      // Use simplified Standard Search formatting
-      const responseResult = this.formatStandardSearchResults(actualResult, processingTime);
+      console.log('📨 Standard Search Request:', searchRequest);
 
-      // 🔍 [DEBUG] Log simplified data
-      console.log('🔍 [BACKEND DEBUG] Standard Search Data:', {
-        sources_count: responseResult.data.sources_count,
-        relationship_type: responseResult.data.relationship_type,
-        search_mode: responseResult.metadata.search_mode
-      });
+      const responseResult = await this.searchEntity(searchRequest);
 
       console.log('✅ Standard Search completed - Using simplified Standard Search format');
       res.status(200).json(responseResult);
@@ -182,6 +139,165 @@ export class StandardSearchController {
     }
   }
 
+  /**
+   * Search one risk entity and format the result; shared by single and batch searches
+   * and the replay suite. Errors propagate so batch searches can retry them
+   */
+  async searchEntity(searchRequest: NormalSearchRequest): Promise<OptimizedSearchResponse> {
+    // Execute search using GeminiService's verifyCompanyEntity method
+    const startTime = Date.now();
+    const { value: result, validation } = await this.geminiService.verifyCompanyEntity(
+      searchRequest.Risk_Entity,
+      searchRequest.Location,
+      searchRequest.Target_institution,
+      {
+        start: searchRequest.Start_Date,
+        end: searchRequest.End_Date
+      },
+      { provider: searchRequest.Provider, model: searchRequest.Model }
+    );
+
+    // 🔍 [DEBUG] Log the raw result from GeminiService
+    console.log('🔍 [STANDARD DEBUG] Raw GeminiService result:', {
+      result_type: typeof result,
+      result_value: result,
+      is_null: result === null,
+      is_undefined: result === undefined,
+      is_empty_object: result && Object.keys(result).length === 0,
+      keys: result ? Object.keys(result) : 'no keys'
+    });
+
+    // Handle no result case - simplified Standard Search format
+    if (!result || (Array.isArray(result) && result.length === 0)) {
+      // An unparseable answer is not the same as an answer with no evidence
+      const unparsed = validation.status === 'invalid';
+      console.log('❌ [STANDARD DEBUG] Triggering fallback response - result is empty');
+      console.log('✅ Returned simplified Standard Search format (no results)');
+      return {
+        version: '2.1.0',
+        success: true,
+        data: {
+          risk_item: searchRequest.Risk_Entity,
+          institution_A: searchRequest.Target_institution,
+          relationship_type: unparsed ? 'Unknown' : 'No Evidence Found',
+          finding_summary: unparsed
+            ? 'The model answer could not be parsed into a finding; see metadata.validation.'
+            : 'After thorough search, no evidence of connection was found.',
+          potential_intermediary_B: 'None',
+          sources: [],
+          sources_count: 0,
+          key_evidence: [],
+          quality_metrics: {
+            evidence_count: 0,
+            source_count: 0,
+            coverage_percentage: 0,
+            source_quality_score: 0.3
+          }
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          enhanced_mode: false,
+          api_version: '1.0.0',
+          search_mode: 'standard',
+          validation
+        }
+      };
+    }
+
+    // ✅ [DEBUG] We have a valid result - process it normally
+    console.log('✅ [STANDARD DEBUG] Valid result received, processing normally...');
+
+    // 🔧 [FIX] Extract actual data from array result
+    const actualResult = Array.isArray(result) ? result[0] : result;
+
+    console.log('🔍 [STANDARD DEBUG] Extracted actual result:', {
+      is_array: Array.isArray(result),
+      array_length: Array.isArray(result) ? result.length : 0,
+      relationship_type: actualResult.relationship_type,
+      finding_summary: actualResult.finding_summary?.substring(0, 100) + '...',
+      sources_length: actualResult.sources?.length || 0,
+      keys: Object.keys(actualResult)
+    });
+
+    // Always use Optimized Format v2.1.0
+    const processingTime = Date.now() - startTime;
+
+    // Use simplified Standard Search formatting
+    const responseResult = this.formatStandardSearchResults(actualResult, processingTime);
+    responseResult.metadata.validation = validation;
+
+    // 🔍 [DEBUG] Log simplified data
+    console.log('🔍 [BACKEND DEBUG] Standard Search Data:', {
+      sources_count: responseResult.data.sources_count,
+      relationship_type: responseResult.data.relationship_type,
+      search_mode: responseResult.metadata.search_mode
+    });
+
+    return responseResult;
+  }
+
+  /**
+   * Check one institution against a list of risk entities
+   * POST /api/standard-search/batch
+   */
+  async handleBatchSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const batchRequest = this.batchSearchService.parseRequest(req.body);
+      console.log(`📨 Standard Batch Search Request: ${batchRequest.Target_institution} vs ${batchRequest.Risk_Entities.length} risk entities`);
+
+      res.status(200).json(await this.batchSearchService.run(batchRequest));
+    } catch (error) {
+      this.sendBatchError(res, error);
+    }
+  }
+
+  /**
+   * Batch search with progress streamed as Server-Sent Events:
+   * start, entity_start, retry, result (one per risk entity) and complete
+   * POST /api/standard-search/batch/stream
+   */
+  async handleBatchSearchStream(req: Request, res: Response): Promise<void> {
+    let stream: SSEWriter | null = null;
+    try {
+      const batchRequest = this.batchSearchService.parseRequest(req.body);
+      console.log(`📨 Standard Batch Search Stream: ${batchRequest.Target_institution} vs ${batchRequest.Risk_Entities.length} risk entities`);
+
+      const sse = stream = new SSEWriter(res);
+      const response = await this.batchSearchService.run(batchRequest, {
+        onStart: total => sse.send('start', { total, search_mode: 'standard' }),
+        onEntityStart: (index, riskEntity) => sse.send('entity_start', { index, risk_entity: riskEntity }),
+        onRetry: (index, riskEntity, attempt, error, delayMs) =>
+          sse.send('retry', { index, risk_entity: riskEntity, attempt, error, delay_ms: delayMs }),
+        onEntityComplete: (result, completed, total) => sse.send('result', { ...result, completed, total })
+      }, () => sse.isClosed());
+
+      sse.send('complete', { summary: response.data.summary, metadata: response.metadata });
+      sse.end();
+    } catch (error) {
+      if (stream) {
+        console.error('❌ Standard Batch Search Stream Error:', error);
+        stream.send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        stream.end();
+      } else {
+        this.sendBatchError(res, error);
+      }
+    }
+  }
+
+  private sendBatchError(res: Response, error: unknown): void {
+    if (error instanceof ServiceError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error('❌ Standard Batch Search Error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal server error during standard batch search',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async healthCheck(req: Request, res: Response): Promise<void> {
     res.status(200).json({
       status: 'healthy',
@@ -218,6 +334,8 @@ export class StandardSearchController {
       },
       api_endpoints: {
         search: 'POST /api/standard-search',
+        batch: 'POST /api/standard-search/batch',
+        batch_stream: 'POST /api/standard-search/batch/stream (SSE)',
         health: 'GET /api/standard/health',
         info: 'GET /api/standard/info'
       },
@@ -226,7 +344,9 @@ export class StandardSearchController {
         Risk_Entity: 'string (required)',
         Location: 'string (required)',
         Start_Date: 'string (optional, YYYY-MM-DD)',
-        End_Date: 'string (optional, YYYY-MM-DD)'
+        End_Date: 'string (optional, YYYY-MM-DD)',
+        Provider: 'string (optional, LLM provider)',
+        Model: 'string (optional, model of that provider)'
       },
       response_format: {
         result: 'Optimized Format v2.1.0',
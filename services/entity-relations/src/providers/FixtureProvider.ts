@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMGenerateRequest,
+  LLMProvider,
+  LLMResponse,
+  NormalizedGrounding
+} from './LLMProvider';
+
+export interface LLMFixture {
+  name?: string;
+  match?: {
+    prompt_contains?: string[]; // Case-insensitive; all must appear in the system instruction or prompt
+    search?: boolean;           // Only generateWithSearch (true) or only generate/stream (false)
+    model?: string;
+  };
+  response: {
+    text: string;
+    grounding?: NormalizedGrounding;
+    finish_reason?: string;
+  };
+}
+
+export interface LLMFixtureFile {
+  fixtures: LLMFixture[];
+  fallback?: LLMFixture['response']; // Answer for requests no fixture matches
+}
+
+/**
+ * Deterministic local provider that answers from fixtures instead of calling
+ * a model, so the search pipeline runs offline. Fixtures are read from
+ * LLM_FIXTURES_PATH (a JSON file or a directory of them) and tried in order;
+ * the first match wins. Requests nothing matches get the fallback, or fail.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly defaultModel = 'fixture';
+
+  private fixtures: LLMFixture[] = [];
+  private fallback?: LLMFixture['response'];
+
+  constructor(fixturesPath: string | undefined = process.env.LLM_FIXTURES_PATH) {
+    if (fixturesPath) {
+      this.load(fixturesPath);
+    }
+  }
+
+  /**
+   * Add fixtures ahead of those already loaded
+   */
+  addFixtures(file: LLMFixtureFile): void {
+    this.fixtures = [...file.fixtures, ...this.fixtures];
+    if (file.fallback) {
+      this.fallback = file.fallback;
+    }
+  }
+
+  getFixtureCount(): number {
+    return this.fixtures.length;
+  }
+
+  // Fixture answers are served as written, whatever the schema
+  supportsStructuredOutput(): boolean {
+    return false;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    return this.answer(request, false);
+  }
+
+  async generateWithSearch(request: LLMGenerateRequest): Promise<LLMResponse> {
+    return this.answer(request, true);
+  }
+
+  async stream(request: LLMGenerateRequest, onChunk: (text: string) => void): Promise<LLMResponse> {
+    const response = this.answer(request, false);
+    // Fixed-size chunks keep streamed output deterministic
+    for (let offset = 0; offset < response.text.length; offset += 64) {
+      onChunk(response.text.slice(offset, offset + 64));
+    }
+    return response;
+  }
+
+  private answer(request: LLMGenerateRequest, withSearch: boolean): LLMResponse {
+    const haystack = `${request.systemInstruction || ''}\n${request.prompt}`.toLowerCase();
+    const model = request.model || this.defaultModel;
+
+    const fixture = this.fixtures.find(candidate => {
+      const match = candidate.match || {};
+      if (match.search !== undefined && match.search !== withSearch) return false;
+      if (match.model && match.model !== model) return false;
+      return (match.prompt_contains || []).every(text => haystack.includes(text.toLowerCase()));
+    });
+
+    const response = fixture?.response || this.fallback;
+    if (!response) {
+      throw new Error(`No LLM fixture matches request: ${request.prompt.substring(0, 100)}`);
+    }
+
+    const text = response.text;
+    return {
+      text,
+      provider: this.name,
+      model,
+      finish_reason: response.finish_reason || 'STOP',
+      usage: {
+        prompt_tokens: Math.ceil(haystack.length / 4),
+        completion_tokens: Math.ceil(text.length / 4),
+        total_tokens: Math.ceil(haystack.length / 4) + Math.ceil(text.length / 4)
+      },
+      ...(withSearch ? { grounding: response.grounding || { sources: [], supports: [], queries: [] } } : {}),
+      raw: { fixture: fixture?.name || (fixture ? 'unnamed' : 'fallback') }
+    };
+  }
+
+  private load(fixturesPath: string): void {
+    const files = fs.statSync(fixturesPath).isDirectory()
+      ? fs.readdirSync(fixturesPath).filter(file => file.endsWith('.json')).sort().map(file => path.join(fixturesPath, file))
+      : [fixturesPath];
+
+    files.forEach(file => {
+      const data = JSON.parse(fs.readFileSync(file, 'utf8')) as LLMFixtureFile;
+      this.fixtures.push(...(data.fixtures || []));
+      if (data.fallback) {
+        this.fallback = data.fallback;
+      }
+    });
+
+    console.log(`🧪 Fixture LLM provider: ${this.fixtures.length} fixtures from ${files.length} file(s)`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,276 @@
+import axios, { AxiosInstance } from 'axios';
+import { GeminiGenerationConfig, GeminiRequest, GeminiResponse, GeminiTool } from '../types/gemini';
+import { ExternalApiError } from '../shared/errors/ServiceErrors';
+import { GeminiRecording, RecordedExchange } from './GeminiRecording';
+import {
+  LLMGenerateRequest,
+  LLMProvider,
+  LLMResponse,
+  NormalizedGrounding,
+  ResponseSchema
+} from './LLMProvider';
+
+/**
+ * Google Gemini adapter (generativelanguage.googleapis.com v1beta).
+ * Search grounding uses the google_search tool; grounding chunks, supports
+ * and web search queries are normalized into NormalizedGrounding.
+ * With LLM_RECORD_DIR set, every generateContent exchange is written there
+ * (API keys scrubbed) for replay; streamed calls are not recorded.
+ * Response schemas are enforced through responseSchema, which Gemini only
+ * accepts on calls without tools (search grounding or code execution).
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly defaultModel: string;
+
+  private apiClient: AxiosInstance;
+  private readonly maxRetries = 3;
+  private readonly recordDir = process.env.LLM_RECORD_DIR;
+  private recorders: Array<(exchange: RecordedExchange) => void> = [];
+
+  constructor(apiKey: string = process.env.GEMINI_API_KEY || '') {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is required');
+    }
+
+    this.defaultModel = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+    this.apiClient = axios.create({
+      baseURL: 'https://generativelanguage.googleapis.com/v1beta',
+      timeout: parseInt(process.env.API_TIMEOUT || '30000'),
+      headers: {
+        'Content-Type': 'application/json',
+        'X-goog-api-key': apiKey
+      }
+    });
+  }
+
+  /**
+   * Receive every recorded exchange, e.g. to build a replay case; returns a function that removes the recorder
+   */
+  addRecorder(recorder: (exchange: RecordedExchange) => void): () => void {
+    this.recorders.push(recorder);
+    return () => {
+      this.recorders = this.recorders.filter(current => current !== recorder);
+    };
+  }
+
+  supportsStructuredOutput(request: LLMGenerateRequest, withSearch: boolean): boolean {
+    return GeminiProvider.canEnforceSchema(request, withSearch);
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const data = await this.post(model, 'generateContent', GeminiProvider.buildRequestBody(request, false), request.timeoutMs);
+    return GeminiProvider.parseResponse(data, model, false);
+  }
+
+  async generateWithSearch(request: LLMGenerateRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const data = await this.post(model, 'generateContent', GeminiProvider.buildRequestBody(request, true), request.timeoutMs);
+    return GeminiProvider.parseResponse(data, model, true);
+  }
+
+  async stream(request: LLMGenerateRequest, onChunk: (text: string) => void): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.apiClient.post(
+      `/models/${model}:streamGenerateContent`,
+      GeminiProvider.buildRequestBody(request, false),
+      { params: { alt: 'sse' }, responseType: 'stream', timeout: request.timeoutMs }
+    ).catch(error => { throw this.toError(error); });
+
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+      let text = '';
+      let last: GeminiResponse | null = null;
+
+      // Events can be split across network chunks; only complete lines are parsed
+      const handleLine = (line: string) => {
+        if (!line.startsWith('data: ')) return;
+        try {
+          const data = JSON.parse(line.slice(6)) as GeminiResponse;
+          const chunk = GeminiProvider.extractText(data);
+          last = data;
+          if (chunk) {
+            text += chunk;
+            onChunk(chunk);
+          }
+        } catch (error) {
+          console.warn('⚠️ Failed to parse Gemini stream event:', line.substring(0, 100));
+        }
+      };
+
+      response.data.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(line => handleLine(line.trim()));
+      });
+
+      response.data.on('end', () => {
+        handleLine(buffer.trim());
+        const final = last as GeminiResponse | null;
+        resolve({
+          text,
+          provider: this.name,
+          model: final?.modelVersion || model,
+          finish_reason: final?.candidates?.[0]?.finishReason,
+          usage: GeminiProvider.extractUsage(final)
+        });
+      });
+
+      response.data.on('error', (error: Error) => reject(new ExternalApiError('Gemini', error.message)));
+    });
+  }
+
+  /**
+   * Gemini request body for a generation request; replay hashes the same body to find recordings
+   */
+  static buildRequestBody(request: LLMGenerateRequest, withSearch: boolean): GeminiRequest {
+    const body: GeminiRequest = {
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }]
+    };
+
+    if (request.systemInstruction) {
+      body.system_instruction = { parts: [{ text: request.systemInstruction }] };
+    }
+
+    const tools: GeminiTool[] = [];
+    if (withSearch) tools.push({ google_search: {} });
+    if (request.codeExecution) tools.push({ codeExecution: {} });
+    if (tools.length > 0) body.tools = tools;
+
+    const generationConfig: GeminiGenerationConfig = {};
+    if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+    if (request.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = request.maxOutputTokens;
+    if (request.topP !== undefined) generationConfig.topP = request.topP;
+    if (request.topK !== undefined) generationConfig.topK = request.topK;
+    if (request.stopSequences?.length) generationConfig.stopSequences = request.stopSequences;
+    // Leave thinkingConfig out unless asked for: with thinking enabled, grounding chunks can be missing
+    if (request.thinkingBudget !== undefined) generationConfig.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    if (GeminiProvider.canEnforceSchema(request, withSearch)) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseSchema = GeminiProvider.toGeminiSchema(request.responseSchema!);
+    }
+    if (Object.keys(generationConfig).length > 0) body.generationConfig = generationConfig;
+
+    return body;
+  }
+
+  static canEnforceSchema(request: LLMGenerateRequest, withSearch: boolean): boolean {
+    return !!request.responseSchema && !withSearch && !request.codeExecution;
+  }
+
+  // Gemini's OpenAPI-style schema: upper-case types, properties kept in declaration order
+  static toGeminiSchema(schema: ResponseSchema): Record<string, any> {
+    const { type, items, properties, ...rest } = schema;
+    return {
+      ...rest,
+      type: type.toUpperCase(),
+      ...(items ? { items: GeminiProvider.toGeminiSchema(items) } : {}),
+      ...(properties ? {
+        properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, GeminiProvider.toGeminiSchema(value)])),
+        propertyOrdering: Object.keys(properties)
+      } : {})
+    };
+  }
+
+  private async post(model: string, method: string, body: GeminiRequest, timeoutMs?: number): Promise<GeminiResponse> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.apiClient.post<GeminiResponse>(
+          `/models/${model}:${method}`,
+          body,
+          timeoutMs ? { timeout: timeoutMs } : undefined
+        );
+        this.record(model, method, body, response.data);
+        return response.data;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+        // Gateway errors are usually transient: retry with exponential backoff
+        if ((status === 502 || status === 503) && attempt < this.maxRetries) {
+          const delay = Math.pow(2, attempt) * 1000; // 2s, 4s
+          console.warn(`🔄 Gemini API ${status} error (attempt ${attempt}/${this.maxRetries}), retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw this.toError(error);
+      }
+    }
+  }
+
+  private record(model: string, method: string, body: GeminiRequest, data: GeminiResponse): void {
+    if (!this.recordDir && this.recorders.length === 0) return;
+
+    const exchange = GeminiRecording.create(model, method, body, data);
+    this.recorders.forEach(recorder => recorder(exchange));
+    if (this.recordDir) {
+      try {
+        console.log(`📼 Recorded Gemini exchange: ${GeminiRecording.write(this.recordDir, exchange)}`);
+      } catch (error) {
+        console.error('❌ Failed to record Gemini exchange:', error);
+      }
+    }
+  }
+
+  /**
+   * Normalized response from a raw Gemini response
+   */
+  static parseResponse(data: GeminiResponse, model: string, withSearch: boolean, provider: string = 'gemini'): LLMResponse {
+    return {
+      text: GeminiProvider.extractText(data),
+      provider,
+      model: data.modelVersion || model,
+      finish_reason: data.candidates?.[0]?.finishReason,
+      usage: GeminiProvider.extractUsage(data),
+      ...(withSearch ? { grounding: GeminiProvider.extractGrounding(data) } : {}),
+      raw: data
+    };
+  }
+
+  private toError(error: unknown): Error {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const message = (error.response?.data as any)?.error?.message || error.message;
+      return new ExternalApiError('Gemini', `(${status ?? 'no response'}) ${message}`, status);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  // All text parts of the first candidate; thinking models may split the answer across parts
+  static extractText(data: GeminiResponse | null | undefined): string {
+    const parts = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part?.text || '').join('');
+  }
+
+  static extractUsage(data: GeminiResponse | null | undefined): LLMResponse['usage'] {
+    const usage = data?.usageMetadata;
+    if (!usage) return undefined;
+    return {
+      prompt_tokens: usage.promptTokenCount || 0,
+      completion_tokens: usage.candidatesTokenCount || 0,
+      total_tokens: usage.totalTokenCount || 0
+    };
+  }
+
+  static extractGrounding(data: GeminiResponse | null | undefined): NormalizedGrounding {
+    const metadata = (data?.candidates?.[0] as any)?.groundingMetadata;
+
+    return {
+      sources: (metadata?.groundingChunks || []).map((chunk: any, index: number) => ({
+        index,
+        url: chunk.web?.uri || '',
+        title: chunk.web?.title || ''
+      })),
+      supports: (metadata?.groundingSupports || []).map((support: any) => ({
+        text: support.segment?.text || '',
+        start_index: support.segment?.startIndex || 0,
+        end_index: support.segment?.endIndex || 0,
+        source_indices: support.groundingChunkIndices || [],
+        ...(support.confidenceScores ? { confidence_scores: support.confidenceScores } : {})
+      })),
+      queries: metadata?.webSearchQueries || []
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { GeminiRequest, GeminiResponse } from '../types/gemini';
+
+// One raw Gemini API call, as sent and as answered
+export interface RecordedExchange {
+  id: string;            // Hash of method and request body; how replay finds the exchange
+  recorded_at: string;
+  model: string;
+  method: string;        // e.g. generateContent
+  request: GeminiRequest;
+  response: GeminiResponse;
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEYS = new Set(['key', 'apikey', 'api_key', 'x-goog-api-key', 'authorization']);
+const GOOGLE_API_KEY_PATTERN = /AIza[0-9A-Za-z_-]{35}/g;
+
+/**
+ * Reading and writing recorded Gemini exchanges. Recordings are scrubbed of
+ * API keys before they touch disk, so they can be committed as fixtures.
+ */
+export class GeminiRecording {
+  /**
+   * Replay key of a request. The model is left out so a recording made
+   * against one Gemini model still replays when the default model changes
+   */
+  static exchangeId(method: string, body: GeminiRequest): string {
+    return crypto.createHash('sha256').update(`${method}\n${JSON.stringify(body)}`).digest('hex').substring(0, 16);
+  }
+
+  static create(model: string, method: string, request: GeminiRequest, response: GeminiResponse): RecordedExchange {
+    return GeminiRecording.scrub({
+      id: GeminiRecording.exchangeId(method, request),
+      recorded_at: new Date().toISOString(),
+      model,
+      method,
+      request,
+      response
+    });
+  }
+
+  /**
+   * Deep copy with API keys removed: secret-named fields, Google API key
+   * patterns and the configured GEMINI_API_KEY value
+   */
+  static scrub<T>(value: T): T {
+    const configuredKey = process.env.GEMINI_API_KEY;
+
+    const scrubValue = (current: any): any => {
+      if (typeof current === 'string') {
+        let scrubbed = current.replace(GOOGLE_API_KEY_PATTERN, REDACTED);
+        if (configuredKey && configuredKey.length >= 8) {
+          scrubbed = scrubbed.split(configuredKey).join(REDACTED);
+        }
+        return scrubbed;
+      }
+      if (Array.isArray(current)) {
+        return current.map(scrubValue);
+      }
+      if (current && typeof current === 'object') {
+        return Object.fromEntries(Object.entries(current).map(([key, nested]) =>
+          [key, SECRET_KEYS.has(key.toLowerCase()) ? REDACTED : scrubValue(nested)]));
+      }
+      return current;
+    };
+
+    return scrubValue(value);
+  }
+
+  /**
+   * Write an exchange to its own file in dir; returns the file path
+   */
+  static write(dir: string, exchange: RecordedExchange): string {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${exchange.recorded_at.replace(/[:.]/g, '-')}-${exchange.id}.json`);
+    fs.writeFileSync(file, JSON.stringify(exchange, null, 2));
+    return file;
+  }
+
+  /**
+   * Exchanges from a file or a directory of files. A file holds one exchange,
+   * or an object with an "exchanges" array (replay cases)
+   */
+  static load(fileOrDir: string): RecordedExchange[] {
+    const files = fs.statSync(fileOrDir).isDirectory()
+      ? fs.readdirSync(fileOrDir).filter(file => file.endsWith('.json')).sort().map(file => path.join(fileOrDir, file))
+      : [fileOrDir];
+
+    return files.flatMap(file => {
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(data.exchanges) ? data.exchanges : [data];
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * LLM provider abstraction
+ *
+ * Search services talk to language models through this interface instead of
+ * building vendor request bodies and parsing vendor responses themselves.
+ * Grounding (web search) results are normalized into sources, supports and
+ * queries, whatever the vendor calls them.
+ */
+
+export interface LLMGenerateRequest {
+  prompt: string;
+  systemInstruction?: string;
+  model?: string;             // Overrides the provider's default model
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  thinkingBudget?: number;    // Reasoning tokens, where the model supports it
+  codeExecution?: boolean;    // Let the model run code while answering
+  responseSchema?: ResponseSchema; // Structured output, where the provider can enforce it
+  timeoutMs?: number;
+}
+
+// JSON Schema subset that providers can enforce and StructuredOutputService validates
+export interface ResponseSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  nullable?: boolean;
+  minLength?: number;
+  items?: ResponseSchema;
+  minItems?: number;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+}
+
+// A web page the answer is grounded on
+export interface GroundingSource {
+  index: number;              // 0-based position, referenced by supports
+  url: string;
+  title: string;
+}
+
+// A span of the answer text and the sources backing it
+export interface GroundingSupport {
+  text: string;
+  start_index: number;        // UTF-8 byte offsets into the answer text (Gemini counts bytes, not characters)
+  end_index: number;
+  source_indices: number[];
+  confidence_scores?: number[];
+}
+
+export interface NormalizedGrounding {
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  queries: string[];          // Search queries the model issued
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  finish_reason?: string;
+  usage?: LLMUsage;
+  grounding?: NormalizedGrounding; // Only for generateWithSearch
+  raw?: unknown;                   // Vendor response, for debugging
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  /** Plain text generation */
+  generate(request: LLMGenerateRequest): Promise<LLMResponse>;
+
+  /** Generation grounded on web search; the response carries normalized grounding */
+  generateWithSearch(request: LLMGenerateRequest): Promise<LLMResponse>;
+
+  /** Streamed generation; onChunk receives text as it arrives, the promise the complete response */
+  stream(request: LLMGenerateRequest, onChunk: (text: string) => void): Promise<LLMResponse>;
+
+  /** Whether the model's output is constrained to request.responseSchema for this call */
+  supportsStructuredOutput(request: LLMGenerateRequest, withSearch: boolean): boolean;
+}
+
+// Which provider and model a request should use; both fall back to the configured defaults
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+}
\ No newline at end of file
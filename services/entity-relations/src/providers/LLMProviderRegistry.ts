@@ -0,0 +1,76 @@
+import { LLMProvider } from './LLMProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { FixtureProvider } from './FixtureProvider';
+import { ReplayProvider } from './ReplayProvider';
+import { ValidationError } from '../shared/errors/ServiceErrors';
+
+/**
+ * Resolves LLM providers by name. Providers are created on first use, so a
+ * service running on fixtures never needs a Gemini API key. The default is
+ * LLM_PROVIDER (gemini); requests may pick another available provider.
+ */
+export class LLMProviderRegistry {
+  private static instance: LLMProviderRegistry;
+
+  private providers = new Map<string, LLMProvider>();
+  private factories = new Map<string, () => LLMProvider>([
+    ['gemini', () => new GeminiProvider()],
+    ['fixture', () => new FixtureProvider()],
+    ['replay', () => new ReplayProvider()]
+  ]);
+
+  public static getInstance(): LLMProviderRegistry {
+    if (!LLMProviderRegistry.instance) {
+      LLMProviderRegistry.instance = new LLMProviderRegistry();
+    }
+    return LLMProviderRegistry.instance;
+  }
+
+  getDefaultName(): string {
+    return process.env.LLM_PROVIDER || 'gemini';
+  }
+
+  /**
+   * Provider by name, or the default provider
+   */
+  get(name?: string): LLMProvider {
+    const providerName = name || this.getDefaultName();
+    if (!this.isAvailable(providerName)) {
+      throw new ValidationError(`Unknown LLM provider: ${providerName} (available: ${this.listAvailable().join(', ')})`);
+    }
+
+    let provider = this.providers.get(providerName);
+    if (!provider) {
+      provider = this.factories.get(providerName)!();
+      this.providers.set(providerName, provider);
+      console.log(`🤖 LLM provider ready: ${providerName} (default model ${provider.defaultModel})`);
+    }
+    return provider;
+  }
+
+  /**
+   * Add or replace a provider, e.g. a FixtureProvider with fixtures loaded in code
+   */
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+    this.factories.set(provider.name, () => provider);
+  }
+
+  /**
+   * The fixture and replay providers are only offered outside production, unless configured explicitly
+   */
+  isAvailable(name: string): boolean {
+    if (!this.factories.has(name)) return false;
+    if (name === 'fixture' && !this.providers.has(name)) {
+      return process.env.NODE_ENV !== 'production' || !!process.env.LLM_FIXTURES_PATH;
+    }
+    if (name === 'replay' && !this.providers.has(name)) {
+      return process.env.NODE_ENV !== 'production' || !!process.env.LLM_REPLAY_PATH;
+    }
+    return true;
+  }
+
+  listAvailable(): string[] {
+    return Array.from(this.factories.keys()).filter(name => this.isAvailable(name));
+  }
+}
\ No newline at end of file
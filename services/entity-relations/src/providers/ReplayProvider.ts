@@ -0,0 +1,69 @@
+import { GeminiProvider } from './GeminiProvider';
+import { GeminiRecording, RecordedExchange } from './GeminiRecording';
+import {
+  LLMGenerateRequest,
+  LLMProvider,
+  LLMResponse
+} from './LLMProvider';
+
+/**
+ * Serves recorded Gemini exchanges back instead of calling the API. Requests
+ * are turned into the exact Gemini request body and looked up by its hash,
+ * and answers go through the same response parsing as live Gemini calls, so
+ * a replayed search exercises the whole pipeline deterministically.
+ * Recordings are read from LLM_REPLAY_PATH (a file or a directory).
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly defaultModel = 'replay';
+
+  private exchanges = new Map<string, RecordedExchange>();
+
+  constructor(source: string | RecordedExchange[] | undefined = process.env.LLM_REPLAY_PATH) {
+    if (typeof source === 'string') {
+      this.addExchanges(GeminiRecording.load(source));
+      console.log(`📼 Replay LLM provider: ${this.exchanges.size} exchanges from ${source}`);
+    } else if (source) {
+      this.addExchanges(source);
+    }
+  }
+
+  addExchanges(exchanges: RecordedExchange[]): void {
+    exchanges.forEach(exchange => this.exchanges.set(exchange.id, exchange));
+  }
+
+  getExchangeCount(): number {
+    return this.exchanges.size;
+  }
+
+  // Recordings were made against Gemini, with its constraints
+  supportsStructuredOutput(request: LLMGenerateRequest, withSearch: boolean): boolean {
+    return GeminiProvider.canEnforceSchema(request, withSearch);
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMResponse> {
+    return this.replay(request, false);
+  }
+
+  async generateWithSearch(request: LLMGenerateRequest): Promise<LLMResponse> {
+    return this.replay(request, true);
+  }
+
+  async stream(request: LLMGenerateRequest, onChunk: (text: string) => void): Promise<LLMResponse> {
+    const response = this.replay(request, false);
+    for (let offset = 0; offset < response.text.length; offset += 64) {
+      onChunk(response.text.slice(offset, offset + 64));
+    }
+    return response;
+  }
+
+  private replay(request: LLMGenerateRequest, withSearch: boolean): LLMResponse {
+    const id = GeminiRecording.exchangeId('generateContent', GeminiProvider.buildRequestBody(request, withSearch));
+    const exchange = this.exchanges.get(id);
+    if (!exchange) {
+      throw new Error(`No recorded exchange ${id} for request: ${request.prompt.substring(0, 100)}`);
+    }
+
+    return GeminiProvider.parseResponse(exchange.response, exchange.model, withSearch, this.name);
+  }
+}
\ No newline at end of file
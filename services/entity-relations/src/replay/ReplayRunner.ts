@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StandardSearchController } from '../controllers/StandardSearchController';
+import { DeepThinkingSearchController } from '../controllers/DeepThinkingSearchController';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
+import { GeminiProvider } from '../providers/GeminiProvider';
+import { ReplayProvider } from '../providers/ReplayProvider';
+import { RecordedExchange } from '../providers/GeminiRecording';
+import { NormalSearchRequest, OptimizedSearchResponse, SearchMode } from '../types/gemini';
+
+// ==================== Replay Types ====================
+
+// One search, the Gemini exchanges it made and the response it should produce
+export interface ReplayCase {
+  name: string;
+  description?: string;
+  search_mode: SearchMode;
+  request: NormalSearchRequest;
+  exchanges: RecordedExchange[];
+  expected?: OptimizedSearchResponse; // Normalized; written by `replay check --update`
+}
+
+export interface ReplayCaseResult {
+  name: string;
+  file: string;
+  search_mode: SearchMode;
+  status: 'passed' | 'failed' | 'updated' | 'error';
+  differences: string[];
+  error?: string;
+}
+
+export interface ReplayReport {
+  cases_total: number;
+  passed: number;
+  failed: number;
+  updated: number;
+  results: ReplayCaseResult[];
+  processing_time_ms: number;
+}
+
+/**
+ * Runs recorded searches through the real controllers with the replay
+ * provider and compares the final OptimizedSearchResponse against the
+ * expected one, so changes to Gemini's output shape or to the parsing code
+ * show up as a diff instead of as a customer report.
+ */
+export class ReplayRunner {
+  private registry = LLMProviderRegistry.getInstance();
+  private controllers: Record<SearchMode, { searchEntity(request: NormalSearchRequest): Promise<OptimizedSearchResponse> }> = {
+    standard: new StandardSearchController(),
+    deepthinking: new DeepThinkingSearchController()
+  };
+
+  /**
+   * Case files from a file or a directory of files
+   */
+  static loadCases(fileOrDir: string): Array<{ file: string; replayCase: ReplayCase }> {
+    const files = fs.statSync(fileOrDir).isDirectory()
+      ? fs.readdirSync(fileOrDir).filter(file => file.endsWith('.json')).sort().map(file => path.join(fileOrDir, file))
+      : [fileOrDir];
+
+    return files.map(file => ({ file, replayCase: JSON.parse(fs.readFileSync(file, 'utf8')) as ReplayCase }));
+  }
+
+  static writeCase(file: string, replayCase: ReplayCase): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(replayCase, null, 2) + '\n');
+  }
+
+  /**
+   * Drop the fields that differ between runs of the same search
+   */
+  static normalize(response: OptimizedSearchResponse): OptimizedSearchResponse {
+    const normalized = JSON.parse(JSON.stringify(response));
+    delete normalized.metadata.timestamp;
+    delete normalized.metadata.processing_time_ms;
+    delete normalized.metadata.enhanced_mode; // Rollout setting, not derived from the response
+    return normalized;
+  }
+
+  /**
+   * Paths where actual differs from expected, e.g. `data.sources[1].url: expected "a", got "b"`
+   */
+  static diff(expected: unknown, actual: unknown, at: string = ''): string[] {
+    const label = at || '(root)';
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+      const differences = expected.length !== actual.length
+        ? [`${label}: expected ${expected.length} items, got ${actual.length}`]
+        : [];
+      for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+        differences.push(...ReplayRunner.diff(expected[i], actual[i], `${at}[${i}]`));
+      }
+      return differences;
+    }
+
+    if (ReplayRunner.isObject(expected) && ReplayRunner.isObject(actual)) {
+      const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)])).sort();
+      return keys.flatMap(key => ReplayRunner.diff(expected[key], actual[key], at ? `${at}.${key}` : key));
+    }
+
+    if (JSON.stringify(expected) === JSON.stringify(actual)) {
+      return [];
+    }
+    return [`${label}: expected ${ReplayRunner.preview(expected)}, got ${ReplayRunner.preview(actual)}`];
+  }
+
+  /**
+   * Replay every case; with update, cases are rewritten with their actual response instead of compared
+   */
+  async check(cases: Array<{ file: string; replayCase: ReplayCase }>, update: boolean = false): Promise<ReplayReport> {
+    const startTime = Date.now();
+    const results: ReplayCaseResult[] = [];
+
+    for (const { file, replayCase } of cases) {
+      results.push(await this.checkCase(file, replayCase, update));
+    }
+
+    return {
+      cases_total: results.length,
+      passed: results.filter(result => result.status === 'passed').length,
+      failed: results.filter(result => result.status === 'failed' || result.status === 'error').length,
+      updated: results.filter(result => result.status === 'updated').length,
+      results,
+      processing_time_ms: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Search live against Gemini and capture the exchanges and the response as a new case
+   */
+  async record(name: string, searchMode: SearchMode, request: NormalSearchRequest, description?: string): Promise<ReplayCase> {
+    const provider = this.registry.get('gemini') as GeminiProvider;
+    const exchanges: RecordedExchange[] = [];
+    const removeRecorder = provider.addRecorder(exchange => exchanges.push(exchange));
+
+    try {
+      const response = await this.controllers[searchMode].searchEntity({ ...request, Provider: 'gemini' });
+      return {
+        name,
+        ...(description ? { description } : {}),
+        search_mode: searchMode,
+        request,
+        exchanges,
+        expected: ReplayRunner.normalize(response)
+      };
+    } finally {
+      removeRecorder();
+    }
+  }
+
+  private async checkCase(file: string, replayCase: ReplayCase, update: boolean): Promise<ReplayCaseResult> {
+    const result: ReplayCaseResult = {
+      name: replayCase.name,
+      file,
+      search_mode: replayCase.search_mode,
+      status: 'passed',
+      differences: []
+    };
+
+    try {
+      const actual = await this.replay(replayCase);
+
+      if (update) {
+        ReplayRunner.writeCase(file, { ...replayCase, expected: actual });
+        result.status = 'updated';
+      } else if (!replayCase.expected) {
+        result.status = 'failed';
+        result.differences = ['(root): case has no expected response; run with --update'];
+      } else {
+        result.differences = ReplayRunner.diff(replayCase.expected, actual);
+        result.status = result.differences.length === 0 ? 'passed' : 'failed';
+      }
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return result;
+  }
+
+  private async replay(replayCase: ReplayCase): Promise<OptimizedSearchResponse> {
+    const controller = this.controllers[replayCase.search_mode];
+    if (!controller) {
+      throw new Error(`Unknown search_mode: ${replayCase.search_mode}`);
+    }
+
+    // Each case only sees its own recordings
+    this.registry.register(new ReplayProvider(replayCase.exchanges));
+    const response = await controller.searchEntity({ ...replayCase.request, Provider: 'replay' });
+    return ReplayRunner.normalize(response);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private static preview(value: unknown): string {
+    const text = value === undefined ? 'undefined' : JSON.stringify(value);
+    return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import * as path from 'path';
+import { ReplayRunner } from './ReplayRunner';
+
+// The same check as `npm run replay -- check`, so `npm test` fails on any
+// difference from a recorded case's expected response
+const cases = ReplayRunner.loadCases(path.join(__dirname, 'fixtures'));
+
+describe('replay suite', () => {
+  const runner = new ReplayRunner();
+
+  beforeAll(() => {
+    // Search progress logs would bury the test report
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('has cases to replay', () => {
+    expect(cases.length).toBeGreaterThan(0);
+  });
+
+  it.each(cases.map(entry => [entry.replayCase.name, entry] as const))('%s matches its expected response', async (_name, entry) => {
+    const report = await runner.check([entry]);
+    const [result] = report.results;
+
+    expect(result.error).toBeUndefined();
+    expect(result.differences).toEqual([]);
+    expect(result.status).toBe('passed');
+  });
+});
+
+describe('ReplayRunner.diff', () => {
+  it('reports differences by path', () => {
+    expect(ReplayRunner.diff(
+      { data: { sources: [{ url: 'a' }, { url: 'b' }] } },
+      { data: { sources: [{ url: 'a' }, { url: 'c' }] } }
+    )).toEqual(['data.sources[1].url: expected "b", got "c"']);
+    expect(ReplayRunner.diff({ findings: [1, 2] }, { findings: [1] })).toEqual(['findings: expected 2 items, got 1']);
+  });
+});
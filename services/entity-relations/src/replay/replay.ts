@@ -0,0 +1,153 @@
+/**
+ * Record-and-replay regression suite for Gemini grounding responses.
+ *
+ * Usage:
+ *   npm run replay -- check [--cases <dir|file>] [--update] [--json]
+ *   npm run replay -- record --name <name> --mode <standard|deepthinking>
+ *                            --institution <name> --risk <entity> --location <place>
+ *                            [--start <YYYY-MM>] [--end <YYYY-MM>] [--description <text>] [--out <dir>]
+ *
+ * check replays every case offline and fails on any difference from its
+ * expected response; --update rewrites the expected responses instead.
+ * record runs a live search (GEMINI_API_KEY required) and saves it as a case.
+ */
+import dotenv from 'dotenv';
+import * as path from 'path';
+import { ReplayReport, ReplayRunner } from './ReplayRunner';
+import { SearchMode } from '../types/gemini';
+
+dotenv.config();
+
+interface CliOptions {
+  command: 'check' | 'record';
+  cases: string;
+  update: boolean;
+  json: boolean;
+  name?: string;
+  mode?: SearchMode;
+  institution?: string;
+  risk?: string;
+  location?: string;
+  start?: string;
+  end?: string;
+  description?: string;
+  out: string;
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'check' && command !== 'record') {
+    throw new Error('Usage: replay <check|record> [options]');
+  }
+
+  const options: CliOptions = {
+    command,
+    cases: FIXTURES_DIR,
+    update: false,
+    json: false,
+    out: FIXTURES_DIR
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const value = () => {
+      const next = rest[++i];
+      if (!next) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--cases': options.cases = value(); break;
+      case '--update': options.update = true; break;
+      case '--json': options.json = true; break;
+      case '--name': options.name = value(); break;
+      case '--mode': options.mode = value() as SearchMode; break;
+      case '--institution': options.institution = value(); break;
+      case '--risk': options.risk = value(); break;
+      case '--location': options.location = value(); break;
+      case '--start': options.start = value(); break;
+      case '--end': options.end = value(); break;
+      case '--description': options.description = value(); break;
+      case '--out': options.out = value(); break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.command === 'record') {
+    if (!options.name || !options.institution || !options.risk || !options.location) {
+      throw new Error('record requires --name, --mode, --institution, --risk and --location');
+    }
+    if (options.mode !== 'standard' && options.mode !== 'deepthinking') {
+      throw new Error('--mode must be standard or deepthinking');
+    }
+  }
+
+  return options;
+}
+
+function printReport(report: ReplayReport): void {
+  console.log(`\n📼 Replay: ${report.cases_total} cases in ${report.processing_time_ms}ms`);
+  console.log(`   passed ${report.passed}  failed ${report.failed}  updated ${report.updated}`);
+
+  report.results.forEach(result => {
+    const icon = result.status === 'passed' ? '✅' : result.status === 'updated' ? '📝' : '❌';
+    console.log(`   ${icon} ${result.name} (${result.search_mode})`);
+    if (result.error) {
+      console.log(`        error: ${result.error}`);
+    }
+    result.differences.forEach(difference => console.log(`        ${difference}`));
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Keep stdout clean for the report: search logs go to stderr
+  const log = console.log;
+  console.log = (...args: any[]) => console.error(...args);
+
+  let report: ReplayReport | undefined;
+  let recordedFile: string | undefined;
+  try {
+    const runner = new ReplayRunner();
+
+    if (options.command === 'check') {
+      report = await runner.check(ReplayRunner.loadCases(options.cases), options.update);
+    } else {
+      const replayCase = await runner.record(options.name!, options.mode!, {
+        Target_institution: options.institution!,
+        Risk_Entity: options.risk!,
+        Location: options.location!,
+        ...(options.start ? { Start_Date: options.start } : {}),
+        ...(options.end ? { End_Date: options.end } : {})
+      }, options.description);
+      recordedFile = path.join(options.out, `${options.name}.json`);
+      ReplayRunner.writeCase(recordedFile, replayCase);
+    }
+  } finally {
+    console.log = log;
+  }
+
+  if (recordedFile) {
+    console.log(`📼 Recorded case: ${recordedFile}`);
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report!);
+  }
+
+  if (report!.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ Replay failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { ResponseSchema } from '../providers/LLMProvider';
+
+export const RELATIONSHIP_TYPES = ['Direct', 'Indirect', 'Significant Mention', 'Unknown', 'No Evidence Found'];
+
+/**
+ * The findings list both search modes ask the model for: one NormalSearchResult
+ * per risk entity. sources is optional because DeepThinking takes its sources
+ * from search grounding instead of the answer text.
+ */
+export const NORMAL_SEARCH_RESULTS_SCHEMA: ResponseSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      risk_item: { type: 'string', minLength: 1, description: 'Exact risk entity name from the input list' },
+      institution_A: { type: 'string', minLength: 1, description: 'Exact institution name from the input' },
+      relationship_type: { type: 'string', enum: RELATIONSHIP_TYPES },
+      finding_summary: { type: 'string', minLength: 1, description: 'Evidence-based analysis with numbered citations' },
+      potential_intermediary_B: { type: 'array', items: { type: 'string' }, nullable: true },
+      sources: { type: 'array', items: { type: 'string' }, description: 'URLs in citation order' }
+    },
+    required: ['risk_item', 'institution_A', 'relationship_type', 'finding_summary']
+  }
+};
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { BatchSearchService, EntitySearchFn } from './BatchSearchService';
+import { BatchEntityResult, NormalSearchRequest, OptimizedSearchResponse } from '../types/gemini';
+import { ValidationError } from '../shared/errors/ServiceErrors';
+
+const response = (request: NormalSearchRequest, relationshipType: string): OptimizedSearchResponse => ({
+  data: { risk_entity: request.Risk_Entity, relationship_type: relationshipType, sources_count: 2 }
+} as unknown as OptimizedSearchResponse);
+
+const request = (riskEntities: string[], overrides: Record<string, unknown> = {}) => ({
+  Target_institution: 'Harbin Engineering University',
+  Risk_Entities: riskEntities,
+  Location: 'China',
+  concurrency: 1,
+  max_retries: 0,
+  ...overrides
+});
+
+describe('BatchSearchService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  describe('parseRequest', () => {
+    const service = new BatchSearchService('standard', jest.fn());
+
+    it('trims and deduplicates risk entities, accepting Risk_Entity as an alias', () => {
+      const parsed = service.parseRequest({
+        Target_institution: 'Harbin Engineering University',
+        Risk_Entity: [' Norinco ', 'NORINCO', 'Huawei']
+      });
+
+      expect(parsed.Risk_Entities).toEqual(['Norinco', 'Huawei']);
+      expect(parsed.concurrency).toBe(3);
+      expect(parsed.max_retries).toBe(2);
+    });
+
+    it('rejects empty lists and out-of-range options', () => {
+      expect(() => service.parseRequest(request([]))).toThrow(ValidationError);
+      expect(() => service.parseRequest(request(['Norinco'], { concurrency: 11 }))).toThrow('concurrency');
+      expect(() => service.parseRequest(request(['Norinco'], { max_retries: -1 }))).toThrow('max_retries');
+    });
+  });
+
+  describe('environment settings', () => {
+    it('falls back to the defaults for malformed or out-of-range values', () => {
+      process.env.BATCH_SEARCH_CONCURRENCY = 'three';
+      process.env.BATCH_SEARCH_MAX_RETRIES = '99';
+      process.env.BATCH_SEARCH_MAX_ENTITIES = '0';
+
+      const parsed = new BatchSearchService('standard', jest.fn()).parseRequest({
+        Target_institution: 'Harbin Engineering University',
+        Risk_Entities: ['Norinco']
+      });
+
+      expect(parsed.concurrency).toBe(3);
+      expect(parsed.max_retries).toBe(2);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('BATCH_SEARCH_CONCURRENCY=three'));
+    });
+
+    it('uses valid values', () => {
+      process.env.BATCH_SEARCH_MAX_ENTITIES = '2';
+
+      const service = new BatchSearchService('standard', jest.fn());
+      expect(() => service.parseRequest(request(['Norinco', 'Huawei', 'CSIC']))).toThrow('maximum 2');
+    });
+  });
+
+  describe('run', () => {
+    it('returns results in request order with a roll-up summary', async () => {
+      const searchEntity: EntitySearchFn = async searchRequest =>
+        response(searchRequest, searchRequest.Risk_Entity === 'Norinco' ? 'Direct' : 'No Evidence Found');
+      const service = new BatchSearchService('standard', searchEntity);
+
+      const batch = await service.run(request(['Huawei', 'Norinco'], { concurrency: 2 }));
+
+      expect(batch.data.results.map(result => result.risk_entity)).toEqual(['Huawei', 'Norinco']);
+      expect(batch.data.summary).toMatchObject({
+        total: 2,
+        completed: 2,
+        failed: 0,
+        cancelled: 0,
+        flagged_entities: [{ risk_entity: 'Norinco', relationship_type: 'Direct' }],
+        total_sources: 4
+      });
+    });
+
+    it('retries a failed search and reports the entity as failed after the last attempt', async () => {
+      process.env.BATCH_SEARCH_RETRY_DELAY_MS = '0';
+      const searchEntity = jest.fn<Promise<OptimizedSearchResponse>, [NormalSearchRequest]>()
+        .mockRejectedValue(new Error('503 Service Unavailable'));
+      const service = new BatchSearchService('standard', searchEntity);
+
+      const batch = await service.run(request(['Norinco'], { max_retries: 2 }));
+
+      expect(searchEntity).toHaveBeenCalledTimes(3);
+      expect(batch.data.results[0]).toMatchObject({ status: 'failed', attempts: 3, error: '503 Service Unavailable' });
+      expect(batch.data.summary.failed_entities).toEqual(['Norinco']);
+    });
+
+    it('reports entities never started after a cancel as cancelled', async () => {
+      let cancelled = false;
+      const searchEntity: EntitySearchFn = async searchRequest => {
+        cancelled = true; // The client goes away during the first search
+        return response(searchRequest, 'No Evidence Found');
+      };
+      const completed: BatchEntityResult[] = [];
+      const service = new BatchSearchService('standard', searchEntity);
+
+      const batch = await service.run(
+        request(['Huawei', 'Norinco', 'CSIC']),
+        { onEntityComplete: result => completed.push(result) },
+        () => cancelled
+      );
+
+      expect(batch.data.results.map(result => [result.risk_entity, result.status])).toEqual([
+        ['Huawei', 'completed'],
+        ['Norinco', 'cancelled'],
+        ['CSIC', 'cancelled']
+      ]);
+      expect(batch.data.summary).toMatchObject({ total: 3, completed: 1, cancelled: 2, cancelled_entities: ['Norinco', 'CSIC'] });
+      expect(batch.metadata.cancelled).toBe(true);
+      expect(completed).toHaveLength(3);
+    });
+  });
+});
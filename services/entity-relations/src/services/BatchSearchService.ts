@@ -0,0 +1,285 @@
+import {
+  BatchEntityResult,
+  BatchSearchListener,
+  BatchSearchRequest,
+  BatchSearchResponse,
+  BatchSearchSummary,
+  NormalSearchRequest,
+  OptimizedSearchResponse,
+  SearchMode
+} from '../types/gemini';
+import { ValidationError } from '../shared/errors/ServiceErrors';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
+
+export type EntitySearchFn = (request: NormalSearchRequest) => Promise<OptimizedSearchResponse>;
+
+const FLAGGED_RELATIONSHIPS = ['Direct', 'Indirect', 'Significant Mention'];
+
+/**
+ * Batch mode for Standard and DeepThinking search: checks one institution
+ * against a list of risk entities. Each risk entity is searched on its own
+ * (a single prompt with the whole Risk List C loses findings), with bounded
+ * concurrency and retries per entity, and the results are rolled up into a
+ * summary.
+ */
+export class BatchSearchService {
+  private readonly maxConcurrency = 10;
+  private readonly maxEntities = BatchSearchService.envInt('BATCH_SEARCH_MAX_ENTITIES', 50, 1, 1000);
+  private readonly defaultConcurrency = BatchSearchService.envInt('BATCH_SEARCH_CONCURRENCY', 3, 1, this.maxConcurrency);
+  private readonly defaultMaxRetries = BatchSearchService.envInt('BATCH_SEARCH_MAX_RETRIES', 2, 0, 5);
+  private readonly retryBaseDelayMs = BatchSearchService.envInt('BATCH_SEARCH_RETRY_DELAY_MS', 1000, 0, 60000);
+
+  constructor(
+    private readonly searchMode: SearchMode,
+    private readonly searchEntity: EntitySearchFn
+  ) {}
+
+  /**
+   * Validate a batch request body. Risk entities are trimmed and deduplicated
+   * case-insensitively; Risk_Entity is accepted as an alias of Risk_Entities
+   */
+  parseRequest(body: any): BatchSearchRequest {
+    const riskEntities = body?.Risk_Entities ?? body?.Risk_Entity;
+
+    if (!body?.Target_institution || typeof body.Target_institution !== 'string') {
+      throw new ValidationError('Missing required field: Target_institution');
+    }
+    if (!Array.isArray(riskEntities) || riskEntities.length === 0) {
+      throw new ValidationError('Risk_Entities must be a non-empty array of risk entity names');
+    }
+    if (riskEntities.some(entity => typeof entity !== 'string' || !entity.trim())) {
+      throw new ValidationError('Risk_Entities must only contain non-empty strings');
+    }
+
+    const seen = new Set<string>();
+    const uniqueEntities = (riskEntities as string[])
+      .map(entity => entity.trim())
+      .filter(entity => {
+        const key = entity.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (uniqueEntities.length > this.maxEntities) {
+      throw new ValidationError(`Too many risk entities: ${uniqueEntities.length} (maximum ${this.maxEntities})`);
+    }
+
+    const concurrency = body.concurrency ?? this.defaultConcurrency;
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > this.maxConcurrency) {
+      throw new ValidationError(`concurrency must be an integer between 1 and ${this.maxConcurrency}`);
+    }
+
+    if (body.Provider !== undefined) {
+      LLMProviderRegistry.getInstance().get(body.Provider); // Unknown providers fail the whole batch up front
+    }
+    if (body.Model !== undefined && (typeof body.Model !== 'string' || !body.Model.trim())) {
+      throw new ValidationError('Model must be a non-empty string');
+    }
+
+    const maxRetries = body.max_retries ?? this.defaultMaxRetries;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 5) {
+      throw new ValidationError('max_retries must be an integer between 0 and 5');
+    }
+
+    return {
+      Target_institution: body.Target_institution,
+      Risk_Entities: uniqueEntities,
+      Location: body.Location,
+      Start_Date: body.Start_Date,
+      End_Date: body.End_Date,
+      Provider: body.Provider,
+      Model: body.Model,
+      concurrency,
+      max_retries: maxRetries
+    };
+  }
+
+  /**
+   * Search every risk entity and return the results in request order.
+   * isCancelled is checked before each search starts; searches already in
+   * flight are allowed to finish, and entities never started are reported
+   * as cancelled
+   */
+  async run(
+    request: BatchSearchRequest,
+    listener: BatchSearchListener = {},
+    isCancelled: () => boolean = () => false
+  ): Promise<BatchSearchResponse> {
+    const startTime = Date.now();
+    const total = request.Risk_Entities.length;
+    const concurrency = Math.min(request.concurrency ?? this.defaultConcurrency, total);
+    const maxRetries = request.max_retries ?? this.defaultMaxRetries;
+    const results: BatchEntityResult[] = [];
+
+    console.log(`📦 ${this.searchMode} batch search: ${request.Target_institution} vs ${total} risk entities (concurrency ${concurrency})`);
+    listener.onStart?.(total);
+
+    let next = 0;
+    let cancelled = false;
+    const worker = async () => {
+      while (next < total) {
+        if (isCancelled()) {
+          cancelled = true;
+          return;
+        }
+        const index = next++;
+        const result = await this.searchWithRetries(request, index, maxRetries, listener, isCancelled);
+        results.push(result);
+        listener.onEntityComplete?.(result, results.length, total);
+      }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    for (let index = next; index < total; index++) {
+      const result: BatchEntityResult = {
+        index,
+        risk_entity: request.Risk_Entities[index],
+        status: 'cancelled',
+        attempts: 0,
+        processing_time_ms: 0
+      };
+      results.push(result);
+      listener.onEntityComplete?.(result, results.length, total);
+    }
+
+    results.sort((a, b) => a.index - b.index);
+    const processingTime = Date.now() - startTime;
+    const summary = this.summarize(results, total, processingTime);
+
+    console.log(`✅ ${this.searchMode} batch search completed: ${summary.completed} completed, ${summary.failed} failed, ${summary.cancelled} cancelled, ${summary.flagged_entities.length} flagged in ${processingTime}ms`);
+
+    return {
+      version: '2.1.0',
+      success: true,
+      data: {
+        institution_A: request.Target_institution,
+        location: request.Location,
+        results,
+        summary
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        processing_time_ms: processingTime,
+        search_mode: this.searchMode,
+        concurrency,
+        max_retries: maxRetries,
+        cancelled,
+        api_version: '1.0.0'
+      }
+    };
+  }
+
+  private async searchWithRetries(
+    request: BatchSearchRequest,
+    index: number,
+    maxRetries: number,
+    listener: BatchSearchListener,
+    isCancelled: () => boolean
+  ): Promise<BatchEntityResult> {
+    const riskEntity = request.Risk_Entities[index];
+    const startTime = Date.now();
+    listener.onEntityStart?.(index, riskEntity);
+
+    let lastError = 'Unknown error';
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      try {
+        const result = await this.searchEntity({
+          Target_institution: request.Target_institution,
+          Risk_Entity: riskEntity,
+          Location: request.Location,
+          Start_Date: request.Start_Date,
+          End_Date: request.End_Date,
+          Provider: request.Provider,
+          Model: request.Model
+        });
+
+        return {
+          index,
+          risk_entity: riskEntity,
+          status: 'completed',
+          attempts: attempt,
+          processing_time_ms: Date.now() - startTime,
+          result
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+
+        if (attempt <= maxRetries && !isCancelled()) {
+          const delay = Math.pow(2, attempt - 1) * this.retryBaseDelayMs; // 1s, 2s, 4s...
+          console.warn(`🔄 Search for "${riskEntity}" failed (attempt ${attempt}/${maxRetries + 1}), retrying in ${delay}ms: ${lastError}`);
+          listener.onRetry?.(index, riskEntity, attempt, lastError, delay);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        console.error(`❌ Search for "${riskEntity}" failed after ${attempt} attempt(s): ${lastError}`);
+        return {
+          index,
+          risk_entity: riskEntity,
+          status: 'failed',
+          attempts: attempt,
+          processing_time_ms: Date.now() - startTime,
+          error: lastError
+        };
+      }
+    }
+
+    // Unreachable: the last attempt always returns
+    throw new Error(lastError);
+  }
+
+  private summarize(results: BatchEntityResult[], total: number, processingTime: number): BatchSearchSummary {
+    const relationshipCounts: Record<string, number> = {};
+    const flaggedEntities: BatchSearchSummary['flagged_entities'] = [];
+    let totalSources = 0;
+
+    results.forEach(entry => {
+      if (!entry.result) return;
+      const relationshipType = entry.result.data.relationship_type;
+      relationshipCounts[relationshipType] = (relationshipCounts[relationshipType] || 0) + 1;
+      totalSources += entry.result.data.sources_count;
+
+      if (FLAGGED_RELATIONSHIPS.includes(relationshipType)) {
+        flaggedEntities.push({ risk_entity: entry.risk_entity, relationship_type: relationshipType });
+      }
+    });
+
+    // Strongest links first
+    flaggedEntities.sort((a, b) =>
+      FLAGGED_RELATIONSHIPS.indexOf(a.relationship_type) - FLAGGED_RELATIONSHIPS.indexOf(b.relationship_type));
+
+    const failed = results.filter(entry => entry.status === 'failed');
+    const cancelled = results.filter(entry => entry.status === 'cancelled');
+
+    return {
+      total,
+      completed: results.length - failed.length - cancelled.length,
+      failed: failed.length,
+      cancelled: cancelled.length,
+      relationship_counts: relationshipCounts,
+      flagged_entities: flaggedEntities,
+      failed_entities: failed.map(entry => entry.risk_entity),
+      cancelled_entities: cancelled.map(entry => entry.risk_entity),
+      total_sources: totalSources,
+      processing_time_ms: processingTime
+    };
+  }
+
+  /**
+   * Integer setting from the environment; unset, malformed or out-of-range
+   * values fall back to the default
+   */
+  private static envInt(name: string, fallback: number, min: number, max: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      console.warn(`⚠️ Ignoring ${name}=${raw}: expected an integer between ${min} and ${max}, using ${fallback}`);
+      return fallback;
+    }
+    return value;
+  }
+}
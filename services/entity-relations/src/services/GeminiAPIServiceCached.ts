@@ -10,9 +10,9 @@
  * - Automatic cache invalidation for prompt changes
  * - Performance monitoring and metrics
  * - Graceful fallback to direct API calls
+ * - Any LLM provider from the provider registry (Gemini by default)
  */
 
-import axios, { AxiosResponse } from 'axios';
 import {
   getCachedApiInstance,
   CachedAPIService,
@@ -24,10 +24,12 @@ import {
   StringUtils
 } from '../shared/utils/CommonUtilities';
 import { Logger } from '../shared/cache/CacheLogger';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
+import { LLMGenerateRequest, LLMProvider, LLMResponse } from '../providers/LLMProvider';
 
 export interface GeminiAPIConfig {
-  apiKey: string;
-  apiUrl: string;
+  provider?: string;   // Default: LLM_PROVIDER
+  model?: string;      // Default: the provider's default model
   timeout: number;
   retryAttempts: number;
   maxTokens: number;
@@ -39,7 +41,9 @@ export interface GeminiRequest {
   maxTokens?: number;
   temperature?: number;
   stopSequences?: string[];
-  groundTruth?: boolean;
+  groundTruth?: boolean; // Ground the answer on web search
+  provider?: string;     // Per-request override of the configured provider
+  model?: string;
 }
 
 export interface GeminiResponse {
@@ -62,11 +66,10 @@ export interface GeminiResponse {
 export class GeminiAPIServiceCached {
   private cachedApi: CachedAPIService;
   private config: GeminiAPIConfig;
+  private providers: LLMProviderRegistry;
 
   constructor(config: Partial<GeminiAPIConfig> = {}) {
     this.config = {
-      apiKey: process.env.GEMINI_API_KEY || '',
-      apiUrl: process.env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent',
       timeout: 180000, // 3 minutes
       retryAttempts: 3,
       maxTokens: 2048,
@@ -75,10 +78,7 @@ export class GeminiAPIServiceCached {
     };
 
     this.cachedApi = getCachedApiInstance();
-
-    if (!this.config.apiKey) {
-      throw new Error('GEMINI_API_KEY is required for Gemini API service');
-    }
+    this.providers = LLMProviderRegistry.getInstance();
   }
 
   /**
@@ -112,7 +112,7 @@ export class GeminiAPIServiceCached {
               ...(cachedResponse.metadata || {}),
               cached: true,
               processingTime: responseTime,
-              model: cachedResponse.metadata?.model || 'gemini-pro'
+              model: cachedResponse.metadata?.model || this.getModelName(request)
             }
           };
         }
@@ -124,10 +124,10 @@ export class GeminiAPIServiceCached {
 
       // Prepare response
       const geminiResponse: GeminiResponse = {
-        text: this.extractTextFromResponse(response.data),
-        usage: this.extractUsageFromResponse(response.data),
+        text: response.text,
+        usage: this.toUsage(response),
         metadata: {
-          model: this.getModelName(),
+          model: response.model,
           processingTime: responseTime,
           cached: false
         }
@@ -174,75 +174,39 @@ export class GeminiAPIServiceCached {
     let tokenCount = 0;
 
     try {
-      const requestBody = this.buildRequestBody(request);
-      const response = await axios.post(
-        `${this.config.apiUrl}?key=${this.config.apiKey}`,
-        requestBody,
-        {
-          responseType: 'stream',
-          timeout: this.config.timeout,
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      return new Promise((resolve, reject) => {
-        response.data.on('data', (chunk: Buffer) => {
-          const lines = chunk.toString().split('\n');
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                const text = this.extractTextFromResponse(data);
-                if (text) {
-                  fullText += text;
-                  tokenCount++;
-                  onChunk(text);
-                }
-              } catch (parseError) {
-                Logger.warn('Failed to parse streaming chunk', { line });
-              }
-            }
-          }
-        });
-
-        response.data.on('end', () => {
-          const responseTime = timer.elapsed();
-
-          const geminiResponse: GeminiResponse = {
-            text: fullText,
-            usage: {
-              promptTokens: request.prompt.length / 4, // Rough estimate
-              completionTokens: tokenCount,
-              totalTokens: (request.prompt.length / 4) + tokenCount
-            },
-            metadata: {
-              model: this.getModelName(),
-              processingTime: responseTime,
-              cached: false
-            }
-          };
-
-          // Cache final streaming result
-          const cacheKey = this.createCacheKey(request);
-          this.cacheResponse(cacheKey, geminiResponse, cacheOptions);
+      const response = await this.getProvider(request).stream(this.buildGenerateRequest(request), text => {
+        fullText += text;
+        tokenCount++;
+        onChunk(text);
+      });
+      const responseTime = timer.elapsed();
 
-          Logger.info('Gemini streaming completed', {
-            responseTime,
-            textLength: fullText.length,
-            tokenCount
-          });
+      const geminiResponse: GeminiResponse = {
+        text: fullText,
+        usage: this.toUsage(response) || {
+          promptTokens: request.prompt.length / 4, // Rough estimate
+          completionTokens: tokenCount,
+          totalTokens: (request.prompt.length / 4) + tokenCount
+        },
+        metadata: {
+          model: response.model,
+          processingTime: responseTime,
+          cached: false
+        }
+      };
 
-          resolve(geminiResponse);
-        });
+      // Cache final streaming result
+      const cacheKey = this.createCacheKey(request);
+      await this.cacheResponse(cacheKey, geminiResponse, cacheOptions);
 
-        response.data.on('error', (error: Error) => {
-          Logger.error('Gemini streaming error', { error: error.message });
-          reject(error);
-        });
+      Logger.info('Gemini streaming completed', {
+        responseTime,
+        textLength: fullText.length,
+        tokenCount
       });
 
+      return geminiResponse;
+
     } catch (error) {
       const responseTime = timer.elapsed();
       Logger.error('Gemini streaming failed', {
@@ -349,6 +313,8 @@ export class GeminiAPIServiceCached {
     });
 
     const keyData = {
+      provider: request.provider || this.config.provider || this.providers.getDefaultName(),
+      model: this.getModelName(request),
       prompt: normalizedPrompt,
       maxTokens: request.maxTokens || this.config.maxTokens,
       temperature: request.temperature || this.config.temperature,
@@ -360,97 +326,55 @@ export class GeminiAPIServiceCached {
   }
 
   /**
-   * Make actual API call to Gemini
+   * Make actual API call through the configured LLM provider
    */
-  private async makeAPICall(request: GeminiRequest): Promise<AxiosResponse> {
-    const requestBody = this.buildRequestBody(request);
+  private async makeAPICall(request: GeminiRequest): Promise<LLMResponse> {
+    const provider = this.getProvider(request);
+    const generateRequest = this.buildGenerateRequest(request);
 
-    return await axios.post(
-      `${this.config.apiUrl}?key=${this.config.apiKey}`,
-      requestBody,
-      {
-        timeout: this.config.timeout,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    return request.groundTruth
+      ? await provider.generateWithSearch(generateRequest)
+      : await provider.generate(generateRequest);
   }
 
   /**
-   * Build request body for Gemini API
+   * Build provider-neutral generation request
    */
-  private buildRequestBody(request: GeminiRequest): any {
+  private buildGenerateRequest(request: GeminiRequest): LLMGenerateRequest {
     return {
-      contents: [{
-        parts: [{
-          text: request.prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: request.temperature || this.config.temperature,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: request.maxTokens || this.config.maxTokens,
-        stopSequences: request.stopSequences || []
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        }
-      ]
+      prompt: request.prompt,
+      model: request.model || this.config.model,
+      temperature: request.temperature || this.config.temperature,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: request.maxTokens || this.config.maxTokens,
+      stopSequences: request.stopSequences || [],
+      timeoutMs: this.config.timeout
     };
   }
 
-  /**
-   * Extract text content from Gemini response
-   */
-  private extractTextFromResponse(responseData: any): string {
-    try {
-      return responseData.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    } catch (error) {
-      Logger.error('Failed to extract text from Gemini response', { error });
-      return '';
-    }
+  private getProvider(request: GeminiRequest): LLMProvider {
+    return this.providers.get(request.provider || this.config.provider);
   }
 
   /**
-   * Extract usage information from response
+   * Convert provider usage to this service's usage shape
    */
-  private extractUsageFromResponse(responseData: any): GeminiResponse['usage'] {
-    try {
-      const usage = responseData.usageMetadata;
-      if (!usage) return undefined;
+  private toUsage(response: LLMResponse): GeminiResponse['usage'] {
+    if (!response.usage) return undefined;
 
-      return {
-        promptTokens: usage.promptTokenCount || 0,
-        completionTokens: usage.candidatesTokenCount || 0,
-        totalTokens: usage.totalTokenCount || 0
-      };
-    } catch (error) {
-      Logger.error('Failed to extract usage from Gemini response', { error });
-      return undefined;
-    }
+    return {
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens,
+      totalTokens: response.usage.total_tokens
+    };
   }
 
   /**
-   * Get model name from API response or config
+   * Model a request will run on
    */
-  private getModelName(): string {
-    return 'gemini-pro'; // Extract from response if available
+  private getModelName(request: GeminiRequest): string {
+    return request.model || this.config.model || this.getProvider(request).defaultModel;
   }
 
   /**
@@ -1,27 +1,27 @@
-import axios from 'axios';
 import {
   NormalSearchRequest,
-  GeminiRequestBody,
-  GeminiResponse,
   NormalSearchResult,
   GroundingMetadata,
   EnhancedSource,
   EnhancedNormalSearchResult,
-  EnhancedSearchResponse
+  EnhancedSearchResponse,
+  SchemaViolation,
+  StructuredOutputValidation
 } from '../types/gemini';
 import { FeatureFlags, GroundingMetrics } from '../utils/FeatureFlags';
+import { CitationBuilder, GroundingSupport } from '../shared/utils/CitationBuilder';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
+import { LLMGenerateRequest, LLMProvider, NormalizedGrounding } from '../providers/LLMProvider';
+import { StructuredOutputService } from './StructuredOutputService';
+import { NORMAL_SEARCH_RESULTS_SCHEMA, RELATIONSHIP_TYPES } from '../schemas/NormalSearchResultSchema';
 
 export class GeminiDeepThinkingService {
-  private apiKey: string;
-  private apiUrl: string;
+  private providers: LLMProviderRegistry;
+  private structuredOutput: StructuredOutputService;
 
   constructor() {
-    this.apiKey = process.env.GEMINI_API_KEY || '';
-    this.apiUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent';
-
-    if (!this.apiKey) {
-      throw new Error('GEMINI_API_KEY is not configured');
-    }
+    this.providers = LLMProviderRegistry.getInstance();
+    this.structuredOutput = new StructuredOutputService();
   }
 
   /**
@@ -79,7 +79,7 @@ Return ONLY a JSON array. Each risk entity must be a separate object:
     "institution_A": "exact institution name from input",
     "relationship_type": "Direct|Indirect|Significant Mention|Unknown|No Evidence Found",
     "finding_summary": "comprehensive analysis with specific evidence",
-    "potential_intermediary_B": "intermediary name(s) or null"
+    "potential_intermediary_B": ["intermediary name"] or null
   }
 ]
 \`\`\`
@@ -133,7 +133,7 @@ Return a JSON array with one object per risk entity. Each object must contain:
 - institution_A: exact institution name
 - relationship_type: "Direct", "Indirect", "Significant Mention", "Unknown", or "No Evidence Found"
 - finding_summary: detailed evidence-based analysis
-- potential_intermediary_B: intermediary name(s) or null
+- potential_intermediary_B: list of intermediary names, or null
 
 **CRITICAL:**
 - Search in both English AND native languages
@@ -205,38 +205,20 @@ Return a JSON array with one object per risk entity. Each object must contain:
   }
 
   /**
-   * Build optimized Gemini API request body for enhanced grounding
+   * Build optimized search-grounded generation request for enhanced grounding
    */
-  private buildOptimizedRequestBody(request: NormalSearchRequest): GeminiRequestBody {
+  private buildOptimizedRequest(request: NormalSearchRequest, provider: LLMProvider): LLMGenerateRequest {
     return {
-      system_instruction: {
-        parts: [
-          {
-            text: this.buildOptimizedSystemInstruction()
-          }
-        ]
-      },
-      contents: [
-        {
-          parts: [
-            {
-              text: this.buildUserPrompt(request)
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        // CRITICAL: NO thinkingConfig - this enables grounding chunks
-        temperature: 0.2,
-        maxOutputTokens: 65536,
-        topP: 0.95,
-        topK: 10
-      },
-      tools: [
-        {
-          google_search: {}  // Latest tool format (underscore version)
-        }
-      ]
+      systemInstruction: this.buildOptimizedSystemInstruction(),
+      prompt: this.buildUserPrompt(request),
+      // DeepThinking runs on the Pro model unless the request or DEEPTHINKING_MODEL picks another
+      model: request.Model || process.env.DEEPTHINKING_MODEL || (provider.name === 'gemini' ? 'gemini-2.5-pro' : undefined),
+      // CRITICAL: NO thinkingBudget - this enables grounding chunks
+      temperature: 0.2,
+      maxOutputTokens: 65536,
+      topP: 0.95,
+      topK: 10,
+      timeoutMs: 180000 // 3 minutes timeout
     };
   }
 
@@ -341,23 +323,35 @@ Return a JSON array with one object per risk entity. Each object must contain:
   }
 
   /**
-   * Extract grounding metadata from Gemini response
+   * Convert provider grounding into the grounding metadata shape the frontend renders citations from
    */
-  private extractGroundingMetadata(response: any): GroundingMetadata {
-    const candidate = response?.candidates?.[0];
-    const groundingMetadata = candidate?.groundingMetadata;
-
-    const rawSupports = groundingMetadata?.groundingSupports || [];
+  private extractGroundingMetadata(grounding?: NormalizedGrounding): GroundingMetadata {
+    const rawSupports = (grounding?.supports || []).map(support => ({
+      segment: { text: support.text, startIndex: support.start_index, endIndex: support.end_index },
+      groundingChunkIndices: support.source_indices,
+      ...(support.confidence_scores?.length ? { confidenceScore: Math.max(...support.confidence_scores) } : {})
+    }));
     const cleanedSupports = this.cleanFirstGroundingSupport(rawSupports);
 
     return {
-      has_grounding: !!groundingMetadata,
-      grounding_chunks: groundingMetadata?.groundingChunks || [],
+      has_grounding: !!grounding && (grounding.sources.length > 0 || grounding.supports.length > 0 || grounding.queries.length > 0),
+      grounding_chunks: (grounding?.sources || []).map(source => ({ web: { uri: source.url, title: source.title } })),
       grounding_supports: cleanedSupports,
-      web_search_queries: groundingMetadata?.webSearchQueries || []
+      web_search_queries: grounding?.queries || []
     };
   }
 
+  /**
+   * Provider grounding supports in the Gemini shape CitationBuilder reads
+   */
+  private citationSupports(grounding?: NormalizedGrounding): GroundingSupport[] {
+    return (grounding?.supports || []).map(support => ({
+      segment: { text: support.text, startIndex: support.start_index, endIndex: support.end_index },
+      groundingChunkIndices: support.source_indices,
+      confidenceScores: support.confidence_scores
+    }));
+  }
+
   /**
    * Process grounding chunks into sources
    */
@@ -399,7 +393,8 @@ Return a JSON array with one object per risk entity. Each object must contain:
     parsedFindings: any[],
     groundingMetadata: GroundingMetadata,
     searchQueries: string[],
-    executionTimeMs: number
+    executionTimeMs: number,
+    groundedAnswer: { text: string; supports: GroundingSupport[] }
   ): EnhancedNormalSearchResult[] {
     // Process grounding chunks into sources array for frontend UI components
     const sources = groundingMetadata.grounding_chunks.map((chunk, index) => ({
@@ -421,12 +416,19 @@ Return a JSON array with one object per risk entity. Each object must contain:
 
     // Build enhanced findings with proper sources and key_evidence for frontend compatibility
     const enhancedFindings = parsedFindings.map((finding, findingIndex) => {
+      // Sources are the grounding chunks in order, so chunk index + 1 is the SourceInfo id
+      const citedSummary = typeof finding.finding_summary === 'string'
+        ? CitationBuilder.build(finding.finding_summary, groundedAnswer.text, groundedAnswer.supports)
+        : undefined;
+
       return {
         ...finding,
+        ...citedSummary,
         // Restore key_evidence processing - needed for frontend inline citations
         key_evidence: keyEvidence,
         // Restore sources processing - needed for frontend UI components (SourcesTab, ResultSourcesButton)
-        sources: sources.map(s => s.url),
+        // executeSearch flattens these to URLs; passing URLs here already left them undefined
+        sources: sources,
         search_queries: searchQueries,
         quality_metrics: {
           evidence_count: evidenceCount,
@@ -439,80 +441,6 @@ Return a JSON array with one object per risk entity. Each object must contain:
     return enhancedFindings;
   }
 
-  /**
-   * Extract text content from Gemini response
-   */
-  private extractTextFromResponse(response: GeminiResponse): string | null {
-    try {
-      const candidates = response?.candidates;
-      if (candidates && Array.isArray(candidates) && candidates.length > 0) {
-        const content = candidates[0]?.content;
-        if (content && content.parts && Array.isArray(content.parts)) {
-          // Merge all text fields
-          let allTextContent = '';
-          for (const part of content.parts) {
-            if (part && part.text) {
-              allTextContent += part.text;
-            }
-          }
-
-          if (allTextContent) {
-            return allTextContent;
-          }
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error('Error extracting text from response:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Extract JSON from markdown or raw text
-   */
-  private extractJsonFromText(text: string): string | null {
-    if (typeof text !== 'string') {
-      return null;
-    }
-
-    // Find content between ```json and ```
-    const jsonMatch = text.match(/```json\s*\n([\s\S]*?)\n```/);
-    if (jsonMatch && jsonMatch[1]) {
-      return jsonMatch[1].trim();
-    }
-
-    // Try to find direct JSON array or object
-    const directJsonMatch = text.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
-    if (directJsonMatch && directJsonMatch[1]) {
-      return directJsonMatch[1].trim();
-    }
-
-    return text;
-  }
-
-  /**
-   * Clean JSON string from control characters and formatting issues
-   */
-  private cleanJsonString(str: string): string {
-    if (typeof str !== 'string') {
-      return str;
-    }
-
-    return str
-      // Remove control characters (ASCII 0-31, except \t \n \r)
-      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-      // Clean extra backslashes
-      .replace(/\\\\/g, '\\')
-      // Fix line breaks
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      // Remove zero-width characters
-      .replace(/[\u200B-\u200D\uFEFF]/g, '')
-      // Remove other invisible characters
-      .replace(/[\u2028\u2029]/g, '');
-  }
-
   /**
    * Apply formatting to finding summary for better frontend display
    */
@@ -556,46 +484,23 @@ Return a JSON array with one object per risk entity. Each object must contain:
 
   
   /**
-   * Parse JSON response with error handling
+   * Findings from the validated answer, with summaries formatted for display
    */
-  private parseJsonResponse(textContent: string): NormalSearchResult[] | null {
-    try {
-      const jsonContent = this.extractJsonFromText(textContent);
-      if (!jsonContent) {
-        console.error('No JSON content found in text');
-        return null;
-      }
-
-      const cleanedString = this.cleanJsonString(jsonContent);
-      const parsed = JSON.parse(cleanedString);
-
-      let results: NormalSearchResult[];
+  private formatFindings(value: NormalSearchResult[] | null): NormalSearchResult[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
 
-      if (Array.isArray(parsed)) {
-        results = parsed as NormalSearchResult[];
-      } else if (typeof parsed === 'object' && parsed !== null) {
-        results = [parsed] as NormalSearchResult[];
-      } else {
-        return null;
+    const results = value.filter(result => result && typeof result === 'object');
+    results.forEach(result => {
+      if (typeof result.finding_summary === 'string') {
+        result.finding_summary = this.formatFindingSummaryForDisplay(result.finding_summary);
       }
+    });
 
-      // Apply formatting to finding summaries for better display
-      results.forEach(result => {
-        if (result.finding_summary) {
-          result.finding_summary = this.formatFindingSummaryForDisplay(result.finding_summary);
-        }
-      });
-
-      return results;
-
-    } catch (error) {
-      console.error('JSON parsing error:', error);
-      console.error('Text content:', textContent.substring(0, 500));
-      return null;
-    }
+    return results;
   }
 
-  
   /**
    * Execute enhanced normal search with grounding metadata
    */
@@ -610,65 +515,28 @@ Return a JSON array with one object per risk entity. Each object must contain:
     });
 
     try {
-      const requestBody = this.buildOptimizedRequestBody(request);
+      const provider = this.providers.get(request.Provider);
+      const generationRequest = this.buildOptimizedRequest(request, provider);
 
       FeatureFlags.log('Built optimized API request', 'debug', {
+        provider: provider.name,
+        model: generationRequest.model || provider.defaultModel,
         system_instruction: 'optimized_grounding',
-        tool_format: 'google_search',
+        tool_format: 'search_grounding',
         thinking_config: 'disabled'
       });
 
-      const response = await axios.post(
-        this.apiUrl,
-        requestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          params: {
-            key: this.apiKey
-          },
-          timeout: 180000 // 3 minutes timeout
-        }
+      const { value, response, validation } = await this.structuredOutput.generate<NormalSearchResult[]>(
+        provider,
+        generationRequest,
+        true,
+        NORMAL_SEARCH_RESULTS_SCHEMA
       );
 
-      // TEMP: Save raw Gemini response for analysis
-      const fs = require('fs');
-      const path = require('path');
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const rawResponsePath = path.join('/Users/kanbei/Code/chainreactions_backend/test', `gemini_raw_response_${timestamp}.json`);
-
-      try {
-        fs.writeFileSync(rawResponsePath, JSON.stringify({
-          timestamp: new Date().toISOString(),
-          request: {
-            url: this.apiUrl,
-            requestBody: requestBody,
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            params: {
-              key: `${this.apiKey.substring(0, 20)}...`
-            },
-            timeout: 180000
-          },
-          response: {
-            status: response.status,
-            statusText: response.statusText,
-            headers: response.headers,
-            data: response.data
-          },
-          executionTime: Date.now() - startTime
-        }, null, 2));
-        console.log(`📝 Raw Gemini response saved to: ${rawResponsePath}`);
-      } catch (error) {
-        console.error('Failed to save raw response:', error);
-      }
-
       const executionTime = Date.now() - startTime;
-      const textContent = this.extractTextFromResponse(response.data);
+      const textContent = response.text;
       if (!textContent) {
-        throw new Error('Failed to extract text content from Gemini response');
+        throw new Error(`Failed to extract text content from ${provider.name} response`);
       }
 
       FeatureFlags.log('Extracted text content', 'debug', {
@@ -677,7 +545,7 @@ Return a JSON array with one object per risk entity. Each object must contain:
       });
 
       // Extract grounding metadata
-      const groundingMetadata = this.extractGroundingMetadata(response.data);
+      const groundingMetadata = this.extractGroundingMetadata(response.grounding);
 
       // Enhanced debugging for grounding metadata
       FeatureFlags.log('Grounding metadata analysis', 'debug', {
@@ -689,37 +557,39 @@ Return a JSON array with one object per risk entity. Each object must contain:
         supportsSample: groundingMetadata.grounding_supports.slice(0, 2)
       });
 
-      // Parse findings from JSON
-      const parsedFindings = this.parseJsonResponse(textContent);
-      if (!parsedFindings || parsedFindings.length === 0) {
+      FeatureFlags.log('Findings schema validation', validation.status === 'invalid' ? 'warn' : 'info', validation);
+
+      const parsedFindings = this.formatFindings(value);
+      if (parsedFindings.length === 0) {
         FeatureFlags.log('No results parsed from Gemini response', 'warn');
         return {
           results: [],
-          enhanced_mode: true
+          enhanced_mode: true,
+          validation
         };
       }
 
-      // Validate parsed findings
-      const validationResult = this.validateParsedFindings(parsedFindings, request);
-      FeatureFlags.log('Findings validation result', validationResult.isValid ? 'info' : 'warn', validationResult);
-
-      if (!validationResult.isValid) {
-        FeatureFlags.log('Invalid findings detected, attempting recovery', 'warn');
-        // Try to recover or fix common issues
-        const recoveredFindings = this.recoverFindings(parsedFindings, validationResult.errors);
-        if (recoveredFindings.length > 0) {
-          parsedFindings.length = 0;
-          parsedFindings.push(...recoveredFindings);
-          FeatureFlags.log('Successfully recovered findings', 'info', { recoveredCount: recoveredFindings.length });
-        }
+      if (validation.status === 'invalid') {
+        FeatureFlags.log('Findings still invalid after repair, attempting recovery', 'warn');
+        // Last resort; the violations stay visible in the response metadata
+        const recoveredFindings = this.recoverFindings(parsedFindings, validation.errors, request);
+        parsedFindings.length = 0;
+        parsedFindings.push(...recoveredFindings);
+        FeatureFlags.log('Recovered findings', 'info', { recoveredCount: recoveredFindings.length });
       }
 
+      // Support offsets index into the answer that carried the grounding. Summaries
+      // from a schema repair are another answer's text, so their citations are
+      // placed by segment text and marked as such
+      const groundedAnswer = { text: response.text, supports: this.citationSupports(response.grounding) };
+
       // Build enhanced response with grounding
       const enhancedResults = this.buildEnhancedResponse(
         parsedFindings,
         groundingMetadata,
         groundingMetadata.web_search_queries,
-        executionTime
+        executionTime,
+        groundedAnswer
       );
 
       // Validate enhanced results
@@ -753,7 +623,8 @@ Return a JSON array with one object per risk entity. Each object must contain:
         results: enhancedResults,
         grounding_metadata: groundingMetadata,
         grounding_metrics: groundingMetrics,
-        enhanced_mode: true
+        enhanced_mode: true,
+        validation
       };
 
     } catch (error) {
@@ -763,13 +634,6 @@ Return a JSON array with one object per risk entity. Each object must contain:
         executionTime
       });
 
-      if (axios.isAxiosError(error)) {
-        FeatureFlags.log('Gemini API Error', 'error', {
-          status: error.response?.status,
-          data: error.response?.data
-        });
-        throw new Error(`Gemini API request failed: ${error.message}`);
-      }
       throw error;
     }
   }
@@ -780,6 +644,7 @@ Return a JSON array with one object per risk entity. Each object must contain:
    */
   async executeSearch(request: NormalSearchRequest): Promise<{
     results: NormalSearchResult[];
+    validation?: StructuredOutputValidation;
   }> {
     const enhancedResponse = await this.executeEnhancedNormalSearch(request);
 
@@ -790,6 +655,8 @@ Return a JSON array with one object per risk entity. Each object must contain:
         institution_A: result.institution_A,
         relationship_type: result.relationship_type,
         finding_summary: result.finding_summary,
+        finding_summary_with_citations: result.finding_summary_with_citations,
+        citations: result.citations,
         potential_intermediary_B: result.potential_intermediary_B,
         sources: result.sources?.map(s => s.url) || [],
         // Include enhanced data
@@ -799,7 +666,8 @@ Return a JSON array with one object per risk entity. Each object must contain:
         quality_metrics: result.quality_metrics,
         // Include grounding metadata for positional citations
         grounding_metadata: enhancedResponse.grounding_metadata
-      }))
+      })),
+      validation: enhancedResponse.validation
     };
   }
 
@@ -882,115 +750,41 @@ Return a JSON array with one object per risk entity. Each object must contain:
 
   
   /**
-   * Validate parsed findings for common issues
+   * Recover findings that still violate the schema after repair. Names come
+   * from the request; anything else invalid falls back to a placeholder
    */
-  private validateParsedFindings(findings: any[], request: NormalSearchRequest): {
-    isValid: boolean;
-    errors: string[];
-    warnings: string[];
-  } {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    if (!Array.isArray(findings)) {
-      errors.push('Findings is not an array');
-      return { isValid: false, errors, warnings };
-    }
-
-    findings.forEach((finding, index) => {
-      // Check required fields
-      if (!finding.risk_item || typeof finding.risk_item !== 'string') {
-        errors.push(`Finding ${index}: Missing or invalid risk_item`);
-      }
-
-      if (!finding.institution_A || typeof finding.institution_A !== 'string') {
-        errors.push(`Finding ${index}: Missing or invalid institution_A`);
-      }
-
-      if (!finding.relationship_type || typeof finding.relationship_type !== 'string') {
-        errors.push(`Finding ${index}: Missing or invalid relationship_type`);
-      } else {
-        const validTypes = ['Direct', 'Indirect', 'Significant Mention', 'Unknown', 'No Evidence Found'];
-        if (!validTypes.includes(finding.relationship_type)) {
-          errors.push(`Finding ${index}: Invalid relationship_type: ${finding.relationship_type}`);
-        }
-      }
-
-      if (!finding.finding_summary || typeof finding.finding_summary !== 'string') {
-        errors.push(`Finding ${index}: Missing or invalid finding_summary`);
-      }
-
-      // Check for quality issues
-      if (finding.finding_summary && finding.finding_summary.length < 50) {
-        warnings.push(`Finding ${index}: Very short finding_summary (${finding.finding_summary.length} characters)`);
-      }
-
-      if (finding.finding_summary && finding.finding_summary.length > 2000) {
-        warnings.push(`Finding ${index}: Very long finding_summary (${finding.finding_summary.length} characters)`);
-      }
-
-      // Check for placeholder text
-      const placeholderPatterns = [
-        /not specified/i,
-        /no information/i,
-        /unknown/i,
-        /to be determined/i,
-        /N\/A/i,
-        /null/i
-      ];
-
-      placeholderPatterns.forEach(pattern => {
-        if (finding.finding_summary && pattern.test(finding.finding_summary)) {
-          warnings.push(`Finding ${index}: Contains placeholder text: ${pattern.source}`);
-        }
-      });
-    });
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
-  }
-
-  /**
-   * Recover findings from common parsing issues
-   */
-  private recoverFindings(findings: any[], errors: string[]): any[] {
+  private recoverFindings(findings: any[], errors: SchemaViolation[], request: NormalSearchRequest): any[] {
     const recovered: any[] = [];
 
     findings.forEach((finding, index) => {
       try {
         // Create a clean copy
         const cleanFinding = { ...finding };
+        const isInvalid = (field: string) => errors.some(error => error.path === `[${index}].${field}`);
 
-        // Fix common issues
-        if (!cleanFinding.risk_item && errors.some(e => e.includes(`Finding ${index}: Missing or invalid risk_item`))) {
-          cleanFinding.risk_item = 'Unknown Risk Item';
+        if (isInvalid('risk_item')) {
+          cleanFinding.risk_item = request.Risk_Entity;
         }
 
-        if (!cleanFinding.institution_A && errors.some(e => e.includes(`Finding ${index}: Missing or invalid institution_A`))) {
-          cleanFinding.institution_A = 'Unknown Institution';
+        if (isInvalid('institution_A')) {
+          cleanFinding.institution_A = request.Target_institution;
         }
 
-        if (!cleanFinding.relationship_type && errors.some(e => e.includes(`Finding ${index}: Missing or invalid relationship_type`))) {
+        if (isInvalid('relationship_type') || !RELATIONSHIP_TYPES.includes(cleanFinding.relationship_type)) {
           cleanFinding.relationship_type = 'Unknown';
         }
 
-        if (!cleanFinding.finding_summary && errors.some(e => e.includes(`Finding ${index}: Missing or invalid finding_summary`))) {
+        if (isInvalid('finding_summary')) {
           cleanFinding.finding_summary = 'No detailed analysis available due to parsing issues.';
         }
 
-        // Fix relationship_type values
-        const validTypes = ['Direct', 'Indirect', 'Significant Mention', 'Unknown', 'No Evidence Found'];
-        if (!validTypes.includes(cleanFinding.relationship_type)) {
-          cleanFinding.relationship_type = 'Unknown';
+        if (isInvalid('potential_intermediary_B')) {
+          cleanFinding.potential_intermediary_B = typeof finding.potential_intermediary_B === 'string' && finding.potential_intermediary_B
+            ? [finding.potential_intermediary_B]
+            : null;
         }
 
-        // Only add if it has minimal required fields
-        if (cleanFinding.risk_item && cleanFinding.institution_A && cleanFinding.finding_summary) {
-          recovered.push(cleanFinding);
-        }
+        recovered.push(cleanFinding);
       } catch (error) {
         // Skip this finding if recovery fails
         console.warn(`Failed to recover finding ${index}:`, error);
@@ -1,159 +1,46 @@
-import axios, { AxiosInstance } from 'axios';
-import {
-  GeminiRequest,
-  GeminiResponse,
-  GeminiGenerationConfig,
-  GeminiTool,
-  GeminiSystemInstruction
-} from '../types/gemini';
+import { LLMProviderRegistry } from '../providers/LLMProviderRegistry';
+import { LLMGenerateRequest, LLMProvider, LLMResponse, LLMSelection } from '../providers/LLMProvider';
+import { StructuredOutput, StructuredOutputService } from './StructuredOutputService';
+import { NORMAL_SEARCH_RESULTS_SCHEMA } from '../schemas/NormalSearchResultSchema';
+import { NormalSearchResult } from '../types/gemini';
 
 export class GeminiService {
-  private apiClient: AxiosInstance;
-  private apiKey: string;
-  private model: string;
+  private providers: LLMProviderRegistry;
+  private structuredOutput: StructuredOutputService;
 
   constructor() {
-    this.apiKey = process.env.GEMINI_API_KEY || '';
-    this.model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
-
-    if (!this.apiKey) {
-      throw new Error('GEMINI_API_KEY is required');
-    }
-
-    this.apiClient = axios.create({
-      baseURL: 'https://generativelanguage.googleapis.com/v1beta',
-      timeout: parseInt(process.env.API_TIMEOUT || '30000'),
-      headers: {
-        'Content-Type': 'application/json',
-        'X-goog-api-key': this.apiKey,
-      },
-    });
-  }
-
-  async generateContent(
-    contents: { role?: string; parts: { text: string }[] }[],
-    systemInstruction?: GeminiSystemInstruction,
-    tools?: GeminiTool[],
-    generationConfig?: GeminiGenerationConfig
-  ): Promise<GeminiResponse> {
-    try {
-      const request: GeminiRequest = {
-        contents: contents.map(content => ({
-          parts: content.parts,
-          role: content.role
-        })),
-      };
-
-      if (systemInstruction) {
-        request.system_instruction = systemInstruction;
-      }
-
-      if (tools && tools.length > 0) {
-        request.tools = tools;
-      }
-
-      if (generationConfig) {
-        request.generationConfig = generationConfig;
-      }
-
-      // Add retry logic for 502 errors
-      let lastError: any = null;
-      const maxRetries = 3;
-
-      const startTime = Date.now();
-      let success = false;
-      let errorType: string | undefined;
-
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          const response = await this.apiClient.post<GeminiResponse>(
-            `/models/${this.model}:generateContent`,
-            request
-          );
-
-          success = true;
-          const responseTime = Date.now() - startTime;
-
-  
-          return response.data;
-        } catch (error) {
-          lastError = error;
-
-          if (axios.isAxiosError(error)) {
-            const status = error.response?.status;
-            const message = error.response?.data?.error?.message || error.message;
-
-            // 记录错误类型
-            if (status === 429) {
-              errorType = 'RATE_LIMIT';
-            } else if (status === 502) {
-              errorType = 'BAD_GATEWAY';
-            } else if (status === 503) {
-              errorType = 'SERVICE_UNAVAILABLE';
-            } else {
-              errorType = `HTTP_${status}`;
-            }
-
-            // For 502 errors, retry with exponential backoff
-            if (status === 502 && attempt < maxRetries) {
-              const delay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
-              console.warn(`🔄 Gemini API 502 error (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-              continue;
-            }
-
-            throw new Error(`Gemini API Error (${status}): ${message}`);
-          }
-          throw error;
-        }
-      }
-
-  
-      throw lastError;
-    } catch (error) {
-      throw error;
-    }
+    this.providers = LLMProviderRegistry.getInstance();
+    this.structuredOutput = new StructuredOutputService();
   }
 
+  /**
+   * Search-grounded generation with the Standard Search defaults
+   */
   async generateSearchContent(
     prompt: string,
-    systemInstruction?: string
-  ): Promise<GeminiResponse> {
-    const contents = [
-      {
-        role: 'user',
-        parts: [{ text: prompt }]
-      }
-    ];
-
-    const systemInstructionObj = systemInstruction ? {
-      parts: [{ text: systemInstruction }]
-    } : undefined;
-
-    const tools: GeminiTool[] = [
-      { googleSearch: {} },
-      { codeExecution: {} }
-    ];
-
-    const generationConfig: GeminiGenerationConfig = {
+    systemInstruction?: string,
+    selection?: LLMSelection
+  ): Promise<LLMResponse> {
+    return this.providers.get(selection?.provider).generateWithSearch({
+      prompt,
+      systemInstruction,
+      model: selection?.model,
+      codeExecution: true,
       temperature: 0.1,
       maxOutputTokens: 65536,
       topP: 0.95,
       topK: 10,
-      thinkingConfig: {
-        thinkingBudget: 16384
-      }
-    };
-
-    return this.generateContent(contents, systemInstructionObj, tools, generationConfig);
+      thinkingBudget: 16384
+    });
   }
 
   async verifyCompanyEntity(
     companyName: string,
     location: string,
     targetInstitution?: string,
-    timeRange?: { start?: string; end?: string }
-  ): Promise<any> {
+    timeRange?: { start?: string; end?: string },
+    selection?: LLMSelection
+  ): Promise<StructuredOutput<NormalSearchResult[]>> {
     const companyA = companyName;
     const companyB = targetInstitution || 'Unknown';
 
@@ -173,9 +60,8 @@ export class GeminiService {
     console.log(`🔍 Verifying entities: ${companyA} vs ${companyB} in ${effectiveLocation}`);
 
     try {
-        const systemInstruction = {
-        parts: [{
-          text: `## Prompt: OSINT Research on Institutional Risk Links
+      const provider: LLMProvider = this.providers.get(selection?.provider);
+      const systemInstruction = `## Prompt: OSINT Research on Institutional Risk Links
 
 **Role**
 You are deepdiver, a Research Security Analyst conducting initial open-source intelligence (OSINT) gathering.
@@ -250,172 +136,62 @@ Each item in **Risk List C** must be a separate JSON object containing:
   "potential_intermediary_B": ["string"] | null, // Only if clearly described and cited.
   "sources": ["string"] // CRITICAL: Must contain exactly the same number of URLs as citations in finding_summary
 }
-\`\`\``
-        }]
-      };
+\`\`\``;
 
       const startTime = Date.now();
-      console.log(`⏱️ Starting Gemini API call with googleSearch tool...`);
+      console.log(`⏱️ Starting ${provider.name} API call with search grounding...`);
 
-      const response = await this.generateContent(
-        [{ role: 'user', parts: [{ text: userPrompt }] }],
+      const generationRequest: LLMGenerateRequest = {
+        prompt: userPrompt,
         systemInstruction,
-        [
-        {
-          codeExecution: {}
-        },
-        {
-          googleSearch: {}
-        }
-      ],
-        {
-        "thinkingConfig": {
-          "thinkingBudget": 12000
-        },
-        "temperature": 0.2,
-        "maxOutputTokens": 65536,
-        "topP": 0.95,
-        "topK": 10
-      }
+        model: selection?.model,
+        codeExecution: true,
+        thinkingBudget: 12000,
+        temperature: 0.2,
+        maxOutputTokens: 65536,
+        topP: 0.95,
+        topK: 10
+      };
+      const structured = await this.structuredOutput.generate<NormalSearchResult[]>(
+        provider,
+        generationRequest,
+        true,
+        NORMAL_SEARCH_RESULTS_SCHEMA
       );
+      const response = structured.response;
 
       const elapsedTime = Date.now() - startTime;
-      console.log(`✅ Gemini API responded in ${elapsedTime}ms`);
-
-      // Save raw Gemini response for analysis (same as GeminiNormalSearchService)
-      const fs = require('fs');
-      const path = require('path');
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const rawResponsePath = path.join('/Users/kanbei/Code/chainreactions_backend/test', `gemini_raw_response_${timestamp}.json`);
-
-      try {
-        // Create the test directory if it doesn't exist
-        if (!fs.existsSync('/Users/kanbei/Code/chainreactions_backend/test')) {
-          fs.mkdirSync('/Users/kanbei/Code/chainreactions_backend/test', { recursive: true });
-        }
-
-        fs.writeFileSync(rawResponsePath, JSON.stringify({
-          timestamp: new Date().toISOString(),
-          request: {
-            url: this.generateContent.toString().includes('generativelanguage.googleapis.com') ? 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent' : 'Unknown',
-            requestBody: {
-              systemInstruction: systemInstruction,
-              contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-              generationConfig: {
-                temperature: 0.2,
-                maxOutputTokens: 65536,
-                topP: 0.95,
-                topK: 10
-              },
-              tools: [
-                {
-                  codeExecution: {}
-                },
-                {
-                  googleSearch: {}
-                }
-              ]
-            },
-            headers: {
-              'Content-Type': 'application/json'
-            },
-            params: {
-              key: `${this.apiKey ? this.apiKey.substring(0, 20) : 'ENV_VAR'}...`
-            },
-            timeout: 180000,
-            model: process.env.GEMINI_MODEL || 'gemini-2.5-flash'
-          },
-          response: {
-            status: 200,
-            statusText: 'OK',
-            data: response
-          },
-          executionTime: elapsedTime,
-          service: 'GeminiService (Standard Search)'
-        }, null, 2));
-        console.log(`📝 Raw Gemini response saved to: ${rawResponsePath}`);
-      } catch (error) {
-        console.error('Failed to save raw response:', error);
-      }
-
-      // Log complete raw response structure for debugging
-      console.log('=== GEMINI API RAW RESPONSE STRUCTURE ===');
-      console.log('Response candidates:', response.candidates);
-      console.log('Candidates length:', response.candidates?.length || 0);
-      console.log('Usage metadata:', response.usageMetadata);
-      console.log('Model version:', response.modelVersion);
-
-      if (response.candidates && response.candidates.length > 0) {
-        console.log('First candidate structure:', {
-          content: response.candidates[0]?.content,
-          finishReason: response.candidates[0]?.finishReason,
-          index: response.candidates[0]?.index
-        });
-
-        if (response.candidates[0]?.content?.parts) {
-          console.log('Parts structure:', response.candidates[0].content.parts);
-          console.log('Parts length:', response.candidates[0].content.parts.length);
-
-          // Log each part with details
-          response.candidates[0].content.parts.forEach((part, index) => {
-            console.log(`Part ${index}:`, {
-              hasText: !!part.text,
-              textLength: part.text?.length || 0,
-              textPreview: part.text?.substring(0, 100) || 'NO TEXT',
-              partKeys: Object.keys(part)
-            });
-          });
-        }
-      }
-      console.log('=== END RAW RESPONSE STRUCTURE ===');
-
-      // Find the part that contains text content (gemini-2.5-flash may return multiple parts)
-      let resultText = null;
-
-      if (response.candidates?.[0]?.content?.parts) {
-        const parts = response.candidates[0].content.parts;
-        // Look for the part that contains text
-        const textPart = parts.find(part => part.text && part.text.trim().length > 0);
-        resultText = textPart?.text || null;
-      }
+      console.log(`✅ ${provider.name} API responded in ${elapsedTime}ms`);
+
+      // Log response structure for debugging
+      console.log('=== LLM RESPONSE STRUCTURE ===');
+      console.log('Provider / model:', `${response.provider} / ${response.model}`);
+      console.log('Finish reason:', response.finish_reason);
+      console.log('Usage:', response.usage);
+      console.log('Text length:', response.text.length);
+      console.log('Grounding:', {
+        sources: response.grounding?.sources.length || 0,
+        supports: response.grounding?.supports.length || 0,
+        queries: response.grounding?.queries.length || 0
+      });
+      console.log('=== END RESPONSE STRUCTURE ===');
+
+      const resultText = response.text.trim() ? response.text : null;
       if (!resultText) {
         console.error('❌ FAILED TO EXTRACT TEXT FROM RESPONSE');
-        console.error('Response structure analysis:');
-        console.error('- Has candidates:', !!response.candidates);
-        console.error('- Candidates length:', response.candidates?.length || 0);
-        if (response.candidates?.length > 0) {
-          console.error('- First candidate has content:', !!response.candidates[0]?.content);
-          console.error('- First candidate has parts:', !!response.candidates[0]?.content?.parts);
-          console.error('- First candidate parts length:', response.candidates[0]?.content?.parts?.length || 0);
-        }
-        throw new Error('No response text from Gemini API');
+        console.error('- Finish reason:', response.finish_reason);
+        throw new Error(`No response text from ${provider.name} API`);
       }
 
-      console.log('=== GEMINI API RAW RESPONSE ===');
+      console.log('=== LLM RAW RESPONSE TEXT ===');
       console.log(resultText);
-      console.log('=== END RAW RESPONSE ===');
-
-      // Try to parse JSON response - handle markdown code blocks
-      try {
-        let jsonText = resultText.trim();
-
-        // Remove markdown code blocks if present
-        if (jsonText.startsWith('```json')) {
-          jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-          jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-
-        return JSON.parse(jsonText);
-      } catch (parseError) {
-        console.warn('Failed to parse JSON response, returning raw text:', resultText);
-        return {
-          raw_response: resultText,
-          error: 'JSON parsing failed',
-          original_name: 'Unknown',
-          description: resultText.substring(0, 200) + '...' // Fallback data
-        };
+      console.log('=== END RAW RESPONSE TEXT ===');
+
+      if (structured.validation.status !== 'valid') {
+        console.warn(`⚠️ Findings schema validation: ${structured.validation.status}`, structured.validation.errors);
       }
+
+      return structured;
     } catch (error) {
       console.error('Entity verification failed:', error);
       throw new Error(`Failed to verify entity ${companyName}: ${error}`);
@@ -0,0 +1,216 @@
+import { LLMGenerateRequest, LLMProvider, LLMResponse, ResponseSchema } from '../providers/LLMProvider';
+import { SchemaViolation, StructuredOutputValidation } from '../types/gemini';
+
+export interface StructuredOutput<T> {
+  value: T | null;                        // Parsed answer; null when no JSON could be parsed
+  response: LLMResponse;                  // The first answer, which carries the search grounding
+  validation: StructuredOutputValidation;
+}
+
+interface ParsedAnswer {
+  value: unknown;
+  errors: SchemaViolation[];
+}
+
+/**
+ * Generation against a response schema. The schema is enforced by the
+ * provider where it can be; either way the answer is parsed and validated,
+ * and answers that violate it are sent back to the model with the violations
+ * for a targeted repair (STRUCTURED_OUTPUT_MAX_REPAIRS times at most).
+ * Repair calls run without search so the provider can enforce the schema.
+ */
+export class StructuredOutputService {
+  private readonly maxRepairs = parseInt(process.env.STRUCTURED_OUTPUT_MAX_REPAIRS || '2');
+
+  async generate<T>(
+    provider: LLMProvider,
+    request: LLMGenerateRequest,
+    withSearch: boolean,
+    schema: ResponseSchema
+  ): Promise<StructuredOutput<T>> {
+    const structuredRequest: LLMGenerateRequest = { ...request, responseSchema: schema };
+    const response = withSearch
+      ? await provider.generateWithSearch(structuredRequest)
+      : await provider.generate(structuredRequest);
+
+    const initial = this.parseAndValidate(response.text, schema);
+    let best = initial;
+    let latest = { text: response.text, errors: initial.errors };
+    let repairAttempts = 0;
+
+    // An empty answer has nothing to repair; re-asking without search would only invent findings
+    while (best.errors.length > 0 && repairAttempts < this.maxRepairs && response.text.trim()) {
+      repairAttempts++;
+      console.warn(`🔧 Answer violates the response schema (${latest.errors.length} errors), repair attempt ${repairAttempts}/${this.maxRepairs}`);
+
+      let repairText: string;
+      try {
+        const repair = await provider.generate({
+          prompt: this.buildRepairPrompt(request.prompt, latest.text, latest.errors, schema),
+          model: request.model,
+          temperature: 0,
+          maxOutputTokens: request.maxOutputTokens,
+          timeoutMs: request.timeoutMs,
+          responseSchema: schema
+        });
+        repairText = repair.text;
+      } catch (error) {
+        console.error('❌ Schema repair request failed:', error instanceof Error ? error.message : error);
+        break;
+      }
+
+      const repaired = this.parseAndValidate(repairText, schema);
+      latest = { text: repairText, errors: repaired.errors };
+      // A repair that makes things worse is discarded
+      if (repaired.errors.length <= best.errors.length) {
+        best = repaired;
+      }
+    }
+
+    const status = initial.errors.length === 0 ? 'valid' : best.errors.length === 0 ? 'repaired' : 'invalid';
+    if (status === 'invalid') {
+      console.warn(`⚠️ Answer still violates the response schema after ${repairAttempts} repair attempts:`, best.errors);
+    }
+
+    return {
+      value: best.value === undefined ? null : best.value as T,
+      response,
+      validation: {
+        status,
+        schema_enforced: provider.supportsStructuredOutput(structuredRequest, withSearch),
+        repair_attempts: repairAttempts,
+        errors: best.errors,
+        ...(initial.errors.length > 0 ? { initial_errors: initial.errors } : {})
+      }
+    };
+  }
+
+  /**
+   * Parse JSON out of model text: a fenced ```json block, else the outermost
+   * array or object. Control characters and stray escapes are only cleaned
+   * up when the text does not parse as it is
+   */
+  static parseJson(text: string): unknown {
+    if (typeof text !== 'string') {
+      return undefined;
+    }
+
+    const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+    const direct = text.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
+    const jsonText = (fenced?.[1] || direct?.[1] || text).trim();
+
+    for (const candidate of [jsonText, StructuredOutputService.cleanJsonString(jsonText)]) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Clean JSON string from control characters and formatting issues
+   */
+  static cleanJsonString(str: string): string {
+    return str
+      // Remove control characters (ASCII 0-31, except \t \n \r)
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+      // Clean extra backslashes
+      .replace(/\\\\/g, '\\')
+      // Fix line breaks
+      .replace(/\r\n/g, '\n')
+      .replace(/\r/g, '\n')
+      // Remove zero-width characters
+      .replace(/[\u200B-\u200D\uFEFF]/g, '')
+      // Remove other invisible characters
+      .replace(/[\u2028\u2029]/g, '');
+  }
+
+  /**
+   * Violations of value against schema; paths look like [0].relationship_type
+   */
+  static validate(value: unknown, schema: ResponseSchema, path: string = ''): SchemaViolation[] {
+    const at = path || '(root)';
+
+    if (value === null || value === undefined) {
+      return schema.nullable
+        ? []
+        : [{ path, code: 'invalid_type', message: `${at}: expected ${schema.type}, got ${value === null ? 'null' : 'nothing'}` }];
+    }
+
+    const actualType = Array.isArray(value) ? 'array' : typeof value;
+    const typeMatches = schema.type === 'integer'
+      ? Number.isInteger(value)
+      : actualType === schema.type;
+    if (!typeMatches) {
+      return [{ path, code: 'invalid_type', message: `${at}: expected ${schema.type}, got ${actualType}` }];
+    }
+
+    const violations: SchemaViolation[] = [];
+
+    if (typeof value === 'string') {
+      if (schema.enum && !schema.enum.includes(value)) {
+        violations.push({ path, code: 'invalid_value', message: `${at}: "${value}" is not one of ${schema.enum.map(option => `"${option}"`).join(', ')}` });
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        violations.push({ path, code: 'empty_value', message: `${at}: must not be empty` });
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        violations.push({ path, code: 'empty_value', message: `${at}: expected at least ${schema.minItems} items, got ${value.length}` });
+      }
+      if (schema.items) {
+        value.forEach((item, index) => violations.push(...StructuredOutputService.validate(item, schema.items!, `${path}[${index}]`)));
+      }
+    } else if (actualType === 'object') {
+      const record = value as Record<string, unknown>;
+      (schema.required || []).forEach(key => {
+        if (!(key in record)) {
+          violations.push({ path: path ? `${path}.${key}` : key, code: 'missing_field', message: `${path ? `${path}.${key}` : key}: required field is missing` });
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (key in record) {
+          violations.push(...StructuredOutputService.validate(record[key], propertySchema, path ? `${path}.${key}` : key));
+        }
+      });
+    }
+
+    return violations;
+  }
+
+  private parseAndValidate(text: string, schema: ResponseSchema): ParsedAnswer {
+    let value = StructuredOutputService.parseJson(text);
+    if (value === undefined) {
+      return { value, errors: [{ path: '', code: 'invalid_json', message: 'No parseable JSON in the answer' }] };
+    }
+
+    // A lone object where a list was asked for is taken as a list of one
+    if (schema.type === 'array' && value && typeof value === 'object' && !Array.isArray(value)) {
+      value = [value];
+    }
+
+    return { value, errors: StructuredOutputService.validate(value, schema) };
+  }
+
+  private buildRepairPrompt(originalPrompt: string, answer: string, errors: SchemaViolation[], schema: ResponseSchema): string {
+    return `Your previous answer does not match the required JSON schema.
+
+**Problems:**
+${errors.map(error => `- ${error.message}`).join('\n')}
+
+**Required JSON schema:**
+${JSON.stringify(schema, null, 2)}
+
+**Original request:**
+${originalPrompt}
+
+**Previous answer:**
+${answer}
+
+Return ONLY the corrected JSON. Fix the problems listed above and nothing else: keep the findings, wording and citation markers of the previous answer. Take missing names from the original request.`;
+  }
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { Citation } from '../shared/utils/CitationBuilder';
+
 export interface GeminiRequest {
   contents: GeminiContent[];
   system_instruction?: GeminiSystemInstruction;
@@ -115,7 +117,7 @@ export interface OSINTFinding {
   sources: string[];
   key_evidence?: string[];
   evidence_quality?: 'high' | 'medium' | 'low';
-  citations?: any[]; // Structured citation data
+  citations?: Citation[]; // Structured citation data
 }
 
 // Normal Search Types
@@ -125,6 +127,8 @@ export interface NormalSearchRequest {
   Location: string;
   Start_Date?: string;
   End_Date?: string;
+  Provider?: string;  // LLM provider (default LLM_PROVIDER)
+  Model?: string;     // Model of that provider (default: the provider's or mode's default)
 }
 
 export interface GeminiRequestBody {
@@ -183,6 +187,9 @@ export interface NormalSearchResult {
   quality_metrics?: any;
   // Grounding metadata for positional citations
   grounding_metadata?: GroundingMetadata;
+  // finding_summary with [n] source markers, from the grounding supports
+  finding_summary_with_citations?: string;
+  citations?: Citation[];
 }
 
 export interface FormattedSearchOutput {
@@ -235,6 +242,9 @@ export interface GroundingMetadata {
   web_search_queries: string[];
 }
 
+// A grounded span of finding_summary; source_ids are SourceInfo ids
+export type { Citation };
+
 export interface EnhancedNormalSearchResult extends Omit<NormalSearchResult, 'sources'> {
   key_evidence: EvidenceWithSources[];
   sources: EnhancedSource[];
@@ -255,6 +265,7 @@ export interface EnhancedSearchResponse {
     executionTimeMs: number;
   };
   enhanced_mode: boolean;
+  validation?: StructuredOutputValidation;
 }
 
 // New optimized response structure to eliminate data redundancy
@@ -275,6 +286,8 @@ export interface OptimizedSearchResponse {
     institution_A: string;
     relationship_type: string;
     finding_summary: string;
+    finding_summary_with_citations?: string; // finding_summary with [n] markers for sources[n - 1]
+    citations?: Citation[];
     potential_intermediary_B: string;
 
     // Source data information (structured array)
@@ -299,5 +312,96 @@ export interface OptimizedSearchResponse {
     processing_time_ms?: number;
     enhanced_mode: boolean;
     api_version: string;
+    search_mode?: SearchMode;
+    validation?: StructuredOutputValidation; // How the model's answer fared against the findings schema
   };
+}
+
+export type SearchMode = 'standard' | 'deepthinking';
+
+// Structured Output Types: model answers checked against a response schema
+export type SchemaViolationCode =
+  | 'invalid_json'      // No parseable JSON in the answer
+  | 'missing_field'
+  | 'invalid_type'
+  | 'invalid_value'     // Not one of the allowed enum values
+  | 'empty_value';      // Below minLength / minItems
+
+export interface SchemaViolation {
+  path: string;         // e.g. [0].relationship_type; empty for the whole answer
+  code: SchemaViolationCode;
+  message: string;
+}
+
+export interface StructuredOutputValidation {
+  status: 'valid' | 'repaired' | 'invalid';
+  schema_enforced: boolean;          // The provider constrained the first answer to the schema
+  repair_attempts: number;
+  errors: SchemaViolation[];         // Violations left in the final answer
+  initial_errors?: SchemaViolation[]; // Violations of the first answer, when it had any
+}
+
+// Batch Search Types: one institution checked against a list of risk entities
+export interface BatchSearchRequest {
+  Target_institution: string;
+  Risk_Entities: string[];
+  Location: string;
+  Start_Date?: string;
+  End_Date?: string;
+  Provider?: string;
+  Model?: string;
+  concurrency?: number;   // Searches in flight at once (default BATCH_SEARCH_CONCURRENCY)
+  max_retries?: number;   // Retries per risk entity after a failed search (default BATCH_SEARCH_MAX_RETRIES)
+}
+
+export interface BatchEntityResult {
+  index: number;          // Position in Risk_Entities
+  risk_entity: string;
+  status: 'completed' | 'failed' | 'cancelled'; // cancelled: never started, the batch was cancelled first
+  attempts: number;
+  processing_time_ms: number;
+  result?: OptimizedSearchResponse;
+  error?: string;
+}
+
+export interface BatchSearchSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  relationship_counts: Record<string, number>;
+  // Risk entities with a Direct, Indirect or Significant Mention finding
+  flagged_entities: Array<{ risk_entity: string; relationship_type: string }>;
+  failed_entities: string[];
+  cancelled_entities: string[];
+  total_sources: number;
+  processing_time_ms: number;
+}
+
+export interface BatchSearchResponse {
+  version: string;
+  success: boolean;
+  data: {
+    institution_A: string;
+    location: string;
+    results: BatchEntityResult[];
+    summary: BatchSearchSummary;
+  };
+  metadata: {
+    timestamp: string;
+    processing_time_ms: number;
+    search_mode: SearchMode;
+    concurrency: number;
+    max_retries: number;
+    cancelled: boolean;   // Client disconnected before every risk entity was searched
+    api_version: string;
+  };
+}
+
+// Progress callbacks for streaming batch searches
+export interface BatchSearchListener {
+  onStart?(total: number): void;
+  onEntityStart?(index: number, riskEntity: string): void;
+  onRetry?(index: number, riskEntity: string, attempt: number, error: string, delayMs: number): void;
+  onEntityComplete?(result: BatchEntityResult, completed: number, total: number): void;
 }
\ No newline at end of file
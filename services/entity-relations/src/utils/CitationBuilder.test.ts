@@ -0,0 +1,64 @@
+import { CitationBuilder, GroundingSupport } from '../shared/utils/CitationBuilder';
+
+// The answer as Gemini returns it: the summary is an escaped JSON string, and
+// support offsets are UTF-8 byte offsets into this text
+const answer = '```json\n[{"relationship_type": "Direct", "finding_summary": ' +
+  '"Zürich Instruments supplied \\"lasers\\" to the institute [1]. The contract was signed in 2021 [2]."}]\n```';
+const summary = 'Zürich Instruments supplied "lasers" to the institute [1]. The contract was signed in 2021 [2].';
+
+const support = (segment: string, chunks: number[], confidenceScores?: number[]): GroundingSupport => {
+  const start = answer.indexOf(segment);
+  return {
+    segment: {
+      text: segment,
+      startIndex: Buffer.byteLength(answer.slice(0, start)),
+      endIndex: Buffer.byteLength(answer.slice(0, start + segment.length))
+    },
+    groundingChunkIndices: chunks,
+    ...(confidenceScores ? { confidenceScores } : {})
+  };
+};
+
+describe('CitationBuilder', () => {
+  it('places supports by their byte offsets and replaces the model markers', () => {
+    const cited = CitationBuilder.build(summary, answer, [
+      support('Zürich Instruments supplied \\"lasers\\" to the institute [1]', [0], [0.71]),
+      support('The contract was signed in 2021 [2]', [1, 2], [0.64, 0.93])
+    ]);
+
+    expect(cited.finding_summary_with_citations)
+      .toBe('Zürich Instruments supplied "lasers" to the institute [1]. The contract was signed in 2021 [2, 3].');
+    expect(cited.citations).toEqual([
+      { id: 1, text: 'Zürich Instruments supplied "lasers" to the institute', start_index: 0, end_index: 53, source_ids: [1], confidence: 0.71, anchor: 'offset' },
+      { id: 2, text: 'The contract was signed in 2021', start_index: 59, end_index: 90, source_ids: [2, 3], confidence: 0.93, anchor: 'offset' }
+    ]);
+  });
+
+  it('merges supports of the same span', () => {
+    const cited = CitationBuilder.build(summary, answer, [
+      support('The contract was signed in 2021 [2]', [3]),
+      support('The contract was signed in 2021 [2]', [1])
+    ]);
+
+    expect(cited.citations).toHaveLength(1);
+    expect(cited.citations[0].source_ids).toEqual([2, 4]);
+  });
+
+  it('falls back to the segment text for a summary that is not the grounded one, and marks it', () => {
+    // A schema repair rewrote the summary; the offsets point into the original answer
+    const repaired = 'The contract was signed in 2021. Zürich Instruments supplied "lasers" to the institute.';
+
+    const cited = CitationBuilder.build(repaired, answer, [support('The contract was signed in 2021 [2]', [1])]);
+
+    expect(cited.citations).toEqual([
+      { id: 1, text: 'The contract was signed in 2021', start_index: 0, end_index: 31, source_ids: [2], anchor: 'text' }
+    ]);
+    expect(cited.finding_summary_with_citations).toBe('The contract was signed in 2021 [2]. Zürich Instruments supplied "lasers" to the institute.');
+  });
+
+  it('leaves out segments the summary does not contain', () => {
+    const cited = CitationBuilder.build('Nothing was found.', answer, [support('The contract was signed in 2021 [2]', [1])]);
+
+    expect(cited).toEqual({ finding_summary_with_citations: 'Nothing was found.', citations: [] });
+  });
+});
@@ -0,0 +1,60 @@
+import { Response } from 'express';
+
+/**
+ * Minimal Server-Sent Events writer for long-running searches.
+ * Sends a comment ping on an interval so proxies keep idle connections open,
+ * and stops writing once the client disconnects.
+ */
+export class SSEWriter {
+  private closed = false;
+  private pingInterval: NodeJS.Timeout | null = null;
+
+  constructor(private res: Response, pingIntervalMs: number = 15000) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    this.pingInterval = setInterval(() => this.write(': ping\n\n'), pingIntervalMs);
+    res.on('close', () => {
+      this.closed = true;
+      this.stopPing();
+    });
+  }
+
+  send(event: string, data: Record<string, any>): void {
+    this.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  end(): void {
+    this.stopPing();
+    if (!this.closed) {
+      this.closed = true;
+      this.res.end();
+    }
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private write(chunk: string): void {
+    if (this.closed) return;
+    try {
+      this.res.write(chunk);
+    } catch (error) {
+      console.error('❌ SSE write failed:', error);
+      this.closed = true;
+      this.stopPing();
+    }
+  }
+
+  private stopPing(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+}
\ No newline at end of file
@@ -4,6 +4,7 @@ import {
   RiskAnalysisResult,
   RiskAnalysisResponse
 } from '../types/risk-types';
+import { CitationBuilder, CitedSummary } from '../shared/utils/CitationBuilder';
 
 /**
  * Risk Keyword Analysis Service
@@ -459,20 +460,19 @@ Provide a comprehensive analysis in the specified JSON format, focusing on evide
   }
 
   /**
-   * Generate finding summary with citations
+   * Generate finding summary with citations: [n] markers for sources[n - 1] after each
+   * grounded span, placed from the grounding support offsets into the answer text
    */
   private generateFindingSummaryWithCitations(
     findingSummary: string,
-    _keyEvidence: any[],
-    _sources: any[]
-  ): string {
+    answerText: string,
+    groundingSupports: any[]
+  ): CitedSummary {
     if (!findingSummary || findingSummary === 'No analysis available') {
-      return 'No analysis available';
+      return { finding_summary_with_citations: 'No analysis available', citations: [] };
     }
 
-    // For now, return the original finding summary
-    // This can be enhanced later to include proper citation formatting
-    return findingSummary;
+    return CitationBuilder.build(findingSummary, answerText, groundingSupports);
   }
 
   /**
@@ -482,7 +482,8 @@ Provide a comprehensive analysis in the specified JSON format, focusing on evide
     analysis: any,
     groundingMetadata: any,
     sources: any[],
-    searchQueries: string[]
+    searchQueries: string[],
+    answerText: string
   ): RiskAnalysisResult {
     const evidenceCount = groundingMetadata.grounding_supports.length;
     const sourceCount = sources.length;
@@ -513,21 +514,23 @@ Provide a comprehensive analysis in the specified JSON format, focusing on evide
       relevantChunkIndices
     );
 
+    const citedSummary = this.generateFindingSummaryWithCitations(
+      analysis.finding_summary,
+      answerText,
+      groundingMetadata.grounding_supports
+    );
+
     return {
       risk_keyword: analysis.risk_keyword || 'unknown',
       relationship_type: analysis.relationship_type || 'Unknown',
       finding_summary: analysis.finding_summary || 'No analysis available',
-      finding_summary_with_citations: this.generateFindingSummaryWithCitations(
-        analysis.finding_summary,
-        keyEvidence,
-        sources
-      ),
+      finding_summary_with_citations: citedSummary.finding_summary_with_citations,
       potential_intermediary_B: Array.isArray(analysis.potential_intermediary_B)
         ? analysis.potential_intermediary_B
         : [],
       key_evidence: keyEvidence,
       sources: sources,
-      citations: [], // Empty array for now, can be enhanced later
+      citations: citedSummary.citations,
       search_queries: searchQueries,
       severity,
       confidence_score: confidenceScore
@@ -581,7 +584,8 @@ Provide a comprehensive analysis in the specified JSON format, focusing on evide
         analysis,
         groundingMetadata,
         sources,
-        groundingMetadata.web_search_queries
+        groundingMetadata.web_search_queries,
+        textContent
       );
 
       console.log(`Risk analysis completed for ${request.company} - ${request.keyword}`);
@@ -3,6 +3,8 @@
  * Defines interfaces for risk keyword analysis functionality
  */
 
+import { Citation } from '../shared/utils/CitationBuilder';
+
 export interface RiskKeywordAnalysisRequest {
   company: string;
   keyword: string;
@@ -24,12 +26,15 @@ export interface RiskAnalysisResult {
     url: string;
     type: string;
   }>;
-  citations?: any[];
+  citations?: Citation[];
   search_queries: string[];
   severity: 'high' | 'medium' | 'low' | 'none';
   confidence_score?: number;
 }
 
+// A grounded span of finding_summary; source_ids are 1-based indices into sources, as in key_evidence.source_indices
+export type { Citation };
+
 export interface RiskAnalysisResponse {
   success: boolean;
   data: RiskAnalysisResult;
@@ -0,0 +1,274 @@
+/**
+ * Citation Builder
+ * Anchors Gemini grounding supports to finding summaries; shared by the
+ * Entity Relations and Entity Search services
+ */
+
+// groundingSupports entry of a Gemini response
+export interface GroundingSupport {
+  segment?: { text?: string; startIndex?: number; endIndex?: number };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];   // One per grounding chunk
+}
+
+// A grounded span of finding_summary and the sources that support it
+export interface Citation {
+  id: number;              // 1-based, in order of appearance
+  text: string;            // finding_summary.slice(start_index, end_index)
+  start_index: number;     // Character offsets into finding_summary (not the marked-up text)
+  end_index: number;
+  source_ids: number[];    // Grounding chunk index + 1
+  confidence?: number;     // Highest confidence score of the support
+  // offset: placed by the support's offsets into the grounded answer; text: the
+  // offsets did not lead into this summary (e.g. it was rewritten by a repair),
+  // so the span was found by searching for the segment text
+  anchor: 'offset' | 'text';
+}
+
+export interface CitedSummary {
+  finding_summary_with_citations: string;
+  citations: Citation[];
+}
+
+// A JSON string literal of the answer, decoded, with the answer offset of every decoded character
+interface DecodedString {
+  text: string;
+  rawStart: number;
+  rawEnd: number;        // Offset of the closing quote
+  rawIndex: number[];    // rawIndex[i]: answer offset of text[i]; rawIndex[text.length] === rawEnd
+}
+
+// Citation markers the model writes itself; they number its own source list, not source ids
+const MODEL_MARKER_PATTERN = /\s*\[\d+(?:\s*,\s*\d+)*\]/g;
+const TRAILING_MODEL_MARKER_PATTERN = /\s*\[\d+(?:\s*,\s*\d+)*\]$/;
+
+/**
+ * Anchors grounding supports to finding summaries. Gemini reports each
+ * supported segment as UTF-8 byte offsets into the whole answer, which holds
+ * the summary as an escaped JSON string; offsets are mapped through the
+ * decoded string into the summary and checked against the segment text.
+ * Segments the offsets cannot place are matched by their text instead.
+ */
+export class CitationBuilder {
+  /**
+   * Cite summary with supports, which must come from the same response as
+   * answerText: their offsets index into it. Source ids are grounding chunk index + 1
+   */
+  static build(summary: string, answerText: string, supports: GroundingSupport[]): CitedSummary {
+    if (!summary || supports.length === 0) {
+      return { finding_summary_with_citations: summary, citations: [] };
+    }
+
+    const toCharIndex = CitationBuilder.byteToCharIndex(answerText);
+    const summaryStrings = CitationBuilder.decodeFieldStrings(answerText, 'finding_summary');
+    const spans: Array<Omit<Citation, 'id'>> = [];
+
+    supports.forEach(support => {
+      const sourceIds = Array.from(new Set(support.groundingChunkIndices || [])).map(index => index + 1);
+      if (sourceIds.length === 0) return;
+
+      const span = CitationBuilder.locate(summary, answerText, support, summaryStrings, toCharIndex);
+      if (!span) return;
+
+      // Segments usually end in the model's own marker, which is not part of the cited text
+      const trailingMarker = summary.slice(span.start, span.end).match(TRAILING_MODEL_MARKER_PATTERN);
+      if (trailingMarker && trailingMarker.index! > 0) {
+        span.end = span.start + trailingMarker.index!;
+      }
+
+      const existing = spans.find(other => other.start_index === span.start && other.end_index === span.end);
+      if (existing) {
+        existing.source_ids = Array.from(new Set([...existing.source_ids, ...sourceIds])).sort((a, b) => a - b);
+        return;
+      }
+
+      spans.push({
+        text: summary.slice(span.start, span.end),
+        start_index: span.start,
+        end_index: span.end,
+        source_ids: sourceIds.sort((a, b) => a - b),
+        ...(support.confidenceScores?.length ? { confidence: Math.max(...support.confidenceScores) } : {}),
+        anchor: span.anchor
+      });
+    });
+
+    const citations = spans
+      .sort((a, b) => a.start_index - b.start_index || a.end_index - b.end_index)
+      .map((span, index) => ({ id: index + 1, ...span }));
+
+    return {
+      finding_summary_with_citations: citations.length > 0 ? CitationBuilder.insertMarkers(summary, citations) : summary,
+      citations
+    };
+  }
+
+  /**
+   * Character span of a support in summary: by offsets where they land inside a
+   * finding_summary string of the answer that is this summary, otherwise by the
+   * segment text
+   */
+  private static locate(
+    summary: string,
+    answerText: string,
+    support: GroundingSupport,
+    summaryStrings: DecodedString[],
+    toCharIndex: (byteOffset: number) => number
+  ): { start: number; end: number; anchor: Citation['anchor'] } | null {
+    const segmentText = support.segment?.text || '';
+    let rawStart = toCharIndex(support.segment?.startIndex || 0);
+    let rawEnd = toCharIndex(support.segment?.endIndex || 0);
+
+    // Offsets are relative to the answer part; with several parts, trust the text instead
+    if (segmentText && answerText.slice(rawStart, rawEnd) !== segmentText) {
+      const found = answerText.indexOf(segmentText);
+      rawStart = found;
+      rawEnd = found + segmentText.length;
+    }
+
+    const container = rawStart >= 0
+      ? summaryStrings.find(decoded => rawStart < decoded.rawEnd && rawEnd > decoded.rawStart)
+      : undefined;
+
+    if (container) {
+      const start = container.rawIndex.findIndex(index => index >= rawStart);
+      const endIndex = container.rawIndex.findIndex(index => index >= rawEnd);
+      const end = endIndex === -1 ? container.text.length : endIndex;
+      const decodedSegment = container.text.slice(start, end).trim();
+      if (!decodedSegment) return null;
+
+      // Display formatting only inserts line breaks, so the segment is at or after its decoded offset
+      if (CitationBuilder.collapseWhitespace(container.text) === CitationBuilder.collapseWhitespace(summary)) {
+        const decodedOffset = container.text.indexOf(decodedSegment, start);
+        const position = summary.indexOf(decodedSegment, Math.min(decodedOffset, summary.length));
+        if (position !== -1) {
+          return { start: position, end: position + decodedSegment.length, anchor: 'offset' };
+        }
+      }
+
+      return CitationBuilder.findText(summary, decodedSegment);
+    }
+
+    return CitationBuilder.findText(summary, segmentText.trim());
+  }
+
+  /**
+   * Span of segment in summary by its text, also without the model's markers,
+   * which a rewritten summary may have dropped
+   */
+  private static findText(summary: string, segment: string): { start: number; end: number; anchor: 'text' } | null {
+    for (const candidate of [segment, segment.replace(MODEL_MARKER_PATTERN, '').trim()]) {
+      const position = candidate ? summary.indexOf(candidate) : -1;
+      if (position !== -1) {
+        return { start: position, end: position + candidate.length, anchor: 'text' };
+      }
+    }
+    return null;
+  }
+
+  private static collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Summary with the model's own markers removed and a [id, ...] marker of source ids after each cited span
+   */
+  private static insertMarkers(summary: string, citations: Citation[]): string {
+    const insertions = new Map<number, number[]>();
+    citations.forEach(citation => {
+      const ids = insertions.get(citation.end_index) || [];
+      insertions.set(citation.end_index, Array.from(new Set([...ids, ...citation.source_ids])).sort((a, b) => a - b));
+    });
+
+    const removals: Array<[number, number]> = [];
+    for (const match of summary.matchAll(MODEL_MARKER_PATTERN)) {
+      removals.push([match.index!, match.index! + match[0].length]);
+    }
+
+    let result = '';
+    for (let position = 0; position <= summary.length; position++) {
+      const ids = insertions.get(position);
+      const insideMarker = removals.some(([start, end]) => position >= start && position < end);
+
+      // A span ending just before a model marker is cited after the marker is dropped
+      if (ids && !insideMarker) {
+        result += ` [${ids.join(', ')}]`;
+      } else if (ids) {
+        const marker = removals.find(([start, end]) => position >= start && position < end)!;
+        insertions.set(marker[1], Array.from(new Set([...(insertions.get(marker[1]) || []), ...ids])).sort((a, b) => a - b));
+      }
+
+      if (position < summary.length && !insideMarker) {
+        result += summary[position];
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Every string value of key in the JSON within text, decoded
+   */
+  private static decodeFieldStrings(text: string, key: string): DecodedString[] {
+    const decoded: DecodedString[] = [];
+    const keyPattern = new RegExp(`"${key}"\\s*:\\s*"`, 'g');
+    const escapes: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+    for (const match of text.matchAll(keyPattern)) {
+      const rawStart = match.index! + match[0].length;
+      const rawIndex: number[] = [];
+      let value = '';
+      let position = rawStart;
+
+      while (position < text.length && text[position] !== '"') {
+        rawIndex.push(position);
+        if (text[position] === '\\' && position + 1 < text.length) {
+          const next = text[position + 1];
+          if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(position + 2, position + 6))) {
+            value += String.fromCharCode(parseInt(text.slice(position + 2, position + 6), 16));
+            position += 6;
+          } else {
+            value += escapes[next] ?? next;
+            position += 2;
+          }
+        } else {
+          value += text[position];
+          position++;
+        }
+      }
+
+      rawIndex.push(position);
+      decoded.push({ text: value, rawStart, rawEnd: position, rawIndex });
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Maps UTF-8 byte offsets of text to string (UTF-16) offsets
+   */
+  private static byteToCharIndex(text: string): (byteOffset: number) => number {
+    const byteStarts: number[] = [];
+    let bytes = 0;
+    for (let index = 0; index < text.length; index++) {
+      byteStarts.push(bytes);
+      const code = text.charCodeAt(index);
+      if (code < 0x80) bytes += 1;
+      else if (code < 0x800) bytes += 2;
+      else if (code >= 0xD800 && code <= 0xDBFF) bytes += 4; // High surrogate carries the whole code point
+      else if (code >= 0xDC00 && code <= 0xDFFF) bytes += 0;
+      else bytes += 3;
+    }
+    byteStarts.push(bytes);
+
+    return (byteOffset: number) => {
+      let low = 0;
+      let high = byteStarts.length - 1;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (byteStarts[middle] < byteOffset) low = middle + 1;
+        else high = middle;
+      }
+      return low;
+    };
+  }
+}
\ No newline at end of file